@@ -0,0 +1,73 @@
+-- Milestone-based escrow releases for MILESTONE_BASED projects
+
+CREATE TABLE IF NOT EXISTS "public"."Milestone" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "dueDate" TIMESTAMP(3),
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "acceptedAt" TIMESTAMP(3),
+    "acceptedBy" TEXT,
+    "paidAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Milestone_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE IF NOT EXISTS "public"."_MilestoneDepartments" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_MilestoneDepartments_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+ALTER TABLE "public"."Task" ADD COLUMN IF NOT EXISTS "milestoneId" TEXT;
+ALTER TABLE "public"."BlockchainTransaction" ADD COLUMN IF NOT EXISTS "milestoneId" TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "Milestone_name_projectId_key" ON "public"."Milestone"("name", "projectId");
+CREATE INDEX IF NOT EXISTS "Milestone_projectId_idx" ON "public"."Milestone"("projectId");
+CREATE INDEX IF NOT EXISTS "Milestone_status_idx" ON "public"."Milestone"("status");
+CREATE INDEX IF NOT EXISTS "_MilestoneDepartments_B_index" ON "public"."_MilestoneDepartments"("B");
+CREATE INDEX IF NOT EXISTS "Task_milestoneId_idx" ON "public"."Task"("milestoneId");
+CREATE INDEX IF NOT EXISTS "BlockchainTransaction_milestoneId_idx" ON "public"."BlockchainTransaction"("milestoneId");
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'Milestone_projectId_fkey'
+    ) THEN
+        ALTER TABLE "public"."Milestone" ADD CONSTRAINT "Milestone_projectId_fkey"
+        FOREIGN KEY ("projectId") REFERENCES "public"."Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'Task_milestoneId_fkey'
+    ) THEN
+        ALTER TABLE "public"."Task" ADD CONSTRAINT "Task_milestoneId_fkey"
+        FOREIGN KEY ("milestoneId") REFERENCES "public"."Milestone"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'BlockchainTransaction_milestoneId_fkey'
+    ) THEN
+        ALTER TABLE "public"."BlockchainTransaction" ADD CONSTRAINT "BlockchainTransaction_milestoneId_fkey"
+        FOREIGN KEY ("milestoneId") REFERENCES "public"."Milestone"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = '_MilestoneDepartments_A_fkey'
+    ) THEN
+        ALTER TABLE "public"."_MilestoneDepartments" ADD CONSTRAINT "_MilestoneDepartments_A_fkey"
+        FOREIGN KEY ("A") REFERENCES "public"."Department"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = '_MilestoneDepartments_B_fkey'
+    ) THEN
+        ALTER TABLE "public"."_MilestoneDepartments" ADD CONSTRAINT "_MilestoneDepartments_B_fkey"
+        FOREIGN KEY ("B") REFERENCES "public"."Milestone"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+    END IF;
+END $$;
@@ -0,0 +1,49 @@
+-- Manager oversight cuts of settled task payouts
+
+CREATE TABLE IF NOT EXISTS "public"."OversightPayment" (
+    "id" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "userRoleId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "baseAmount" DOUBLE PRECISION NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "status" "public"."PaymentStatus" NOT NULL DEFAULT 'ALLOCATED',
+    "jobId" TEXT,
+    "txHash" TEXT,
+    "errorMessage" TEXT,
+    "paidAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OversightPayment_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "OversightPayment_taskId_userRoleId_key" ON "public"."OversightPayment"("taskId", "userRoleId");
+CREATE INDEX IF NOT EXISTS "OversightPayment_projectId_idx" ON "public"."OversightPayment"("projectId");
+CREATE INDEX IF NOT EXISTS "OversightPayment_userRoleId_idx" ON "public"."OversightPayment"("userRoleId");
+CREATE INDEX IF NOT EXISTS "OversightPayment_status_idx" ON "public"."OversightPayment"("status");
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'OversightPayment_taskId_fkey'
+    ) THEN
+        ALTER TABLE "public"."OversightPayment" ADD CONSTRAINT "OversightPayment_taskId_fkey"
+        FOREIGN KEY ("taskId") REFERENCES "public"."Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'OversightPayment_userRoleId_fkey'
+    ) THEN
+        ALTER TABLE "public"."OversightPayment" ADD CONSTRAINT "OversightPayment_userRoleId_fkey"
+        FOREIGN KEY ("userRoleId") REFERENCES "public"."UserRole"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'OversightPayment_projectId_fkey'
+    ) THEN
+        ALTER TABLE "public"."OversightPayment" ADD CONSTRAINT "OversightPayment_projectId_fkey"
+        FOREIGN KEY ("projectId") REFERENCES "public"."Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+    END IF;
+END $$;
@@ -0,0 +1,5 @@
+-- Escrow freeze / close-out bookkeeping
+ALTER TABLE "public"."ProjectEscrow" ADD COLUMN IF NOT EXISTS "frozenAt" TIMESTAMP(3);
+ALTER TABLE "public"."ProjectEscrow" ADD COLUMN IF NOT EXISTS "frozenBy" TEXT;
+ALTER TABLE "public"."ProjectEscrow" ADD COLUMN IF NOT EXISTS "freezeReason" TEXT;
+ALTER TABLE "public"."ProjectEscrow" ADD COLUMN IF NOT EXISTS "closedAt" TIMESTAMP(3);
@@ -0,0 +1,68 @@
+-- Append-only escrow ledger and reconciliation reports
+
+CREATE TABLE IF NOT EXISTS "public"."EscrowLedgerEntry" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "entryGroup" TEXT NOT NULL,
+    "entryType" TEXT NOT NULL,
+    "account" TEXT NOT NULL,
+    "debit" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "credit" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "asset" TEXT NOT NULL DEFAULT 'SIZCOIN',
+    "txHash" TEXT,
+    "taskId" TEXT,
+    "reference" TEXT,
+    "memo" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EscrowLedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "EscrowLedgerEntry_projectId_account_idx" ON "public"."EscrowLedgerEntry"("projectId", "account");
+CREATE INDEX IF NOT EXISTS "EscrowLedgerEntry_entryGroup_idx" ON "public"."EscrowLedgerEntry"("entryGroup");
+CREATE INDEX IF NOT EXISTS "EscrowLedgerEntry_txHash_idx" ON "public"."EscrowLedgerEntry"("txHash");
+
+CREATE TABLE IF NOT EXISTS "public"."EscrowReconciliation" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "ledgerBalance" DOUBLE PRECISION NOT NULL,
+    "onChainBalance" DOUBLE PRECISION NOT NULL,
+    "recordedBalance" DOUBLE PRECISION NOT NULL,
+    "mismatchCount" INTEGER NOT NULL DEFAULT 0,
+    "mismatches" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EscrowReconciliation_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "EscrowReconciliation_projectId_createdAt_idx" ON "public"."EscrowReconciliation"("projectId", "createdAt");
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'EscrowLedgerEntry_projectId_fkey'
+    ) THEN
+        ALTER TABLE "public"."EscrowLedgerEntry" ADD CONSTRAINT "EscrowLedgerEntry_projectId_fkey"
+        FOREIGN KEY ("projectId") REFERENCES "public"."Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'EscrowReconciliation_projectId_fkey'
+    ) THEN
+        ALTER TABLE "public"."EscrowReconciliation" ADD CONSTRAINT "EscrowReconciliation_projectId_fkey"
+        FOREIGN KEY ("projectId") REFERENCES "public"."Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+    END IF;
+END $$;
+
+-- The ledger is append-only: reject updates at the database level
+CREATE OR REPLACE FUNCTION "public"."escrow_ledger_append_only"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'EscrowLedgerEntry is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS "EscrowLedgerEntry_no_update" ON "public"."EscrowLedgerEntry";
+CREATE TRIGGER "EscrowLedgerEntry_no_update"
+    BEFORE UPDATE ON "public"."EscrowLedgerEntry"
+    FOR EACH ROW EXECUTE FUNCTION "public"."escrow_ledger_append_only"();
@@ -0,0 +1,5 @@
+-- Challenge message backing each wallet ownership signature
+ALTER TABLE "public"."UserWallet" ADD COLUMN IF NOT EXISTS "challenge" TEXT;
+
+-- Signatures accepted before real verification proved nothing
+UPDATE "public"."UserWallet" SET "verified" = false, "verifiedAt" = NULL WHERE "challenge" IS NULL;
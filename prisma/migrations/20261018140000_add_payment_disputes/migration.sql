@@ -0,0 +1,53 @@
+-- Payment holds and disputes between task approval and payout
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'DisputeStatus') THEN
+        CREATE TYPE "public"."DisputeStatus" AS ENUM ('OPEN', 'UNDER_REVIEW', 'RESOLVED_PAY', 'RESOLVED_REFUND');
+    END IF;
+END $$;
+
+ALTER TABLE "public"."Payment" ADD COLUMN IF NOT EXISTS "jobId" TEXT;
+ALTER TABLE "public"."Payment" ADD COLUMN IF NOT EXISTS "holdUntil" TIMESTAMP(3);
+
+CREATE TABLE IF NOT EXISTS "public"."PaymentDispute" (
+    "id" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "raisedBy" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "proposedAmount" DOUBLE PRECISION,
+    "originalAmount" DOUBLE PRECISION NOT NULL,
+    "resolvedAmount" DOUBLE PRECISION,
+    "status" "public"."DisputeStatus" NOT NULL DEFAULT 'OPEN',
+    "resolution" TEXT,
+    "reviewedBy" TEXT,
+    "resolvedBy" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PaymentDispute_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "PaymentDispute_taskId_idx" ON "public"."PaymentDispute"("taskId");
+CREATE INDEX IF NOT EXISTS "PaymentDispute_paymentId_idx" ON "public"."PaymentDispute"("paymentId");
+CREATE INDEX IF NOT EXISTS "PaymentDispute_projectId_status_idx" ON "public"."PaymentDispute"("projectId", "status");
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'PaymentDispute_taskId_fkey'
+    ) THEN
+        ALTER TABLE "public"."PaymentDispute" ADD CONSTRAINT "PaymentDispute_taskId_fkey"
+        FOREIGN KEY ("taskId") REFERENCES "public"."Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'PaymentDispute_paymentId_fkey'
+    ) THEN
+        ALTER TABLE "public"."PaymentDispute" ADD CONSTRAINT "PaymentDispute_paymentId_fkey"
+        FOREIGN KEY ("paymentId") REFERENCES "public"."Payment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+    END IF;
+END $$;
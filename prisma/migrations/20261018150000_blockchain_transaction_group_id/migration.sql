@@ -0,0 +1,3 @@
+-- Atomic group id for batch payouts
+ALTER TABLE "public"."BlockchainTransaction" ADD COLUMN IF NOT EXISTS "groupId" TEXT;
+CREATE INDEX IF NOT EXISTS "BlockchainTransaction_groupId_idx" ON "public"."BlockchainTransaction"("groupId");
@@ -0,0 +1,3 @@
+-- Master key id of envelope-encrypted escrow keys (NULL = legacy ENCRYPTION_SECRET)
+ALTER TABLE "public"."ProjectEscrow" ADD COLUMN IF NOT EXISTS "keyId" TEXT;
+CREATE INDEX IF NOT EXISTS "ProjectEscrow_keyId_idx" ON "public"."ProjectEscrow"("keyId");
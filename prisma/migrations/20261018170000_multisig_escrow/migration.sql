@@ -0,0 +1,46 @@
+-- Multisig vault for co-signed escrow payouts
+ALTER TABLE "public"."ProjectEscrow" ADD COLUMN IF NOT EXISTS "multisigAddress" TEXT;
+ALTER TABLE "public"."ProjectEscrow" ADD COLUMN IF NOT EXISTS "multisigThreshold" INTEGER;
+ALTER TABLE "public"."ProjectEscrow" ADD COLUMN IF NOT EXISTS "multisigSigners" TEXT[] DEFAULT ARRAY[]::TEXT[];
+ALTER TABLE "public"."ProjectEscrow" ADD COLUMN IF NOT EXISTS "coSignAmount" DOUBLE PRECISION;
+CREATE UNIQUE INDEX IF NOT EXISTS "ProjectEscrow_multisigAddress_key" ON "public"."ProjectEscrow"("multisigAddress");
+
+CREATE TABLE IF NOT EXISTS "public"."MultisigPayout" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "taskId" TEXT,
+    "paymentId" TEXT,
+    "fromAddress" TEXT NOT NULL,
+    "toAddress" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "note" TEXT,
+    "txId" TEXT NOT NULL,
+    "unsignedTxn" TEXT NOT NULL,
+    "signedTxn" TEXT NOT NULL,
+    "signedBy" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "lastValidRound" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING_SIGNATURES',
+    "errorMessage" TEXT,
+    "requestedBy" TEXT,
+    "submittedAt" TIMESTAMP(3),
+    "confirmedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MultisigPayout_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "MultisigPayout_txId_key" ON "public"."MultisigPayout"("txId");
+CREATE INDEX IF NOT EXISTS "MultisigPayout_projectId_status_idx" ON "public"."MultisigPayout"("projectId", "status");
+CREATE INDEX IF NOT EXISTS "MultisigPayout_taskId_idx" ON "public"."MultisigPayout"("taskId");
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'MultisigPayout_projectId_fkey'
+    ) THEN
+        ALTER TABLE "public"."MultisigPayout" ADD CONSTRAINT "MultisigPayout_projectId_fkey"
+        FOREIGN KEY ("projectId") REFERENCES "public"."Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+    END IF;
+END $$;
@@ -0,0 +1,6 @@
+-- Per-project settlement asset; existing rows are SIZCOIN
+ALTER TABLE "public"."ProjectEscrow" ADD COLUMN IF NOT EXISTS "assetId" BIGINT NOT NULL DEFAULT 2905622564;
+ALTER TABLE "public"."Task" ADD COLUMN IF NOT EXISTS "assetId" BIGINT NOT NULL DEFAULT 2905622564;
+ALTER TABLE "public"."RecurringPayment" ADD COLUMN IF NOT EXISTS "assetId" BIGINT NOT NULL DEFAULT 2905622564;
+ALTER TABLE "public"."BlockchainTransaction" ADD COLUMN IF NOT EXISTS "assetId" BIGINT NOT NULL DEFAULT 2905622564;
+CREATE INDEX IF NOT EXISTS "BlockchainTransaction_projectId_assetId_idx" ON "public"."BlockchainTransaction"("projectId", "assetId");
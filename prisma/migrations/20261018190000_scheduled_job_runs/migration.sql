@@ -0,0 +1,22 @@
+-- Run history of the BullMQ-scheduled maintenance jobs
+
+CREATE TABLE IF NOT EXISTS "public"."ScheduledJobRun" (
+    "id" TEXT NOT NULL,
+    "jobName" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "triggeredBy" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'RUNNING',
+    "queueJobId" TEXT,
+    "processed" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "paused" INTEGER NOT NULL DEFAULT 0,
+    "result" JSONB,
+    "errorMessage" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ScheduledJobRun_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "ScheduledJobRun_jobName_startedAt_idx" ON "public"."ScheduledJobRun"("jobName", "startedAt");
+CREATE INDEX IF NOT EXISTS "ScheduledJobRun_status_idx" ON "public"."ScheduledJobRun"("status");
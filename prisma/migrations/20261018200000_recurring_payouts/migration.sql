@@ -0,0 +1,35 @@
+-- Per-period recurring payout records and catch-up limit
+
+ALTER TABLE "public"."Project" ADD COLUMN IF NOT EXISTS "maxCatchUpPeriods" INTEGER NOT NULL DEFAULT 3;
+
+CREATE TABLE IF NOT EXISTS "public"."RecurringPayout" (
+    "id" TEXT NOT NULL,
+    "recurringPaymentId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "assetId" BIGINT NOT NULL DEFAULT 2905622564,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "txHash" TEXT,
+    "lastValidRound" INTEGER,
+    "errorMessage" TEXT,
+    "paidAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RecurringPayout_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "RecurringPayout_recurringPaymentId_periodStart_key" ON "public"."RecurringPayout"("recurringPaymentId", "periodStart");
+CREATE UNIQUE INDEX IF NOT EXISTS "RecurringPayout_txHash_key" ON "public"."RecurringPayout"("txHash");
+CREATE INDEX IF NOT EXISTS "RecurringPayout_projectId_status_idx" ON "public"."RecurringPayout"("projectId", "status");
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'RecurringPayout_recurringPaymentId_fkey'
+    ) THEN
+        ALTER TABLE "public"."RecurringPayout" ADD CONSTRAINT "RecurringPayout_recurringPaymentId_fkey"
+        FOREIGN KEY ("recurringPaymentId") REFERENCES "public"."RecurringPayment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+    END IF;
+END $$;
@@ -0,0 +1,3 @@
+-- Cron-style schedules for recurring payments
+
+ALTER TABLE "public"."RecurringPayment" ADD COLUMN IF NOT EXISTS "cronExpression" TEXT;
@@ -0,0 +1,10 @@
+-- Structured pause reason on recurring payments
+
+ALTER TABLE "public"."RecurringPayment" ADD COLUMN IF NOT EXISTS "pauseReason" TEXT;
+ALTER TABLE "public"."RecurringPayment" ADD COLUMN IF NOT EXISTS "pauseMessage" TEXT;
+ALTER TABLE "public"."RecurringPayment" ADD COLUMN IF NOT EXISTS "pausedAt" TIMESTAMP(3);
+
+-- Payments paused before reasons were stored are treated as paused by hand
+UPDATE "public"."RecurringPayment" SET "pauseReason" = 'MANUAL' WHERE "status" = 'PAUSED' AND "pauseReason" IS NULL;
+
+CREATE INDEX IF NOT EXISTS "RecurringPayment_projectId_status_pauseReason_idx" ON "public"."RecurringPayment"("projectId", "status", "pauseReason");
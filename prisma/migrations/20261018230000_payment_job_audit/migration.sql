@@ -0,0 +1,24 @@
+-- Audit trail of admin actions on task-payments queue jobs
+
+CREATE TABLE IF NOT EXISTS "public"."PaymentJobAudit" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "jobName" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "previousState" TEXT NOT NULL,
+    "newJobId" TEXT,
+    "txHash" TEXT,
+    "reason" TEXT,
+    "actorId" TEXT,
+    "actorEmail" TEXT,
+    "projectId" TEXT,
+    "taskId" TEXT,
+    "details" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PaymentJobAudit_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "PaymentJobAudit_jobId_idx" ON "public"."PaymentJobAudit"("jobId");
+CREATE INDEX IF NOT EXISTS "PaymentJobAudit_projectId_idx" ON "public"."PaymentJobAudit"("projectId");
+CREATE INDEX IF NOT EXISTS "PaymentJobAudit_createdAt_idx" ON "public"."PaymentJobAudit"("createdAt");
@@ -0,0 +1,6 @@
+-- Confirmation depth tracking and lost-transaction recovery for payouts
+
+ALTER TABLE "public"."BlockchainTransaction" ADD COLUMN IF NOT EXISTS "lastValidRound" INTEGER;
+ALTER TABLE "public"."BlockchainTransaction" ADD COLUMN IF NOT EXISTS "lastCheckedAt" TIMESTAMP(3);
+
+ALTER TABLE "public"."Task" ADD COLUMN IF NOT EXISTS "payoutResubmissions" INTEGER NOT NULL DEFAULT 0;
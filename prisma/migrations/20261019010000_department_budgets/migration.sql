@@ -0,0 +1,5 @@
+-- Per-department budgets with soft and hard allocation caps
+
+ALTER TABLE "public"."Department" ADD COLUMN IF NOT EXISTS "budgetAmount" DOUBLE PRECISION;
+ALTER TABLE "public"."Department" ADD COLUMN IF NOT EXISTS "budgetSoftCap" DOUBLE PRECISION;
+ALTER TABLE "public"."Department" ADD COLUMN IF NOT EXISTS "budgetHardCap" DOUBLE PRECISION;
@@ -0,0 +1,37 @@
+-- Persisted alerts raised by the alert rules, with acknowledgement and resolution state
+
+CREATE TABLE IF NOT EXISTS "public"."Alert" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "alertType" TEXT NOT NULL,
+    "severity" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "subjectKey" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "details" JSONB,
+    "occurrences" INTEGER NOT NULL DEFAULT 1,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "acknowledgedAt" TIMESTAMP(3),
+    "acknowledgedBy" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedBy" TEXT,
+    "resolutionNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Alert_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "Alert_projectId_status_idx" ON "public"."Alert"("projectId", "status");
+CREATE INDEX IF NOT EXISTS "Alert_alertType_subjectKey_status_idx" ON "public"."Alert"("alertType", "subjectKey", "status");
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'Alert_projectId_fkey'
+    ) THEN
+        ALTER TABLE "public"."Alert" ADD CONSTRAINT "Alert_projectId_fkey"
+        FOREIGN KEY ("projectId") REFERENCES "public"."Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+    END IF;
+END $$;
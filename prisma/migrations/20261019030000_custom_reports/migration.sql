@@ -0,0 +1,30 @@
+-- Saved definitions of the analytics report builder
+
+CREATE TABLE IF NOT EXISTS "public"."CustomReport" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "ownerId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "entity" TEXT NOT NULL,
+    "dimensions" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "measures" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "filters" JSONB NOT NULL DEFAULT '{}',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CustomReport_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "CustomReport_ownerId_idx" ON "public"."CustomReport"("ownerId");
+CREATE INDEX IF NOT EXISTS "CustomReport_projectId_idx" ON "public"."CustomReport"("projectId");
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'CustomReport_projectId_fkey'
+    ) THEN
+        ALTER TABLE "public"."CustomReport" ADD CONSTRAINT "CustomReport_projectId_fkey"
+        FOREIGN KEY ("projectId") REFERENCES "public"."Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+    END IF;
+END $$;
@@ -0,0 +1,75 @@
+-- Saved analytics dashboards and their read-only share links
+
+CREATE TABLE IF NOT EXISTS "public"."Dashboard" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "ownerId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "widgets" JSONB NOT NULL DEFAULT '[]',
+    "layout" JSONB NOT NULL DEFAULT '[]',
+    "settings" JSONB NOT NULL DEFAULT '{}',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Dashboard_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE IF NOT EXISTS "public"."DashboardShare" (
+    "id" TEXT NOT NULL,
+    "dashboardId" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "recipientEmail" TEXT,
+    "permissions" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "widgetIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "scope" JSONB NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "revokedBy" TEXT,
+    "accessCount" INTEGER NOT NULL DEFAULT 0,
+    "lastAccessedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DashboardShare_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE IF NOT EXISTS "public"."DashboardShareAccess" (
+    "id" TEXT NOT NULL,
+    "shareId" TEXT NOT NULL,
+    "ip" TEXT,
+    "userAgent" TEXT,
+    "accessedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DashboardShareAccess_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "Dashboard_ownerId_idx" ON "public"."Dashboard"("ownerId");
+CREATE INDEX IF NOT EXISTS "Dashboard_projectId_idx" ON "public"."Dashboard"("projectId");
+CREATE UNIQUE INDEX IF NOT EXISTS "DashboardShare_tokenHash_key" ON "public"."DashboardShare"("tokenHash");
+CREATE INDEX IF NOT EXISTS "DashboardShare_dashboardId_idx" ON "public"."DashboardShare"("dashboardId");
+CREATE INDEX IF NOT EXISTS "DashboardShareAccess_shareId_accessedAt_idx" ON "public"."DashboardShareAccess"("shareId", "accessedAt");
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'Dashboard_projectId_fkey'
+    ) THEN
+        ALTER TABLE "public"."Dashboard" ADD CONSTRAINT "Dashboard_projectId_fkey"
+        FOREIGN KEY ("projectId") REFERENCES "public"."Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'DashboardShare_dashboardId_fkey'
+    ) THEN
+        ALTER TABLE "public"."DashboardShare" ADD CONSTRAINT "DashboardShare_dashboardId_fkey"
+        FOREIGN KEY ("dashboardId") REFERENCES "public"."Dashboard"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'DashboardShareAccess_shareId_fkey'
+    ) THEN
+        ALTER TABLE "public"."DashboardShareAccess" ADD CONSTRAINT "DashboardShareAccess_shareId_fkey"
+        FOREIGN KEY ("shareId") REFERENCES "public"."DashboardShare"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+    END IF;
+END $$;
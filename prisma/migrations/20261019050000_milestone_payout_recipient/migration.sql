@@ -0,0 +1,31 @@
+-- Milestone payouts are keyed on the recipient role instead of its wallet address
+
+ALTER TABLE "public"."BlockchainTransaction" ADD COLUMN IF NOT EXISTS "userRoleId" TEXT;
+
+-- Attribute existing live payouts to the role whose user owns the receiving wallet,
+-- at most one per milestone and role
+UPDATE "public"."BlockchainTransaction" AS bt
+SET "userRoleId" = matched."roleId"
+FROM (
+    SELECT DISTINCT ON (tx."milestoneId", ur."id") tx."id" AS "txId", ur."id" AS "roleId"
+    FROM "public"."BlockchainTransaction" AS tx
+    JOIN "public"."UserRole" AS ur ON ur."projectId" = tx."projectId"
+    JOIN "public"."User" AS u ON u."id" = ur."userId" AND u."walletAddress" = tx."toAddress"
+    WHERE tx."type" = 'MILESTONE_PAYMENT'
+      AND tx."milestoneId" IS NOT NULL
+      AND tx."status" <> 'FAILED'
+      AND tx."userRoleId" IS NULL
+      AND NOT EXISTS (
+          SELECT 1 FROM "public"."BlockchainTransaction" AS other
+          WHERE other."milestoneId" = tx."milestoneId"
+            AND other."userRoleId" = ur."id"
+            AND other."status" <> 'FAILED'
+      )
+    ORDER BY tx."milestoneId", ur."id", tx."createdAt"
+) AS matched
+WHERE bt."id" = matched."txId";
+
+-- One live payout per milestone and role; failed ones may be sent again
+CREATE UNIQUE INDEX IF NOT EXISTS "BlockchainTransaction_milestoneId_userRoleId_live_key"
+    ON "public"."BlockchainTransaction"("milestoneId", "userRoleId")
+    WHERE "milestoneId" IS NOT NULL AND "userRoleId" IS NOT NULL AND "status" <> 'FAILED';
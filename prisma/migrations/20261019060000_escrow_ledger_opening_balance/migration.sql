@@ -0,0 +1,62 @@
+-- Escrow ledger: block deletes as well as updates, and open every escrow that predates it
+
+-- Entries only go away with their project (ON DELETE CASCADE); any other change is a new posting
+CREATE OR REPLACE FUNCTION "public"."escrow_ledger_append_only"() RETURNS trigger AS $$
+BEGIN
+    IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM "public"."Project" WHERE "id" = OLD."projectId") THEN
+        RETURN OLD;
+    END IF;
+    RAISE EXCEPTION 'EscrowLedgerEntry is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS "EscrowLedgerEntry_no_delete" ON "public"."EscrowLedgerEntry";
+CREATE TRIGGER "EscrowLedgerEntry_no_delete"
+    BEFORE DELETE ON "public"."EscrowLedgerEntry"
+    FOR EACH ROW EXECUTE FUNCTION "public"."escrow_ledger_append_only"();
+
+-- Opening balances: whatever the recorded escrow figures hold beyond what the ledger
+-- already has is posted once as OPENING_BALANCE, so the ledger starts from the same
+-- deposited (current balance + released), allocated and released totals
+WITH "escrows" AS (
+    SELECT
+        e."projectId",
+        CASE e."assetId" WHEN 0 THEN 'ALGO' WHEN 2905622564 THEN 'SIZCOIN' ELSE 'USDC' END AS "asset",
+        e."currentBalance" + COALESCE(p."releasedFunds", 0) AS "deposited",
+        COALESCE(p."allocatedFunds", 0) AS "allocated",
+        COALESCE(p."releasedFunds", 0) AS "released"
+    FROM "public"."ProjectEscrow" e
+    JOIN "public"."Project" p ON p."id" = e."projectId"
+    WHERE NOT EXISTS (
+        SELECT 1 FROM "public"."EscrowLedgerEntry" l
+        WHERE l."projectId" = e."projectId" AND l."entryType" = 'OPENING_BALANCE'
+    )
+),
+"ledger" AS (
+    SELECT
+        es."projectId",
+        es."asset",
+        es."deposited" - COALESCE(SUM(l."credit" - l."debit") FILTER (WHERE l."account" = 'OWNER_FUNDING'), 0) AS "deposited",
+        es."allocated" - COALESCE(SUM(l."debit" - l."credit") FILTER (WHERE l."account" = 'ESCROW_ALLOCATED'), 0) AS "allocated",
+        es."released" - COALESCE(SUM(l."debit" - l."credit") FILTER (WHERE l."account" = 'PAYOUTS'), 0) AS "released"
+    FROM "escrows" es
+    LEFT JOIN "public"."EscrowLedgerEntry" l ON l."projectId" = es."projectId" AND l."asset" = es."asset"
+    GROUP BY es."projectId", es."asset", es."deposited", es."allocated", es."released"
+),
+"postings" AS MATERIALIZED (
+    SELECT "projectId", "asset", gen_random_uuid()::text AS "entryGroup", "deposited" AS "amount",
+           'ESCROW_AVAILABLE' AS "debitAccount", 'OWNER_FUNDING' AS "creditAccount", 'Opening balance: deposited' AS "memo"
+    FROM "ledger" WHERE "deposited" > 0
+    UNION ALL
+    SELECT "projectId", "asset", gen_random_uuid()::text, "allocated",
+           'ESCROW_ALLOCATED', 'ESCROW_AVAILABLE', 'Opening balance: allocated'
+    FROM "ledger" WHERE "allocated" > 0
+    UNION ALL
+    SELECT "projectId", "asset", gen_random_uuid()::text, "released",
+           'PAYOUTS', 'ESCROW_AVAILABLE', 'Opening balance: released'
+    FROM "ledger" WHERE "released" > 0
+)
+INSERT INTO "public"."EscrowLedgerEntry" ("id", "projectId", "entryGroup", "entryType", "account", "debit", "credit", "asset", "memo")
+SELECT gen_random_uuid()::text, "projectId", "entryGroup", 'OPENING_BALANCE', "debitAccount", "amount", 0, "asset", "memo" FROM "postings"
+UNION ALL
+SELECT gen_random_uuid()::text, "projectId", "entryGroup", 'OPENING_BALANCE', "creditAccount", 0, "amount", "asset", "memo" FROM "postings";
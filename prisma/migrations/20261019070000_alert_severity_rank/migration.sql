@@ -0,0 +1,13 @@
+-- Alerts are listed most severe first; severity is text, so its rank is stored alongside
+
+ALTER TABLE "public"."Alert" ADD COLUMN IF NOT EXISTS "severityRank" INTEGER NOT NULL DEFAULT 0;
+
+UPDATE "public"."Alert"
+SET "severityRank" = CASE "severity"
+    WHEN 'CRITICAL' THEN 3
+    WHEN 'HIGH' THEN 2
+    WHEN 'MEDIUM' THEN 1
+    ELSE 0
+END;
+
+CREATE INDEX IF NOT EXISTS "Alert_status_severityRank_lastSeenAt_idx" ON "public"."Alert"("status", "severityRank", "lastSeenAt");
@@ -19,6 +19,9 @@ import userRouter from './routes/user.js';
 import configRouter from './routes/config.js';
 import usersRouter from './routes/users.js';
 import adminUsersRouter from './routes/admin-users.js';
+import adminJobsRouter from './routes/admin-jobs.js';
+import adminPaymentJobsRouter from './routes/admin-payment-jobs.js';
+import adminEscrowsRouter from './routes/admin-escrows.js';
 import projectsRouter from './routes/projects.js';
 import departmentsRouter from './routes/departments.js';
 import rolesRouter from './routes/roles.js';
@@ -34,6 +37,9 @@ import transactionsRouter from './routes/transactions.js';
 import paymentConfigRouter from './routes/payment-config.js';
 import recurringPaymentsRouter from './routes/recurring-payments.js';
 import escrowEnhancedRouter from './routes/escrow-enhanced.js';
+import milestonesRouter from './routes/milestones.js';
+import disputesRouter from './routes/disputes.js';
+import statementsRouter from './routes/statements.js';
 import landAcquisitionRouter from './routes/land-acquisition.js';
 import satelliteRouter from './routes/satellite.js';
 import { setupCspReportRoutes } from './routes/csp-report.js';
@@ -78,6 +84,9 @@ app.use('/api/config', configRouter);
 // User management routes
 app.use('/api/users', usersRouter);
 app.use('/api/admin/users', adminUsersRouter);
+app.use('/api/admin/jobs', adminJobsRouter);
+app.use('/api/admin/payment-jobs', adminPaymentJobsRouter);
+app.use('/api/admin/escrows', adminEscrowsRouter);
 
 // Wallet routes
 app.use('/api/user/wallet', walletRouter);
@@ -114,6 +123,9 @@ app.use('/api', transactionsRouter);
 app.use('/api', paymentConfigRouter);
 app.use('/api', recurringPaymentsRouter);
 app.use('/api', escrowEnhancedRouter);
+app.use('/api', milestonesRouter);
+app.use('/api', disputesRouter);
+app.use('/api', statementsRouter);
 app.use('/api/land-acquisition', landAcquisitionRouter);
 app.use('/api/satellite', satelliteRouter);
 
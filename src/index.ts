@@ -1,5 +1,6 @@
 import { initializeWebSocket } from "./services/websocket.js";
-import { processRecurringPayments, checkLowBalanceAlerts } from "./services/recurringPaymentProcessor.js";
+import { startScheduler, stopScheduler } from "./services/scheduler.js";
+import { startReportExportWorker, stopReportExportWorker } from "./services/reportExport.js";
 import { createServer } from 'http';
 import { connectRedis, disconnectRedis } from "./services/redis.js";
 import app from './app.js';
@@ -18,47 +19,18 @@ const server = createServer(app);
 			console.warn('[Server] Redis not available - some features may be limited');
 		}
 		
-		initializeWebSocket(server);
-		
-		// Schedule recurring payment processing (daily at 00:00 UTC)
-		const scheduleDailyPayments = () => {
-			const now = new Date();
-			const midnight = new Date(now);
-			midnight.setUTCHours(24, 0, 0, 0);
-			const msUntilMidnight = midnight.getTime() - now.getTime();
-			
-			setTimeout(() => {
-				processRecurringPayments().catch(console.error);
-				setInterval(() => {
-					processRecurringPayments().catch(console.error);
-				}, 24 * 60 * 60 * 1000); // Every 24 hours
-			}, msUntilMidnight);
-		};
-		
-		// Schedule low balance alerts (daily at 08:00 UTC)
-		const scheduleLowBalanceAlerts = () => {
-			const now = new Date();
-			const eightAM = new Date(now);
-			eightAM.setUTCHours(8, 0, 0, 0);
-			if (eightAM < now) {
-				eightAM.setDate(eightAM.getDate() + 1);
-			}
-			const msUntilEightAM = eightAM.getTime() - now.getTime();
-			
-			setTimeout(() => {
-				checkLowBalanceAlerts().catch(console.error);
-				setInterval(() => {
-					checkLowBalanceAlerts().catch(console.error);
-				}, 24 * 60 * 60 * 1000); // Every 24 hours
-			}, msUntilEightAM);
-		};
+		startReportExportWorker();
 		
-		scheduleDailyPayments();
-		scheduleLowBalanceAlerts();
-		console.log('[Server] Scheduled recurring payment jobs');
+		initializeWebSocket(server);
 		
 		server.listen(PORT, () => {
 			console.log(`[Server] HTTP and WebSocket server running on port ${PORT}`);
+
+			// Daily jobs run as BullMQ repeatable jobs so restarts and extra replicas neither skip nor repeat a run.
+			// Started once the server is up; a scheduler that cannot start must not keep the API down
+			startScheduler()
+				.then(() => console.log('[Server] Scheduled recurring payment jobs'))
+				.catch((err) => console.error('[Server] Failed to start scheduler:', err));
 		});
 	} catch (err) {
 		console.error('[Server] Failed to start due to Redis error:', err);
@@ -77,6 +49,8 @@ const server = createServer(app);
 const shutdown = async () => {
 	console.log('[Server] Shutting down...');
 	try {
+		await stopScheduler();
+		await stopReportExportWorker();
 		await disconnectRedis();
 	} catch (e) {
 		console.error('[Server] Error during shutdown:', e);
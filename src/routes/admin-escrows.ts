@@ -0,0 +1,62 @@
+import { Router, Request, Response } from 'express';
+import { prisma } from '../utils/database.js';
+import { requireNextAuthToken, requireAdmin } from '../middleware/nextauth.js';
+import { freezeEscrow, unfreezeEscrow, EscrowFreezeError } from '../services/escrowFreeze.js';
+
+const router = Router();
+
+async function getAdminUserId(req: Request) {
+  const email = (req as any).nextAuthToken?.email as string | undefined;
+  const admin = email ? await prisma.user.findUnique({ where: { email }, select: { id: true } }) : null;
+  return admin?.id ?? null;
+}
+
+function sendFreezeError(res: Response, err: any, fallback: string) {
+  if (err instanceof EscrowFreezeError) {
+    return res.status(err.statusCode).json({ error: err.message });
+  }
+  console.error('[Admin Escrows] Error:', err.message || err);
+  res.status(500).json({ error: fallback });
+}
+
+// POST /api/admin/escrows/:projectId/freeze - halt all spending from a project's escrow
+router.post('/:projectId/freeze', requireNextAuthToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const escrow = await freezeEscrow(
+      req.params.projectId,
+      { userId: await getAdminUserId(req), isAdmin: true },
+      req.body?.reason
+    );
+
+    res.json({
+      success: true,
+      status: escrow.status,
+      frozenAt: escrow.frozenAt,
+      freezeReason: escrow.freezeReason,
+      message: 'Escrow frozen; payouts are on hold',
+    });
+  } catch (err: any) {
+    sendFreezeError(res, err, 'Failed to freeze escrow');
+  }
+});
+
+// POST /api/admin/escrows/:projectId/unfreeze - lift any freeze and release payouts held while frozen
+router.post('/:projectId/unfreeze', requireNextAuthToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const releasedJobs = await unfreezeEscrow(req.params.projectId, {
+      userId: await getAdminUserId(req),
+      isAdmin: true,
+    });
+
+    res.json({
+      success: true,
+      status: 'ACTIVE',
+      releasedJobs,
+      message: 'Escrow unfrozen; held payouts resumed',
+    });
+  } catch (err: any) {
+    sendFreezeError(res, err, 'Failed to unfreeze escrow');
+  }
+});
+
+export default router;
@@ -0,0 +1,81 @@
+import { Router, Request, Response } from 'express';
+import { prisma } from '../utils/database.js';
+import { requireNextAuthToken, requireAdmin } from '../middleware/nextauth.js';
+import { getScheduledJobs, triggerScheduledJob, isScheduledJobName } from '../services/scheduler.js';
+
+const router = Router();
+
+// GET /api/admin/jobs - scheduled jobs with their next run and latest run
+router.get('/', requireNextAuthToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const jobs = await getScheduledJobs();
+
+    const latestRuns = await Promise.all(
+      jobs.map((job) =>
+        prisma.scheduledJobRun.findFirst({
+          where: { jobName: job.name },
+          orderBy: { startedAt: 'desc' },
+        })
+      )
+    );
+
+    res.json({
+      jobs: jobs.map((job, index) => ({ ...job, lastRun: latestRuns[index] })),
+    });
+  } catch (err: any) {
+    console.error('[Admin Jobs] Error:', err.message || err);
+    res.status(500).json({ error: 'Failed to fetch scheduled jobs' });
+  }
+});
+
+// GET /api/admin/jobs/runs - run history, filterable by job name and status
+router.get('/runs', requireNextAuthToken, requireAdmin, async (req: Request, res: Response) => {
+  const { jobName, status, page = 1, limit = 50 } = req.query as any;
+
+  try {
+    const pageNum = Math.max(parseInt(page as string) || 1, 1);
+    const limitNum = Math.min(Math.max(parseInt(limit as string) || 50, 1), 200);
+
+    const where: any = {};
+    if (jobName) where.jobName = jobName;
+    if (status) where.status = status;
+
+    const [runs, total] = await Promise.all([
+      prisma.scheduledJobRun.findMany({
+        where,
+        orderBy: { startedAt: 'desc' },
+        skip: (pageNum - 1) * limitNum,
+        take: limitNum,
+      }),
+      prisma.scheduledJobRun.count({ where }),
+    ]);
+
+    res.json({ runs, pagination: { page: pageNum, limit: limitNum, total, totalPages: Math.ceil(total / limitNum) } });
+  } catch (err: any) {
+    console.error('[Admin Jobs] Error:', err.message || err);
+    res.status(500).json({ error: 'Failed to fetch job runs' });
+  }
+});
+
+// POST /api/admin/jobs/:jobName/run - queue a run now, outside the schedule
+router.post('/:jobName/run', requireNextAuthToken, requireAdmin, async (req: Request, res: Response) => {
+  const { jobName } = req.params;
+
+  if (!isScheduledJobName(jobName)) {
+    return res.status(404).json({ error: `Unknown scheduled job ${jobName}` });
+  }
+
+  try {
+    const email = (req as any).nextAuthToken?.email as string | undefined;
+    const admin = email ? await prisma.user.findUnique({ where: { email }, select: { id: true } }) : null;
+
+    const jobId = await triggerScheduledJob(jobName, admin?.id || email);
+
+    res.status(202).json({ success: true, jobName, jobId });
+  } catch (err: any) {
+    console.error('[Admin Jobs] Error:', err.message || err);
+    res.status(500).json({ error: 'Failed to trigger job' });
+  }
+});
+
+export default router;
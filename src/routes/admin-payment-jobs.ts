@@ -0,0 +1,123 @@
+import { Router, Request, Response } from 'express';
+import { prisma } from '../utils/database.js';
+import { requireNextAuthToken, requireAdmin } from '../middleware/nextauth.js';
+import {
+  listPaymentJobs,
+  getPaymentJob,
+  retryPaymentJob,
+  cancelPaymentJob,
+  settlePaymentJobManually,
+  listPaymentJobAudit,
+  isPaymentJobState,
+  PaymentJobActionError,
+  PAYMENT_JOB_STATES,
+  type PaymentJobActor,
+} from '../services/paymentJobAdmin.js';
+
+const router = Router();
+
+async function getActor(req: Request): Promise<PaymentJobActor> {
+  const email = (req as any).nextAuthToken?.email as string | undefined;
+  const admin = email ? await prisma.user.findUnique({ where: { email }, select: { id: true } }) : null;
+  return { id: admin?.id, email };
+}
+
+function sendActionError(res: Response, err: any, fallback: string) {
+  if (err instanceof PaymentJobActionError) {
+    return res.status(err.statusCode).json({ error: err.message });
+  }
+  console.error('[Admin Payment Jobs] Error:', err.message || err);
+  res.status(500).json({ error: fallback });
+}
+
+// GET /api/admin/payment-jobs - jobs of the task-payments queue in one state, with task and project
+router.get('/', requireNextAuthToken, requireAdmin, async (req: Request, res: Response) => {
+  const { state = 'failed', page = 1, limit = 50 } = req.query as any;
+
+  if (!isPaymentJobState(state)) {
+    return res.status(400).json({ error: `state must be one of: ${PAYMENT_JOB_STATES.join(', ')}` });
+  }
+
+  try {
+    const pageNum = Math.max(parseInt(page as string) || 1, 1);
+    const limitNum = Math.min(Math.max(parseInt(limit as string) || 50, 1), 200);
+
+    const { jobs, counts, total } = await listPaymentJobs(state, pageNum, limitNum);
+
+    res.json({ state, jobs, counts, pagination: { page: pageNum, limit: limitNum, total, totalPages: Math.ceil(total / limitNum) } });
+  } catch (err: any) {
+    console.error('[Admin Payment Jobs] Error:', err.message || err);
+    res.status(500).json({ error: 'Failed to fetch payment jobs' });
+  }
+});
+
+// GET /api/admin/payment-jobs/audit - admin actions on payment jobs, filterable by job, project and action
+router.get('/audit', requireNextAuthToken, requireAdmin, async (req: Request, res: Response) => {
+  const { jobId, projectId, action, page = 1, limit = 50 } = req.query as any;
+
+  try {
+    const pageNum = Math.max(parseInt(page as string) || 1, 1);
+    const limitNum = Math.min(Math.max(parseInt(limit as string) || 50, 1), 200);
+
+    const { records, total } = await listPaymentJobAudit({ jobId, projectId, action }, pageNum, limitNum);
+
+    res.json({ records, pagination: { page: pageNum, limit: limitNum, total, totalPages: Math.ceil(total / limitNum) } });
+  } catch (err: any) {
+    console.error('[Admin Payment Jobs] Error:', err.message || err);
+    res.status(500).json({ error: 'Failed to fetch payment job audit' });
+  }
+});
+
+// GET /api/admin/payment-jobs/:jobId - one job with its audit history
+router.get('/:jobId', requireNextAuthToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { job, audit } = await getPaymentJob(req.params.jobId);
+
+    if (!job && audit.length === 0) {
+      return res.status(404).json({ error: 'Payment job not found' });
+    }
+
+    res.json({ job, audit });
+  } catch (err: any) {
+    console.error('[Admin Payment Jobs] Error:', err.message || err);
+    res.status(500).json({ error: 'Failed to fetch payment job' });
+  }
+});
+
+// POST /api/admin/payment-jobs/:jobId/retry - queue a failed job again with fresh attempts
+router.post('/:jobId/retry', requireNextAuthToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const result = await retryPaymentJob(req.params.jobId, await getActor(req), req.body?.reason);
+    res.status(202).json({ success: true, jobId: req.params.jobId, ...result });
+  } catch (err: any) {
+    sendActionError(res, err, 'Failed to retry payment job');
+  }
+});
+
+// POST /api/admin/payment-jobs/:jobId/cancel - remove a waiting, delayed or failed job
+router.post('/:jobId/cancel', requireNextAuthToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const result = await cancelPaymentJob(req.params.jobId, await getActor(req), req.body?.reason);
+    res.json({ success: true, jobId: req.params.jobId, ...result });
+  } catch (err: any) {
+    sendActionError(res, err, 'Failed to cancel payment job');
+  }
+});
+
+// POST /api/admin/payment-jobs/:jobId/settle - record a payout made outside the queue
+router.post('/:jobId/settle', requireNextAuthToken, requireAdmin, async (req: Request, res: Response) => {
+  const { txHash, reason } = req.body || {};
+
+  if (!txHash || typeof txHash !== 'string') {
+    return res.status(400).json({ error: 'txHash is required' });
+  }
+
+  try {
+    const result = await settlePaymentJobManually(req.params.jobId, txHash, await getActor(req), reason);
+    res.json({ success: true, jobId: req.params.jobId, ...result });
+  } catch (err: any) {
+    sendActionError(res, err, 'Failed to settle payment job');
+  }
+});
+
+export default router;
@@ -2,6 +2,51 @@ import { Router, Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { authenticateToken } from '../middleware/auth.js';
 import { checkProjectAccess } from '../utils/accessControl.js';
+import { getKanbanMetrics, getProjectPerformance, getTeamPerformance, getFinancialOverview, parseDayRange } from '../services/analyticsMetrics.js';
+import { forecastProjectDelivery, isPredictionType, PREDICTION_TYPES } from '../services/deliveryForecast.js';
+import {
+  queueReportExport,
+  getReportExport,
+  readReportExport,
+  verifyDownloadSignature,
+  isReportType,
+  isReportFormat,
+  REPORT_TYPES,
+  REPORT_FORMATS
+} from '../services/reportExport.js';
+import {
+  listActiveAlerts,
+  acknowledgeAlert,
+  resolveAlert,
+  isAlertType,
+  isAlertSeverity,
+  AlertActionError,
+  ALERT_TYPES,
+  ALERT_SEVERITIES
+} from '../services/alerts.js';
+import {
+  listCustomReports,
+  saveCustomReport,
+  deleteCustomReport,
+  runCustomReport,
+  previewCustomReport,
+  CustomReportError,
+  REPORT_ENTITIES,
+  REPORT_DIMENSIONS,
+  REPORT_MEASURES
+} from '../services/customReports.js';
+import {
+  listDashboards,
+  getDashboard,
+  saveDashboard,
+  deleteDashboard,
+  shareDashboard,
+  listDashboardShares,
+  revokeDashboardShare,
+  renderSharedDashboard,
+  DashboardError,
+  WIDGET_TYPES
+} from '../services/dashboards.js';
 import crypto from 'crypto';
 
 const router = Router();
@@ -20,7 +65,7 @@ const requireAuth = (req: Request, res: Response): boolean => {
 router.get('/kanban/:projectId/metrics', authenticateToken, async (req: Request, res: Response) => {
   try {
     const { projectId } = req.params;
-    const { timeRange = '30d', departmentId } = req.query;
+    const { timeRange = '30d', departmentId } = req.query as any;
 
     // Check permissions
     if (!requireAuth(req, res)) return;
@@ -30,178 +75,7 @@ router.get('/kanban/:projectId/metrics', authenticateToken, async (req: Request,
       return res.status(403).json({ error: 'Access denied to this project' });
     }
 
-    // Parse time range
-    const days = parseInt(timeRange.toString().replace('d', '')) || 30;
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - days);
-
-    // Build where clause for tasks
-    const taskWhere: any = {
-      department: { projectId },
-      createdAt: { gte: startDate }
-    };
-
-    if (departmentId) {
-      taskWhere.departmentId = departmentId;
-    }
-
-    // Get all tasks in the time range
-    const tasks = await prisma.task.findMany({
-      where: taskWhere,
-      include: {
-        department: {
-          select: {
-            id: true,
-            name: true
-          }
-        },
-        activities: {
-          where: {
-            type: 'STATUS_CHANGED',
-            createdAt: { gte: startDate }
-          },
-          orderBy: { createdAt: 'asc' }
-        }
-      }
-    });
-
-    // Calculate cycle times and lead times
-    const completedTasks = tasks.filter(task => 
-      task.status === 'COMPLETED' || task.status === 'APPROVED'
-    );
-
-    let totalCycleTime = 0;
-    let totalLeadTime = 0;
-    let tasksWithCycleTime = 0;
-    let tasksWithLeadTime = 0;
-
-    for (const task of completedTasks) {
-      // Lead time: from creation to completion
-      if (task.updatedAt && task.createdAt) {
-        const leadTime = task.updatedAt.getTime() - task.createdAt.getTime();
-        totalLeadTime += leadTime;
-        tasksWithLeadTime++;
-      }
-
-      // Cycle time: from first "IN_PROGRESS" to completion
-      const inProgressActivity = task.activities.find(
-        activity => activity.newValue === 'IN_PROGRESS'
-      );
-      
-      if (inProgressActivity && task.updatedAt) {
-        const cycleTime = task.updatedAt.getTime() - inProgressActivity.createdAt.getTime();
-        totalCycleTime += cycleTime;
-        tasksWithCycleTime++;
-      }
-    }
-
-    const averageCycleTime = tasksWithCycleTime > 0 
-      ? Math.round(totalCycleTime / tasksWithCycleTime / (1000 * 60 * 60 * 24) * 10) / 10 // days
-      : 0;
-
-    const averageLeadTime = tasksWithLeadTime > 0
-      ? Math.round(totalLeadTime / tasksWithLeadTime / (1000 * 60 * 60 * 24) * 10) / 10 // days
-      : 0;
-
-    // Calculate throughput (completed tasks per day)
-    const throughput = Math.round(completedTasks.length / days * 10) / 10;
-
-    // Tasks currently in progress
-    const tasksInProgress = tasks.filter(task => task.status === 'IN_PROGRESS').length;
-
-    // Identify bottlenecks (statuses with high task counts and long average times)
-    const statusCounts = {
-      PENDING: tasks.filter(task => task.status === 'PENDING').length,
-      IN_PROGRESS: tasks.filter(task => task.status === 'IN_PROGRESS').length,
-      COMPLETED: tasks.filter(task => task.status === 'COMPLETED').length,
-      APPROVED: tasks.filter(task => task.status === 'APPROVED').length
-    };
-
-    const bottlenecks = Object.entries(statusCounts)
-      .map(([status, taskCount]) => {
-        // Calculate average time in this status
-        const statusTasks = tasks.filter(task => task.status === status);
-        let totalTimeInStatus = 0;
-        let tasksWithTime = 0;
-
-        for (const task of statusTasks) {
-          const statusChangeActivity = task.activities.find(
-            activity => activity.newValue === status
-          );
-          
-          if (statusChangeActivity) {
-            const timeInStatus = new Date().getTime() - statusChangeActivity.createdAt.getTime();
-            totalTimeInStatus += timeInStatus;
-            tasksWithTime++;
-          }
-        }
-
-        const averageTimeInStatus = tasksWithTime > 0
-          ? Math.round(totalTimeInStatus / tasksWithTime / (1000 * 60 * 60 * 24) * 10) / 10
-          : 0;
-
-        // Consider it a bottleneck if more than 30% of tasks are in this status
-        // or if average time in status is > 7 days
-        const isBottleneck = (taskCount / tasks.length > 0.3) || averageTimeInStatus > 7;
-
-        return {
-          status,
-          taskCount,
-          averageTimeInStatus,
-          isBottleneck
-        };
-      })
-      .filter(item => item.isBottleneck);
-
-    // Department performance
-    const departmentPerformance = await Promise.all(
-      [...new Set(tasks.map(task => task.department))].map(async (dept) => {
-        const deptTasks = tasks.filter(task => task.departmentId === dept.id);
-        const deptCompletedTasks = deptTasks.filter(task => 
-          task.status === 'COMPLETED' || task.status === 'APPROVED'
-        ).length;
-
-        let deptTotalCycleTime = 0;
-        let deptTasksWithCycleTime = 0;
-
-        for (const task of deptTasks.filter(t => t.status === 'COMPLETED' || t.status === 'APPROVED')) {
-          const inProgressActivity = task.activities.find(
-            activity => activity.newValue === 'IN_PROGRESS'
-          );
-          
-          if (inProgressActivity && task.updatedAt) {
-            const cycleTime = task.updatedAt.getTime() - inProgressActivity.createdAt.getTime();
-            deptTotalCycleTime += cycleTime;
-            deptTasksWithCycleTime++;
-          }
-        }
-
-        const deptAverageCycleTime = deptTasksWithCycleTime > 0
-          ? Math.round(deptTotalCycleTime / deptTasksWithCycleTime / (1000 * 60 * 60 * 24) * 10) / 10
-          : 0;
-
-        return {
-          departmentId: dept.id,
-          departmentName: dept.name,
-          completedTasks: deptCompletedTasks,
-          averageCycleTime: deptAverageCycleTime
-        };
-      })
-    );
-
-    res.json({
-      projectId,
-      timeRange: `${days}d`,
-      metrics: {
-        averageCycleTime,
-        averageLeadTime,
-        throughput,
-        tasksInProgress,
-        completedTasks: completedTasks.length,
-        bottlenecks,
-        departmentPerformance
-      }
-    });
+    res.json(await getKanbanMetrics(projectId, { timeRange, departmentId }));
 
   } catch (error) {
     console.error('Error fetching kanban metrics:', error);
@@ -696,93 +570,7 @@ router.get('/projects/performance', authenticateToken, async (req: Request, res:
     const access = await checkProjectAccess(req.user.id, projectId);
     if (!access.hasAccess) return res.status(403).json({ error: 'Access denied to this project' });
 
-    const days = parseInt(dateRange.toString().replace('d', '')) || 30;
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - days);
-
-    // Total and completed tasks in range
-    const totalTasks = await prisma.task.count({
-      where: { department: { projectId }, createdAt: { gte: startDate } }
-    });
-    const completedTasks = await prisma.task.count({
-      where: {
-        department: { projectId },
-        status: { in: ['COMPLETED', 'APPROVED'] },
-        updatedAt: { gte: startDate }
-      }
-    });
-    const completionRate = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
-
-    // Timeline progress: completed vs tasks with due dates in range
-    const tasksWithDue = await prisma.task.count({
-      where: { department: { projectId }, dueDate: { gte: startDate } }
-    });
-    const completedWithDue = await prisma.task.count({
-      where: {
-        department: { projectId },
-        status: { in: ['COMPLETED', 'APPROVED'] },
-        dueDate: { gte: startDate },
-        updatedAt: { gte: startDate }
-      }
-    });
-    const timelineProgress = tasksWithDue > 0 ? Math.round((completedWithDue / tasksWithDue) * 100) : 0;
-
-    // On-time percentage
-    const completedRecords = await prisma.task.findMany({
-      where: {
-        department: { projectId },
-        status: { in: ['COMPLETED', 'APPROVED'] },
-        updatedAt: { gte: startDate }
-      },
-      select: { updatedAt: true, dueDate: true }
-    });
-    const withDue = completedRecords.filter(t => t.dueDate != null);
-    const onTime = withDue.filter(t => t.updatedAt && t.dueDate && t.updatedAt <= t.dueDate).length;
-    const onTimeRate = withDue.length > 0 ? Math.round((onTime / withDue.length) * 100) : 0;
-
-    // Team efficiency: completed per active member (distinct users with roles)
-    const projectMembers = await prisma.userRole.findMany({
-      where: { projectId },
-      select: { userId: true }
-    });
-    const memberCount = Array.from(new Set(projectMembers.map(m => m.userId))).length || 1;
-    const teamEfficiency = Math.round((completedTasks / memberCount) * 100) / 100;
-
-    // Health score: blend of completion and on-time
-    const healthScore = Math.round((completionRate * 0.6 + onTimeRate * 0.4));
-
-    // Budget vs actual: no budget fields yet -> nulls
-    const budgetVsActual = { budget: null as number | null, actual: null as number | null };
-
-    // Risk assessment: simple heuristics
-    const overdueOpen = await prisma.task.count({
-      where: {
-        department: { projectId },
-        status: { notIn: ['COMPLETED', 'APPROVED'] },
-        dueDate: { lt: new Date() }
-      }
-    });
-    const riskAssessment = [
-      { type: 'OVERDUE_OPEN_TASKS', count: overdueOpen, severity: overdueOpen > 10 ? 'HIGH' : overdueOpen > 3 ? 'MEDIUM' : 'LOW' }
-    ];
-
-    // Milestone completion: placeholder (no Milestone model yet)
-    const milestoneCompletion: any[] = [];
-
-    return res.json({
-      projectId,
-      dateRange,
-      granularity,
-      metrics: {
-        healthScore,
-        completionRate,
-        budgetVsActual,
-        timelineProgress,
-        riskAssessment,
-        teamEfficiency,
-        milestoneCompletion
-      }
-    });
+    return res.json(await getProjectPerformance(projectId, { dateRange, granularity }));
   } catch (e) {
     console.error('project performance error', e);
     res.status(500).json({ error: 'Failed to fetch project performance' });
@@ -798,70 +586,7 @@ router.get('/team/performance', authenticateToken, async (req: Request, res: Res
     const access = await checkProjectAccess(req.user.id, projectId);
     if (!access.hasAccess) return res.status(403).json({ error: 'Access denied to this project' });
 
-    const days = parseInt(dateRange.toString().replace('d', '')) || 30;
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - days);
-
-    // Scope filters
-    const taskWhere: any = {
-      department: { projectId },
-      OR: [
-        { updatedAt: { gte: startDate } },
-        { createdAt: { gte: startDate } }
-      ]
-    };
-    if (departmentId) taskWhere.departmentId = departmentId;
-    if (userId) taskWhere.assignedRole = { userId } as any; // via relation on UserRole if available
-
-    // Pull tasks with assignedRole for attribution
-    const tasks = await prisma.task.findMany({
-      where: taskWhere,
-      select: {
-        id: true, status: true, createdAt: true, updatedAt: true, dueDate: true,
-        assignedRoleId: true,
-        assignedRole: { select: { id: true, userId: true, role: true } }
-      }
-    });
-
-    // Aggregate by userId
-    const byUser: Record<string, { userId: string, role: string | null, completed: number, inProgress: number, pending: number }>
-      = {};
-    for (const t of tasks) {
-      const uid = t.assignedRole?.userId || 'unassigned';
-      if (!byUser[uid]) byUser[uid] = { userId: uid, role: t.assignedRole?.role || null as any, completed: 0, inProgress: 0, pending: 0 };
-      if (t.status === 'COMPLETED' || t.status === 'APPROVED') byUser[uid].completed++;
-      else if (t.status === 'IN_PROGRESS') byUser[uid].inProgress++;
-      else byUser[uid].pending++;
-    }
-
-    const individuals = Object.values(byUser).map(u => ({
-      userId: u.userId,
-      role: u.role,
-      productivityScore: Math.round(Math.min(100, (u.completed / Math.max(1, days)) * 100)),
-      completed: u.completed,
-      inProgress: u.inProgress,
-      pending: u.pending
-    }));
-
-    const workloadDistribution = individuals.map(u => ({ userId: u.userId, openTasks: u.inProgress + u.pending }));
-    const taskCompletionRates = individuals.map(u => ({ userId: u.userId, completionRate: Math.round((u.completed / Math.max(1, (u.completed + u.inProgress + u.pending))) * 100) }));
-
-    // Placeholders for collaboration and skills
-    const collaboration: any[] = [];
-    const skillUtilization: any[] = [];
-
-    // Trends: completed per day (simple)
-    const trends: any[] = [];
-
-    return res.json({
-      filters: { projectId, departmentId, userId, dateRange },
-      individuals,
-      workloadDistribution,
-      taskCompletionRates,
-      collaboration,
-      skillUtilization,
-      trends
-    });
+    return res.json(await getTeamPerformance(projectId, { departmentId, userId, dateRange }));
   } catch (e) {
     console.error('team performance error', e);
     res.status(500).json({ error: 'Failed to fetch team performance' });
@@ -877,35 +602,7 @@ router.get('/financial/overview', authenticateToken, async (req: Request, res: R
     const access = await checkProjectAccess(req.user.id, projectId);
     if (!access.hasAccess) return res.status(403).json({ error: 'Access denied to this project' });
 
-    const days = parseInt(dateRange.toString().replace('d', '')) || 30;
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - days);
-
-    // Without budget/expense schema, compute operational proxies
-    const totalTasks = await prisma.task.count({ where: { department: { projectId }, createdAt: { gte: startDate } } });
-    const completedTasks = await prisma.task.count({ where: { department: { projectId }, status: { in: ['COMPLETED','APPROVED'] }, updatedAt: { gte: startDate } } });
-
-    const costPerTask = null as number | null; // pending expense model
-    const budgetUtilization = null as number | null; // pending budget model
-    const roi = null as number | null; // pending revenue/savings model
-    const expenseBreakdown: any[] = []; // pending expense categories
-    const profitMargins = null as number | null; // pending revenue model
-    const payments: any[] = []; // pending payments model
-
-    // Simple projection: linear based on last period throughput
-    const throughputPerDay = days > 0 ? completedTasks / days : 0;
-    const projections = [{ metric: 'throughputPerDay', value: Math.round(throughputPerDay * 100) / 100, currency }];
-
-    res.json({
-      filters: { projectId, dateRange, currency },
-      budgetUtilization,
-      costPerTask,
-      roi,
-      expenseBreakdown,
-      profitMargins,
-      payments,
-      projections
-    });
+    res.json(await getFinancialOverview(projectId, { dateRange, currency }));
   } catch (e) {
     console.error('financial overview error', e);
     res.status(500).json({ error: 'Failed to fetch financial overview' });
@@ -1108,9 +805,17 @@ router.get('/trends/analysis', authenticateToken, async (req: Request, res: Resp
 
 router.get('/predictions/forecast', authenticateToken, async (req: Request, res: Response) => {
   try {
+    if (!req.user) return res.status(401).json({ error: 'Authentication required' });
     const { projectId, predictionType = 'completion', horizon = '90d' } = req.query as any;
-    res.json({ projectId, predictionType, horizon, predictions: [] });
+    if (!projectId) return res.status(400).json({ error: 'projectId is required' });
+    if (!isPredictionType(predictionType)) return res.status(400).json({ error: `predictionType must be one of: ${PREDICTION_TYPES.join(', ')}` });
+
+    const access = await checkProjectAccess(req.user.id, projectId);
+    if (!access.hasAccess) return res.status(403).json({ error: 'Access denied to this project' });
+
+    res.json(await forecastProjectDelivery(projectId, { predictionType, horizonDays: parseDayRange(horizon, 90) }));
   } catch (e) {
+    console.error('forecast error', e);
     res.status(500).json({ error: 'Failed to fetch predictions' });
   }
 });
@@ -1177,15 +882,59 @@ router.get('/activity/feed', authenticateToken, async (req: Request, res: Respon
   }
 });
 
+// Unresolved alerts on the caller's projects; alertType and severity take one value or a comma list
 router.get('/alerts/active', authenticateToken, async (req: Request, res: Response) => {
   try {
-    const { userId, alertType, severity } = req.query as any;
-    res.json({ userId, alertType, severity, alerts: [] });
+    if (!req.user) return res.status(401).json({ error: 'Authentication required' });
+    const { projectId, status, limit } = req.query as any;
+    const list = (value: unknown) => ([] as string[]).concat((value as any) || []).flatMap(v => String(v).split(',')).map(v => v.trim().toUpperCase()).filter(Boolean);
+    const alertTypes = list(req.query.alertType);
+    const severities = list(req.query.severity);
+
+    if (!alertTypes.every(isAlertType)) return res.status(400).json({ error: `alertType must be one of: ${ALERT_TYPES.join(', ')}` });
+    if (!severities.every(isAlertSeverity)) return res.status(400).json({ error: `severity must be one of: ${ALERT_SEVERITIES.join(', ')}` });
+    if (status && !['OPEN', 'ACKNOWLEDGED'].includes(status)) return res.status(400).json({ error: 'status must be OPEN or ACKNOWLEDGED' });
+
+    const result = await listActiveAlerts(req.user.id, {
+      alertTypes,
+      severities,
+      projectId,
+      status,
+      limit: Math.min(Math.max(parseInt(limit, 10) || 100, 1), 500)
+    });
+
+    res.json({ userId: req.user.id, alertType: alertTypes, severity: severities, ...result });
   } catch (e) {
+    console.error('active alerts error', e);
     res.status(500).json({ error: 'Failed to fetch alerts' });
   }
 });
 
+router.post('/alerts/:alertId/acknowledge', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: 'Authentication required' });
+    const alert = await acknowledgeAlert(req.params.alertId, req.user.id);
+    res.json({ alert });
+  } catch (e: any) {
+    if (e instanceof AlertActionError) return res.status(e.statusCode).json({ error: e.message });
+    console.error('acknowledge alert error', e);
+    res.status(500).json({ error: 'Failed to acknowledge alert' });
+  }
+});
+
+router.post('/alerts/:alertId/resolve', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: 'Authentication required' });
+    const { note } = req.body || {};
+    const alert = await resolveAlert(req.params.alertId, req.user.id, typeof note === 'string' ? note : undefined);
+    res.json({ alert });
+  } catch (e: any) {
+    if (e instanceof AlertActionError) return res.status(e.statusCode).json({ error: e.message });
+    console.error('resolve alert error', e);
+    res.status(500).json({ error: 'Failed to resolve alert' });
+  }
+});
+
 // USER-SPECIFIC
 router.get('/users/:userId/performance', authenticateToken, async (req: Request, res: Response) => {
   try {
@@ -1236,33 +985,273 @@ router.get('/collaboration/metrics', authenticateToken, async (req: Request, res
   }
 });
 
+// Runs a saved report builder definition; dateRange overrides the window saved with it
 router.get('/reports/custom', authenticateToken, async (req: Request, res: Response) => {
   try {
-    const { reportId, dateRange = '30d' } = req.query as any;
-    res.json({ reportId, dateRange, data: {}, meta: {} });
-  } catch (e) {
+    if (!req.user) return res.status(401).json({ error: 'Authentication required' });
+    const { reportId, dateRange } = req.query as any;
+    if (!reportId) return res.status(400).json({ error: 'reportId is required' });
+
+    res.json({ dateRange: dateRange || null, ...(await runCustomReport(reportId, req.user.id, { dateRange })) });
+  } catch (e: any) {
+    if (e instanceof CustomReportError) return res.status(e.statusCode).json({ error: e.message });
+    console.error('custom report error', e);
     res.status(500).json({ error: 'Failed to fetch custom report' });
   }
 });
 
+// Runs a definition without saving it, for the report builder preview
+router.post('/reports/custom/preview', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: 'Authentication required' });
+    const { dateRange, ...definition } = req.body || {};
+    res.json(await previewCustomReport(req.user.id, definition, { dateRange }));
+  } catch (e: any) {
+    if (e instanceof CustomReportError) return res.status(e.statusCode).json({ error: e.message });
+    console.error('custom report preview error', e);
+    res.status(500).json({ error: 'Failed to run custom report' });
+  }
+});
+
+router.get('/reports/custom/definitions', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: 'Authentication required' });
+    const { projectId } = req.query as any;
+    const reports = await listCustomReports(req.user.id, projectId);
+    res.json({ reports, entities: REPORT_ENTITIES, dimensions: REPORT_DIMENSIONS, measures: REPORT_MEASURES });
+  } catch (e: any) {
+    if (e instanceof CustomReportError) return res.status(e.statusCode).json({ error: e.message });
+    console.error('custom report list error', e);
+    res.status(500).json({ error: 'Failed to fetch custom reports' });
+  }
+});
+
+// Body: { name, description?, projectId?, entity, dimensions, measures, filters }; without projectId the report is personal
+router.post('/reports/custom/definitions', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: 'Authentication required' });
+    const report = await saveCustomReport(req.user.id, req.body || {});
+    res.status(201).json({ report });
+  } catch (e: any) {
+    if (e instanceof CustomReportError) return res.status(e.statusCode).json({ error: e.message });
+    console.error('custom report create error', e);
+    res.status(500).json({ error: 'Failed to save custom report' });
+  }
+});
+
+router.put('/reports/custom/definitions/:reportId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: 'Authentication required' });
+    const report = await saveCustomReport(req.user.id, req.body || {}, req.params.reportId);
+    res.json({ report });
+  } catch (e: any) {
+    if (e instanceof CustomReportError) return res.status(e.statusCode).json({ error: e.message });
+    console.error('custom report update error', e);
+    res.status(500).json({ error: 'Failed to save custom report' });
+  }
+});
+
+router.delete('/reports/custom/definitions/:reportId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: 'Authentication required' });
+    await deleteCustomReport(req.params.reportId, req.user.id);
+    res.json({ success: true });
+  } catch (e: any) {
+    if (e instanceof CustomReportError) return res.status(e.statusCode).json({ error: e.message });
+    console.error('custom report delete error', e);
+    res.status(500).json({ error: 'Failed to delete custom report' });
+  }
+});
+
 router.post('/reports/export', authenticateToken, async (req: Request, res: Response) => {
   try {
-    const { reportType, filters, format = 'CSV', email } = req.body || {};
-    res.json({ status: 'queued', reportType, format, email, downloadLink: null, progress: 0 });
+    if (!req.user) return res.status(401).json({ error: 'Authentication required' });
+    const { reportType, filters = {}, format = 'CSV', email } = req.body || {};
+    const normalizedFormat = String(format).toUpperCase();
+
+    if (!isReportType(reportType)) return res.status(400).json({ error: `reportType must be one of: ${REPORT_TYPES.join(', ')}` });
+    if (!isReportFormat(normalizedFormat)) return res.status(400).json({ error: `format must be one of: ${REPORT_FORMATS.join(', ')}` });
+    if (!filters.projectId) return res.status(400).json({ error: 'filters.projectId is required' });
+
+    const access = await checkProjectAccess(req.user.id, filters.projectId);
+    if (!access.hasAccess) return res.status(403).json({ error: 'Access denied to this project' });
+
+    const job = await queueReportExport({
+      userId: req.user.id,
+      reportType,
+      format: normalizedFormat,
+      filters: {
+        projectId: filters.projectId,
+        dateRange: filters.dateRange,
+        timeRange: filters.timeRange,
+        granularity: filters.granularity,
+        departmentId: filters.departmentId,
+        userId: filters.userId,
+        currency: filters.currency
+      },
+      // No mail transport yet; the requester is notified over the websocket when the file is ready
+      email
+    });
+
+    res.status(202).json({ jobId: job.id, status: 'queued', reportType, format: normalizedFormat, email, downloadLink: null, progress: 0 });
   } catch (e) {
+    console.error('report export error', e);
     res.status(500).json({ error: 'Failed to export report' });
   }
 });
 
-router.post('/dashboards/share', authenticateToken, async (req: Request, res: Response) => {
+// Progress of an export; once finished it carries a signed, expiring download link
+router.get('/reports/export/:jobId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: 'Authentication required' });
+
+    const exportJob = await getReportExport(req.params.jobId, req.user.id);
+    if (!exportJob) return res.status(404).json({ error: 'Report export not found' });
+
+    res.json(exportJob);
+  } catch (e) {
+    console.error('report export status error', e);
+    res.status(500).json({ error: 'Failed to fetch report export' });
+  }
+});
+
+// The signature stands in for authentication so the link works from a plain browser download
+router.get('/reports/export/:jobId/download', async (req: Request, res: Response) => {
   try {
-    const { dashboardId, shareType = 'link', recipients = [], permissions = [] } = req.body || {};
-    res.json({ shareLink: 'pending', permissions, recipients, expiration: null, usage: [] });
+    const { jobId } = req.params;
+    const { expires, signature } = req.query as Record<string, string | undefined>;
+
+    if (!verifyDownloadSignature(jobId, expires, signature)) {
+      return res.status(403).json({ error: 'Download link is invalid or has expired' });
+    }
+
+    const artifact = await readReportExport(jobId);
+    if (!artifact) return res.status(404).json({ error: 'Report export not found' });
+
+    res.setHeader('Content-Type', artifact.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${artifact.filename}"`);
+    res.send(artifact.body);
   } catch (e) {
+    console.error('report export download error', e);
+    res.status(500).json({ error: 'Failed to download report export' });
+  }
+});
+
+router.get('/dashboards', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: 'Authentication required' });
+    const { projectId } = req.query as any;
+    res.json({ dashboards: await listDashboards(req.user.id, projectId) });
+  } catch (e: any) {
+    if (e instanceof DashboardError) return res.status(e.statusCode).json({ error: e.message });
+    console.error('dashboard list error', e);
+    res.status(500).json({ error: 'Failed to fetch dashboards' });
+  }
+});
+
+// Body: { name, description?, projectId?, widgets: [{ id?, type, title, projectId, options }], layout: [{ widgetId, x, y, w, h }], settings? }
+router.post('/dashboards', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: 'Authentication required' });
+    const dashboard = await saveDashboard(req.user.id, req.body || {});
+    res.status(201).json({ dashboard });
+  } catch (e: any) {
+    if (e instanceof DashboardError) return res.status(e.statusCode).json({ error: e.message });
+    console.error('dashboard create error', e);
+    res.status(500).json({ error: 'Failed to save dashboard' });
+  }
+});
+
+// Share links are created with a token that is only returned here; links are per recipient for email shares
+router.post('/dashboards/share', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: 'Authentication required' });
+    const { dashboardId, shareType, recipients, permissions, expiresInHours } = req.body || {};
+    const result = await shareDashboard(req.user.id, { dashboardId, shareType, recipients, permissions, expiresInHours });
+
+    res.status(201).json({
+      ...result,
+      shareLink: result.shares[0]?.shareLink || null,
+      permissions: result.shares[0]?.permissions || [],
+      recipients: result.shares.map(share => share.recipientEmail).filter(Boolean),
+      usage: []
+    });
+  } catch (e: any) {
+    if (e instanceof DashboardError) return res.status(e.statusCode).json({ error: e.message });
+    console.error('dashboard share error', e);
     res.status(500).json({ error: 'Failed to share dashboard' });
   }
 });
 
+router.delete('/dashboards/shares/:shareId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: 'Authentication required' });
+    res.json({ share: await revokeDashboardShare(req.params.shareId, req.user.id) });
+  } catch (e: any) {
+    if (e instanceof DashboardError) return res.status(e.statusCode).json({ error: e.message });
+    console.error('dashboard share revoke error', e);
+    res.status(500).json({ error: 'Failed to revoke dashboard share' });
+  }
+});
+
+router.get('/dashboards/:dashboardId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: 'Authentication required' });
+    res.json({ dashboard: await getDashboard(req.params.dashboardId, req.user.id) });
+  } catch (e: any) {
+    if (e instanceof DashboardError) return res.status(e.statusCode).json({ error: e.message });
+    console.error('dashboard fetch error', e);
+    res.status(500).json({ error: 'Failed to fetch dashboard' });
+  }
+});
+
+router.put('/dashboards/:dashboardId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: 'Authentication required' });
+    const dashboard = await saveDashboard(req.user.id, req.body || {}, req.params.dashboardId);
+    res.json({ dashboard });
+  } catch (e: any) {
+    if (e instanceof DashboardError) return res.status(e.statusCode).json({ error: e.message });
+    console.error('dashboard update error', e);
+    res.status(500).json({ error: 'Failed to save dashboard' });
+  }
+});
+
+router.delete('/dashboards/:dashboardId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: 'Authentication required' });
+    await deleteDashboard(req.params.dashboardId, req.user.id);
+    res.json({ success: true });
+  } catch (e: any) {
+    if (e instanceof DashboardError) return res.status(e.statusCode).json({ error: e.message });
+    console.error('dashboard delete error', e);
+    res.status(500).json({ error: 'Failed to delete dashboard' });
+  }
+});
+
+// Share links of a dashboard with access counts and recent accesses
+router.get('/dashboards/:dashboardId/shares', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) return res.status(401).json({ error: 'Authentication required' });
+    res.json({ shares: await listDashboardShares(req.params.dashboardId, req.user.id) });
+  } catch (e: any) {
+    if (e instanceof DashboardError) return res.status(e.statusCode).json({ error: e.message });
+    console.error('dashboard shares error', e);
+    res.status(500).json({ error: 'Failed to fetch dashboard shares' });
+  }
+});
+
+// The share token stands in for authentication; data is read with the sharer's scope frozen at share time
+router.get('/shared/dashboards/:token', async (req: Request, res: Response) => {
+  try {
+    res.json(await renderSharedDashboard(req.params.token, { ip: req.ip, userAgent: req.get('user-agent') }));
+  } catch (e: any) {
+    if (e instanceof DashboardError) return res.status(e.statusCode).json({ error: e.message });
+    console.error('shared dashboard error', e);
+    res.status(500).json({ error: 'Failed to load shared dashboard' });
+  }
+});
+
 // ... (rest of the code remains the same)
 
 // ==========================
@@ -1356,9 +1345,20 @@ router.get('/wallet-auth/summary', authenticateToken, async (_req: Request, res:
 
 router.get('/config/settings', authenticateToken, async (req: Request, res: Response) => {
   try {
-    const { userId, configType } = req.query as any;
-    res.json({ userId, configType, preferences: {}, layouts: [], metricConfigs: [], alertSettings: [], views: [] });
+    if (!req.user) return res.status(401).json({ error: 'Authentication required' });
+    const { configType } = req.query as any;
+    const dashboards = await listDashboards(req.user.id);
+    const layouts = dashboards.map(dashboard => ({
+      dashboardId: dashboard.id,
+      name: dashboard.name,
+      projectId: dashboard.projectId,
+      layout: dashboard.layout,
+      settings: dashboard.settings
+    }));
+    const metricConfigs = WIDGET_TYPES.map(type => ({ type }));
+    res.json({ userId: req.user.id, configType, preferences: {}, layouts, metricConfigs, alertSettings: [], views: [] });
   } catch (e) {
+    console.error('analytics config error', e);
     res.status(500).json({ error: 'Failed to fetch analytics config' });
   }
 });
@@ -1367,9 +1367,16 @@ router.get('/config/settings', authenticateToken, async (req: Request, res: Resp
 
 router.get('/widgets/config', authenticateToken, async (req: Request, res: Response) => {
   try {
+    if (!req.user) return res.status(401).json({ error: 'Authentication required' });
     const { dashboardId, widgetType } = req.query as any;
-    res.json({ dashboardId, widgetType, widgets: [] });
-  } catch (e) {
+    if (!dashboardId) return res.status(400).json({ error: 'dashboardId is required' });
+
+    const dashboard = await getDashboard(dashboardId, req.user.id);
+    const widgets = (dashboard.widgets as any[]).filter(widget => !widgetType || widget.type === widgetType);
+    res.json({ dashboardId, widgetType, widgets, layout: dashboard.layout, widgetTypes: WIDGET_TYPES });
+  } catch (e: any) {
+    if (e instanceof DashboardError) return res.status(e.statusCode).json({ error: e.message });
+    console.error('widget config error', e);
     res.status(500).json({ error: 'Failed to fetch widget config' });
   }
 });
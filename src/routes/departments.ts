@@ -3,6 +3,7 @@ import { Router, Request, Response } from 'express';
 import { prisma } from '../utils/database.js';
 import { authenticateToken } from '../middleware/auth.js';
 import { checkProjectAccess, checkProjectRole } from '../utils/accessControl.js';
+import { getBudgetReport, getDepartmentBudgetUsage, validateDepartmentBudget } from '../services/departmentBudget.js';
 
 const router = Router();
 
@@ -332,6 +333,81 @@ router.put('/:id', authenticateToken, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * PUT /api/departments/:id/budget - Set the department budget and its soft/hard caps
+ * Caps are fractions of budgetAmount (0.9 = warn at 90%); budgetAmount null removes the budget
+ */
+router.put('/:id/budget', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { budgetAmount, softCap, hardCap } = req.body;
+
+    if (!requireAuth(req, res)) return;
+
+    const department = await prisma.department.findUnique({
+      where: { id },
+      include: { project: { select: { ownerId: true } } }
+    });
+
+    if (!department) {
+      return res.status(404).json({ error: 'Department not found' });
+    }
+
+    // Budgets are the owner's call
+    const access = await checkProjectAccess(req.user!.id, department.projectId);
+    if (!access.hasAccess || access.role !== 'PROJECT_OWNER') {
+      return res.status(403).json({ error: 'Only the project owner can set department budgets' });
+    }
+
+    const parseOptional = (value: unknown) => (value === undefined ? undefined : value === null ? null : Number(value));
+    const amount = parseOptional(budgetAmount);
+    const soft = parseOptional(softCap);
+    const hard = parseOptional(hardCap);
+
+    if (amount !== undefined && amount !== null && (isNaN(amount) || amount < 0)) {
+      return res.status(400).json({ error: 'budgetAmount must be a non-negative number' });
+    }
+    if ([soft, hard].some((cap) => cap !== undefined && cap !== null && (isNaN(cap) || cap <= 0))) {
+      return res.status(400).json({ error: 'softCap and hardCap must be positive fractions of the budget' });
+    }
+
+    const nextSoft = soft !== undefined ? soft : department.budgetSoftCap;
+    const nextHard = hard !== undefined ? hard : department.budgetHardCap;
+    if (nextSoft != null && nextHard != null && nextSoft > nextHard) {
+      return res.status(400).json({ error: 'softCap cannot be above hardCap' });
+    }
+
+    if (amount !== undefined) {
+      const overProject = await validateDepartmentBudget(id, department.projectId, amount);
+      if (overProject) {
+        return res.status(400).json({ error: overProject });
+      }
+    }
+
+    await prisma.department.update({
+      where: { id },
+      data: {
+        budgetAmount: amount,
+        budgetSoftCap: soft,
+        budgetHardCap: hard
+      }
+    });
+
+    const usage = await getDepartmentBudgetUsage(id);
+
+    res.json({
+      ...usage,
+      softCap: nextSoft,
+      hardCap: nextHard,
+      // Existing allocations are kept; the caps apply to new and changed payment amounts
+      overHardCap: usage.hardCapAmount !== null && usage.allocated > usage.hardCapAmount
+    });
+  } catch (error) {
+    console.error('[Departments API] Error updating department budget:', error);
+    res.status(500).json({ error: 'Failed to update department budget' });
+  }
+});
+
 /**
  * DELETE /api/departments/:id - Delete department
  */
@@ -424,6 +500,41 @@ router.get('/project/:projectId', authenticateToken, async (req: Request, res: R
   }
 });
 
+/**
+ * GET /api/departments/project/:projectId/budget - Budget vs. actual per department
+ * Allocated, released and remaining amounts, with burn per ?interval=week|month between ?from and ?to
+ */
+router.get('/project/:projectId/budget', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const { from, to, interval = 'week' } = req.query as Record<string, string | undefined>;
+
+    if (!requireAuth(req, res)) return;
+
+    const access = await checkProjectAccess(req.user!.id, projectId);
+    if (!access.hasAccess || access.role === 'EMPLOYEE') {
+      return res.status(403).json({ error: 'Access denied to this project\'s budget' });
+    }
+
+    if (interval !== 'week' && interval !== 'month') {
+      return res.status(400).json({ error: 'interval must be week or month' });
+    }
+
+    const fromDate = from ? new Date(from) : undefined;
+    const toDate = to ? new Date(to) : undefined;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return res.status(400).json({ error: 'from and to must be valid dates' });
+    }
+
+    const report = await getBudgetReport(projectId, { from: fromDate, to: toDate, interval });
+
+    res.json(report);
+  } catch (error) {
+    console.error('[Departments API] Error building budget report:', error);
+    res.status(500).json({ error: 'Failed to build budget report' });
+  }
+});
+
 /**
  * PUT /api/departments/project/:projectId/reorder - Reorder departments
  */
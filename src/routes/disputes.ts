@@ -0,0 +1,440 @@
+import { Router, Request, Response } from 'express';
+import { prisma } from '../utils/database.js';
+import { authenticateToken } from '../middleware/auth.js';
+import { queuePayment, queuePayoutBatch, cancelQueuedPayment, PAYOUT_BATCH_MODE } from '../services/paymentQueue.js';
+import { recordAllocation, reverseAllocation } from '../services/escrowLedger.js';
+
+const router = Router();
+
+const ACTIVE_DISPUTE_STATUSES = ['OPEN', 'UNDER_REVIEW'] as const;
+
+/**
+ * Owner or active project manager of the project
+ */
+async function canManageProject(userId: string, project: { id: string; ownerId: string }) {
+  if (project.ownerId === userId) return true;
+
+  const managerRoles = await prisma.userRole.count({
+    where: {
+      userId,
+      projectId: project.id,
+      role: 'PROJECT_MANAGER',
+      status: 'ACTIVE',
+    },
+  });
+
+  return managerRoles > 0;
+}
+
+/**
+ * POST /api/tasks/:taskId/disputes
+ * Assignee contests an approved payout, or the approver puts it on hold
+ */
+router.post('/tasks/:taskId/disputes', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const { reason, proposedAmount } = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    if (!reason) {
+      return res.status(400).json({ error: 'reason is required' });
+    }
+
+    if (proposedAmount !== undefined && (typeof proposedAmount !== 'number' || proposedAmount < 0)) {
+      return res.status(400).json({ error: 'proposedAmount must be a non-negative number' });
+    }
+
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+      include: {
+        department: {
+          include: { project: true },
+        },
+      },
+    });
+
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    const project = task.department.project;
+    const isAssignee = task.employeeId === userId;
+
+    if (!isAssignee && !(await canManageProject(userId, project))) {
+      return res.status(403).json({ error: 'Only the assignee, project owner or managers can dispute a payment' });
+    }
+
+    // Only payouts still held in escrow can be disputed
+    const payment = await prisma.payment.findFirst({
+      where: { taskId, status: 'ALLOCATED' },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!payment) {
+      return res.status(400).json({ error: 'No held payment to dispute for this task' });
+    }
+
+    const activeDispute = await prisma.paymentDispute.findFirst({
+      where: { paymentId: payment.id, status: { in: [...ACTIVE_DISPUTE_STATUSES] } },
+    });
+
+    if (activeDispute) {
+      return res.status(400).json({ error: 'This payment already has an open dispute', disputeId: activeDispute.id });
+    }
+
+    const dispute = await prisma.paymentDispute.create({
+      data: {
+        taskId,
+        paymentId: payment.id,
+        projectId: project.id,
+        raisedBy: userId,
+        reason,
+        proposedAmount: proposedAmount ?? null,
+        originalAmount: payment.amount,
+      },
+    });
+
+    // The worker also skips disputed payments, removing the job just keeps the queue clean
+    if (payment.jobId) {
+      await cancelQueuedPayment(payment.jobId);
+    }
+
+    res.status(201).json(dispute);
+  } catch (error: any) {
+    console.error('Error opening payment dispute:', error);
+    res.status(500).json({ error: error.message || 'Failed to open payment dispute' });
+  }
+});
+
+/**
+ * GET /api/tasks/:taskId/disputes
+ * Dispute history of a task
+ */
+router.get('/tasks/:taskId/disputes', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+      include: {
+        department: {
+          include: { project: true },
+        },
+      },
+    });
+
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    if (task.employeeId !== userId && !(await canManageProject(userId, task.department.project))) {
+      return res.status(403).json({ error: 'Access denied to task disputes' });
+    }
+
+    const disputes = await prisma.paymentDispute.findMany({
+      where: { taskId },
+      include: {
+        payment: {
+          select: { id: true, amount: true, status: true, holdUntil: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json({ disputes, count: disputes.length });
+  } catch (error: any) {
+    console.error('Error fetching task disputes:', error);
+    res.status(500).json({ error: error.message || 'Failed to fetch task disputes' });
+  }
+});
+
+/**
+ * GET /api/projects/:projectId/disputes
+ * Lists payment disputes of a project, optionally filtered by status
+ */
+router.get('/projects/:projectId/disputes', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const { status } = req.query;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const project = await prisma.project.findUnique({ where: { id: projectId } });
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    if (!(await canManageProject(userId, project))) {
+      return res.status(403).json({ error: 'Only project owners and managers can view disputes' });
+    }
+
+    const where: any = { projectId };
+    if (status) where.status = status as string;
+
+    const disputes = await prisma.paymentDispute.findMany({
+      where,
+      include: {
+        task: { select: { id: true, title: true, employeeId: true } },
+        payment: { select: { id: true, amount: true, status: true, holdUntil: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json({ disputes, count: disputes.length });
+  } catch (error: any) {
+    console.error('Error fetching project disputes:', error);
+    res.status(500).json({ error: error.message || 'Failed to fetch project disputes' });
+  }
+});
+
+/**
+ * POST /api/disputes/:disputeId/review
+ * Owner or manager picks up an open dispute
+ */
+router.post('/disputes/:disputeId/review', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { disputeId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const dispute = await prisma.paymentDispute.findUnique({ where: { id: disputeId } });
+
+    if (!dispute) {
+      return res.status(404).json({ error: 'Dispute not found' });
+    }
+
+    const project = await prisma.project.findUnique({ where: { id: dispute.projectId } });
+
+    if (!project || !(await canManageProject(userId, project))) {
+      return res.status(403).json({ error: 'Only project owners and managers can review disputes' });
+    }
+
+    if (dispute.status !== 'OPEN') {
+      return res.status(400).json({ error: `Dispute is ${dispute.status}` });
+    }
+
+    const updated = await prisma.paymentDispute.update({
+      where: { id: disputeId },
+      data: {
+        status: 'UNDER_REVIEW',
+        reviewedBy: userId,
+      },
+    });
+
+    res.json(updated);
+  } catch (error: any) {
+    console.error('Error reviewing dispute:', error);
+    res.status(500).json({ error: error.message || 'Failed to review dispute' });
+  }
+});
+
+/**
+ * POST /api/disputes/:disputeId/resolve
+ * Releases the payout (optionally with an adjusted amount) or refunds it to escrow
+ */
+router.post('/disputes/:disputeId/resolve', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { disputeId } = req.params;
+    const { outcome, amount, resolution } = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    if (outcome !== 'PAY' && outcome !== 'REFUND') {
+      return res.status(400).json({ error: 'outcome must be PAY or REFUND' });
+    }
+
+    const dispute = await prisma.paymentDispute.findUnique({
+      where: { id: disputeId },
+      include: {
+        payment: true,
+        task: {
+          include: {
+            assignedTo: {
+              select: { id: true, walletAddress: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!dispute) {
+      return res.status(404).json({ error: 'Dispute not found' });
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: dispute.projectId },
+      include: { escrow: true },
+    });
+
+    if (!project || !(await canManageProject(userId, project))) {
+      return res.status(403).json({ error: 'Only project owners and managers can resolve disputes' });
+    }
+
+    // The assignee cannot settle their own payout
+    if (dispute.task.employeeId === userId) {
+      return res.status(403).json({ error: 'The task assignee cannot resolve this dispute' });
+    }
+
+    if (!ACTIVE_DISPUTE_STATUSES.includes(dispute.status as (typeof ACTIVE_DISPUTE_STATUSES)[number])) {
+      return res.status(400).json({ error: `Dispute already ${dispute.status}` });
+    }
+
+    if (dispute.payment.status !== 'ALLOCATED') {
+      return res.status(400).json({ error: `Payment is ${dispute.payment.status.toLowerCase()} and can no longer be changed` });
+    }
+
+    if (outcome === 'REFUND') {
+      await prisma.payment.update({
+        where: { id: dispute.paymentId },
+        data: { status: 'REFUNDED' },
+      });
+
+      await prisma.task.update({
+        where: { id: dispute.taskId },
+        data: { paymentStatus: 'REFUNDED' },
+      });
+
+      await reverseAllocation(dispute.projectId, dispute.payment.amount, {
+        taskId: dispute.taskId,
+        reference: dispute.paymentId,
+        memo: 'Dispute refund',
+      });
+
+      const resolved = await prisma.paymentDispute.update({
+        where: { id: disputeId },
+        data: {
+          status: 'RESOLVED_REFUND',
+          resolvedAmount: 0,
+          resolution: resolution || null,
+          resolvedBy: userId,
+          resolvedAt: new Date(),
+        },
+      });
+
+      return res.json({
+        success: true,
+        dispute: resolved,
+        message: 'Payment refunded to escrow',
+      });
+    }
+
+    const payAmount = amount !== undefined ? parseFloat(amount) : dispute.payment.amount;
+    if (!payAmount || payAmount <= 0) {
+      return res.status(400).json({ error: 'amount must be a positive number' });
+    }
+
+    if (!dispute.task.assignedTo?.walletAddress) {
+      return res.status(400).json({ error: 'Employee does not have a verified wallet address' });
+    }
+
+    if (!project.escrow) {
+      return res.status(400).json({ error: 'Escrow account not created for this project' });
+    }
+
+    if (project.escrow.status !== 'ACTIVE') {
+      return res.status(400).json({ error: `Project escrow is ${project.escrow.status.toLowerCase()}` });
+    }
+
+    const difference = payAmount - dispute.payment.amount;
+    if (difference > 0 && project.escrow.currentBalance < payAmount) {
+      return res.status(400).json({
+        error: 'Insufficient escrow balance',
+        available: project.escrow.currentBalance,
+        required: payAmount,
+      });
+    }
+
+    // Move the allocation to the agreed amount
+    if (difference > 0) {
+      await recordAllocation(dispute.projectId, difference, {
+        taskId: dispute.taskId,
+        reference: dispute.paymentId,
+        memo: 'Dispute adjustment',
+      });
+    } else if (difference < 0) {
+      await reverseAllocation(dispute.projectId, -difference, {
+        taskId: dispute.taskId,
+        reference: dispute.paymentId,
+        memo: 'Dispute adjustment',
+      });
+    }
+
+    await prisma.task.update({
+      where: { id: dispute.taskId },
+      data: { paymentAmount: payAmount },
+    });
+
+    const resolved = await prisma.paymentDispute.update({
+      where: { id: disputeId },
+      data: {
+        status: 'RESOLVED_PAY',
+        resolvedAmount: payAmount,
+        resolution: resolution || null,
+        resolvedBy: userId,
+        resolvedAt: new Date(),
+      },
+    });
+
+    // Resolution ends the hold, so the payout goes out right away
+    const holdUntil = new Date();
+    await prisma.payment.update({
+      where: { id: dispute.paymentId },
+      data: {
+        amount: payAmount,
+        holdUntil,
+      },
+    });
+
+    const jobId = PAYOUT_BATCH_MODE
+      ? await queuePayoutBatch(dispute.projectId, holdUntil)
+      : await queuePayment({
+          taskId: dispute.taskId,
+          projectId: dispute.projectId,
+          employeeWalletAddress: dispute.task.assignedTo.walletAddress,
+          amount: payAmount,
+          escrowAddress: project.escrow.escrowAddress,
+          encryptedPrivateKey: project.escrow.encryptedPrivateKey,
+          paymentId: dispute.paymentId,
+        });
+
+    await prisma.payment.update({
+      where: { id: dispute.paymentId },
+      data: { jobId },
+    });
+
+    res.json({
+      success: true,
+      dispute: resolved,
+      payment: {
+        paymentId: dispute.paymentId,
+        amount: payAmount,
+        jobId,
+      },
+      message: 'Dispute resolved and payment queued for processing',
+    });
+  } catch (error: any) {
+    console.error('Error resolving dispute:', error);
+    res.status(500).json({ error: error.message || 'Failed to resolve dispute' });
+  }
+});
+
+export default router;
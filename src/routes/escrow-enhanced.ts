@@ -1,6 +1,10 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../utils/database.js';
-import { getEscrowBalance, verifyDepositTransaction } from '../services/algorand.js';
+import { authenticateToken } from '../middleware/auth.js';
+import { verifyDepositTransaction } from '../services/algorand.js';
+import { recordDeposit } from '../services/escrowLedger.js';
+import { resumeAfterDeposit } from '../services/recurringPaymentProcessor.js';
+import { calculateRunway, recurringDueWithin } from '../services/escrowRunway.js';
 
 const router = Router();
 
@@ -40,11 +44,16 @@ router.post('/projects/:projectId/escrow/fund', async (req: Request, res: Respon
       return res.status(400).json({ error: 'Escrow account not created for this project' });
     }
 
+    if (project.escrow.status === 'CLOSED') {
+      return res.status(400).json({ error: 'Escrow account has been closed' });
+    }
+
     // Verify transaction on blockchain
     const verification = await verifyDepositTransaction(
       txHash,
       parseFloat(amount),
-      project.escrow.escrowAddress
+      project.escrow.escrowAddress,
+      project.escrow.assetId
     );
 
     // Record transaction
@@ -53,6 +62,7 @@ router.post('/projects/:projectId/escrow/fund', async (req: Request, res: Respon
         txHash,
         type: 'DEPOSIT',
         amount: verification.amount,
+        assetId: project.escrow.assetId,
         fee: verification.fee,
         fromAddress: 'EXTERNAL',
         toAddress: project.escrow.escrowAddress,
@@ -66,6 +76,8 @@ router.post('/projects/:projectId/escrow/fund', async (req: Request, res: Respon
       },
     });
 
+    await recordDeposit(projectId, verification.amount, { txHash, memo: 'Escrow funding' });
+
     // Update escrow balance
     const newBalance = project.escrow.currentBalance + verification.amount;
     await prisma.projectEscrow.update({
@@ -82,11 +94,20 @@ router.post('/projects/:projectId/escrow/fund', async (req: Request, res: Respon
       data: { escrowFunded: true },
     });
 
+    // Salaries paused for lack of funds can go out again
+    let resumedPayments: Awaited<ReturnType<typeof resumeAfterDeposit>> = [];
+    try {
+      resumedPayments = await resumeAfterDeposit(projectId);
+    } catch (error: any) {
+      console.error('Error resuming paused payments:', error);
+    }
+
     res.json({
       success: true,
       verified: verification.confirmed,
       currentBalance: newBalance,
       txHash,
+      resumedPayments,
     });
   } catch (error: any) {
     console.error('Error funding escrow:', error);
@@ -109,12 +130,7 @@ router.get('/projects/:projectId/escrow/funding-needed', async (req: Request, re
 
     const project = await prisma.project.findUnique({
       where: { id: projectId },
-      include: {
-        escrow: true,
-        recurringPayments: {
-          where: { status: 'ACTIVE' },
-        },
-      },
+      select: { ownerId: true, minimumBalance: true },
     });
 
     if (!project) {
@@ -134,56 +150,18 @@ router.get('/projects/:projectId/escrow/funding-needed', async (req: Request, re
       return res.status(403).json({ error: 'Access denied' });
     }
 
-    const currentBalance = project.escrow ? await getEscrowBalance(project.escrow.escrowAddress) : 0;
-
-    const [pendingTaskSum, processingTransfers] = await Promise.all([
-      prisma.task.aggregate({
-        where: {
-          department: { projectId },
-          paymentAmount: { not: null },
-          paymentStatus: { in: ['PENDING', 'ALLOCATED'] },
-        },
-        _sum: { paymentAmount: true },
-      }),
-      prisma.blockchainTransaction.aggregate({
-        where: {
-          projectId,
-          status: 'PENDING',
-          type: { in: ['TASK_PAYMENT', 'SALARY_PAYMENT'] },
-        },
-        _sum: { amount: true },
-      }),
-    ]);
-
-    const pendingTasksTotal = pendingTaskSum._sum.paymentAmount || 0;
-    const processingTotal = processingTransfers._sum.amount || 0;
+    const runway = await calculateRunway(projectId);
+    const { currentBalance } = runway;
+
+    const pendingTasksTotal = runway.obligations.allocatedTasks;
+    const processingTotal = runway.obligations.processingTransfers;
     const obligations = pendingTasksTotal + processingTotal;
     const available = currentBalance - obligations;
 
-    // Calculate upcoming recurring payments
-    const now = new Date();
-    const next7Days = new Date(now);
-    next7Days.setDate(next7Days.getDate() + 7);
-    const next30Days = new Date(now);
-    next30Days.setDate(next30Days.getDate() + 30);
-    const next90Days = new Date(now);
-    next90Days.setDate(next90Days.getDate() + 90);
-
-    let upcoming7 = 0;
-    let upcoming30 = 0;
-    let upcoming90 = 0;
-
-    project.recurringPayments.forEach((payment) => {
-      if (payment.nextPaymentDate <= next7Days) {
-        upcoming7 += payment.amount;
-      }
-      if (payment.nextPaymentDate <= next30Days) {
-        upcoming30 += payment.amount;
-      }
-      if (payment.nextPaymentDate <= next90Days) {
-        upcoming90 += payment.amount;
-      }
-    });
+    // Upcoming recurring payments, walked along each payment's schedule
+    const upcoming7 = recurringDueWithin(runway, 7);
+    const upcoming30 = recurringDueWithin(runway, 30);
+    const upcoming90 = recurringDueWithin(runway, 90);
 
     // Get pending task payments
     const pendingTasks = await prisma.task.count({
@@ -194,21 +172,12 @@ router.get('/projects/:projectId/escrow/funding-needed', async (req: Request, re
       },
     });
 
-    const tasksTotal = await prisma.task.aggregate({
-      where: {
-        department: { projectId },
-        paymentStatus: { in: ['PENDING', 'ALLOCATED'] },
-        paymentAmount: { not: null },
-      },
-      _sum: { paymentAmount: true },
-    });
-
-    const taskPayments = tasksTotal._sum.paymentAmount || 0;
+    const taskPayments = pendingTasksTotal;
 
-    // Calculate recommended funding
+    // Calculate recommended funding: the next 30 days, or what lasts until the project's end date
     const minimumBalance = project.minimumBalance || 0;
     const totalNeeded = upcoming30 + taskPayments;
-    const recommended = Math.max(totalNeeded - available, minimumBalance - currentBalance, 0);
+    const recommended = Math.max(totalNeeded - available, minimumBalance - currentBalance, runway.topUpNeeded, 0);
 
     // Check if critical
     const critical = currentBalance < minimumBalance || available < upcoming7;
@@ -228,8 +197,15 @@ router.get('/projects/:projectId/escrow/funding-needed', async (req: Request, re
       },
       breakdown: {
         tasks: taskPayments,
+        pendingTaskCount: pendingTasks,
         salaries: upcoming30,
       },
+      runway: {
+        depletionDate: runway.depletionDate,
+        runwayDays: runway.runwayDays,
+        endDate: runway.endDate,
+        topUpNeeded: runway.topUpNeeded,
+      },
       recommended,
       critical,
     });
@@ -239,5 +215,64 @@ router.get('/projects/:projectId/escrow/funding-needed', async (req: Request, re
   }
 });
 
+/**
+ * GET /api/projects/:projectId/escrow/runway
+ * Projected escrow balance, depletion date and top-up needed to reach the end date
+ */
+router.get('/projects/:projectId/escrow/runway', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { ownerId: true },
+    });
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    // Verify access
+    const hasAccess = project.ownerId === userId || await prisma.userRole.count({
+      where: {
+        userId,
+        projectId,
+        status: 'ACTIVE',
+      },
+    }) > 0;
+
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const { horizonDays } = req.query;
+    const parsedHorizon = horizonDays ? parseInt(horizonDays as string, 10) : undefined;
+    if (parsedHorizon !== undefined && (isNaN(parsedHorizon) || parsedHorizon < 1)) {
+      return res.status(400).json({ error: 'horizonDays must be a positive number' });
+    }
+
+    const runway = await calculateRunway(projectId, { horizonDays: parsedHorizon });
+
+    res.json({
+      ...runway,
+      upcoming: {
+        next7Days: recurringDueWithin(runway, 7),
+        next30Days: recurringDueWithin(runway, 30),
+        next90Days: recurringDueWithin(runway, 90),
+      },
+      // Long horizons of daily payments would otherwise bloat the response
+      recurringOutflows: runway.recurringOutflows.slice(0, 100),
+    });
+  } catch (error: any) {
+    console.error('Error calculating escrow runway:', error);
+    res.status(500).json({ error: error.message || 'Failed to calculate escrow runway' });
+  }
+});
+
 export default router;
 
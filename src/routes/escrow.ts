@@ -5,14 +5,212 @@ import {
   getEscrowBalance,
   verifyDepositTransaction,
   getAddressTransactions,
-  optInToSIZCOIN,
-  isOptedInToSIZCOIN,
+  optInToAsset,
+  isOptedInToAsset,
+  createPaymentTransaction,
+  waitForConfirmation,
+  getMultisigMetadata,
+  getSettlementAsset,
+  getSettlementAssetByCode,
+  ALGO_ASSET_ID,
 } from '../services/algorand.js';
+import algosdk from 'algosdk';
+import { authenticateToken } from '../middleware/auth.js';
+import { freezeEscrow, unfreezeEscrow, EscrowFreezeError } from '../services/escrowFreeze.js';
+import { requestMultisigPayout, addCoSignature, refreshMultisigPayout, MultisigSignatureError } from '../services/multisigEscrow.js';
+import { resumeAfterDeposit } from '../services/recurringPaymentProcessor.js';
+import { finalizeTaskPayout } from '../services/paymentQueue.js';
+import {
+  recordDeposit,
+  getLedgerBalances,
+  reconcileProjectEscrow,
+} from '../services/escrowLedger.js';
 
-const SIZCOIN_ASSET_ID = 2905622564;
+// Payouts above this amount need co-signers when the project has a multisig vault
+const DEFAULT_COSIGN_AMOUNT = parseFloat(process.env.MULTISIG_COSIGN_AMOUNT || '1000');
 
 const router = Router();
 
+function escrowAddressesOf(escrow: { escrowAddress: string; multisigAddress: string | null }) {
+  return escrow.multisigAddress ? [escrow.escrowAddress, escrow.multisigAddress] : [escrow.escrowAddress];
+}
+
+/**
+ * Funds the escrow still owes: unpaid task amounts plus transfers that have not confirmed yet
+ */
+async function getEscrowObligations(projectId: string, escrowAddresses: string[]) {
+  const [pendingTaskSum, pendingOversightSum, processingTransactions] = await Promise.all([
+    prisma.task.aggregate({
+      where: {
+        department: { projectId },
+        paymentAmount: { not: null },
+        paymentStatus: { in: ['PENDING', 'ALLOCATED'] },
+      },
+      _sum: { paymentAmount: true },
+    }),
+    prisma.oversightPayment.aggregate({
+      where: {
+        projectId,
+        status: { in: ['ALLOCATED', 'PROCESSING'] },
+      },
+      _sum: { amount: true },
+    }),
+    prisma.blockchainTransaction.aggregate({
+      where: {
+        projectId,
+        status: 'PENDING',
+        fromAddress: { in: escrowAddresses },
+      },
+      _sum: { amount: true },
+    }),
+  ]);
+
+  const pendingTasks = pendingTaskSum._sum.paymentAmount || 0;
+  const pendingOversight = pendingOversightSum._sum.amount || 0;
+  const processingTransfers = processingTransactions._sum.amount || 0;
+
+  return {
+    pendingTasks,
+    pendingOversight,
+    processingTransfers,
+    total: pendingTasks + pendingOversight + processingTransfers,
+  };
+}
+
+/**
+ * Verified wallets of the project owner and active managers, owner first.
+ * These are the co-signers of a multisig vault.
+ */
+async function getCoSignerWallets(projectId: string, ownerId: string) {
+  const managers = await prisma.userRole.findMany({
+    where: { projectId, role: 'PROJECT_MANAGER', status: 'ACTIVE' },
+    select: { userId: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const userIds = [ownerId, ...managers.map((m) => m.userId).filter((id) => id !== ownerId)];
+  const wallets = await prisma.userWallet.findMany({
+    where: { userId: { in: userIds }, verified: true },
+    select: { userId: true, walletAddress: true },
+  });
+
+  return userIds
+    .map((id) => wallets.find((w) => w.userId === id))
+    .filter((w): w is { userId: string; walletAddress: string } => Boolean(w));
+}
+
+/**
+ * Multisig options from a request body: co-signers are the owner and manager wallets,
+ * the threshold defaults to the escrow key plus one co-signer
+ */
+async function buildMultisigOptions(projectId: string, ownerId: string, body: { threshold?: any; coSignAmount?: any }) {
+  const wallets = await getCoSignerWallets(projectId, ownerId);
+
+  if (!wallets.some((w) => w.userId === ownerId)) {
+    throw new Error('Multisig escrow requires a verified owner wallet');
+  }
+
+  const threshold = body.threshold !== undefined ? parseInt(body.threshold, 10) : 2;
+  const coSignAmount = body.coSignAmount !== undefined ? parseFloat(body.coSignAmount) : DEFAULT_COSIGN_AMOUNT;
+
+  if (Number.isNaN(coSignAmount) || coSignAmount < 0) {
+    throw new Error('Multisig coSignAmount must be a non-negative number');
+  }
+
+  return {
+    signers: wallets.map((w) => w.walletAddress),
+    threshold,
+    coSignAmount,
+  };
+}
+
+// Longest a withdrawal or close-out holds the project's refund lock, including the wait for confirmation
+const ESCROW_REFUND_LOCK_TIMEOUT_MS = 60000;
+
+/**
+ * Runs fn under a per-project advisory lock so the balance checks and the refund
+ * that relies on them cannot interleave with another withdrawal or close-out
+ */
+async function withEscrowRefundLock<T>(projectId: string, fn: () => Promise<T>) {
+  return prisma.$transaction(
+    async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${'escrow-refund:' + projectId}))`;
+      return fn();
+    },
+    { timeout: ESCROW_REFUND_LOCK_TIMEOUT_MS }
+  );
+}
+
+/**
+ * Sends escrow funds back to the project owner's verified wallet. The transfer is recorded
+ * before it leaves and posted to the ledger once confirmed; a transfer that is not
+ * confirmed in time comes back pending and monitorPendingTransactions settles it.
+ */
+async function refundToOwner(
+  projectId: string,
+  escrow: { escrowAddress: string; encryptedPrivateKey: string; assetId: bigint },
+  ownerWalletAddress: string,
+  amount: number,
+  type: 'REFUND' | 'WITHDRAWAL',
+  note: string
+) {
+  let recordedTxHash: string | undefined;
+  let txResult;
+  try {
+    txResult = await createPaymentTransaction(
+      escrow.escrowAddress,
+      escrow.encryptedPrivateKey,
+      ownerWalletAddress,
+      amount,
+      note,
+      escrow.assetId,
+      async ({ txHashes, lastValidRound }) => {
+        await prisma.blockchainTransaction.create({
+          data: {
+            txHash: txHashes[0],
+            type,
+            amount,
+            assetId: escrow.assetId,
+            fromAddress: escrow.escrowAddress,
+            toAddress: ownerWalletAddress,
+            projectId,
+            status: 'PENDING',
+            submittedAt: new Date(),
+            lastValidRound,
+            note,
+          },
+        });
+        recordedTxHash = txHashes[0];
+      }
+    );
+  } catch (error: any) {
+    // Recorded but rejected by the node: nothing left the escrow
+    if (recordedTxHash) {
+      await prisma.blockchainTransaction.updateMany({
+        where: { txHash: recordedTxHash, status: 'PENDING' },
+        data: { status: 'FAILED', errorMessage: error.message },
+      });
+    }
+    throw error;
+  }
+
+  await prisma.blockchainTransaction.update({
+    where: { txHash: txResult.txHash },
+    data: { fee: txResult.fee },
+  });
+
+  // The owner's own funds: posted on the first confirmation, as Algorand blocks are final
+  try {
+    const confirmation = await waitForConfirmation(txResult.txHash);
+    await finalizeTaskPayout(txResult.txHash, { blockNumber: confirmation.blockNumber, confirmations: 1 });
+  } catch (error: any) {
+    console.warn(`Escrow ${type.toLowerCase()} ${txResult.txHash} not confirmed yet:`, error.message);
+    return { ...txResult, pending: true };
+  }
+
+  return { ...txResult, pending: false };
+}
+
 /**
  * POST /api/projects/:projectId/escrow/create
  * Creates Algorand escrow account for project
@@ -58,19 +256,40 @@ router.post('/projects/:projectId/escrow/create', async (req: Request, res: Resp
       return res.status(400).json({ error: 'Escrow account already exists for this project' });
     }
 
+    let asset;
+    let multisig;
+    try {
+      // Settlement asset is fixed for the lifetime of the escrow
+      asset = getSettlementAssetByCode(req.body?.asset || 'SIZCOIN');
+      if (req.body?.multisig) {
+        multisig = await buildMultisigOptions(projectId, project.ownerId, req.body.multisig);
+      }
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+
     // Create escrow account
-    const result = await createEscrowAccount(projectId);
+    const result = await createEscrowAccount(projectId, { multisig, asset });
 
     res.json({
       success: true,
       escrowAddress: result.escrowAddress,
+      multisigAddress: result.multisigAddress,
+      asset: result.asset,
       assetId: result.assetId,
       message: 'Escrow account created successfully.',
       instructions: {
         step1: 'Fund this escrow address with ALGO (minimum 0.1 ALGO for transaction fees)',
-        step2: `Call POST /api/projects/${projectId}/escrow/opt-in to opt-in to SIZCOIN`,
-        step3: 'Fund the escrow with SIZCOIN tokens',
+        step2: asset.assetId === ALGO_ASSET_ID
+          ? 'No opt-in needed for native ALGO'
+          : `Call POST /api/projects/${projectId}/escrow/opt-in to opt-in to ${asset.code}`,
+        step3: `Fund the escrow with ${asset.code}`,
         step4: 'Record the deposit using POST /api/projects/:projectId/escrow/deposit',
+        ...(result.multisigAddress && {
+          step5: asset.assetId === ALGO_ASSET_ID
+            ? 'Fund the multisig vault with ALGO'
+            : `Fund the multisig vault with ALGO and co-sign its opt-in via POST /api/projects/${projectId}/escrow/multisig/opt-in`,
+        }),
       },
       note: result.note,
     });
@@ -82,7 +301,7 @@ router.post('/projects/:projectId/escrow/create', async (req: Request, res: Resp
 
 /**
  * POST /api/projects/:projectId/escrow/opt-in
- * Opts the escrow account into SIZCOIN asset
+ * Opts the escrow account into its settlement asset
  */
 router.post('/projects/:projectId/escrow/opt-in', async (req: Request, res: Response) => {
   try {
@@ -106,47 +325,53 @@ router.post('/projects/:projectId/escrow/opt-in', async (req: Request, res: Resp
     }
 
     if (project.ownerId !== userId) {
-      return res.status(403).json({ error: 'Only project owner can opt-in escrow to SIZCOIN' });
+      return res.status(403).json({ error: 'Only project owner can opt-in the escrow' });
     }
 
     if (!project.escrow) {
       return res.status(400).json({ error: 'Escrow account not created for this project' });
     }
 
+    const asset = getSettlementAsset(project.escrow.assetId);
+    if (asset.assetId === ALGO_ASSET_ID) {
+      return res.status(400).json({ error: 'Escrow settles in native ALGO and needs no opt-in' });
+    }
+
     // Check if already opted-in
-    const alreadyOptedIn = await isOptedInToSIZCOIN(project.escrow.escrowAddress);
+    const alreadyOptedIn = await isOptedInToAsset(project.escrow.escrowAddress, asset.assetId);
     if (alreadyOptedIn) {
       return res.status(400).json({ 
-        error: 'Escrow is already opted-in to SIZCOIN',
-        assetId: SIZCOIN_ASSET_ID,
+        error: `Escrow is already opted-in to ${asset.code}`,
+        assetId: asset.assetId,
       });
     }
 
     // Perform opt-in
-    const result = await optInToSIZCOIN(
+    const result = await optInToAsset(
       project.escrow.escrowAddress,
-      project.escrow.encryptedPrivateKey
+      project.escrow.encryptedPrivateKey,
+      asset.assetId
     );
 
     res.json({
       success: true,
       ...result,
-      message: 'Escrow successfully opted-in to SIZCOIN. You can now fund it with SIZCOIN tokens.',
+      message: `Escrow successfully opted-in to ${asset.code}. You can now fund it with ${asset.code}.`,
     });
   } catch (error: any) {
-    console.error('Error opting in to SIZCOIN:', error);
-    res.status(500).json({ error: error.message || 'Failed to opt-in to SIZCOIN' });
+    console.error('Error opting in escrow:', error);
+    res.status(500).json({ error: error.message || 'Failed to opt-in escrow' });
   }
 });
 
 /**
  * POST /api/projects/:projectId/escrow/deposit
- * Records owner's SIZCOIN deposit transaction
+ * Records owner's deposit of the escrow's settlement asset
  */
 router.post('/projects/:projectId/escrow/deposit', async (req: Request, res: Response) => {
   try {
     const { projectId } = req.params;
-    const { txHash, amount } = req.body;
+    const { txHash, amount, target } = req.body;
     const userId = req.user?.id;
 
     if (!userId) {
@@ -177,11 +402,22 @@ router.post('/projects/:projectId/escrow/deposit', async (req: Request, res: Res
       return res.status(400).json({ error: 'Escrow account not created for this project' });
     }
 
+    if (project.escrow.status === 'CLOSED') {
+      return res.status(400).json({ error: 'Escrow account has been closed' });
+    }
+
+    // Deposits into the multisig vault count towards the same escrow balance
+    const depositAddress = target === 'multisig' ? project.escrow.multisigAddress : project.escrow.escrowAddress;
+    if (!depositAddress) {
+      return res.status(400).json({ error: 'Project escrow has no multisig vault' });
+    }
+
     // Verify transaction on blockchain
     const verification = await verifyDepositTransaction(
       txHash,
       parseFloat(amount),
-      project.escrow.escrowAddress
+      depositAddress,
+      project.escrow.assetId
     );
 
     // Record transaction
@@ -190,9 +426,10 @@ router.post('/projects/:projectId/escrow/deposit', async (req: Request, res: Res
         txHash,
         type: 'DEPOSIT',
         amount: verification.amount,
+        assetId: project.escrow.assetId,
         fee: verification.fee,
         fromAddress: 'EXTERNAL', // Will be updated with actual sender
-        toAddress: project.escrow.escrowAddress,
+        toAddress: depositAddress,
         projectId,
         status: verification.confirmed ? 'CONFIRMED' : 'PENDING',
         blockNumber: verification.blockNumber ? BigInt(verification.blockNumber) : null,
@@ -203,6 +440,8 @@ router.post('/projects/:projectId/escrow/deposit', async (req: Request, res: Res
       },
     });
 
+    await recordDeposit(projectId, verification.amount, { txHash, memo: 'Project escrow deposit' });
+
     // Update escrow balance
     const newBalance = project.escrow.currentBalance + verification.amount;
     const isFirstDeposit = project.escrow.initialDeposit === 0;
@@ -223,12 +462,21 @@ router.post('/projects/:projectId/escrow/deposit', async (req: Request, res: Res
       },
     });
 
+    // Salaries paused for lack of funds can go out again
+    let resumedPayments: Awaited<ReturnType<typeof resumeAfterDeposit>> = [];
+    try {
+      resumedPayments = await resumeAfterDeposit(projectId);
+    } catch (error: any) {
+      console.error('Error resuming paused payments:', error);
+    }
+
     res.json({
       success: true,
       txHash,
       amount: verification.amount,
       balance: newBalance,
       confirmed: verification.confirmed,
+      resumedPayments,
       message: 'Deposit recorded successfully',
     });
   } catch (error: any) {
@@ -278,7 +526,11 @@ router.get('/projects/:projectId/escrow/balance', async (req: Request, res: Resp
     }
 
     // Get real-time balance from blockchain
-    const blockchainBalance = await getEscrowBalance(project.escrow.escrowAddress);
+    const escrowBalance = await getEscrowBalance(project.escrow.escrowAddress, project.escrow.assetId);
+    const vaultBalance = project.escrow.multisigAddress
+      ? await getEscrowBalance(project.escrow.multisigAddress, project.escrow.assetId)
+      : 0;
+    const blockchainBalance = escrowBalance + vaultBalance;
 
     // Update database balance
     await prisma.projectEscrow.update({
@@ -289,38 +541,25 @@ router.get('/projects/:projectId/escrow/balance', async (req: Request, res: Resp
     });
 
     // Calculate obligations based on pending tasks and in-flight transactions
-    const [pendingTaskSum, processingTransactions] = await Promise.all([
-      prisma.task.aggregate({
-        where: {
-          department: { projectId },
-          paymentAmount: { not: null },
-          paymentStatus: { in: ['PENDING', 'ALLOCATED'] },
-        },
-        _sum: { paymentAmount: true },
-      }),
-      prisma.blockchainTransaction.aggregate({
-        where: {
-          projectId,
-          status: 'PENDING',
-          type: { in: ['TASK_PAYMENT', 'SALARY_PAYMENT'] },
-        },
-        _sum: { amount: true },
-      }),
-    ]);
-
-    const taskHold = pendingTaskSum._sum.paymentAmount || 0;
-    const processingHold = processingTransactions._sum.amount || 0;
-    const totalObligations = taskHold + processingHold;
-    const netAvailable = blockchainBalance - totalObligations;
+    const obligations = await getEscrowObligations(projectId, escrowAddressesOf(project.escrow));
+    const netAvailable = blockchainBalance - obligations.total;
 
     res.json({
       escrowAddress: project.escrow.escrowAddress,
+      status: project.escrow.status,
+      asset: getSettlementAsset(project.escrow.assetId).code,
+      assetId: Number(project.escrow.assetId),
       balance: blockchainBalance,
-      obligations: {
-        pendingTasks: taskHold,
-        processingTransfers: processingHold,
-        total: totalObligations,
-      },
+      multisig: project.escrow.multisigAddress
+        ? {
+            address: project.escrow.multisigAddress,
+            threshold: project.escrow.multisigThreshold,
+            signers: project.escrow.multisigSigners,
+            coSignAmount: project.escrow.coSignAmount,
+            balance: vaultBalance,
+          }
+        : null,
+      obligations,
       released: project.releasedFunds || 0,
       netAvailable: netAvailable < 0 ? 0 : netAvailable,
       funded: project.escrowFunded,
@@ -428,5 +667,703 @@ router.get('/projects/:projectId/escrow/transactions', async (req: Request, res:
   }
 });
 
+/**
+ * POST /api/projects/:projectId/escrow/withdraw
+ * Returns part of the unallocated escrow balance to the owner's verified wallet
+ */
+router.post('/projects/:projectId/escrow/withdraw', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const { amount } = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const withdrawAmount = parseFloat(amount);
+    if (!withdrawAmount || withdrawAmount <= 0) {
+      return res.status(400).json({ error: 'A positive amount is required' });
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      include: { escrow: true },
+    });
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    if (project.ownerId !== userId) {
+      return res.status(403).json({ error: 'Only project owner can withdraw escrow funds' });
+    }
+
+    if (!project.escrow) {
+      return res.status(400).json({ error: 'Escrow account not created for this project' });
+    }
+
+    const ownerWallet = await prisma.userWallet.findUnique({ where: { userId } });
+    if (!ownerWallet || !ownerWallet.verified) {
+      return res.status(400).json({ error: 'Owner wallet must be verified before withdrawing' });
+    }
+
+    await withEscrowRefundLock(projectId, async () => {
+      // Re-read under the lock; a concurrent withdrawal or close-out may have changed it
+      const escrow = await prisma.projectEscrow.findUnique({ where: { projectId } });
+      if (!escrow || escrow.status !== 'ACTIVE') {
+        return res.status(400).json({ error: `Escrow is ${(escrow?.status || 'CLOSED').toLowerCase()}` });
+      }
+
+      const blockchainBalance = await getEscrowBalance(escrow.escrowAddress, escrow.assetId);
+      const obligations = await getEscrowObligations(projectId, escrowAddressesOf(escrow));
+      const unallocated = Math.max(blockchainBalance - obligations.total, 0);
+
+      if (withdrawAmount > unallocated) {
+        return res.status(400).json({
+          error: 'Withdrawal exceeds unallocated escrow balance',
+          unallocated,
+          obligations,
+        });
+      }
+
+      const txResult = await refundToOwner(
+        projectId,
+        escrow,
+        ownerWallet.walletAddress,
+        withdrawAmount,
+        'WITHDRAWAL',
+        'Escrow withdrawal'
+      );
+
+      const newBalance = blockchainBalance - withdrawAmount;
+      await prisma.projectEscrow.update({
+        where: { id: escrow.id },
+        data: { currentBalance: newBalance },
+      });
+
+      res.status(txResult.pending ? 202 : 200).json({
+        success: true,
+        txHash: txResult.txHash,
+        amount: withdrawAmount,
+        balance: newBalance,
+        pending: txResult.pending,
+        message: txResult.pending
+          ? 'Withdrawal submitted, waiting for confirmation'
+          : 'Withdrawal sent to owner wallet',
+      });
+    });
+  } catch (error: any) {
+    console.error('Error withdrawing from escrow:', error);
+    res.status(500).json({ error: error.message || 'Failed to withdraw from escrow' });
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/escrow/close
+ * Refunds the remaining balance to the owner and closes the escrow
+ */
+router.post('/projects/:projectId/escrow/close', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      include: { escrow: true },
+    });
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    if (project.ownerId !== userId) {
+      return res.status(403).json({ error: 'Only project owner can close the escrow' });
+    }
+
+    if (!project.escrow) {
+      return res.status(400).json({ error: 'Escrow account not created for this project' });
+    }
+
+    const ownerWallet = await prisma.userWallet.findUnique({ where: { userId } });
+    if (!ownerWallet || !ownerWallet.verified) {
+      return res.status(400).json({ error: 'Owner wallet must be verified before closing the escrow' });
+    }
+
+    await withEscrowRefundLock(projectId, async () => {
+      // Re-read under the lock; a concurrent withdrawal or close-out may have changed it
+      const escrow = await prisma.projectEscrow.findUnique({ where: { projectId } });
+      if (!escrow || escrow.status !== 'ACTIVE') {
+        return res.status(400).json({ error: `Escrow is ${(escrow?.status || 'CLOSED').toLowerCase()}` });
+      }
+
+      // Nothing may be mid-payout when the funds leave the escrow
+      const [inFlightTasks, inFlightOversight, pendingTransfers] = await Promise.all([
+        prisma.task.count({
+          where: {
+            department: { projectId },
+            paymentStatus: { in: ['ALLOCATED', 'PROCESSING'] },
+          },
+        }),
+        prisma.oversightPayment.count({
+          where: {
+            projectId,
+            status: { in: ['ALLOCATED', 'PROCESSING'] },
+          },
+        }),
+        prisma.blockchainTransaction.count({
+          where: {
+            projectId,
+            status: 'PENDING',
+            fromAddress: { in: escrowAddressesOf(escrow) },
+          },
+        }),
+      ]);
+
+      if (inFlightTasks > 0 || inFlightOversight > 0 || pendingTransfers > 0) {
+        return res.status(409).json({
+          error: 'Escrow has payouts in flight and cannot be closed yet',
+          inFlight: {
+            tasks: inFlightTasks,
+            oversightPayments: inFlightOversight,
+            pendingTransfers,
+          },
+        });
+      }
+
+      // The server cannot empty the vault on its own - co-signers have to move it first
+      if (escrow.multisigAddress && (await getEscrowBalance(escrow.multisigAddress, escrow.assetId)) > 0) {
+        return res.status(409).json({ error: 'Multisig vault still holds funds and cannot be closed yet' });
+      }
+
+      const blockchainBalance = await getEscrowBalance(escrow.escrowAddress, escrow.assetId);
+
+      let refundTxHash: string | null = null;
+      if (blockchainBalance > 0) {
+        const txResult = await refundToOwner(
+          projectId,
+          escrow,
+          ownerWallet.walletAddress,
+          blockchainBalance,
+          'REFUND',
+          'Escrow close-out refund'
+        );
+        refundTxHash = txResult.txHash;
+
+        // Closing waits for the refund; once it confirms, closing again finds an empty escrow
+        if (txResult.pending) {
+          return res.status(202).json({
+            success: true,
+            status: escrow.status,
+            refunded: blockchainBalance,
+            txHash: refundTxHash,
+            pending: true,
+            message: 'Refund submitted, close the escrow again once it is confirmed',
+          });
+        }
+      }
+
+      await prisma.projectEscrow.update({
+        where: { id: escrow.id },
+        data: {
+          status: 'CLOSED',
+          currentBalance: 0,
+          closedAt: new Date(),
+        },
+      });
+
+      await prisma.project.update({
+        where: { id: projectId },
+        data: { escrowFunded: false },
+      });
+
+      res.json({
+        success: true,
+        status: 'CLOSED',
+        refunded: blockchainBalance,
+        txHash: refundTxHash,
+        message: 'Escrow closed and remaining balance refunded to owner',
+      });
+    });
+  } catch (error: any) {
+    console.error('Error closing escrow:', error);
+    res.status(500).json({ error: error.message || 'Failed to close escrow' });
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/escrow/freeze
+ * Owner halts all spending from the escrow; admins use /api/admin/escrows
+ */
+router.post('/projects/:projectId/escrow/freeze', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const escrow = await freezeEscrow(req.params.projectId, { userId, isAdmin: false }, req.body.reason);
+
+    res.json({
+      success: true,
+      status: escrow.status,
+      frozenAt: escrow.frozenAt,
+      freezeReason: escrow.freezeReason,
+      message: 'Escrow frozen; payouts are on hold',
+    });
+  } catch (error: any) {
+    if (error instanceof EscrowFreezeError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error freezing escrow:', error);
+    res.status(500).json({ error: error.message || 'Failed to freeze escrow' });
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/escrow/unfreeze
+ * Lifts a freeze the owner placed and releases payouts held while frozen
+ */
+router.post('/projects/:projectId/escrow/unfreeze', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const releasedJobs = await unfreezeEscrow(req.params.projectId, { userId, isAdmin: false });
+
+    res.json({
+      success: true,
+      status: 'ACTIVE',
+      releasedJobs,
+      message: 'Escrow unfrozen; held payouts resumed',
+    });
+  } catch (error: any) {
+    if (error instanceof EscrowFreezeError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error unfreezing escrow:', error);
+    res.status(500).json({ error: error.message || 'Failed to unfreeze escrow' });
+  }
+});
+
+/**
+ * GET /api/projects/:projectId/escrow/reconciliation
+ * Latest ledger vs on-chain reconciliation report (?refresh=true runs a new one)
+ */
+router.get('/projects/:projectId/escrow/reconciliation', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const refresh = req.query.refresh === 'true';
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      include: {
+        escrow: true,
+        userRoles: {
+          where: { userId, status: 'ACTIVE', role: 'PROJECT_MANAGER' },
+        },
+      },
+    });
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    if (project.ownerId !== userId && project.userRoles.length === 0) {
+      return res.status(403).json({ error: 'Only project owners and managers can view reconciliation' });
+    }
+
+    if (!project.escrow) {
+      return res.status(400).json({ error: 'Escrow account not created for this project' });
+    }
+
+    let report = refresh
+      ? null
+      : await prisma.escrowReconciliation.findFirst({
+          where: { projectId },
+          orderBy: { createdAt: 'desc' },
+        });
+
+    if (!report) {
+      report = await reconcileProjectEscrow(projectId);
+    }
+
+    const ledger = await getLedgerBalances(projectId);
+
+    res.json({
+      id: report.id,
+      status: report.status,
+      reconciledAt: report.createdAt,
+      ledgerBalance: report.ledgerBalance,
+      onChainBalance: report.onChainBalance,
+      recordedBalance: report.recordedBalance,
+      mismatchCount: report.mismatchCount,
+      mismatches: report.mismatches,
+      ledger,
+    });
+  } catch (error: any) {
+    console.error('Error fetching escrow reconciliation:', error);
+    res.status(500).json({ error: error.message || 'Failed to fetch escrow reconciliation' });
+  }
+});
+
+function formatMultisigPayout(
+  payout: Awaited<ReturnType<typeof prisma.multisigPayout.findUniqueOrThrow>>,
+  escrow: { multisigThreshold: number | null; multisigSigners: string[] }
+) {
+  return {
+    id: payout.id,
+    type: payout.type,
+    status: payout.status,
+    taskId: payout.taskId,
+    paymentId: payout.paymentId,
+    fromAddress: payout.fromAddress,
+    toAddress: payout.toAddress,
+    amount: payout.amount,
+    note: payout.note,
+    txId: payout.txId,
+    lastValidRound: payout.lastValidRound,
+    signaturesRequired: escrow.multisigThreshold,
+    signedBy: payout.signedBy,
+    awaitingSigners: escrow.multisigSigners.filter((address) => !payout.signedBy.includes(address)),
+    // Co-signers sign unsignedTxn with the vault's multisig metadata and post the blob back
+    unsignedTxn: payout.unsignedTxn,
+    signedTxn: payout.signedTxn,
+    multisig: {
+      version: 1,
+      threshold: escrow.multisigThreshold,
+      addrs: escrow.multisigSigners,
+    },
+    errorMessage: payout.errorMessage,
+    submittedAt: payout.submittedAt,
+    confirmedAt: payout.confirmedAt,
+    createdAt: payout.createdAt,
+  };
+}
+
+/**
+ * Loads a multisig payout with its escrow and checks the caller is the owner or an active manager
+ */
+async function loadMultisigPayoutForUser(payoutId: string, userId: string) {
+  const payout = await prisma.multisigPayout.findUnique({
+    where: { id: payoutId },
+    include: {
+      project: {
+        include: {
+          escrow: true,
+          userRoles: {
+            where: { userId, status: 'ACTIVE', role: 'PROJECT_MANAGER' },
+          },
+        },
+      },
+    },
+  });
+
+  if (!payout) {
+    return { error: { status: 404, message: 'Multisig payout not found' } };
+  }
+
+  if (payout.project.ownerId !== userId && payout.project.userRoles.length === 0) {
+    return { error: { status: 403, message: 'Only project owners and managers can co-sign payouts' } };
+  }
+
+  return { payout, escrow: payout.project.escrow! };
+}
+
+/**
+ * POST /api/projects/:projectId/escrow/multisig
+ * Adds a multisig vault to an existing escrow. Signers are the owner and manager wallets.
+ */
+router.post('/projects/:projectId/escrow/multisig', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      include: { escrow: true },
+    });
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    if (project.ownerId !== userId) {
+      return res.status(403).json({ error: 'Only project owner can set up a multisig vault' });
+    }
+
+    if (!project.escrow) {
+      return res.status(400).json({ error: 'Escrow account not created for this project' });
+    }
+
+    if (project.escrow.status !== 'ACTIVE') {
+      return res.status(400).json({ error: `Escrow is ${project.escrow.status.toLowerCase()}` });
+    }
+
+    // The vault address is derived from its signers, changing them would strand its funds
+    if (project.escrow.multisigAddress) {
+      return res.status(409).json({
+        error: 'Escrow already has a multisig vault',
+        multisigAddress: project.escrow.multisigAddress,
+      });
+    }
+
+    let metadata;
+    let coSignAmount;
+    try {
+      const options = await buildMultisigOptions(projectId, project.ownerId, req.body || {});
+      metadata = getMultisigMetadata(project.escrow.escrowAddress, options.signers, options.threshold);
+      coSignAmount = options.coSignAmount;
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const escrow = await prisma.projectEscrow.update({
+      where: { id: project.escrow.id },
+      data: {
+        multisigAddress: algosdk.multisigAddress(metadata),
+        multisigThreshold: metadata.threshold,
+        multisigSigners: metadata.addrs,
+        coSignAmount,
+      },
+    });
+
+    res.json({
+      success: true,
+      multisigAddress: escrow.multisigAddress,
+      threshold: escrow.multisigThreshold,
+      signers: escrow.multisigSigners,
+      coSignAmount: escrow.coSignAmount,
+      message: 'Multisig vault created. Fund it with ALGO, then co-sign its asset opt-in.',
+    });
+  } catch (error: any) {
+    console.error('Error creating multisig vault:', error);
+    res.status(500).json({ error: error.message || 'Failed to create multisig vault' });
+  }
+});
+
+/**
+ * POST /api/projects/:projectId/escrow/multisig/opt-in
+ * Prepares the vault's settlement asset opt-in for co-signing
+ */
+router.post('/projects/:projectId/escrow/multisig/opt-in', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      include: { escrow: true },
+    });
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    if (project.ownerId !== userId) {
+      return res.status(403).json({ error: 'Only project owner can opt-in the multisig vault' });
+    }
+
+    if (!project.escrow?.multisigAddress) {
+      return res.status(400).json({ error: 'Project escrow has no multisig vault' });
+    }
+
+    const asset = getSettlementAsset(project.escrow.assetId);
+    if (await isOptedInToAsset(project.escrow.multisigAddress, asset.assetId)) {
+      return res.status(400).json({
+        error: `Multisig vault is already opted-in to ${asset.code}`,
+        assetId: asset.assetId,
+      });
+    }
+
+    const payout = await requestMultisigPayout({
+      projectId,
+      type: 'OPT_IN',
+      amount: 0,
+      note: `Opt-in to ${asset.code}`,
+      requestedBy: userId,
+    });
+
+    res.json({
+      success: true,
+      payout: formatMultisigPayout(payout, project.escrow),
+      message: 'Opt-in prepared. Co-signers approve it via POST /api/escrow/multisig/payouts/:payoutId/sign',
+    });
+  } catch (error: any) {
+    console.error('Error preparing multisig opt-in:', error);
+    res.status(500).json({ error: error.message || 'Failed to prepare multisig opt-in' });
+  }
+});
+
+/**
+ * GET /api/projects/:projectId/escrow/multisig/payouts
+ * Lists vault payouts (?status=PENDING_SIGNATURES for the ones awaiting co-signers)
+ */
+router.get('/projects/:projectId/escrow/multisig/payouts', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const { status } = req.query;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      include: {
+        escrow: true,
+        userRoles: {
+          where: { userId, status: 'ACTIVE', role: 'PROJECT_MANAGER' },
+        },
+      },
+    });
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    if (project.ownerId !== userId && project.userRoles.length === 0) {
+      return res.status(403).json({ error: 'Only project owners and managers can view multisig payouts' });
+    }
+
+    if (!project.escrow?.multisigAddress) {
+      return res.status(400).json({ error: 'Project escrow has no multisig vault' });
+    }
+
+    const payouts = await prisma.multisigPayout.findMany({
+      where: {
+        projectId,
+        ...(status && { status: status as string }),
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json({
+      payouts: payouts.map((payout) => formatMultisigPayout(payout, project.escrow!)),
+      count: payouts.length,
+    });
+  } catch (error: any) {
+    console.error('Error fetching multisig payouts:', error);
+    res.status(500).json({ error: error.message || 'Failed to fetch multisig payouts' });
+  }
+});
+
+/**
+ * POST /api/escrow/multisig/payouts/:payoutId/sign
+ * Adds the caller's co-signature; the payout is sent once the threshold is reached
+ */
+router.post('/escrow/multisig/payouts/:payoutId/sign', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { payoutId } = req.params;
+    const { signedTxn } = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    if (!signedTxn) {
+      return res.status(400).json({ error: 'signedTxn is required' });
+    }
+
+    const loaded = await loadMultisigPayoutForUser(payoutId, userId);
+    if (loaded.error) {
+      return res.status(loaded.error.status).json({ error: loaded.error.message });
+    }
+
+    const { payout, escrow } = loaded;
+
+    if (payout.status !== 'PENDING_SIGNATURES') {
+      return res.status(409).json({ error: `Multisig payout is ${payout.status}` });
+    }
+
+    if (escrow.status !== 'ACTIVE') {
+      return res.status(409).json({ error: `Escrow is ${escrow.status.toLowerCase()}` });
+    }
+
+    const wallet = await prisma.userWallet.findUnique({ where: { userId } });
+    if (!wallet || !wallet.verified) {
+      return res.status(400).json({ error: 'Wallet must be verified before co-signing' });
+    }
+
+    if (!escrow.multisigSigners.includes(wallet.walletAddress)) {
+      return res.status(403).json({ error: 'Your wallet is not a co-signer of this vault' });
+    }
+
+    const updated = await addCoSignature(payout.id, wallet.walletAddress, signedTxn);
+
+    res.json({
+      success: true,
+      payout: formatMultisigPayout(updated, escrow),
+      message: updated.status === 'PENDING_SIGNATURES'
+        ? 'Signature recorded, waiting for more co-signers'
+        : `Payout ${updated.status.toLowerCase()}`,
+    });
+  } catch (error: any) {
+    if (error instanceof MultisigSignatureError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error co-signing multisig payout:', error);
+    res.status(500).json({ error: error.message || 'Failed to co-sign multisig payout' });
+  }
+});
+
+/**
+ * POST /api/escrow/multisig/payouts/:payoutId/refresh
+ * Rebuilds a payout whose validity window ran out; co-signers sign the new transaction
+ */
+router.post('/escrow/multisig/payouts/:payoutId/refresh', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { payoutId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const loaded = await loadMultisigPayoutForUser(payoutId, userId);
+    if (loaded.error) {
+      return res.status(loaded.error.status).json({ error: loaded.error.message });
+    }
+
+    if (!['PENDING_SIGNATURES', 'EXPIRED'].includes(loaded.payout.status)) {
+      return res.status(409).json({ error: `Multisig payout is ${loaded.payout.status}` });
+    }
+
+    const payout = await refreshMultisigPayout(payoutId);
+
+    res.json({
+      success: true,
+      payout: formatMultisigPayout(payout, loaded.escrow),
+      message: 'Payout rebuilt, previous co-signatures were discarded',
+    });
+  } catch (error: any) {
+    console.error('Error refreshing multisig payout:', error);
+    res.status(500).json({ error: error.message || 'Failed to refresh multisig payout' });
+  }
+});
+
 export default router;
 
@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { authenticateToken } from '../middleware/auth.js';
+import { validateSchedule, firstPaymentDate } from '../services/paymentSchedule.js';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -149,6 +150,15 @@ router.post('/', authenticateToken, async (req: Request, res: Response) => {
       }
     }
 
+    // Salary invites take the interval frequencies (cron schedules are set up per recurring payment)
+    if (salaryFrequency) {
+      try {
+        validateSchedule({ frequency: salaryFrequency });
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+    }
+
     // Check if user already exists (optional - invites can be sent to non-existent users)
     const existingUser = await prisma.user.findUnique({
       where: { email }
@@ -256,15 +266,21 @@ router.put('/:id/respond', authenticateToken, async (req: Request, res: Response
 
         // If SALARY type, create recurring payment
         if (invite.paymentType === 'SALARY' && invite.salaryAmount && invite.salaryFrequency) {
-          const nextDate = calculateNextPaymentDate(new Date(), invite.salaryFrequency);
+          const startDate = new Date();
+          const nextDate = firstPaymentDate({ frequency: invite.salaryFrequency, startDate });
+          const escrow = await prisma.projectEscrow.findUnique({
+            where: { projectId: invite.projectId },
+            select: { assetId: true },
+          });
           
           await prisma.recurringPayment.create({
             data: {
               userRoleId: userRole.id,
               projectId: invite.projectId,
               amount: invite.salaryAmount,
+              assetId: escrow?.assetId,
               frequency: invite.salaryFrequency,
-              startDate: new Date(),
+              startDate,
               nextPaymentDate: nextDate,
               status: 'ACTIVE',
             },
@@ -280,7 +296,7 @@ router.put('/:id/respond', authenticateToken, async (req: Request, res: Response
         paymentConfig: paymentConfig ? {
           type: paymentConfig.paymentType,
           nextPayment: paymentConfig.paymentType === 'SALARY' && invite.salaryFrequency ? {
-            date: calculateNextPaymentDate(new Date(), invite.salaryFrequency),
+            date: firstPaymentDate({ frequency: invite.salaryFrequency, startDate: new Date() }),
             amount: invite.salaryAmount,
           } : undefined,
         } : undefined,
@@ -389,20 +405,4 @@ router.delete('/:id', authenticateToken, async (req: Request, res: Response) =>
 });
 
 // Helper function
-function calculateNextPaymentDate(currentDate: Date, frequency: string): Date {
-  const next = new Date(currentDate);
-  switch (frequency) {
-    case 'WEEKLY':
-      next.setDate(next.getDate() + 7);
-      break;
-    case 'BIWEEKLY':
-      next.setDate(next.getDate() + 14);
-      break;
-    case 'MONTHLY':
-      next.setMonth(next.getMonth() + 1);
-      break;
-  }
-  return next;
-}
-
 export default router;
@@ -171,16 +171,6 @@ router.patch('/connect-wallet', async (req: Request, res: Response) => {
       });
     }
 
-    // Also update User wallet for consistency (non-fatal if user missing)
-    try {
-      await prisma.user.update({
-        where: { id: userId },
-        data: { walletAddress: walletAddress.trim() },
-      });
-    } catch (userErr: any) {
-      console.warn('[LandAcquisition] Could not sync wallet to User (non-fatal):', userErr?.code, userErr?.message);
-    }
-
     return res.json({
       success: true,
       request,
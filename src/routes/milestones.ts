@@ -0,0 +1,305 @@
+import { Router, Request, Response } from 'express';
+import { prisma } from '../utils/database.js';
+import { authenticateToken } from '../middleware/auth.js';
+import { getMilestoneTasks, processMilestonePayouts } from '../services/milestoneProcessor.js';
+
+const router = Router();
+
+/**
+ * POST /api/projects/:projectId/milestones
+ * Creates a milestone covering a set of tasks and/or departments
+ */
+router.post('/projects/:projectId/milestones', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const { name, description, dueDate, order, taskIds = [], departmentIds = [] } = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    if (!name) {
+      return res.status(400).json({ error: 'name is required' });
+    }
+
+    if (!Array.isArray(taskIds) || !Array.isArray(departmentIds)) {
+      return res.status(400).json({ error: 'taskIds and departmentIds must be arrays' });
+    }
+
+    if (taskIds.length === 0 && departmentIds.length === 0) {
+      return res.status(400).json({ error: 'A milestone must cover at least one task or department' });
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      include: {
+        userRoles: {
+          where: { userId },
+        },
+      },
+    });
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const isOwner = project.ownerId === userId;
+    const isManager = project.userRoles.some(
+      (role) => role.role === 'PROJECT_MANAGER' && role.status === 'ACTIVE'
+    );
+
+    if (!isOwner && !isManager) {
+      return res.status(403).json({ error: 'Only project owners and managers can create milestones' });
+    }
+
+    if (project.fundingStrategy !== 'MILESTONE_BASED') {
+      return res.status(400).json({ error: 'Milestones are only available for MILESTONE_BASED projects' });
+    }
+
+    // Tasks and departments must belong to this project
+    const [taskCount, departmentCount] = await Promise.all([
+      taskIds.length
+        ? prisma.task.count({ where: { id: { in: taskIds }, department: { projectId } } })
+        : Promise.resolve(0),
+      departmentIds.length
+        ? prisma.department.count({ where: { id: { in: departmentIds }, projectId } })
+        : Promise.resolve(0),
+    ]);
+
+    if (taskCount !== taskIds.length || departmentCount !== departmentIds.length) {
+      return res.status(400).json({ error: 'All tasks and departments must belong to this project' });
+    }
+
+    const milestone = await prisma.milestone.create({
+      data: {
+        projectId,
+        name,
+        description,
+        dueDate: dueDate ? new Date(dueDate) : null,
+        order: typeof order === 'number' ? order : 0,
+        tasks: { connect: taskIds.map((id: string) => ({ id })) },
+        departments: { connect: departmentIds.map((id: string) => ({ id })) },
+      },
+      include: {
+        tasks: { select: { id: true, title: true, status: true } },
+        departments: { select: { id: true, name: true } },
+      },
+    });
+
+    res.status(201).json(milestone);
+  } catch (error: any) {
+    if (error?.code === 'P2002') {
+      return res.status(400).json({ error: 'A milestone with this name already exists in the project' });
+    }
+    console.error('Error creating milestone:', error);
+    res.status(500).json({ error: error.message || 'Failed to create milestone' });
+  }
+});
+
+/**
+ * GET /api/projects/:projectId/milestones
+ * Lists milestones with completion progress and payout state
+ */
+router.get('/projects/:projectId/milestones', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      include: {
+        userRoles: {
+          where: { userId, status: 'ACTIVE' },
+        },
+      },
+    });
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const hasAccess = project.ownerId === userId || project.userRoles.length > 0;
+
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'Access denied to project' });
+    }
+
+    const milestones = await prisma.milestone.findMany({
+      where: { projectId },
+      include: {
+        departments: { select: { id: true, name: true } },
+        transactions: {
+          where: { type: 'MILESTONE_PAYMENT' },
+          select: { txHash: true, amount: true, toAddress: true, status: true },
+        },
+      },
+      orderBy: [{ order: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    const result = await Promise.all(
+      milestones.map(async (milestone) => {
+        const tasks = await getMilestoneTasks(milestone.id);
+        const completed = tasks.filter((t) => t.status === 'COMPLETED' || t.status === 'APPROVED').length;
+
+        return {
+          id: milestone.id,
+          name: milestone.name,
+          description: milestone.description,
+          dueDate: milestone.dueDate,
+          order: milestone.order,
+          status: milestone.status,
+          acceptedAt: milestone.acceptedAt,
+          paidAt: milestone.paidAt,
+          departments: milestone.departments,
+          progress: {
+            totalTasks: tasks.length,
+            completedTasks: completed,
+            percent: tasks.length > 0 ? Math.round((completed / tasks.length) * 100) : 0,
+          },
+          payouts: milestone.transactions,
+          totalPaid: milestone.transactions
+            .filter((tx) => tx.status !== 'FAILED')
+            .reduce((sum, tx) => sum + tx.amount, 0),
+        };
+      })
+    );
+
+    res.json({ milestones: result, count: result.length });
+  } catch (error: any) {
+    console.error('Error fetching milestones:', error);
+    res.status(500).json({ error: error.message || 'Failed to fetch milestones' });
+  }
+});
+
+/**
+ * POST /api/milestones/:milestoneId/accept
+ * Owner accepts a completed milestone and releases milestone payouts
+ */
+router.post('/milestones/:milestoneId/accept', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { milestoneId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const milestone = await prisma.milestone.findUnique({
+      where: { id: milestoneId },
+      include: {
+        project: {
+          include: {
+            escrow: true,
+          },
+        },
+      },
+    });
+
+    if (!milestone) {
+      return res.status(404).json({ error: 'Milestone not found' });
+    }
+
+    if (milestone.project.ownerId !== userId) {
+      return res.status(403).json({ error: 'Only project owner can accept milestones' });
+    }
+
+    if (milestone.status !== 'PENDING') {
+      return res.status(400).json({ error: `Milestone already ${milestone.status.toLowerCase()}` });
+    }
+
+    if (!milestone.project.escrow) {
+      return res.status(400).json({ error: 'Escrow account not created for this project' });
+    }
+
+    if (!milestone.project.escrowFunded) {
+      return res.status(400).json({ error: 'Project escrow is not funded' });
+    }
+
+    // Every covered task must be done before the owner can sign off
+    const tasks = await getMilestoneTasks(milestoneId);
+    const openTasks = tasks.filter((t) => t.status !== 'COMPLETED' && t.status !== 'APPROVED');
+
+    if (openTasks.length > 0) {
+      return res.status(400).json({
+        error: 'All milestone tasks must be COMPLETED or APPROVED before acceptance',
+        openTasks: openTasks.map((t) => ({ id: t.id, title: t.title, status: t.status })),
+      });
+    }
+
+    // Only the request that moves the milestone out of PENDING releases the payouts
+    const { count } = await prisma.milestone.updateMany({
+      where: { id: milestoneId, status: 'PENDING' },
+      data: {
+        status: 'ACCEPTED',
+        acceptedAt: new Date(),
+        acceptedBy: userId,
+      },
+    });
+
+    if (count === 0) {
+      return res.status(409).json({ error: 'Milestone was accepted by another request' });
+    }
+
+    const payoutResult = await processMilestonePayouts(milestoneId);
+
+    res.json({
+      success: true,
+      milestoneId,
+      ...payoutResult,
+      message: 'Milestone accepted and payouts released',
+    });
+  } catch (error: any) {
+    console.error('Error accepting milestone:', error);
+    res.status(500).json({ error: error.message || 'Failed to accept milestone' });
+  }
+});
+
+/**
+ * POST /api/milestones/:milestoneId/payouts/retry
+ * Retries payouts that failed or were skipped for an accepted milestone
+ */
+router.post('/milestones/:milestoneId/payouts/retry', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { milestoneId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const milestone = await prisma.milestone.findUnique({
+      where: { id: milestoneId },
+      include: { project: true },
+    });
+
+    if (!milestone) {
+      return res.status(404).json({ error: 'Milestone not found' });
+    }
+
+    if (milestone.project.ownerId !== userId) {
+      return res.status(403).json({ error: 'Only project owner can retry milestone payouts' });
+    }
+
+    if (milestone.status !== 'ACCEPTED') {
+      return res.status(400).json({ error: 'Only ACCEPTED milestones with outstanding payouts can be retried' });
+    }
+
+    const payoutResult = await processMilestonePayouts(milestoneId);
+
+    res.json({
+      success: true,
+      milestoneId,
+      ...payoutResult,
+    });
+  } catch (error: any) {
+    console.error('Error retrying milestone payouts:', error);
+    res.status(500).json({ error: error.message || 'Failed to retry milestone payouts' });
+  }
+});
+
+export default router;
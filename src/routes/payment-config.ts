@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../utils/database.js';
+import { validateSchedule, firstPaymentDate, paymentsPerMonth } from '../services/paymentSchedule.js';
 
 const router = Router();
 
@@ -10,7 +11,7 @@ const router = Router();
 router.post('/user-roles/:userRoleId/payment-config', async (req: Request, res: Response) => {
   try {
     const { userRoleId } = req.params;
-    const { paymentType, salaryAmount, salaryFrequency, oversightRate, milestoneAmount, startDate, endDate } = req.body;
+    const { paymentType, salaryAmount, salaryFrequency, oversightRate, milestoneAmount, milestoneId, startDate, endDate } = req.body;
     const userId = req.user?.id;
 
     if (!userId) {
@@ -49,6 +50,25 @@ router.post('/user-roles/:userRoleId/payment-config', async (req: Request, res:
       }
     }
 
+    if (salaryFrequency) {
+      try {
+        validateSchedule({ frequency: salaryFrequency });
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+    }
+
+    // Milestone-bound configs must point at a milestone of the same project
+    if (milestoneId) {
+      const milestone = await prisma.milestone.findFirst({
+        where: { id: milestoneId, projectId: userRole.projectId },
+      });
+
+      if (!milestone) {
+        return res.status(400).json({ error: 'Milestone not found in this project' });
+      }
+    }
+
     // Create or update payment config
     const paymentConfig = await prisma.userRolePayment.upsert({
       where: { userRoleId },
@@ -59,6 +79,7 @@ router.post('/user-roles/:userRoleId/payment-config', async (req: Request, res:
         salaryFrequency,
         oversightRate,
         milestoneAmount,
+        milestoneId,
         startDate: startDate ? new Date(startDate) : new Date(),
         endDate: endDate ? new Date(endDate) : null,
       },
@@ -68,6 +89,7 @@ router.post('/user-roles/:userRoleId/payment-config', async (req: Request, res:
         salaryFrequency,
         oversightRate,
         milestoneAmount,
+        milestoneId,
         startDate: startDate ? new Date(startDate) : undefined,
         endDate: endDate ? new Date(endDate) : null,
       },
@@ -76,13 +98,18 @@ router.post('/user-roles/:userRoleId/payment-config', async (req: Request, res:
     // If SALARY type, create recurring payment
     if (paymentType === 'SALARY' && salaryAmount && salaryFrequency) {
       const start = startDate ? new Date(startDate) : new Date();
-      const nextDate = calculateNextPaymentDate(start, salaryFrequency);
+      const nextDate = firstPaymentDate({ frequency: salaryFrequency, startDate: start, endDate: endDate ? new Date(endDate) : null });
+      const escrow = await prisma.projectEscrow.findUnique({
+        where: { projectId: userRole.projectId },
+        select: { assetId: true },
+      });
 
       await prisma.recurringPayment.create({
         data: {
           userRoleId,
           projectId: userRole.projectId,
           amount: salaryAmount,
+          assetId: escrow?.assetId,
           frequency: salaryFrequency,
           startDate: start,
           endDate: endDate ? new Date(endDate) : null,
@@ -102,7 +129,9 @@ router.post('/user-roles/:userRoleId/payment-config', async (req: Request, res:
       paymentType: paymentConfig.paymentType,
       salaryAmount: paymentConfig.salaryAmount,
       oversightRate: paymentConfig.oversightRate,
-      nextPaymentDate: paymentType === 'SALARY' ? calculateNextPaymentDate(new Date(), salaryFrequency!) : undefined,
+      milestoneAmount: paymentConfig.milestoneAmount,
+      milestoneId: paymentConfig.milestoneId,
+      nextPaymentDate: paymentType === 'SALARY' ? firstPaymentDate({ frequency: salaryFrequency!, startDate: startDate ? new Date(startDate) : new Date() }) : undefined,
       estimatedMonthly,
     });
   } catch (error: any) {
@@ -164,6 +193,8 @@ router.get('/user-roles/:userRoleId/payment-config', async (req: Request, res: R
       salaryAmount: paymentConfig.salaryAmount,
       salaryFrequency: paymentConfig.salaryFrequency,
       oversightRate: paymentConfig.oversightRate,
+      milestoneAmount: paymentConfig.milestoneAmount,
+      milestoneId: paymentConfig.milestoneId,
       nextPayment: recurringPayment ? {
         date: recurringPayment.nextPaymentDate,
         amount: recurringPayment.amount,
@@ -177,38 +208,14 @@ router.get('/user-roles/:userRoleId/payment-config', async (req: Request, res: R
 });
 
 // Helper functions
-function calculateNextPaymentDate(startDate: Date, frequency: string): Date {
-  const next = new Date(startDate);
-  switch (frequency) {
-    case 'WEEKLY':
-      next.setDate(next.getDate() + 7);
-      break;
-    case 'BIWEEKLY':
-      next.setDate(next.getDate() + 14);
-      break;
-    case 'MONTHLY':
-      next.setMonth(next.getMonth() + 1);
-      break;
-  }
-  return next;
-}
-
 function calculateEstimatedMonthly(paymentType: string, amount: number | null | undefined, frequency?: string | null): number {
   if (!amount) return 0;
   
   if (paymentType === 'SALARY' && frequency) {
-    switch (frequency) {
-      case 'WEEKLY':
-        return amount * 4;
-      case 'BIWEEKLY':
-        return amount * 2;
-      case 'MONTHLY':
-        return amount;
-    }
+    return amount * paymentsPerMonth({ frequency });
   }
   
   return 0;
 }
 
 export default router;
-
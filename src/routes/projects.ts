@@ -3,6 +3,7 @@ import { prisma } from '../utils/database.js';
 import { authenticateToken } from '../middleware/auth.js';
 import { checkProjectAccess } from '../utils/accessControl.js';
 import { getUserBalance } from '../services/algorand.js';
+import { checkBudgetCaps, lockDepartmentBudget, BudgetCapError } from '../services/departmentBudget.js';
 
 const router = Router();
 const MIN_REQUIRED_SIZ = 20;
@@ -1649,7 +1650,7 @@ router.get('/:projectId/tasks/:taskId', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Task not found' });
     }
 
-    res.json(task);
+    res.json({ ...task, assetId: Number(task.assetId) });
   } catch (error) {
     console.error('[Projects API] Error:', error);
     res.status(500).json({ error: 'Failed to fetch task' });
@@ -1711,46 +1712,57 @@ router.put('/:projectId/tasks/:taskId', async (req: Request, res: Response) => {
       }
     }
 
-    const updatedTask = await prisma.task.update({
-      where: { id: taskId },
-      data: {
-        ...(title && { title }),
-        ...(description !== undefined && { description }),
-        ...(status && { status }),
-        ...(priority && { priority }),
-        ...(departmentId && { departmentId }),
-        ...(assignedRoleId !== undefined && { assignedRoleId })
-      },
-      include: {
-        department: {
-          select: {
-            id: true,
-            name: true,
-            type: true
-          }
+    // A task moved to another department takes its payment amount into that department's budget
+    const updatedTask = await prisma.$transaction(async (tx) => {
+      if (departmentId && departmentId !== existingTask.departmentId && existingTask.paymentAmount && existingTask.paymentStatus !== 'REFUNDED') {
+        await lockDepartmentBudget(tx, departmentId);
+        await checkBudgetCaps(departmentId, existingTask.paymentAmount, undefined, tx);
+      }
+
+      return tx.task.update({
+        where: { id: taskId },
+        data: {
+          ...(title && { title }),
+          ...(description !== undefined && { description }),
+          ...(status && { status }),
+          ...(priority && { priority }),
+          ...(departmentId && { departmentId }),
+          ...(assignedRoleId !== undefined && { assignedRoleId })
         },
-        assignedRole: {
-          select: {
-            id: true,
-            user: {
-              select: {
-                id: true,
-                firstName: true,
-                lastName: true,
-                email: true,
-                avatarUrl: true
+        include: {
+          department: {
+            select: {
+              id: true,
+              name: true,
+              type: true
+            }
+          },
+          assignedRole: {
+            select: {
+              id: true,
+              user: {
+                select: {
+                  id: true,
+                  firstName: true,
+                  lastName: true,
+                  email: true,
+                  avatarUrl: true
+                }
               }
             }
           }
         }
-      }
+      });
     });
 
     res.json({
       message: 'Task updated successfully',
-      task: updatedTask
+      task: { ...updatedTask, assetId: Number(updatedTask.assetId) }
     });
   } catch (error) {
+    if (error instanceof BudgetCapError) {
+      return res.status(error.statusCode).json({ error: error.message, budget: error.budget });
+    }
     console.error('[Projects API] Error:', error);
     res.status(500).json({ error: 'Failed to update task' });
   }
@@ -1879,7 +1891,7 @@ router.post('/:projectId/tasks/:taskId/assign', async (req: Request, res: Respon
 
     res.json({
       message: assignedRoleId ? 'Task assigned successfully' : 'Task unassigned successfully',
-      task: updatedTask
+      task: { ...updatedTask, assetId: Number(updatedTask.assetId) }
     });
   } catch (error) {
     console.error('[Projects API] Error:', error);
@@ -1,6 +1,14 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../utils/database.js';
 import { createPaymentTransaction } from '../services/algorand.js';
+import {
+  validateSchedule,
+  firstPaymentDate,
+  upcomingPayments,
+  resolvePayment,
+  paymentsPerMonth,
+  type PaymentSchedule,
+} from '../services/paymentSchedule.js';
 
 const router = Router();
 
@@ -11,7 +19,7 @@ const router = Router();
 router.post('/projects/:projectId/recurring-payments', async (req: Request, res: Response) => {
   try {
     const { projectId } = req.params;
-    const { userRoleId, amount, frequency, startDate, endDate } = req.body;
+    const { userRoleId, amount, frequency, cronExpression, startDate, endDate } = req.body;
     const userId = req.user?.id;
 
     if (!userId) {
@@ -32,17 +40,31 @@ router.post('/projects/:projectId/recurring-payments', async (req: Request, res:
       return res.status(403).json({ error: 'Only project owner can create recurring payments' });
     }
 
+    try {
+      validateSchedule({ frequency, cronExpression });
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+
     // Calculate total allocation and validate budget
     const start = new Date(startDate);
     const end = endDate ? new Date(endDate) : null;
+
+    if (isNaN(start.getTime()) || (end && (isNaN(end.getTime()) || end <= start))) {
+      return res.status(400).json({ error: 'Invalid startDate or endDate' });
+    }
+
     // Create recurring payment
-    const nextDate = calculateNextPaymentDate(start, frequency);
+    const schedule = { frequency, cronExpression: frequency === 'CRON' ? cronExpression : null, startDate: start, endDate: end };
+    const nextDate = firstPaymentDate(schedule);
     const recurring = await prisma.recurringPayment.create({
       data: {
         userRoleId,
         projectId,
         amount,
+        assetId: project.escrow?.assetId,
         frequency,
+        cronExpression: schedule.cronExpression,
         startDate: start,
         endDate: end,
         nextPaymentDate: nextDate,
@@ -69,7 +91,7 @@ router.post('/projects/:projectId/recurring-payments', async (req: Request, res:
       amount: recurring.amount,
       frequency: recurring.frequency,
       nextPaymentDate: recurring.nextPaymentDate,
-      estimatedTotal: calculateEstimatedTotal(amount, frequency, start, end),
+      estimatedTotal: calculateEstimatedTotal({ ...schedule, amount }),
     });
   } catch (error: any) {
     console.error('Error creating recurring payment:', error);
@@ -120,8 +142,7 @@ router.get('/projects/:projectId/recurring-payments', async (req: Request, res:
     const totalMonthly = payments
       .filter((p) => p.status === 'ACTIVE')
       .reduce((sum, p) => {
-        const multiplier = p.frequency === 'WEEKLY' ? 4 : p.frequency === 'BIWEEKLY' ? 2 : 1;
-        return sum + p.amount * multiplier;
+        return sum + p.amount * paymentsPerMonth(p);
       }, 0);
 
     // Get upcoming payments (next 30 days)
@@ -132,7 +153,7 @@ router.get('/projects/:projectId/recurring-payments', async (req: Request, res:
       .filter((p) => p.status === 'ACTIVE' && p.nextPaymentDate <= thirtyDaysFromNow)
       .map((p) => ({
         date: p.nextPaymentDate,
-        amount: p.amount,
+        amount: resolvePayment(p, p.nextPaymentDate).amount,
         recipient: `${p.userRole.user.firstName || ''} ${p.userRole.user.lastName || ''}`.trim() || p.userRole.user.email,
       }));
 
@@ -145,8 +166,12 @@ router.get('/projects/:projectId/recurring-payments', async (req: Request, res:
         },
         amount: p.amount,
         frequency: p.frequency,
+        cronExpression: p.cronExpression,
         nextPaymentDate: p.nextPaymentDate,
         status: p.status,
+        pauseReason: p.pauseReason,
+        pauseMessage: p.pauseMessage,
+        pausedAt: p.pausedAt,
         totalPaid: p.totalPaid,
         paymentCount: p.paymentCount,
       })),
@@ -187,10 +212,10 @@ router.patch('/recurring-payments/:id/pause', async (req: Request, res: Response
 
     const updated = await prisma.recurringPayment.update({
       where: { id },
-      data: { status: 'PAUSED' },
+      data: { status: 'PAUSED', pauseReason: 'MANUAL', pauseMessage: null, pausedAt: new Date() },
     });
 
-    res.json({ success: true, status: updated.status });
+    res.json({ success: true, status: updated.status, pauseReason: updated.pauseReason });
   } catch (error: any) {
     console.error('Error pausing payment:', error);
     res.status(500).json({ error: error.message || 'Failed to pause payment' });
@@ -225,7 +250,7 @@ router.patch('/recurring-payments/:id/resume', async (req: Request, res: Respons
 
     const updated = await prisma.recurringPayment.update({
       where: { id },
-      data: { status: 'ACTIVE' },
+      data: { status: 'ACTIVE', pauseReason: null, pauseMessage: null, pausedAt: null },
     });
 
     res.json({ success: true, status: updated.status });
@@ -235,6 +260,144 @@ router.patch('/recurring-payments/:id/resume', async (req: Request, res: Respons
   }
 });
 
+/**
+ * GET /api/recurring-payments/:id/schedule
+ * Preview of upcoming payment dates and (prorated) amounts
+ */
+router.get('/recurring-payments/:id/schedule', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const count = Math.min(Math.max(parseInt(req.query.count as string) || 12, 1), 100);
+
+    const payment = await prisma.recurringPayment.findUnique({
+      where: { id },
+      include: { project: true, userRole: true },
+    });
+
+    if (!payment) {
+      return res.status(404).json({ error: 'Recurring payment not found' });
+    }
+
+    if (payment.project.ownerId !== userId && payment.userRole.userId !== userId) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const upcoming = ['ACTIVE', 'PAUSED'].includes(payment.status)
+      ? upcomingPayments(payment, payment.nextPaymentDate, count)
+      : [];
+
+    res.json({
+      recurringPaymentId: payment.id,
+      frequency: payment.frequency,
+      cronExpression: payment.cronExpression,
+      amount: payment.amount,
+      startDate: payment.startDate,
+      endDate: payment.endDate,
+      status: payment.status,
+      payments: upcoming.map((period) => ({
+        date: period.paymentDate,
+        periodStart: period.periodStart,
+        periodEnd: period.periodEnd,
+        amount: period.amount,
+        prorated: period.prorated,
+      })),
+    });
+  } catch (error: any) {
+    console.error('Error fetching payment schedule:', error);
+    res.status(500).json({ error: error.message || 'Failed to fetch payment schedule' });
+  }
+});
+
+/**
+ * GET /api/recurring-payments/:id/payouts
+ * Per-period payout records of a recurring payment
+ */
+router.get('/recurring-payments/:id/payouts', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const payment = await prisma.recurringPayment.findUnique({
+      where: { id },
+      include: { project: true, userRole: true },
+    });
+
+    if (!payment) {
+      return res.status(404).json({ error: 'Recurring payment not found' });
+    }
+
+    if (payment.project.ownerId !== userId && payment.userRole.userId !== userId) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const payouts = await prisma.recurringPayout.findMany({
+      where: { recurringPaymentId: id },
+      orderBy: { periodStart: 'desc' },
+    });
+
+    res.json({
+      recurringPaymentId: id,
+      nextPaymentDate: payment.nextPaymentDate,
+      lastPaidDate: payment.lastPaidDate,
+      payouts: payouts.map((payout) => ({ ...payout, assetId: Number(payout.assetId) })),
+    });
+  } catch (error: any) {
+    console.error('Error fetching recurring payouts:', error);
+    res.status(500).json({ error: error.message || 'Failed to fetch recurring payouts' });
+  }
+});
+
+/**
+ * PATCH /api/projects/:projectId/recurring-payments/settings
+ * How many missed periods a recurring payment catches up in one run
+ */
+router.patch('/projects/:projectId/recurring-payments/settings', async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const { maxCatchUpPeriods } = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const parsed = Number(maxCatchUpPeriods);
+    if (!Number.isInteger(parsed) || parsed < 1 || parsed > 52) {
+      return res.status(400).json({ error: 'maxCatchUpPeriods must be an integer between 1 and 52' });
+    }
+
+    const project = await prisma.project.findUnique({ where: { id: projectId } });
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    if (project.ownerId !== userId) {
+      return res.status(403).json({ error: 'Only project owner can change recurring payment settings' });
+    }
+
+    const updated = await prisma.project.update({
+      where: { id: projectId },
+      data: { maxCatchUpPeriods: parsed },
+    });
+
+    res.json({ success: true, maxCatchUpPeriods: updated.maxCatchUpPeriods });
+  } catch (error: any) {
+    console.error('Error updating recurring payment settings:', error);
+    res.status(500).json({ error: error.message || 'Failed to update recurring payment settings' });
+  }
+});
+
 /**
  * DELETE /api/recurring-payments/:id/cancel
  * Cancel recurring payment (refund allocated funds)
@@ -262,7 +425,7 @@ router.delete('/recurring-payments/:id/cancel', async (req: Request, res: Respon
     }
 
     // Calculate refund amount (allocated but not paid)
-    const periodsInMonth = payment.frequency === 'WEEKLY' ? 4 : payment.frequency === 'BIWEEKLY' ? 2 : 1;
+    const periodsInMonth = paymentsPerMonth(payment);
     const refundAmount = payment.amount * periodsInMonth;
 
     // Update status and report refund amount (no budget to adjust)
@@ -281,30 +444,11 @@ router.delete('/recurring-payments/:id/cancel', async (req: Request, res: Respon
 });
 
 // Helper functions
-function calculateNextPaymentDate(currentDate: Date, frequency: string): Date {
-  const next = new Date(currentDate);
-  switch (frequency) {
-    case 'WEEKLY':
-      next.setDate(next.getDate() + 7);
-      break;
-    case 'BIWEEKLY':
-      next.setDate(next.getDate() + 14);
-      break;
-    case 'MONTHLY':
-      next.setMonth(next.getMonth() + 1);
-      break;
-  }
-  return next;
-}
+function calculateEstimatedTotal(schedule: PaymentSchedule): number {
+  if (!schedule.endDate) return 0;
 
-function calculateEstimatedTotal(amount: number, frequency: string, startDate: Date, endDate: Date | null): number {
-  if (!endDate) return 0;
-  
-  const days = Math.floor((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-  const periods = frequency === 'WEEKLY' ? Math.floor(days / 7) : frequency === 'BIWEEKLY' ? Math.floor(days / 14) : Math.floor(days / 30);
-  
-  return amount * periods;
+  return upcomingPayments(schedule, schedule.startDate, Number.MAX_SAFE_INTEGER)
+    .reduce((sum, period) => sum + period.amount, 0);
 }
 
 export default router;
-
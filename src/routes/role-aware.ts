@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../utils/database.js';
 import { authenticateToken } from '../middleware/auth.js';
+import { checkBudgetCaps, lockDepartmentBudget, BudgetCapError } from '../services/departmentBudget.js';
 
 const router = Router();
 
@@ -591,10 +592,13 @@ router.post('/projects/:projectId/tasks', authenticateToken, async (req: Request
   try {
     const userId = req.user?.id;
     const { projectId } = req.params;
-    const { title, description, departmentId, assignedRoleId, priority, startDate, dueDate, endDate, isAllDay, timeZone, progress, checklistCount, checklistCompleted } = req.body;
+    const { title, description, departmentId, assignedRoleId, priority, startDate, dueDate, endDate, isAllDay, timeZone, progress, checklistCount, checklistCompleted, paymentAmount } = req.body;
     if (!userId) return res.status(401).json({ error: 'Authentication required' });
     if (!title || !departmentId) return res.status(400).json({ error: 'title and departmentId are required' });
 
+    const amount = paymentAmount !== undefined && paymentAmount !== null ? parseFloat(paymentAmount) : null;
+    if (amount !== null && (isNaN(amount) || amount < 0)) return res.status(400).json({ error: 'Invalid payment amount' });
+
     const ctx = await getProjectRoleContext(userId, projectId);
     if (!ctx || (ctx.roles ?? []).length === 0) return res.status(403).json({ error: 'No access to this project' });
 
@@ -625,49 +629,67 @@ router.post('/projects/:projectId/tasks', authenticateToken, async (req: Request
       }
     }
 
+    // Payment amounts are denominated in the project's settlement asset
+    const escrow = amount ? await prisma.projectEscrow.findUnique({ where: { projectId }, select: { assetId: true } }) : null;
+
     // Get the user's role for createdByRoleId
     const userRole = await prisma.userRole.findFirst({
       where: { userId, projectId, status: 'ACTIVE' },
       select: { id: true }
     });
 
-    const task = await prisma.task.create({
-      data: {
-        title,
-        description,
-        departmentId,
-        assignedRoleId: assignedRoleId || null,
-        priority: priority || 'MEDIUM',
-        startDate: startDate ? new Date(startDate) : null,
-        dueDate: dueDate ? new Date(dueDate) : null,
-        endDate: endDate ? new Date(endDate) : null,
-        isAllDay: typeof isAllDay === 'boolean' ? isAllDay : false,
-        timeZone: timeZone || null,
-        progress: typeof progress === 'number' ? Math.max(0, Math.min(100, progress)) : 0,
-        checklistCount: typeof checklistCount === 'number' ? Math.max(0, checklistCount) : 0,
-        checklistCompleted: typeof checklistCompleted === 'number' ? Math.max(0, Math.min(checklistCount || 0, checklistCompleted)) : 0,
-        createdByRoleId: userRole?.id || null
-      },
-      include: {
-        department: { select: { id: true, name: true, color: true, projectId: true } },
-        assignedRole: {
-          select: {
-            id: true,
-            role: true,
-            user: { select: { id: true, email: true, firstName: true, lastName: true, avatarUrl: true } }
+    // Department budget caps: past the hard cap this throws, past the soft cap it warns.
+    // The department stays locked until the task is saved.
+    const { task, budgetWarning } = await prisma.$transaction(async (tx) => {
+      await lockDepartmentBudget(tx, departmentId);
+      const { warning } = amount ? await checkBudgetCaps(departmentId, amount, undefined, tx) : { warning: null };
+
+      const task = await tx.task.create({
+        data: {
+          title,
+          description,
+          departmentId,
+          assignedRoleId: assignedRoleId || null,
+          priority: priority || 'MEDIUM',
+          startDate: startDate ? new Date(startDate) : null,
+          dueDate: dueDate ? new Date(dueDate) : null,
+          endDate: endDate ? new Date(endDate) : null,
+          isAllDay: typeof isAllDay === 'boolean' ? isAllDay : false,
+          timeZone: timeZone || null,
+          progress: typeof progress === 'number' ? Math.max(0, Math.min(100, progress)) : 0,
+          checklistCount: typeof checklistCount === 'number' ? Math.max(0, checklistCount) : 0,
+          checklistCompleted: typeof checklistCompleted === 'number' ? Math.max(0, Math.min(checklistCount || 0, checklistCompleted)) : 0,
+          paymentAmount: amount || undefined,
+          paymentStatus: amount ? 'ALLOCATED' : 'PENDING',
+          assetId: escrow?.assetId,
+          createdByRoleId: userRole?.id || null
+        },
+        include: {
+          department: { select: { id: true, name: true, color: true, projectId: true } },
+          assignedRole: {
+            select: {
+              id: true,
+              role: true,
+              user: { select: { id: true, email: true, firstName: true, lastName: true, avatarUrl: true } }
+            }
           }
         }
-      }
+      });
+
+      return { task, budgetWarning: warning };
     });
 
     res.status(201).json({
       ...task,
+      assetId: Number(task.assetId),
       canView: true,
       canEdit: ctx.isOwner || ctx.manageableDepartmentIds.includes(departmentId),
       canAssign: ctx.isOwner || ctx.manageableDepartmentIds.includes(departmentId),
-      canReport: (ctx.roles ?? []).includes('EMPLOYEE')
+      canReport: (ctx.roles ?? []).includes('EMPLOYEE'),
+      ...(budgetWarning ? { budgetWarning } : {})
     });
   } catch (e) {
+    if (e instanceof BudgetCapError) return res.status(e.statusCode).json({ error: e.message, budget: e.budget });
     console.error('[RoleAware] create task error:', e);
     res.status(500).json({ error: 'Failed to create task' });
   }
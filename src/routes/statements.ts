@@ -0,0 +1,132 @@
+import { Router, Request, Response } from 'express';
+import { prisma } from '../utils/database.js';
+import { authenticateToken } from '../middleware/auth.js';
+import {
+  buildStatement,
+  listStatementPeriods,
+  parseStatementMonth,
+  statementToCsv,
+  renderStatementPdf,
+} from '../services/statements.js';
+
+const router = Router();
+
+/**
+ * Projects whose statements the current user may see for the target user.
+ * undefined means all of them (own statements); otherwise only projects the
+ * current user owns or manages.
+ */
+async function getVisibleProjectIds(currentUserId: string, targetUserId: string) {
+  if (currentUserId === targetUserId) return undefined;
+
+  const projects = await prisma.project.findMany({
+    where: {
+      OR: [
+        { ownerId: currentUserId },
+        {
+          userRoles: {
+            some: {
+              userId: currentUserId,
+              role: 'PROJECT_MANAGER',
+              status: 'ACTIVE',
+            },
+          },
+        },
+      ],
+      userRoles: { some: { userId: targetUserId } },
+    },
+    select: { id: true },
+  });
+
+  return projects.map((project) => project.id);
+}
+
+/**
+ * GET /api/users/:userId/statements
+ * Months with payouts to the user, newest first, with the projects involved
+ */
+router.get('/users/:userId/statements', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { userId: targetUserId } = req.params;
+    const currentUserId = req.user?.id;
+
+    if (!currentUserId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const projectIds = await getVisibleProjectIds(currentUserId, targetUserId);
+    if (projectIds && projectIds.length === 0) {
+      return res.status(403).json({ error: 'Access denied to this user\'s statements' });
+    }
+
+    const periods = await listStatementPeriods(targetUserId, projectIds);
+
+    res.json({ userId: targetUserId, periods });
+  } catch (error: any) {
+    console.error('Error listing statements:', error);
+    res.status(500).json({ error: error.message || 'Failed to list statements' });
+  }
+});
+
+/**
+ * GET /api/users/:userId/statements/:month
+ * Earnings statement for one month (YYYY-MM) as JSON, CSV or PDF (?format=).
+ * ?projectId= limits it to one project, ?currency= picks the fiat currency.
+ */
+router.get('/users/:userId/statements/:month', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { userId: targetUserId, month } = req.params;
+    const { projectId, currency, format = 'json' } = req.query as Record<string, string | undefined>;
+    const currentUserId = req.user?.id;
+
+    if (!currentUserId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    if (!parseStatementMonth(month)) {
+      return res.status(400).json({ error: 'month must be formatted YYYY-MM' });
+    }
+
+    if (!['json', 'csv', 'pdf'].includes(format)) {
+      return res.status(400).json({ error: 'format must be one of: json, csv, pdf' });
+    }
+
+    let projectIds = await getVisibleProjectIds(currentUserId, targetUserId);
+    if (projectIds && projectIds.length === 0) {
+      return res.status(403).json({ error: 'Access denied to this user\'s statements' });
+    }
+
+    if (projectId) {
+      if (projectIds && !projectIds.includes(projectId)) {
+        return res.status(403).json({ error: 'Access denied to this project' });
+      }
+      projectIds = [projectId];
+    }
+
+    const statement = await buildStatement(targetUserId, month, { projectIds, currency });
+    const filename = `statement-${month}${projectId ? `-${projectId}` : ''}`;
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+      return res.send(statementToCsv(statement));
+    }
+
+    if (format === 'pdf') {
+      const pdf = await renderStatementPdf(statement);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.pdf"`);
+      return res.send(pdf);
+    }
+
+    res.json(statement);
+  } catch (error: any) {
+    if (error.message === 'User not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Error building statement:', error);
+    res.status(500).json({ error: error.message || 'Failed to build statement' });
+  }
+});
+
+export default router;
@@ -2,11 +2,16 @@ import { Router, Request, Response } from 'express';
 import { authenticateToken } from '../middleware/auth.js';
 import { checkProjectAccess } from '../utils/accessControl.js';
 import { broadcastTaskMoved, broadcastTaskAssigned, broadcastTaskCreated, broadcastTaskUpdated } from '../services/websocket.js';
-import { queuePayment } from '../services/paymentQueue.js';
+import { queuePayment, queuePayoutBatch, PAYOUT_BATCH_MODE } from '../services/paymentQueue.js';
+import { recordAllocation } from '../services/escrowLedger.js';
+import { checkBudgetCaps, lockDepartmentBudget, BudgetCapError } from '../services/departmentBudget.js';
 import prisma from '../utils/database.js';
 
 const router = Router();
 
+// Window in which the assignee or approver can dispute an approved payout
+const PAYMENT_HOLD_WINDOW_MS = parseFloat(process.env.PAYMENT_HOLD_WINDOW_HOURS || '24') * 60 * 60 * 1000;
+
 // Helper function to check authentication
 const requireAuth = (req: Request, res: Response): boolean => {
   if (!req.user) {
@@ -75,47 +80,69 @@ router.post('/', authenticateToken, async (req: Request, res: Response) => {
       }
     }
 
-    const task = await prisma.task.create({
-      data: {
-        title,
-        description,
-        departmentId,
-        assignedRoleId,
-        priority: priority || 'MEDIUM',
-        startDate: startDate ? new Date(startDate) : undefined,
-        dueDate: dueDate ? new Date(dueDate) : undefined,
-        endDate: endDate ? new Date(endDate) : undefined,
-        isAllDay: typeof isAllDay === 'boolean' ? isAllDay : undefined,
-        timeZone: timeZone || undefined,
-        progress: typeof progress === 'number' ? progress : undefined,
-        checklistCount: typeof checklistCount === 'number' ? checklistCount : undefined,
-        checklistCompleted: typeof checklistCompleted === 'number' ? checklistCompleted : undefined,
-        paymentAmount: paymentAmount ? parseFloat(paymentAmount) : undefined,
-        paymentStatus: paymentAmount ? 'ALLOCATED' : 'PENDING',
-        createdByRoleId: userRole.id
-      },
-      include: {
-        department: true,
-        assignedRole: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                email: true,
-                firstName: true,
-                lastName: true
+    // Payment amounts are denominated in the project's settlement asset
+    const escrow = await prisma.projectEscrow.findUnique({
+      where: { projectId: userRole.projectId },
+      select: { assetId: true },
+    });
+
+    // Department budget caps: past the hard cap this throws, past the soft cap it warns.
+    // The department stays locked until the task is saved.
+    const { task, budgetWarning } = await prisma.$transaction(async (tx) => {
+      await lockDepartmentBudget(tx, departmentId);
+      const { warning } = paymentAmount
+        ? await checkBudgetCaps(departmentId, parseFloat(paymentAmount), undefined, tx)
+        : { warning: null };
+
+      const task = await tx.task.create({
+        data: {
+          title,
+          description,
+          departmentId,
+          assignedRoleId,
+          priority: priority || 'MEDIUM',
+          startDate: startDate ? new Date(startDate) : undefined,
+          dueDate: dueDate ? new Date(dueDate) : undefined,
+          endDate: endDate ? new Date(endDate) : undefined,
+          isAllDay: typeof isAllDay === 'boolean' ? isAllDay : undefined,
+          timeZone: timeZone || undefined,
+          progress: typeof progress === 'number' ? progress : undefined,
+          checklistCount: typeof checklistCount === 'number' ? checklistCount : undefined,
+          checklistCompleted: typeof checklistCompleted === 'number' ? checklistCompleted : undefined,
+          paymentAmount: paymentAmount ? parseFloat(paymentAmount) : undefined,
+          paymentStatus: paymentAmount ? 'ALLOCATED' : 'PENDING',
+          assetId: escrow?.assetId,
+          createdByRoleId: userRole.id
+        },
+        include: {
+          department: true,
+          assignedRole: {
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  email: true,
+                  firstName: true,
+                  lastName: true
+                }
               }
             }
           }
         }
-      }
+      });
+
+      return { task, budgetWarning: warning };
     });
 
     // Broadcast task creation
-    broadcastTaskCreated(task.department.projectId, task, req.user!.id);
+    const created = { ...task, assetId: Number(task.assetId) };
+    broadcastTaskCreated(task.department.projectId, created, req.user!.id);
 
-    res.status(201).json(task);
+    res.status(201).json(budgetWarning ? { ...created, budgetWarning } : created);
   } catch (error) {
+    if (error instanceof BudgetCapError) {
+      return res.status(error.statusCode).json({ error: error.message, budget: error.budget });
+    }
     console.error('Error creating task:', error);
     res.status(500).json({ error: 'Failed to create task' });
   }
@@ -197,46 +224,61 @@ router.put('/:id', authenticateToken, async (req: Request, res: Response) => {
       }
     }
 
-    const updatedTask = await prisma.task.update({
-      where: { id },
-      data: {
-        title,
-        description,
-        status,
-        priority,
-        startDate: startDate !== undefined ? (startDate ? new Date(startDate) : null) : undefined,
-        dueDate: dueDate !== undefined ? (dueDate ? new Date(dueDate) : null) : undefined,
-        endDate: endDate !== undefined ? (endDate ? new Date(endDate) : null) : undefined,
-        isAllDay: typeof isAllDay === 'boolean' ? isAllDay : undefined,
-        timeZone: timeZone !== undefined ? (timeZone || null) : undefined,
-        progress: typeof progress === 'number' ? progress : undefined,
-        checklistCount: typeof checklistCount === 'number' ? checklistCount : undefined,
-        checklistCompleted: typeof checklistCompleted === 'number' ? checklistCompleted : undefined,
-        paymentAmount: paymentAmount !== undefined ? parseFloat(paymentAmount) : undefined,
-        paymentStatus: paymentAmount !== undefined ? (parseFloat(paymentAmount) > 0 ? 'ALLOCATED' : 'PENDING') : undefined
-      },
-      include: {
-        department: true,
-        assignedRole: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                email: true,
-                firstName: true,
-                lastName: true
+    // A new payment amount is checked against the caps with the department locked until it is saved
+    const { updatedTask, budgetWarning } = await prisma.$transaction(async (tx) => {
+      let warning: string | null = null;
+      if (paymentAmount !== undefined && paymentAmount !== null) {
+        await lockDepartmentBudget(tx, task.departmentId);
+        ({ warning } = await checkBudgetCaps(task.departmentId, parseFloat(paymentAmount), id, tx));
+      }
+
+      const updatedTask = await tx.task.update({
+        where: { id },
+        data: {
+          title,
+          description,
+          status,
+          priority,
+          startDate: startDate !== undefined ? (startDate ? new Date(startDate) : null) : undefined,
+          dueDate: dueDate !== undefined ? (dueDate ? new Date(dueDate) : null) : undefined,
+          endDate: endDate !== undefined ? (endDate ? new Date(endDate) : null) : undefined,
+          isAllDay: typeof isAllDay === 'boolean' ? isAllDay : undefined,
+          timeZone: timeZone !== undefined ? (timeZone || null) : undefined,
+          progress: typeof progress === 'number' ? progress : undefined,
+          checklistCount: typeof checklistCount === 'number' ? checklistCount : undefined,
+          checklistCompleted: typeof checklistCompleted === 'number' ? checklistCompleted : undefined,
+          paymentAmount: paymentAmount !== undefined ? parseFloat(paymentAmount) : undefined,
+          paymentStatus: paymentAmount !== undefined ? (parseFloat(paymentAmount) > 0 ? 'ALLOCATED' : 'PENDING') : undefined
+        },
+        include: {
+          department: true,
+          assignedRole: {
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  email: true,
+                  firstName: true,
+                  lastName: true
+                }
               }
             }
           }
         }
-      }
+      });
+
+      return { updatedTask, budgetWarning: warning };
     });
 
     // Broadcast task update
     broadcastTaskUpdated(task.department.projectId, id, req.body, req.user!.id);
 
-    res.json(updatedTask);
+    const updated = { ...updatedTask, assetId: Number(updatedTask.assetId) };
+    res.json(budgetWarning ? { ...updated, budgetWarning } : updated);
   } catch (error) {
+    if (error instanceof BudgetCapError) {
+      return res.status(error.statusCode).json({ error: error.message, budget: error.budget });
+    }
     console.error('Error updating task:', error);
     res.status(500).json({ error: 'Failed to update task' });
   }
@@ -386,7 +428,7 @@ router.post('/:id/assign/:roleId', authenticateToken, async (req: Request, res:
     // Broadcast task assignment
     broadcastTaskAssigned(task.department.projectId, id, roleId, req.user!.id);
 
-    res.json(updatedTask);
+    res.json({ ...updatedTask, assetId: Number(updatedTask.assetId) });
   } catch (error) {
     console.error('Error assigning task:', error);
     res.status(500).json({ error: 'Failed to assign task' });
@@ -1003,7 +1045,7 @@ router.get('/department/:departmentId', authenticateToken, async (req: Request,
       ]
     });
 
-    res.json(tasks);
+    res.json(tasks.map((task) => ({ ...task, assetId: Number(task.assetId) })));
   } catch (error) {
     console.error('Error fetching department tasks:', error);
     res.status(500).json({ error: 'Failed to fetch tasks' });
@@ -1050,6 +1092,12 @@ router.patch('/:id/position', authenticateToken, async (req: Request, res: Respo
 
     // Start transaction to handle order updates
     const result = await prisma.$transaction(async (tx) => {
+      // A task moved to another department takes its payment amount into that department's budget
+      if (departmentId && departmentId !== task.departmentId && task.paymentAmount && task.paymentStatus !== 'REFUNDED') {
+        await lockDepartmentBudget(tx, departmentId);
+        await checkBudgetCaps(departmentId, task.paymentAmount, undefined, tx);
+      }
+
       // If moving to a different department, update departmentId
       const updateData: any = { status, order };
       if (departmentId && departmentId !== task.departmentId) {
@@ -1157,6 +1205,9 @@ router.patch('/:id/position', authenticateToken, async (req: Request, res: Respo
     });
 
   } catch (error) {
+    if (error instanceof BudgetCapError) {
+      return res.status(error.statusCode).json({ error: error.message, budget: error.budget });
+    }
     console.error('Error updating task position:', error);
     res.status(500).json({ error: 'Failed to update task position' });
   }
@@ -1245,31 +1296,39 @@ router.patch('/bulk-update', authenticateToken, async (req: Request, res: Respon
         if (updates.estimatedHours !== undefined) updateData.estimatedHours = updates.estimatedHours;
         if (updates.departmentId) updateData.departmentId = updates.departmentId;
 
-        const updatedTask = await prisma.task.update({
-          where: { id: task.id },
-          data: updateData,
-          select: {
-            id: true,
-            title: true,
-            status: true,
-            priority: true,
-            assignedRoleId: true,
-            dueDate: true,
-            estimatedHours: true,
-            updatedAt: true,
-            assignedRole: {
-              select: {
-                user: {
-                  select: {
-                    id: true,
-                    email: true,
-                    firstName: true,
-                    lastName: true
+        // A task moved to another department is checked against that department's caps with it locked
+        const updatedTask = await prisma.$transaction(async (tx) => {
+          if (updateData.departmentId && updateData.departmentId !== task.departmentId && task.paymentAmount && task.paymentStatus !== 'REFUNDED') {
+            await lockDepartmentBudget(tx, updateData.departmentId);
+            await checkBudgetCaps(updateData.departmentId, task.paymentAmount, undefined, tx);
+          }
+
+          return tx.task.update({
+            where: { id: task.id },
+            data: updateData,
+            select: {
+              id: true,
+              title: true,
+              status: true,
+              priority: true,
+              assignedRoleId: true,
+              dueDate: true,
+              estimatedHours: true,
+              updatedAt: true,
+              assignedRole: {
+                select: {
+                  user: {
+                    select: {
+                      id: true,
+                      email: true,
+                      firstName: true,
+                      lastName: true
+                    }
                   }
                 }
               }
             }
-          }
+          });
         });
 
         // Log activity for bulk update
@@ -1291,6 +1350,10 @@ router.patch('/bulk-update', authenticateToken, async (req: Request, res: Respon
         updatedTasks.push(updatedTask);
 
       } catch (error) {
+        if (error instanceof BudgetCapError) {
+          failedTasks.push({ id: task.id, error: error.message });
+          continue;
+        }
         console.error(`Error updating task ${task.id}:`, error);
         failedTasks.push({
           id: task.id,
@@ -1451,22 +1514,30 @@ router.patch('/bulk-update-cross-project', authenticateToken, async (req: Reques
         if (updates.estimatedHours !== undefined) updateData.estimatedHours = updates.estimatedHours;
         if (updates.departmentId) updateData.departmentId = updates.departmentId;
 
-        const updatedTask = await prisma.task.update({
-          where: { id: task.id },
-          data: updateData,
-          select: {
-            id: true,
-            title: true,
-            status: true,
-            priority: true,
-            assignedRoleId: true,
-            dueDate: true,
-            estimatedHours: true,
-            updatedAt: true,
-            department: {
-              select: { projectId: true }
-            }
+        // A task moved to another department is checked against that department's caps with it locked
+        const updatedTask = await prisma.$transaction(async (tx) => {
+          if (updateData.departmentId && updateData.departmentId !== task.departmentId && task.paymentAmount && task.paymentStatus !== 'REFUNDED') {
+            await lockDepartmentBudget(tx, updateData.departmentId);
+            await checkBudgetCaps(updateData.departmentId, task.paymentAmount, undefined, tx);
           }
+
+          return tx.task.update({
+            where: { id: task.id },
+            data: updateData,
+            select: {
+              id: true,
+              title: true,
+              status: true,
+              priority: true,
+              assignedRoleId: true,
+              dueDate: true,
+              estimatedHours: true,
+              updatedAt: true,
+              department: {
+                select: { projectId: true }
+              }
+            }
+          });
         });
 
         // Log activity for bulk update
@@ -1491,6 +1562,10 @@ router.patch('/bulk-update-cross-project', authenticateToken, async (req: Reques
         });
 
       } catch (error) {
+        if (error instanceof BudgetCapError) {
+          failedTasks.push({ id: task.id, projectId: task.department.projectId, error: error.message });
+          continue;
+        }
         console.error(`Error updating task ${task.id}:`, error);
         failedTasks.push({
           id: task.id,
@@ -1577,10 +1652,13 @@ router.post('/:id/approve', authenticateToken, async (req: Request, res: Respons
     // Check if task has payment amount
     if (!task.paymentAmount || task.paymentAmount <= 0) {
       // Approve without payment
-      await prisma.task.update({
-        where: { id },
+      const { count } = await prisma.task.updateMany({
+        where: { id, status: 'COMPLETED' },
         data: { status: 'APPROVED' },
       });
+      if (count === 0) {
+        return res.status(409).json({ error: 'Task was approved by another request' });
+      }
       return res.json({
         success: true,
         message: 'Task approved (no payment required)',
@@ -1610,6 +1688,10 @@ router.post('/:id/approve', authenticateToken, async (req: Request, res: Respons
       return res.status(400).json({ error: 'Project escrow is not funded' });
     }
 
+    if (project.escrow.status !== 'ACTIVE') {
+      return res.status(400).json({ error: `Project escrow is ${project.escrow.status.toLowerCase()}` });
+    }
+
     // Check escrow has sufficient balance
     if (project.escrow.currentBalance < task.paymentAmount) {
       return res.status(400).json({ 
@@ -1619,89 +1701,70 @@ router.post('/:id/approve', authenticateToken, async (req: Request, res: Respons
       });
     }
 
-    // Update task status to APPROVED
-    await prisma.task.update({
-      where: { id },
+    // Only the request that moves the task out of COMPLETED creates the payout.
+    // Pins the asset the payout settles in.
+    const { count } = await prisma.task.updateMany({
+      where: { id, status: 'COMPLETED' },
       data: {
         status: 'APPROVED',
+        assetId: project.escrow.assetId,
       },
     });
 
-    // Queue employee payment
-    const jobId = await queuePayment({
-      taskId: id,
-      projectId: project.id,
-      employeeWalletAddress: task.assignedTo.walletAddress,
-      amount: task.paymentAmount,
-      escrowAddress: project.escrow.escrowAddress,
-      encryptedPrivateKey: project.escrow.encryptedPrivateKey,
-    });
+    if (count === 0) {
+      return res.status(409).json({ error: 'Task was approved by another request' });
+    }
 
-    // Check for manager oversight fees
-    const department = await prisma.department.findUnique({
-      where: { id: task.departmentId },
-      include: {
-        managers: {
-          include: {
-            paymentConfig: true,
-            user: {
-              select: {
-                id: true,
-                email: true,
-                firstName: true,
-                lastName: true,
-                walletAddress: true,
-              },
-            },
-          },
-        },
+    // Payout is held for the dispute window before the worker picks it up
+    const holdUntil = new Date(Date.now() + PAYMENT_HOLD_WINDOW_MS);
+    const payment = await prisma.payment.create({
+      data: {
+        taskId: id,
+        amount: task.paymentAmount,
+        status: 'ALLOCATED',
+        payerId: project.ownerId,
+        payeeId: task.assignedTo.id,
+        holdUntil,
       },
     });
 
-    const oversightPayments = [];
-
-    if (department && department.managers.length > 0) {
-      for (const manager of department.managers) {
-        if (manager.paymentConfig?.oversightRate && manager.user.walletAddress) {
-          const oversightFee = task.paymentAmount * manager.paymentConfig.oversightRate;
-          
-          try {
-            // Queue oversight payment
-            const managerJobId = await queuePayment({
-              taskId: `oversight-${id}`,
-              projectId: project.id,
-              employeeWalletAddress: manager.user.walletAddress,
-              amount: oversightFee,
-              escrowAddress: project.escrow.escrowAddress,
-              encryptedPrivateKey: project.escrow.encryptedPrivateKey,
-            });
-
-            oversightPayments.push({
-              managerId: manager.user.id,
-              managerName: `${manager.user.firstName || ''} ${manager.user.lastName || ''}`.trim() || manager.user.email,
-              amount: oversightFee,
-              rate: manager.paymentConfig.oversightRate,
-              jobId: managerJobId,
-            });
-          } catch (error) {
-            console.error(`Failed to queue oversight payment for manager ${manager.user.id}:`, error);
-          }
-        }
-      }
-    }
+    await prisma.task.update({
+      where: { id },
+      data: { paymentStatus: 'ALLOCATED' },
+    });
+
+    // Queue employee payment, or join the escrow's next atomic batch run
+    const jobId = PAYOUT_BATCH_MODE
+      ? await queuePayoutBatch(project.id, holdUntil)
+      : await queuePayment({
+          taskId: id,
+          projectId: project.id,
+          employeeWalletAddress: task.assignedTo.walletAddress,
+          amount: task.paymentAmount,
+          escrowAddress: project.escrow.escrowAddress,
+          encryptedPrivateKey: project.escrow.encryptedPrivateKey,
+          paymentId: payment.id,
+        }, { delay: PAYMENT_HOLD_WINDOW_MS });
+
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: { jobId },
+    });
+
+    await recordAllocation(project.id, task.paymentAmount, { taskId: id, reference: payment.id, memo: 'Task payment' });
 
+    // Manager oversight cuts are queued by the payment worker once this payout settles
     res.json({
       success: true,
-      message: oversightPayments.length > 0 
-        ? 'Task approved. Employee and manager payments queued for processing'
-        : 'Task approved and payment queued for processing',
+      message: 'Task approved and payment queued for processing',
       taskId: id,
       employeePayment: {
+        paymentId: payment.id,
         amount: task.paymentAmount,
         employeeEmail: task.assignedTo.email,
         jobId,
+        holdUntil,
       },
-      oversightPayments: oversightPayments.length > 0 ? oversightPayments : undefined,
     });
   } catch (error: any) {
     console.error('Error approving task:', error);
@@ -1757,6 +1820,15 @@ router.get('/:id/payment-status', authenticateToken, async (req: Request, res: R
             confirmedAt: true,
           },
         },
+        payments: {
+          select: { id: true, holdUntil: true },
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+        },
+        disputes: {
+          where: { status: { in: ['OPEN', 'UNDER_REVIEW'] } },
+          select: { id: true, status: true, reason: true, createdAt: true },
+        },
       },
     });
 
@@ -1790,6 +1862,9 @@ router.get('/:id/payment-status', authenticateToken, async (req: Request, res: R
         status: task.paymentStatus,
         paidAt: task.paidAt,
         txHash: task.paymentTxHash,
+        paymentId: task.payments[0]?.id || null,
+        holdUntil: task.payments[0]?.holdUntil || null,
+        activeDispute: task.disputes[0] || null,
       },
       employee: task.assignedTo ? {
         id: task.assignedTo.id,
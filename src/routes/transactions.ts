@@ -1,9 +1,43 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../utils/database.js';
-import { getTransactionStatus } from '../services/algorand.js';
+import { authenticateToken } from '../middleware/auth.js';
+import { getCurrentRound, getEscrowBalance, getSettlementAsset, SETTLEMENT_ASSETS } from '../services/algorand.js';
+import { trackTransaction } from '../services/paymentQueue.js';
+import {
+  buildAccountingEntries,
+  parseAccountCodes,
+  toQuickBooksCsv,
+  toXeroCsv,
+  toJournalCsv,
+  toOfx,
+  ACCOUNTING_CATEGORIES,
+  ACCOUNTING_FORMATS,
+  type AccountingCategory,
+  type AccountingFormat,
+} from '../services/accountingExport.js';
 
 const router = Router();
 
+/**
+ * Settlement asset code for an asset id; ids outside the registry are reported as-is
+ */
+function assetCode(assetId: bigint | number) {
+  const asset = Object.values(SETTLEMENT_ASSETS).find((a) => a.assetId === Number(assetId));
+  return asset ? asset.code : String(assetId);
+}
+
+type AssetTotals = { total: number; paid: number; pending: number; processing: number };
+
+function addToAssetTotals(store: Record<string, AssetTotals>, assetId: bigint | number, amount: number, status: string) {
+  const code = assetCode(assetId);
+  const totals = (store[code] ||= { total: 0, paid: 0, pending: 0, processing: 0 });
+
+  totals.total += amount;
+  if (status === 'PAID') totals.paid += amount;
+  else if (status === 'PROCESSING') totals.processing += amount;
+  else if (['PENDING', 'ALLOCATED'].includes(status)) totals.pending += amount;
+}
+
 /**
  * GET /api/transactions/:txHash
  * Transaction details by hash with blockchain confirmation status
@@ -65,24 +99,11 @@ router.get('/transactions/:txHash', async (req: Request, res: Response) => {
       return res.status(403).json({ error: 'Access denied to this transaction' });
     }
 
-    // Get real-time status from blockchain if pending
+    // Get real-time status from blockchain if not settled yet; payouts settle at the required depth
     let blockchainStatus = null;
-    if (transaction.status === 'PENDING') {
+    if (transaction.status === 'PENDING' || transaction.status === 'CONFIRMING') {
       try {
-        blockchainStatus = await getTransactionStatus(txHash);
-        
-        // Update database if status changed
-        if (blockchainStatus.confirmed) {
-          await prisma.blockchainTransaction.update({
-            where: { id: transaction.id },
-            data: {
-              status: 'CONFIRMED',
-              blockNumber: blockchainStatus.blockNumber,
-              confirmations: blockchainStatus.confirmations,
-              confirmedAt: new Date(),
-            },
-          });
-        }
+        blockchainStatus = await trackTransaction(transaction, await getCurrentRound());
       } catch (error) {
         console.error('Error fetching blockchain status:', error);
       }
@@ -192,6 +213,39 @@ router.get('/users/:userId/earnings', async (req: Request, res: Response) => {
       },
     });
 
+    // Oversight cuts earned as a department manager
+    const oversightPayments = await prisma.oversightPayment.findMany({
+      where: {
+        userRole: { userId: targetUserId },
+      },
+      include: {
+        task: {
+          select: {
+            id: true,
+            title: true,
+          },
+        },
+        project: {
+          select: {
+            id: true,
+            name: true,
+            escrow: { select: { assetId: true } },
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const sumOversight = (statuses: string[]) =>
+      oversightPayments
+        .filter((o) => statuses.includes(o.status))
+        .reduce((sum, o) => sum + o.amount, 0);
+
+    const oversightPending = sumOversight(['PENDING', 'ALLOCATED']);
+    const oversightProcessing = sumOversight(['PROCESSING']);
+    const oversightPaid = sumOversight(['PAID']);
+    const oversightTotal = oversightPending + oversightProcessing + oversightPaid;
+
     // Calculate totals
     const totalPending = tasks
       .filter((t) => ['PENDING', 'ALLOCATED'].includes(t.paymentStatus))
@@ -207,6 +261,12 @@ router.get('/users/:userId/earnings', async (req: Request, res: Response) => {
 
     const totalEarnings = tasks.reduce((sum, t) => sum + (t.paymentAmount || 0), 0);
 
+    // Amounts in different settlement assets are only summed per asset
+    const byAsset: Record<string, AssetTotals> = {};
+    for (const task of tasks) {
+      addToAssetTotals(byAsset, task.assetId, task.paymentAmount || 0, task.paymentStatus);
+    }
+
     // Group by project
     const byProject = tasks.reduce((acc: any[], task) => {
       const projectId = task.department.project.id;
@@ -222,6 +282,7 @@ router.get('/users/:userId/earnings', async (req: Request, res: Response) => {
           id: task.id,
           title: task.title,
           amount: task.paymentAmount,
+          asset: assetCode(task.assetId),
           status: task.paymentStatus,
           paidAt: task.paidAt,
           txHash: task.blockchainPayment?.txHash,
@@ -230,6 +291,7 @@ router.get('/users/:userId/earnings', async (req: Request, res: Response) => {
         acc.push({
           projectId,
           projectName: task.department.project.name,
+          asset: assetCode(task.assetId),
           total: task.paymentAmount || 0,
           paid: task.paymentStatus === 'PAID' ? task.paymentAmount || 0 : 0,
           pending: ['PENDING', 'ALLOCATED'].includes(task.paymentStatus)
@@ -240,6 +302,7 @@ router.get('/users/:userId/earnings', async (req: Request, res: Response) => {
               id: task.id,
               title: task.title,
               amount: task.paymentAmount,
+              asset: assetCode(task.assetId),
               status: task.paymentStatus,
               paidAt: task.paidAt,
               txHash: task.blockchainPayment?.txHash,
@@ -251,13 +314,61 @@ router.get('/users/:userId/earnings', async (req: Request, res: Response) => {
       return acc;
     }, []);
 
+    for (const oversight of oversightPayments) {
+      if (oversight.status === 'FAILED' || oversight.status === 'REFUNDED') continue;
+
+      // Oversight shares are paid out of the project escrow in its settlement asset
+      const oversightAssetId = oversight.project.escrow?.assetId ?? SETTLEMENT_ASSETS.SIZCOIN.assetId;
+      addToAssetTotals(byAsset, oversightAssetId, oversight.amount, oversight.status);
+
+      let entry = byProject.find((p) => p.projectId === oversight.project.id);
+      if (!entry) {
+        entry = {
+          projectId: oversight.project.id,
+          projectName: oversight.project.name,
+          asset: assetCode(oversightAssetId),
+          total: 0,
+          paid: 0,
+          pending: 0,
+          tasks: [],
+        };
+        byProject.push(entry);
+      }
+
+      entry.oversight = (entry.oversight || 0) + oversight.amount;
+      entry.total += oversight.amount;
+      entry.paid += oversight.status === 'PAID' ? oversight.amount : 0;
+      entry.pending += ['PENDING', 'ALLOCATED'].includes(oversight.status) ? oversight.amount : 0;
+    }
+
     res.json({
       userId: targetUserId,
-      total: totalEarnings,
-      paid: totalPaid,
-      pending: totalPending,
-      processing: totalProcessing,
+      total: totalEarnings + oversightTotal,
+      paid: totalPaid + oversightPaid,
+      pending: totalPending + oversightPending,
+      processing: totalProcessing + oversightProcessing,
       taskCount: tasks.length,
+      oversight: {
+        total: oversightTotal,
+        paid: oversightPaid,
+        pending: oversightPending,
+        processing: oversightProcessing,
+        payments: oversightPayments.map((o) => ({
+          id: o.id,
+          taskId: o.task.id,
+          taskTitle: o.task.title,
+          projectId: o.project.id,
+          projectName: o.project.name,
+          rate: o.rate,
+          baseAmount: o.baseAmount,
+          amount: o.amount,
+          asset: assetCode(o.project.escrow?.assetId ?? SETTLEMENT_ASSETS.SIZCOIN.assetId),
+          status: o.status,
+          txHash: o.txHash,
+          paidAt: o.paidAt,
+        })),
+      },
+      byAsset,
       byProject,
       recentTransactions: tasks
         .filter((t) => t.blockchainPayment && t.paymentStatus === 'PAID')
@@ -267,6 +378,7 @@ router.get('/users/:userId/earnings', async (req: Request, res: Response) => {
           taskId: t.id,
           taskTitle: t.title,
           amount: t.paymentAmount,
+          asset: assetCode(t.assetId),
           txHash: t.blockchainPayment?.txHash,
           paidAt: t.paidAt,
           projectName: t.department.project.name,
@@ -420,7 +532,7 @@ router.get('/projects/:projectId/payment-summary', async (req: Request, res: Res
     const payoutTransactions = await prisma.blockchainTransaction.findMany({
       where: {
         projectId,
-        type: { in: ['TASK_PAYMENT', 'SALARY_PAYMENT'] },
+        type: { in: ['TASK_PAYMENT', 'SALARY_PAYMENT', 'OVERSIGHT_PAYMENT'] },
       },
       include: {
         task: {
@@ -505,7 +617,7 @@ router.get('/projects/:projectId/payment-summary', async (req: Request, res: Res
           if (tx.status === 'CONFIRMED') {
             ledger.paid += tx.amount;
             oversightPaidTotal += tx.amount;
-          } else if (tx.status === 'PENDING') {
+          } else if (tx.status === 'PENDING' || tx.status === 'CONFIRMING') {
             ledger.processing += tx.amount;
             oversightProcessingTotal += tx.amount;
           }
@@ -546,6 +658,14 @@ router.get('/projects/:projectId/payment-summary', async (req: Request, res: Res
 
     const escrowBalance = project.escrow?.currentBalance || 0;
 
+    // Payouts per settlement asset, so amounts in different assets are never added up
+    const byAsset: Record<string, AssetTotals> = {};
+    for (const task of tasks) {
+      if (task.assignedTo && task.paymentAmount) {
+        addToAssetTotals(byAsset, task.assetId, task.paymentAmount, task.paymentStatus);
+      }
+    }
+
     // Payment status breakdown
     const statusBreakdown = {
       pending: tasks.filter((t) => t.paymentStatus === 'PENDING').length,
@@ -575,6 +695,7 @@ router.get('/projects/:projectId/payment-summary', async (req: Request, res: Res
         txHash: tx.txHash,
         type: tx.type,
         amount: tx.amount,
+        asset: assetCode(tx.assetId),
         status: tx.status,
         to: tx.task?.assignedTo
           ? {
@@ -607,6 +728,8 @@ router.get('/projects/:projectId/payment-summary', async (req: Request, res: Res
         funded: project.escrowFunded,
         status: project.escrow?.status,
         balance: escrowBalance,
+        asset: project.escrow ? assetCode(project.escrow.assetId) : null,
+        assetId: project.escrow ? Number(project.escrow.assetId) : null,
       },
       payouts: {
         totalRecipients: recipientsArray.length,
@@ -620,6 +743,7 @@ router.get('/projects/:projectId/payment-summary', async (req: Request, res: Res
             processing: oversightProcessingTotal,
           },
         },
+        byAsset,
         statusBreakdown,
         byRecipient: recipientsArray.sort((a, b) => b.totals.assigned - a.totals.assigned),
         recent: recentPayouts,
@@ -756,5 +880,96 @@ router.get('/projects/:projectId/transactions', async (req: Request, res: Respon
   }
 });
 
+/**
+ * GET /api/projects/:projectId/transactions/export
+ * Confirmed transactions for accounting import: ?format=quickbooks|xero|ofx|journal,
+ * ?startDate/?endDate on confirmation date, ?types=DEPOSIT,SALARY,FEE,... and
+ * ?accounts=SALARY:6200 to override the configured account codes
+ */
+router.get('/projects/:projectId/transactions/export', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const { format = 'journal', types, accounts, startDate, endDate } = req.query as Record<string, string | undefined>;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    if (!ACCOUNTING_FORMATS.includes(format as AccountingFormat)) {
+      return res.status(400).json({ error: `format must be one of: ${ACCOUNTING_FORMATS.join(', ')}` });
+    }
+
+    const categories = types ? types.split(',').map((type) => type.trim().toUpperCase()) : undefined;
+    const unknown = categories?.filter((type) => !ACCOUNTING_CATEGORIES.includes(type as AccountingCategory));
+    if (unknown?.length) {
+      return res.status(400).json({ error: `Unknown types ${unknown.join(', ')}. Use: ${ACCOUNTING_CATEGORIES.join(', ')}` });
+    }
+
+    const start = startDate ? new Date(startDate) : undefined;
+    const end = endDate ? new Date(endDate) : undefined;
+    if ((start && isNaN(start.getTime())) || (end && isNaN(end.getTime()))) {
+      return res.status(400).json({ error: 'startDate and endDate must be valid dates' });
+    }
+
+    // Verify user has access to project
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      include: {
+        escrow: { select: { escrowAddress: true, assetId: true } },
+        userRoles: {
+          where: { userId, status: 'ACTIVE' },
+        },
+      },
+    });
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const hasAccess = project.ownerId === userId || project.userRoles.length > 0;
+
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'Access denied to project' });
+    }
+
+    const entries = await buildAccountingEntries(projectId, {
+      startDate: start,
+      endDate: end,
+      categories: categories as AccountingCategory[] | undefined,
+      accountCodes: parseAccountCodes(accounts),
+    });
+
+    const filename = `transactions-${projectId}-${format}`;
+
+    if (format === 'ofx') {
+      if (!project.escrow) {
+        return res.status(400).json({ error: 'Project has no escrow account to export a statement for' });
+      }
+
+      const ofx = toOfx(entries, {
+        escrowAddress: project.escrow.escrowAddress,
+        asset: getSettlementAsset(project.escrow.assetId).code,
+        startDate: start || entries[0]?.date || project.createdAt,
+        endDate: end || new Date(),
+        balance: await getEscrowBalance(project.escrow.escrowAddress, project.escrow.assetId),
+      });
+
+      res.setHeader('Content-Type', 'application/x-ofx');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.ofx"`);
+      return res.send(ofx);
+    }
+
+    const csv = format === 'quickbooks' ? toQuickBooksCsv(entries) : format === 'xero' ? toXeroCsv(entries) : toJournalCsv(entries);
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+    res.send(csv);
+  } catch (error: any) {
+    console.error('Error exporting transactions:', error);
+    res.status(500).json({ error: error.message || 'Failed to export transactions' });
+  }
+});
+
 export default router;
 
@@ -48,6 +48,17 @@ router.post('/', async (req: Request, res: Response) => {
   }
 
   try {
+    // Payouts go to this address, so it has to be one the user proved they own
+    const wallet = await prisma.userWallet.findUnique({
+      where: { userId },
+    });
+
+    if (!wallet || !wallet.verified || wallet.walletAddress !== walletAddress) {
+      return res.status(403).json({
+        error: 'Verify wallet ownership through /api/users/wallet/verify first',
+      });
+    }
+
     // Check if wallet is already assigned to a different user
     const existingUser = await prisma.user.findFirst({
       where: { walletAddress },
@@ -1,27 +1,61 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../utils/database.js';
-import { isValidAlgorandAddress, isOptedInToSIZCOIN } from '../services/algorand.js';
-import algosdk from 'algosdk';
+import { isValidAlgorandAddress, isOptedInToAsset, verifyWalletSignature, getSettlementAsset } from '../services/algorand.js';
+import { issueWalletChallenge, consumeWalletChallenge } from '../services/walletChallenge.js';
+import { resumeAfterWalletVerification } from '../services/recurringPaymentProcessor.js';
 
-const SIZCOIN_ASSET_ID = 2905622564;
 const router = Router();
 
+/**
+ * POST /api/users/wallet/challenge
+ * Issues a single-use message the user signs to prove wallet ownership
+ */
+router.post('/users/wallet/challenge', async (req: Request, res: Response) => {
+  try {
+    const { walletAddress } = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    if (!walletAddress) {
+      return res.status(400).json({ error: 'walletAddress is required' });
+    }
+
+    if (!isValidAlgorandAddress(walletAddress)) {
+      return res.status(400).json({ error: 'Invalid Algorand address format' });
+    }
+
+    const challenge = await issueWalletChallenge(userId, walletAddress);
+
+    res.json({
+      nonce: challenge.nonce,
+      message: challenge.message,
+      expiresAt: challenge.expiresAt,
+    });
+  } catch (error: any) {
+    console.error('Error issuing wallet challenge:', error);
+    res.status(500).json({ error: error.message || 'Failed to issue wallet challenge' });
+  }
+});
+
 /**
  * POST /api/users/wallet/verify
- * Verifies user owns the wallet address
+ * Verifies user owns the wallet address by checking the signed challenge
  */
 router.post('/users/wallet/verify', async (req: Request, res: Response) => {
   try {
-    const { walletAddress, signature, message } = req.body;
+    const { walletAddress, signature, nonce } = req.body;
     const userId = req.user?.id;
 
     if (!userId) {
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    if (!walletAddress || !signature || !message) {
+    if (!walletAddress || !signature || !nonce) {
       return res.status(400).json({
-        error: 'walletAddress, signature, and message are required',
+        error: 'walletAddress, signature, and nonce are required',
       });
     }
 
@@ -30,38 +64,48 @@ router.post('/users/wallet/verify', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Invalid Algorand address format' });
     }
 
-    // Check if wallet has opted-in to SIZCOIN
-    const optedInToSIZCOIN = await isOptedInToSIZCOIN(walletAddress);
-    if (!optedInToSIZCOIN) {
-      return res.status(400).json({ 
-        error: 'Wallet has not opted-in to SIZCOIN',
-        message: `This wallet must opt-in to SIZCOIN (Asset ID: ${SIZCOIN_ASSET_ID}) before it can receive payments. Please opt-in using your Algorand wallet.`,
-        assetId: SIZCOIN_ASSET_ID,
+    // The wallet has to accept every settlement asset its projects pay in (ALGO needs no opt-in)
+    const escrows = await prisma.projectEscrow.findMany({
+      where: {
+        project: {
+          OR: [
+            { ownerId: userId },
+            { userRoles: { some: { userId, status: { in: ['ACTIVE', 'PENDING'] } } } },
+          ],
+        },
+      },
+      select: { assetId: true },
+      distinct: ['assetId'],
+    });
+    const assets = escrows.map((escrow) => getSettlementAsset(escrow.assetId));
+
+    const missingAssets = [];
+    for (const asset of assets) {
+      if (!(await isOptedInToAsset(walletAddress, asset.assetId))) {
+        missingAssets.push({ code: asset.code, assetId: asset.assetId });
+      }
+    }
+
+    if (missingAssets.length > 0) {
+      const codes = missingAssets.map((asset) => `${asset.code} (Asset ID: ${asset.assetId})`).join(', ');
+      return res.status(400).json({
+        error: `Wallet has not opted-in to ${missingAssets.map((asset) => asset.code).join(', ')}`,
+        message: `This wallet must opt-in to ${codes} before it can receive payments. Please opt-in using your Algorand wallet.`,
+        missingAssets,
       });
     }
 
-    // Verify the signature
-    // Note: In a real implementation, you would verify the signature using Algorand's signature verification
-    // For now, we'll implement a basic check
-    let verified = false;
-    try {
-      // The message should be something like: "I own wallet [address] - timestamp"
-      // The signature should be created by signing this message with the wallet's private key
-      
-      // For Algorand, we need to verify the signature using algosdk
-      // This is a simplified version - in production you'd need the proper signature format
-      const expectedMessage = `Verify wallet ownership for SIZ user ${userId} at ${walletAddress}`;
-      
-      if (message.includes(walletAddress) && message.includes(userId)) {
-        // In production, verify the signature properly using algosdk.verifyBytes
-        // For now, we'll accept any signature that's properly formatted
-        verified = signature.length > 20;
-      }
-    } catch (error) {
-      console.error('Signature verification error:', error);
+    // The challenge is consumed here, so a failed attempt needs a fresh one
+    const challenge = await consumeWalletChallenge(userId, nonce);
+    if (!challenge) {
+      return res.status(400).json({ error: 'Challenge not found, already used or expired' });
+    }
+
+    if (challenge.walletAddress !== walletAddress) {
+      return res.status(400).json({ error: 'Challenge was issued for a different wallet address' });
     }
 
-    if (!verified) {
+    if (!verifyWalletSignature(challenge.message, signature, walletAddress)) {
       return res.status(400).json({ error: 'Invalid signature or message' });
     }
 
@@ -83,29 +127,39 @@ router.post('/users/wallet/verify', async (req: Request, res: Response) => {
         verified: true,
         verifiedAt: new Date(),
         signature,
+        challenge: challenge.message,
       },
       update: {
         walletAddress,
         verified: true,
         verifiedAt: new Date(),
         signature,
+        challenge: challenge.message,
       },
     });
 
-    // Also update user's walletAddress field for backward compatibility
+    // Payouts go to User.walletAddress, which is only ever set here, once ownership is proven
     await prisma.user.update({
       where: { id: userId },
       data: { walletAddress },
     });
 
+    // Payments paused because no wallet was on file can go out again
+    let resumedPayments: Awaited<ReturnType<typeof resumeAfterWalletVerification>> = [];
+    try {
+      resumedPayments = await resumeAfterWalletVerification(userId);
+    } catch (error: any) {
+      console.error('Error resuming paused payments:', error);
+    }
+
     res.json({
       success: true,
       verified: true,
       walletAddress: wallet.walletAddress,
       verifiedAt: wallet.verifiedAt,
-      optedInToSIZCOIN: true,
-      assetId: SIZCOIN_ASSET_ID,
-      message: 'Wallet verified successfully and opted-in to SIZCOIN',
+      assets: assets.map((asset) => ({ code: asset.code, assetId: asset.assetId })),
+      resumedPayments,
+      message: 'Wallet verified successfully',
     });
   } catch (error: any) {
     console.error('Error verifying wallet:', error);
@@ -150,7 +204,8 @@ router.get('/users/wallet', async (req: Request, res: Response) => {
 
 /**
  * PATCH /api/users/wallet
- * Updates user's wallet address (requires verification)
+ * Updates user's wallet address (requires verification). Payouts keep going to the
+ * last verified address until the new one is verified.
  */
 router.patch('/users/wallet', async (req: Request, res: Response) => {
   try {
@@ -192,15 +247,10 @@ router.patch('/users/wallet', async (req: Request, res: Response) => {
         verified: false,
         verifiedAt: null,
         signature: null,
+        challenge: null,
       },
     });
 
-    // Update user's walletAddress field
-    await prisma.user.update({
-      where: { id: userId },
-      data: { walletAddress },
-    });
-
     res.json({
       success: true,
       walletAddress: wallet.walletAddress,
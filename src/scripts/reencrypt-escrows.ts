@@ -0,0 +1,84 @@
+import { prisma } from '../utils/database.js';
+import { decryptPrivateKey, encryptPrivateKey } from '../services/algorand.js';
+import { getKeyProvider, setKeyProvider, LocalFileKeyProvider } from '../services/keyProvider.js';
+
+/**
+ * Re-encrypts every escrow private key under the active master key.
+ *   npm run escrow:reencrypt              migrate escrows still on older/legacy keys
+ *   npm run escrow:reencrypt -- --rotate  generate a new master key first
+ * Retired master keys stay in the keyring, so payout jobs queued with an old
+ * envelope keep decrypting while the run is in progress.
+ */
+export default async function main(args = process.argv.slice(2)) {
+	const keyringPath = process.env.ESCROW_KEYRING_PATH;
+	if (!keyringPath) {
+		throw new Error('ESCROW_KEYRING_PATH is not set');
+	}
+
+	if (args.includes('--rotate')) {
+		const local = new LocalFileKeyProvider(keyringPath);
+		const newKeyId = local.rotate();
+		setKeyProvider(local);
+		console.log('Rotated master key', { activeKeyId: newKeyId });
+	}
+
+	const provider = getKeyProvider();
+	if (!provider) {
+		throw new Error(`Keyring not found at ${keyringPath} - run with --rotate to create one`);
+	}
+
+	const activeKeyId = await provider.activeKeyId();
+	const escrows = await prisma.projectEscrow.findMany({
+		where: { OR: [{ keyId: null }, { keyId: { not: activeKeyId } }] },
+		select: { id: true, projectId: true, encryptedPrivateKey: true },
+	});
+
+	let reencrypted = 0;
+	let skipped = 0;
+	let failed = 0;
+
+	try {
+		for (const escrow of escrows) {
+			try {
+				const privateKey = await decryptPrivateKey(escrow.encryptedPrivateKey);
+				const encryptedPrivateKey = await encryptPrivateKey(privateKey, activeKeyId);
+
+				// Never write an envelope that does not round-trip
+				if ((await decryptPrivateKey(encryptedPrivateKey)) !== privateKey) {
+					throw new Error('Re-encrypted key failed verification');
+				}
+
+				// Compare-and-swap so a concurrent change to the row is not overwritten
+				const { count } = await prisma.projectEscrow.updateMany({
+					where: { id: escrow.id, encryptedPrivateKey: escrow.encryptedPrivateKey },
+					data: { encryptedPrivateKey, keyId: activeKeyId },
+				});
+
+				if (count === 0) {
+					skipped++;
+				} else {
+					reencrypted++;
+				}
+			} catch (error: any) {
+				console.error('Failed to re-encrypt escrow', { projectId: escrow.projectId, error: error.message });
+				failed++;
+			}
+		}
+	} finally {
+		await prisma.$disconnect();
+	}
+
+	console.log('Escrow re-encryption complete', { activeKeyId, reencrypted, skipped, failed, total: escrows.length });
+	return { activeKeyId, reencrypted, skipped, failed };
+}
+
+if (process.argv[1] && process.argv[1].includes('reencrypt-escrows')) {
+	main()
+		.then((result) => {
+			if (result.failed > 0) process.exit(1);
+		})
+		.catch((e) => {
+			console.error(e);
+			process.exit(1);
+		});
+}
@@ -0,0 +1,395 @@
+import { prisma } from '../utils/database.js';
+import { getSettlementAsset, ALGO_ASSET_ID, type SettlementAssetCode } from './algorand.js';
+
+/**
+ * What a transaction is booked as. FEE entries are the ALGO network fee of any
+ * escrow transaction; REFUND covers both owner refunds and withdrawals.
+ */
+export const ACCOUNTING_CATEGORIES = [
+  'DEPOSIT',
+  'TASK_PAYMENT',
+  'MILESTONE_PAYMENT',
+  'OVERSIGHT_PAYMENT',
+  'SALARY',
+  'REFUND',
+  'FEE',
+] as const;
+
+export type AccountingCategory = (typeof ACCOUNTING_CATEGORIES)[number];
+
+export const ACCOUNTING_FORMATS = ['quickbooks', 'xero', 'ofx', 'journal'] as const;
+
+export type AccountingFormat = (typeof ACCOUNTING_FORMATS)[number];
+
+/**
+ * Chart of accounts the entries are posted to. ESCROW is the asset account of the
+ * project escrow wallet; every other code is the contra account of one category.
+ */
+export type AccountCodes = Record<AccountingCategory | 'ESCROW', string>;
+
+const DEFAULT_ACCOUNT_CODES: AccountCodes = {
+  ESCROW: '1010',
+  DEPOSIT: '3000',
+  REFUND: '3010',
+  TASK_PAYMENT: '6000',
+  MILESTONE_PAYMENT: '6010',
+  OVERSIGHT_PAYMENT: '6020',
+  SALARY: '6100',
+  FEE: '6900',
+};
+
+const TRANSACTION_CATEGORIES: Record<string, AccountingCategory> = {
+  DEPOSIT: 'DEPOSIT',
+  TASK_PAYMENT: 'TASK_PAYMENT',
+  MILESTONE_PAYMENT: 'MILESTONE_PAYMENT',
+  OVERSIGHT_PAYMENT: 'OVERSIGHT_PAYMENT',
+  SALARY_PAYMENT: 'SALARY',
+  REFUND: 'REFUND',
+  WITHDRAWAL: 'REFUND',
+};
+
+/**
+ * Account codes from ACCOUNTING_ACCOUNT_CODES ("ESCROW:1010,SALARY:6100"), with
+ * per-export overrides in the same format on top
+ */
+export function parseAccountCodes(overrides?: string): AccountCodes {
+  const codes = { ...DEFAULT_ACCOUNT_CODES };
+
+  for (const source of [process.env.ACCOUNTING_ACCOUNT_CODES, overrides]) {
+    for (const pair of (source || '').split(',')) {
+      const [key, code] = pair.split(':').map((part) => part.trim());
+      const account = key?.toUpperCase() as keyof AccountCodes;
+      if (code && account in codes) {
+        codes[account] = code;
+      }
+    }
+  }
+
+  return codes;
+}
+
+export interface JournalLine {
+  account: string;
+  debit: number;
+  credit: number;
+}
+
+export interface AccountingEntry {
+  id: string;
+  date: Date;
+  category: AccountingCategory;
+  asset: SettlementAssetCode;
+  amount: number;
+  // Signed movement of the escrow account: positive money in, negative money out
+  escrowAmount: number;
+  counterparty: string | null;
+  description: string;
+  txHash: string;
+  reference: string | null;
+  lines: [JournalLine, JournalLine];
+}
+
+export interface AccountingExportOptions {
+  startDate?: Date;
+  endDate?: Date;
+  categories?: AccountingCategory[];
+  accountCodes?: AccountCodes;
+}
+
+function personName(user: { firstName: string | null; lastName: string | null; email: string } | null | undefined) {
+  if (!user) return null;
+  return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email;
+}
+
+const personSelect = { select: { firstName: true, lastName: true, email: true } };
+
+/**
+ * Confirmed escrow transactions of a project as balanced journal entries. Task
+ * payees come from Payment, salary payees from the RecurringPayment a payout
+ * belongs to; each network fee becomes its own FEE entry in ALGO.
+ */
+export async function buildAccountingEntries(projectId: string, options: AccountingExportOptions = {}) {
+  const codes = options.accountCodes || parseAccountCodes();
+  const categories = new Set(options.categories?.length ? options.categories : ACCOUNTING_CATEGORIES);
+
+  const confirmedAt: { gte?: Date; lte?: Date } = {};
+  if (options.startDate) confirmedAt.gte = options.startDate;
+  if (options.endDate) confirmedAt.lte = options.endDate;
+
+  // Fees are charged on every type, so asking for fees means loading everything
+  const types = categories.has('FEE')
+    ? Object.keys(TRANSACTION_CATEGORIES)
+    : Object.keys(TRANSACTION_CATEGORIES).filter((type) => categories.has(TRANSACTION_CATEGORIES[type]));
+
+  const transactions = await prisma.blockchainTransaction.findMany({
+    where: {
+      projectId,
+      status: 'CONFIRMED',
+      type: { in: types },
+      confirmedAt,
+    },
+    include: {
+      task: { select: { title: true } },
+      milestone: { select: { name: true } },
+    },
+    orderBy: { confirmedAt: 'asc' },
+  });
+
+  const taskIds = transactions.map((tx) => tx.taskId).filter((id): id is string => !!id);
+  const hashes = transactions.map((tx) => tx.txHash);
+
+  const [payments, salaryPayouts, oversightCuts] = await Promise.all([
+    taskIds.length
+      ? prisma.payment.findMany({
+          where: { taskId: { in: taskIds } },
+          include: { payee: personSelect },
+          orderBy: { createdAt: 'asc' },
+        })
+      : [],
+    prisma.recurringPayout.findMany({
+      where: { projectId, txHash: { in: hashes } },
+      include: { recurringPayment: { include: { userRole: { include: { user: personSelect } } } } },
+    }),
+    prisma.oversightPayment.findMany({
+      where: { projectId, txHash: { in: hashes } },
+      include: { userRole: { include: { user: personSelect } }, task: { select: { title: true } } },
+    }),
+  ]);
+
+  // Latest payment per task wins; earlier ones were disputed or refunded
+  const paymentByTask = new Map(payments.map((payment) => [payment.taskId, payment]));
+  const salaryByHash = new Map(salaryPayouts.map((payout) => [payout.txHash, payout]));
+  const oversightByHash = new Map(oversightCuts.map((cut) => [cut.txHash, cut]));
+
+  const entries: AccountingEntry[] = [];
+
+  for (const tx of transactions) {
+    const category = TRANSACTION_CATEGORIES[tx.type];
+    const asset = getSettlementAsset(tx.assetId).code;
+    const date = tx.confirmedAt!;
+
+    if (categories.has(category)) {
+      let counterparty: string | null = null;
+      let description = tx.note || tx.type;
+      let reference: string | null = null;
+
+      if (category === 'TASK_PAYMENT' && tx.taskId) {
+        const payment = paymentByTask.get(tx.taskId);
+        counterparty = personName(payment?.payee);
+        reference = payment?.id || null;
+        description = `Task payment: ${tx.task?.title || tx.taskId}`;
+      } else if (category === 'SALARY') {
+        const payout = salaryByHash.get(tx.txHash);
+        counterparty = personName(payout?.recurringPayment.userRole.user);
+        reference = payout?.recurringPaymentId || null;
+        if (payout) {
+          description = `Salary (${payout.recurringPayment.frequency.toLowerCase()}) due ${payout.periodStart.toISOString().slice(0, 10)}`;
+        }
+      } else if (category === 'OVERSIGHT_PAYMENT') {
+        const cut = oversightByHash.get(tx.txHash);
+        counterparty = personName(cut?.userRole.user);
+        reference = cut?.id || null;
+        if (cut) description = `Oversight on task: ${cut.task.title}`;
+      } else if (category === 'MILESTONE_PAYMENT') {
+        reference = tx.milestoneId;
+        if (tx.milestone) description = `Milestone payment: ${tx.milestone.name}`;
+      } else if (category === 'DEPOSIT' || category === 'REFUND') {
+        counterparty = category === 'DEPOSIT' ? tx.fromAddress : tx.toAddress;
+      }
+
+      const inflow = category === 'DEPOSIT';
+      entries.push({
+        id: tx.id,
+        date,
+        category,
+        asset,
+        amount: tx.amount,
+        escrowAmount: inflow ? tx.amount : -tx.amount,
+        counterparty,
+        description,
+        txHash: tx.txHash,
+        reference,
+        lines: inflow
+          ? [
+              { account: codes.ESCROW, debit: tx.amount, credit: 0 },
+              { account: codes[category], debit: 0, credit: tx.amount },
+            ]
+          : [
+              { account: codes[category], debit: tx.amount, credit: 0 },
+              { account: codes.ESCROW, debit: 0, credit: tx.amount },
+            ],
+      });
+    }
+
+    if (categories.has('FEE') && tx.fee && tx.fee > 0) {
+      entries.push({
+        id: `${tx.id}:fee`,
+        date,
+        category: 'FEE',
+        asset: getSettlementAsset(ALGO_ASSET_ID).code,
+        amount: tx.fee,
+        escrowAmount: -tx.fee,
+        counterparty: null,
+        description: `Network fee: ${tx.type}`,
+        txHash: tx.txHash,
+        reference: tx.id,
+        lines: [
+          { account: codes.FEE, debit: tx.fee, credit: 0 },
+          { account: codes.ESCROW, debit: 0, credit: tx.fee },
+        ],
+      });
+    }
+  }
+
+  return entries;
+}
+
+function csvValue(value: unknown) {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: unknown[][]) {
+  return rows.map((row) => row.map(csvValue).join(',')).join('\n') + '\n';
+}
+
+function formatDate(date: Date, order: 'mdy' | 'dmy' | 'iso') {
+  const [year, month, day] = date.toISOString().slice(0, 10).split('-');
+  if (order === 'mdy') return `${month}/${day}/${year}`;
+  if (order === 'dmy') return `${day}/${month}/${year}`;
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * QuickBooks journal entry import: one row per line, rows of an entry share JournalNo
+ */
+export function toQuickBooksCsv(entries: AccountingEntry[]) {
+  return toCsv([
+    ['JournalNo', 'JournalDate', 'Currency', 'Memo', 'AccountName', 'Debits', 'Credits', 'Description', 'Name'],
+    ...entries.flatMap((entry) =>
+      entry.lines.map((line) => [
+        entry.id,
+        formatDate(entry.date, 'mdy'),
+        entry.asset,
+        entry.txHash,
+        line.account,
+        line.debit || '',
+        line.credit || '',
+        entry.description,
+        entry.counterparty,
+      ])
+    ),
+  ]);
+}
+
+/**
+ * Xero manual journal import: debits positive, credits negative, rows of an entry share the narration
+ */
+export function toXeroCsv(entries: AccountingEntry[]) {
+  return toCsv([
+    ['*Narration', '*Date', 'Description', '*AccountCode', '*TaxRate', '*Amount', 'TrackingName1', 'TrackingOption1'],
+    ...entries.flatMap((entry) =>
+      entry.lines.map((line) => [
+        `${entry.description} (${entry.txHash})`,
+        formatDate(entry.date, 'dmy'),
+        [entry.counterparty, `${entry.amount} ${entry.asset}`].filter(Boolean).join(' - '),
+        line.account,
+        'Tax Exempt',
+        line.debit ? line.debit : -line.credit,
+        'Category',
+        entry.category,
+      ])
+    ),
+  ]);
+}
+
+/**
+ * Generic double-entry journal, one row per debit or credit line
+ */
+export function toJournalCsv(entries: AccountingEntry[]) {
+  return toCsv([
+    ['EntryId', 'Date', 'Category', 'Account', 'Debit', 'Credit', 'Asset', 'Counterparty', 'Description', 'TxHash', 'Reference'],
+    ...entries.flatMap((entry) =>
+      entry.lines.map((line) => [
+        entry.id,
+        formatDate(entry.date, 'iso'),
+        entry.category,
+        line.account,
+        line.debit,
+        line.credit,
+        entry.asset,
+        entry.counterparty,
+        entry.description,
+        entry.txHash,
+        entry.reference,
+      ])
+    ),
+  ]);
+}
+
+function ofxDate(date: Date) {
+  return date.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+}
+
+function ofxText(value: string) {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').slice(0, 255);
+}
+
+/**
+ * OFX 2 bank statement of the escrow wallet. OFX holds one currency per statement,
+ * so only entries in the escrow's own asset are included - ALGO fees of a SIZCOIN
+ * or USDC escrow are left to the CSV formats.
+ */
+export function toOfx(
+  entries: AccountingEntry[],
+  statement: { escrowAddress: string; asset: SettlementAssetCode; startDate: Date; endDate: Date; balance: number }
+) {
+  const transactions = entries
+    .filter((entry) => entry.asset === statement.asset)
+    .map((entry) =>
+      [
+        '<STMTTRN>',
+        `<TRNTYPE>${entry.category === 'FEE' ? 'FEE' : entry.escrowAmount >= 0 ? 'CREDIT' : 'DEBIT'}</TRNTYPE>`,
+        `<DTPOSTED>${ofxDate(entry.date)}</DTPOSTED>`,
+        `<TRNAMT>${entry.escrowAmount}</TRNAMT>`,
+        `<FITID>${ofxText(entry.id)}</FITID>`,
+        `<NAME>${ofxText((entry.counterparty || entry.category).slice(0, 32))}</NAME>`,
+        `<MEMO>${ofxText(`${entry.description} ${entry.txHash}`)}</MEMO>`,
+        '</STMTTRN>',
+      ].join('\n')
+    );
+
+  const now = ofxDate(new Date());
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+    '<OFX>',
+    '<SIGNONMSGSRSV1><SONRS>',
+    '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>',
+    `<DTSERVER>${now}</DTSERVER>`,
+    '<LANGUAGE>ENG</LANGUAGE>',
+    '</SONRS></SIGNONMSGSRSV1>',
+    '<BANKMSGSRSV1><STMTTRNRS>',
+    '<TRNUID>0</TRNUID>',
+    '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>',
+    '<STMTRS>',
+    `<CURDEF>${statement.asset}</CURDEF>`,
+    '<BANKACCTFROM>',
+    '<BANKID>ALGORAND</BANKID>',
+    `<ACCTID>${statement.escrowAddress}</ACCTID>`,
+    '<ACCTTYPE>CHECKING</ACCTTYPE>',
+    '</BANKACCTFROM>',
+    '<BANKTRANLIST>',
+    `<DTSTART>${ofxDate(statement.startDate)}</DTSTART>`,
+    `<DTEND>${ofxDate(statement.endDate)}</DTEND>`,
+    ...transactions,
+    '</BANKTRANLIST>',
+    `<LEDGERBAL><BALAMT>${statement.balance}</BALAMT><DTASOF>${now}</DTASOF></LEDGERBAL>`,
+    '</STMTRS>',
+    '</STMTTRNRS></BANKMSGSRSV1>',
+    '</OFX>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,481 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../utils/database.js';
+import { getEscrowBalance } from './algorand.js';
+import { getDepartmentBudgetUsage } from './departmentBudget.js';
+import { paymentQueue } from './paymentQueue.js';
+import { notifyUser } from './websocket.js';
+import winston from 'winston';
+
+const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  transports: [
+    new winston.transports.Console(),
+    new winston.transports.File({ filename: 'alerts.log' }),
+  ],
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// IN_PROGRESS tasks untouched for this long are stale; twice as long raises the severity
+const ALERT_STALE_TASK_DAYS = parseInt(process.env.ALERT_STALE_TASK_DAYS || '7', 10);
+
+// Pending invites expiring within this window are flagged
+const ALERT_INVITE_EXPIRY_HOURS = parseInt(process.env.ALERT_INVITE_EXPIRY_HOURS || '48', 10);
+
+// Overdue critical tasks escalate to CRITICAL after this many days
+const OVERDUE_ESCALATION_DAYS = 3;
+
+// Most failed payment jobs looked at per evaluation
+const FAILED_JOB_SCAN_LIMIT = 500;
+
+export const ALERT_TYPES = [
+  'OVERDUE_CRITICAL_TASK',
+  'DEPARTMENT_OVER_BUDGET',
+  'LOW_ESCROW_BALANCE',
+  'STALE_TASK',
+  'FAILED_PAYMENT_JOB',
+  'EXPIRING_INVITE',
+] as const;
+export type AlertType = (typeof ALERT_TYPES)[number];
+
+export const ALERT_SEVERITIES = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'] as const;
+export type AlertSeverity = (typeof ALERT_SEVERITIES)[number];
+
+// Alerts employees see on their projects; the rest are for owners and managers
+const TASK_ALERT_TYPES: AlertType[] = ['OVERDUE_CRITICAL_TASK', 'STALE_TASK'];
+
+export function isAlertType(value: unknown): value is AlertType {
+  return ALERT_TYPES.includes(value as AlertType);
+}
+
+export function isAlertSeverity(value: unknown): value is AlertSeverity {
+  return ALERT_SEVERITIES.includes(value as AlertSeverity);
+}
+
+/**
+ * Thrown when an alert action does not apply to the alert as it is; routes answer 4xx
+ */
+export class AlertActionError extends Error {
+  constructor(message: string, public readonly statusCode = 409) {
+    super(message);
+    this.name = 'AlertActionError';
+  }
+}
+
+export interface AlertCandidate {
+  projectId: string;
+  alertType: AlertType;
+  severity: AlertSeverity;
+  subjectKey: string;
+  title: string;
+  message: string;
+  details?: Record<string, any>;
+}
+
+/**
+ * Alerts a rule found, plus subjects it could not check this time or that another
+ * process raised. Unresolved alerts on those are kept instead of being resolved as cleared.
+ */
+interface RuleResult {
+  alerts: AlertCandidate[];
+  unchecked?: string[];
+}
+
+/**
+ * Opens an alert, or refreshes the unresolved one on the same subject. A refresh that
+ * raises the severity puts an acknowledged alert back to OPEN.
+ */
+export async function raiseAlert(candidate: AlertCandidate) {
+  const existing = await prisma.alert.findFirst({
+    where: { alertType: candidate.alertType, subjectKey: candidate.subjectKey, status: { not: 'RESOLVED' } },
+  });
+
+  const details = candidate.details as Prisma.InputJsonValue | undefined;
+
+  const severityRank = ALERT_SEVERITIES.indexOf(candidate.severity);
+
+  if (!existing) {
+    const alert = await prisma.alert.create({ data: { ...candidate, severityRank, details } });
+    return { alert, created: true };
+  }
+
+  const escalated = severityRank > ALERT_SEVERITIES.indexOf(existing.severity as AlertSeverity);
+
+  const alert = await prisma.alert.update({
+    where: { id: existing.id },
+    data: {
+      severity: candidate.severity,
+      severityRank,
+      title: candidate.title,
+      message: candidate.message,
+      details,
+      occurrences: { increment: 1 },
+      lastSeenAt: new Date(),
+      ...(escalated && existing.status === 'ACKNOWLEDGED'
+        ? { status: 'OPEN', acknowledgedAt: null, acknowledgedBy: null }
+        : {}),
+    },
+  });
+  return { alert, created: false };
+}
+
+async function overdueCriticalTasks(now: Date): Promise<RuleResult> {
+  const tasks = await prisma.task.findMany({
+    where: {
+      deletedAt: null,
+      priority: 'CRITICAL',
+      status: { notIn: ['COMPLETED', 'APPROVED'] },
+      dueDate: { lt: now },
+    },
+    select: { id: true, title: true, dueDate: true, status: true, departmentId: true, department: { select: { projectId: true } } },
+  });
+
+  return {
+    alerts: tasks.map((task) => {
+      const daysOverdue = Math.floor((now.getTime() - task.dueDate!.getTime()) / DAY_MS);
+      return {
+        projectId: task.department.projectId,
+        alertType: 'OVERDUE_CRITICAL_TASK',
+        severity: daysOverdue >= OVERDUE_ESCALATION_DAYS ? 'CRITICAL' : 'HIGH',
+        subjectKey: `task:${task.id}`,
+        title: `Critical task overdue: ${task.title}`,
+        message: `"${task.title}" was due ${task.dueDate!.toISOString().slice(0, 10)} and is still ${task.status}`,
+        details: { taskId: task.id, departmentId: task.departmentId, dueDate: task.dueDate, daysOverdue },
+      };
+    }),
+  };
+}
+
+async function departmentsOverBudget(): Promise<RuleResult> {
+  const departments = await prisma.department.findMany({
+    where: { budgetAmount: { not: null } },
+    select: { id: true, name: true, projectId: true },
+  });
+
+  const alerts: AlertCandidate[] = [];
+  for (const department of departments) {
+    const usage = await getDepartmentBudgetUsage(department.id);
+    if (usage.budgetAmount === null) continue;
+
+    const severity: AlertSeverity | null =
+      usage.hardCapAmount !== null && usage.allocated > usage.hardCapAmount
+        ? 'CRITICAL'
+        : usage.allocated > usage.budgetAmount
+          ? 'HIGH'
+          : usage.softCapAmount !== null && usage.allocated > usage.softCapAmount
+            ? 'MEDIUM'
+            : null;
+    if (!severity) continue;
+
+    alerts.push({
+      projectId: department.projectId,
+      alertType: 'DEPARTMENT_OVER_BUDGET',
+      severity,
+      subjectKey: `department:${department.id}`,
+      title: `${department.name} is past its budget`,
+      message: `${department.name} has allocated ${usage.allocated} of its ${usage.budgetAmount} budget`,
+      details: { ...usage },
+    });
+  }
+  return { alerts };
+}
+
+/**
+ * Also raised by the recurring payment processor when an escrow cannot cover a payout
+ */
+export function lowEscrowBalanceAlert(
+  projectId: string,
+  balance: number,
+  required: number,
+  requiredFor = 'the minimum balance'
+): AlertCandidate {
+  return {
+    projectId,
+    alertType: 'LOW_ESCROW_BALANCE',
+    severity: balance <= 0 ? 'CRITICAL' : 'HIGH',
+    subjectKey: `escrow:${projectId}`,
+    title: 'Escrow balance too low',
+    message: `Escrow balance ${balance} is below the ${required} needed for ${requiredFor}`,
+    details: { balance, required, requiredFor },
+  };
+}
+
+async function lowEscrowBalances(): Promise<RuleResult> {
+  const projects = await prisma.project.findMany({
+    where: { minimumBalance: { not: null }, escrowFunded: true },
+    select: { id: true, minimumBalance: true, escrow: { select: { escrowAddress: true, assetId: true } } },
+  });
+
+  // Raised by the recurring payment processor; stays until those payments resume
+  const starved = await prisma.recurringPayment.findMany({
+    where: { status: 'PAUSED', pauseReason: 'INSUFFICIENT_BALANCE' },
+    select: { projectId: true },
+    distinct: ['projectId'],
+  });
+
+  const alerts: AlertCandidate[] = [];
+  const unchecked: string[] = starved.map((payment) => `escrow:${payment.projectId}`);
+  for (const project of projects) {
+    if (!project.escrow || !project.minimumBalance) continue;
+    try {
+      const balance = await getEscrowBalance(project.escrow.escrowAddress, project.escrow.assetId);
+      if (balance < project.minimumBalance) {
+        alerts.push(lowEscrowBalanceAlert(project.id, balance, project.minimumBalance));
+      }
+    } catch (error: any) {
+      logger.error('Could not read escrow balance', { projectId: project.id, error: error.message });
+      unchecked.push(`escrow:${project.id}`);
+    }
+  }
+  return { alerts, unchecked };
+}
+
+async function staleTasks(now: Date): Promise<RuleResult> {
+  const tasks = await prisma.task.findMany({
+    where: {
+      deletedAt: null,
+      status: 'IN_PROGRESS',
+      updatedAt: { lt: new Date(now.getTime() - ALERT_STALE_TASK_DAYS * DAY_MS) },
+    },
+    select: { id: true, title: true, updatedAt: true, departmentId: true, department: { select: { projectId: true } } },
+  });
+
+  return {
+    alerts: tasks.map((task) => {
+      const idleDays = Math.floor((now.getTime() - task.updatedAt.getTime()) / DAY_MS);
+      return {
+        projectId: task.department.projectId,
+        alertType: 'STALE_TASK',
+        severity: idleDays >= ALERT_STALE_TASK_DAYS * 2 ? 'HIGH' : 'MEDIUM',
+        subjectKey: `task:${task.id}`,
+        title: `Task in progress without updates: ${task.title}`,
+        message: `"${task.title}" has been IN_PROGRESS without changes for ${idleDays} days`,
+        details: { taskId: task.id, departmentId: task.departmentId, lastUpdatedAt: task.updatedAt, idleDays },
+      };
+    }),
+  };
+}
+
+async function failedPaymentJobs(): Promise<RuleResult> {
+  const jobs = (await paymentQueue.getJobs(['failed'], 0, FAILED_JOB_SCAN_LIMIT - 1, false)).filter(Boolean);
+
+  // Jobs can outlive their project; alerts need one to belong to
+  const projectIds = Array.from(new Set(jobs.map((job) => job.data?.projectId).filter(Boolean)));
+  const existing = new Set(
+    (await prisma.project.findMany({ where: { id: { in: projectIds } }, select: { id: true } })).map((project) => project.id)
+  );
+
+  return {
+    alerts: jobs
+      .filter((job) => existing.has(job.data?.projectId))
+      .map((job) => ({
+        projectId: job.data.projectId,
+        alertType: 'FAILED_PAYMENT_JOB' as const,
+        severity: 'HIGH' as const,
+        subjectKey: `job:${job.id}`,
+        title: `Payment job ${job.name} failed`,
+        message: `Payment job ${job.id} failed after ${job.attemptsMade} attempts: ${job.failedReason || 'unknown error'}`,
+        details: {
+          jobId: job.id,
+          jobName: job.name,
+          taskId: job.data.taskId ?? null,
+          oversightPaymentId: job.data.oversightPaymentId ?? null,
+          amount: job.data.amount ?? null,
+          failedReason: job.failedReason || null,
+          failedAt: job.finishedOn ? new Date(job.finishedOn) : null,
+        },
+      })),
+  };
+}
+
+async function expiringInvites(now: Date): Promise<RuleResult> {
+  const invites = await prisma.projectInvite.findMany({
+    where: {
+      status: 'PENDING',
+      expiresAt: { gt: now, lte: new Date(now.getTime() + ALERT_INVITE_EXPIRY_HOURS * 60 * 60 * 1000) },
+    },
+    select: { id: true, email: true, role: true, projectId: true, expiresAt: true },
+  });
+
+  return {
+    alerts: invites.map((invite) => ({
+      projectId: invite.projectId,
+      alertType: 'EXPIRING_INVITE' as const,
+      severity: 'LOW' as const,
+      subjectKey: `invite:${invite.id}`,
+      title: `Invite to ${invite.email} expires soon`,
+      message: `The ${invite.role} invite to ${invite.email} has not been accepted and expires ${invite.expiresAt.toISOString()}`,
+      details: { inviteId: invite.id, email: invite.email, role: invite.role, expiresAt: invite.expiresAt },
+    })),
+  };
+}
+
+const ALERT_RULES: Record<AlertType, (now: Date) => Promise<RuleResult>> = {
+  OVERDUE_CRITICAL_TASK: overdueCriticalTasks,
+  DEPARTMENT_OVER_BUDGET: departmentsOverBudget,
+  LOW_ESCROW_BALANCE: lowEscrowBalances,
+  STALE_TASK: staleTasks,
+  FAILED_PAYMENT_JOB: failedPaymentJobs,
+  EXPIRING_INVITE: expiringInvites,
+};
+
+/**
+ * Runs every alert rule, opens or refreshes the alerts found and resolves unresolved
+ * alerts whose condition has cleared. A rule that fails leaves its alerts as they are.
+ */
+export async function evaluateAlerts(now = new Date()) {
+  let raised = 0;
+  let refreshed = 0;
+  let resolved = 0;
+  let failed = 0;
+
+  for (const alertType of ALERT_TYPES) {
+    let result: RuleResult;
+    try {
+      result = await ALERT_RULES[alertType](now);
+    } catch (error: any) {
+      logger.error('Alert rule failed', { alertType, error: error.message });
+      failed++;
+      continue;
+    }
+
+    for (const candidate of result.alerts) {
+      const { alert, created } = await raiseAlert(candidate);
+      if (!created) {
+        refreshed++;
+        continue;
+      }
+      raised++;
+
+      const project = await prisma.project.findUnique({ where: { id: alert.projectId }, select: { ownerId: true, name: true } });
+      if (project) {
+        notifyUser(project.ownerId, 'ALERT_RAISED', { projectName: project.name, alert });
+      }
+    }
+
+    const stillActive = [...result.alerts.map((candidate) => candidate.subjectKey), ...(result.unchecked || [])];
+    const cleared = await prisma.alert.updateMany({
+      where: { alertType, status: { not: 'RESOLVED' }, subjectKey: { notIn: stillActive } },
+      data: { status: 'RESOLVED', resolvedAt: now, resolutionNote: 'Condition cleared' },
+    });
+    resolved += cleared.count;
+  }
+
+  logger.info(`Alert evaluation complete: ${raised} raised, ${refreshed} refreshed, ${resolved} resolved, ${failed} rules failed`);
+  return { raised, refreshed, resolved, failed };
+}
+
+/**
+ * Projects the user can see alerts of, split by whether they see every alert type
+ * (owners and managers) or task alerts only (employees)
+ */
+async function alertScope(userId: string) {
+  const [owned, roles] = await Promise.all([
+    prisma.project.findMany({ where: { ownerId: userId }, select: { id: true } }),
+    prisma.userRole.findMany({ where: { userId, status: 'ACTIVE' }, select: { projectId: true, role: true } }),
+  ]);
+
+  const fullAccess = new Set([
+    ...owned.map((project) => project.id),
+    ...roles.filter((role) => role.role !== 'EMPLOYEE').map((role) => role.projectId),
+  ]);
+  const taskOnly = new Set(roles.map((role) => role.projectId).filter((projectId) => !fullAccess.has(projectId)));
+
+  return { fullAccess: [...fullAccess], taskOnly: [...taskOnly] };
+}
+
+function scopeWhere(scope: { fullAccess: string[]; taskOnly: string[] }): Prisma.AlertWhereInput {
+  return {
+    OR: [
+      { projectId: { in: scope.fullAccess } },
+      { projectId: { in: scope.taskOnly }, alertType: { in: TASK_ALERT_TYPES } },
+    ],
+  };
+}
+
+/**
+ * Unresolved alerts on the user's projects, most severe and most recent first
+ */
+export async function listActiveAlerts(
+  userId: string,
+  filters: { alertTypes?: AlertType[]; severities?: AlertSeverity[]; projectId?: string; status?: 'OPEN' | 'ACKNOWLEDGED'; limit?: number } = {}
+) {
+  const scope = await alertScope(userId);
+
+  const where: Prisma.AlertWhereInput = {
+    AND: [
+      scopeWhere(scope),
+      {
+        status: filters.status || { not: 'RESOLVED' },
+        ...(filters.projectId ? { projectId: filters.projectId } : {}),
+        ...(filters.alertTypes?.length ? { alertType: { in: filters.alertTypes } } : {}),
+        ...(filters.severities?.length ? { severity: { in: filters.severities } } : {}),
+      },
+    ],
+  };
+
+  const [alerts, bySeverity] = await Promise.all([
+    prisma.alert.findMany({
+      where,
+      include: { project: { select: { id: true, name: true } } },
+      orderBy: [{ severityRank: 'desc' }, { lastSeenAt: 'desc' }],
+      take: filters.limit || 100,
+    }),
+    prisma.alert.groupBy({ by: ['severity'], where, _count: { _all: true } }),
+  ]);
+
+  return {
+    alerts,
+    counts: Object.fromEntries(ALERT_SEVERITIES.map((severity) => [
+      severity,
+      bySeverity.find((group) => group.severity === severity)?._count._all || 0,
+    ])),
+  };
+}
+
+/**
+ * An alert the user can see; canManage is set on projects they own or manage
+ */
+async function loadAlert(alertId: string, userId: string) {
+  const scope = await alertScope(userId);
+  const alert = await prisma.alert.findFirst({ where: { AND: [{ id: alertId }, scopeWhere(scope)] } });
+  if (!alert) {
+    throw new AlertActionError('Alert not found', 404);
+  }
+  return { alert, canManage: scope.fullAccess.includes(alert.projectId) };
+}
+
+export async function acknowledgeAlert(alertId: string, userId: string) {
+  const { alert } = await loadAlert(alertId, userId);
+  if (alert.status !== 'OPEN') {
+    throw new AlertActionError(`Alert is ${alert.status}, only OPEN alerts can be acknowledged`);
+  }
+
+  return prisma.alert.update({
+    where: { id: alert.id },
+    data: { status: 'ACKNOWLEDGED', acknowledgedAt: new Date(), acknowledgedBy: userId },
+  });
+}
+
+/**
+ * Marks an alert handled. If the condition still holds, the next evaluation opens a new one.
+ * Employees see task alerts but only owners and managers resolve them.
+ */
+export async function resolveAlert(alertId: string, userId: string, note?: string) {
+  const { alert, canManage } = await loadAlert(alertId, userId);
+  if (!canManage) {
+    throw new AlertActionError('Only project owners and managers can resolve alerts', 403);
+  }
+  if (alert.status === 'RESOLVED') {
+    throw new AlertActionError('Alert is already resolved');
+  }
+
+  return prisma.alert.update({
+    where: { id: alert.id },
+    data: { status: 'RESOLVED', resolvedAt: new Date(), resolvedBy: userId, resolutionNote: note || null },
+  });
+}
@@ -1,11 +1,103 @@
 import algosdk from 'algosdk';
 import crypto from 'crypto';
+import nacl from 'tweetnacl';
 import { prisma } from '../utils/database.js';
+import { getKeyProvider } from './keyProvider.js';
 
 // SIZCOIN Asset Configuration
-const SIZCOIN_ASSET_ID = 2905622564; // SIZCOIN on Algorand
+export const SIZCOIN_ASSET_ID = 2905622564; // SIZCOIN on Algorand
 const SIZCOIN_DECIMALS = 2; // SIZCOIN has 2 decimal places
-const MICRO_UNITS_PER_SIZ = Math.pow(10, SIZCOIN_DECIMALS); // 1 SIZ = 100 micro units
+
+// Native ALGO is not an ASA; asset id 0 marks plain payment transactions
+export const ALGO_ASSET_ID = 0;
+
+export type SettlementAssetCode = 'SIZCOIN' | 'USDC' | 'ALGO';
+
+export interface SettlementAsset {
+  code: SettlementAssetCode;
+  assetId: number;
+  decimals: number;
+}
+
+/**
+ * Assets a project can settle payouts in
+ */
+export const SETTLEMENT_ASSETS: Record<SettlementAssetCode, SettlementAsset> = {
+  SIZCOIN: { code: 'SIZCOIN', assetId: SIZCOIN_ASSET_ID, decimals: SIZCOIN_DECIMALS },
+  // USDC is 31566704 on MainNet, 10458941 on TestNet
+  USDC: { code: 'USDC', assetId: parseInt(process.env.USDC_ASSET_ID || '10458941', 10), decimals: 6 },
+  ALGO: { code: 'ALGO', assetId: ALGO_ASSET_ID, decimals: 6 },
+};
+
+/**
+ * Settlement asset by asset id (Prisma returns the stored ids as bigint)
+ */
+export function getSettlementAsset(assetId: number | bigint = SIZCOIN_ASSET_ID): SettlementAsset {
+  const asset = Object.values(SETTLEMENT_ASSETS).find((a) => a.assetId === Number(assetId));
+  if (!asset) {
+    throw new Error(`Unsupported settlement asset ${assetId}`);
+  }
+  return asset;
+}
+
+/**
+ * Settlement asset by code (SIZCOIN, USDC, ALGO)
+ */
+export function getSettlementAssetByCode(code: string): SettlementAsset {
+  const asset = SETTLEMENT_ASSETS[code.toUpperCase() as SettlementAssetCode];
+  if (!asset) {
+    throw new Error(`Unsupported settlement asset ${code}. Use one of: ${Object.keys(SETTLEMENT_ASSETS).join(', ')}`);
+  }
+  return asset;
+}
+
+/**
+ * Converts from the decimal digits rather than the float product (1.15 * 100 is 114.99...),
+ * dropping digits below the asset's precision
+ */
+function toBaseUnits(amount: number, asset: SettlementAsset) {
+  const [whole, fraction = ''] = amount
+    .toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 20 })
+    .split('.');
+  return Number(whole + fraction.slice(0, asset.decimals).padEnd(asset.decimals, '0'));
+}
+
+function fromBaseUnits(amount: number, asset: SettlementAsset) {
+  return amount / Math.pow(10, asset.decimals);
+}
+
+/**
+ * Transfer of the settlement asset: an asset transfer for ASAs, a payment for ALGO
+ */
+function makeTransferTxn(
+  from: string,
+  to: string,
+  amount: number,
+  asset: SettlementAsset,
+  suggestedParams: algosdk.SuggestedParams,
+  note?: string
+) {
+  const encodedNote = note ? new TextEncoder().encode(note) : undefined;
+
+  if (asset.assetId === ALGO_ASSET_ID) {
+    return algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+      from,
+      to,
+      amount: toBaseUnits(amount, asset),
+      note: encodedNote,
+      suggestedParams,
+    });
+  }
+
+  return algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+    from,
+    to,
+    amount: toBaseUnits(amount, asset),
+    assetIndex: asset.assetId,
+    note: encodedNote,
+    suggestedParams,
+  });
+}
 
 // Algorand Client Configuration
 const algodToken = process.env.ALGORAND_NODE_TOKEN || '';
@@ -24,10 +116,11 @@ export const indexerClient = new algosdk.Indexer(indexerToken, indexerServer, in
 const ENCRYPTION_KEY = process.env.ENCRYPTION_SECRET || 'default-key-change-in-production';
 const ALGORITHM = 'aes-256-cbc';
 
-/**
- * Encrypts a private key for secure storage
- */
-export function encryptPrivateKey(privateKey: string): string {
+// Envelope format: envelope:<keyId>:<wrappedDataKey>:<iv>:<authTag>:<ciphertext>
+const ENVELOPE_PREFIX = 'envelope';
+const ENVELOPE_ALGORITHM = 'aes-256-gcm';
+
+function legacyEncrypt(privateKey: string): string {
   const key = crypto.scryptSync(ENCRYPTION_KEY, 'salt', 32);
   const iv = crypto.randomBytes(16);
   const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
@@ -38,10 +131,7 @@ export function encryptPrivateKey(privateKey: string): string {
   return iv.toString('hex') + ':' + encrypted;
 }
 
-/**
- * Decrypts a private key for transaction signing
- */
-export function decryptPrivateKey(encryptedPrivateKey: string): string {
+function legacyDecrypt(encryptedPrivateKey: string): string {
   const key = crypto.scryptSync(ENCRYPTION_KEY, 'salt', 32);
   const parts = encryptedPrivateKey.split(':');
   const iv = Buffer.from(parts[0], 'hex');
@@ -55,9 +145,94 @@ export function decryptPrivateKey(encryptedPrivateKey: string): string {
 }
 
 /**
- * Creates a new Algorand escrow account for a project and opts it into SIZCOIN
+ * Encrypts a private key for secure storage. With a key provider configured the key
+ * is encrypted under a fresh data key that is wrapped by the provider's master key.
+ */
+export async function encryptPrivateKey(privateKey: string, keyId?: string): Promise<string> {
+  const provider = getKeyProvider();
+  if (!provider) {
+    return legacyEncrypt(privateKey);
+  }
+
+  const dataKey = crypto.randomBytes(32);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ENVELOPE_ALGORITHM, dataKey, iv);
+  const encrypted = Buffer.concat([cipher.update(privateKey, 'utf8'), cipher.final()]);
+  const wrapped = await provider.wrapKey(dataKey, keyId);
+
+  return [
+    ENVELOPE_PREFIX,
+    wrapped.keyId,
+    wrapped.wrappedKey,
+    iv.toString('hex'),
+    cipher.getAuthTag().toString('hex'),
+    encrypted.toString('hex'),
+  ].join(':');
+}
+
+/**
+ * Decrypts a private key for transaction signing
+ */
+export async function decryptPrivateKey(encryptedPrivateKey: string): Promise<string> {
+  if (!encryptedPrivateKey.startsWith(`${ENVELOPE_PREFIX}:`)) {
+    return legacyDecrypt(encryptedPrivateKey);
+  }
+
+  const provider = getKeyProvider();
+  if (!provider) {
+    throw new Error('Escrow key is envelope-encrypted but no key provider is configured');
+  }
+
+  const [, keyId, wrappedKey, iv, authTag, encrypted] = encryptedPrivateKey.split(':');
+  const dataKey = await provider.unwrapKey(wrappedKey, keyId);
+
+  const decipher = crypto.createDecipheriv(ENVELOPE_ALGORITHM, dataKey, Buffer.from(iv, 'hex'));
+  decipher.setAuthTag(Buffer.from(authTag, 'hex'));
+  return Buffer.concat([decipher.update(Buffer.from(encrypted, 'hex')), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Master key id an encrypted private key is wrapped under (null for legacy keys)
  */
-export async function createEscrowAccount(projectId: string) {
+export function getEncryptionKeyId(encryptedPrivateKey: string): string | null {
+  if (!encryptedPrivateKey.startsWith(`${ENVELOPE_PREFIX}:`)) return null;
+  return encryptedPrivateKey.split(':')[1];
+}
+
+export type MultisigOptions = {
+  signers: string[]; // Owner/manager wallet addresses
+  threshold: number; // Signatures required, the escrow key counts as one
+  coSignAmount: number; // Payouts above this amount go through the vault
+};
+
+/**
+ * Multisig metadata of a project vault. The escrow key is always the first signer,
+ * so the server can prepare and countersign but never spend alone.
+ */
+export function getMultisigMetadata(escrowAddress: string, signers: string[], threshold: number): algosdk.MultisigMetadata {
+  const addrs = [escrowAddress, ...signers.filter((address) => address !== escrowAddress)];
+
+  if (new Set(addrs).size !== addrs.length) {
+    throw new Error('Multisig signers must be unique');
+  }
+
+  if (!Number.isInteger(threshold) || threshold < 2 || threshold > addrs.length) {
+    throw new Error(`Multisig threshold must be between 2 and ${addrs.length}`);
+  }
+
+  return { version: 1, threshold, addrs };
+}
+
+/**
+ * Creates a new Algorand escrow account for a project and opts it into SIZCOIN.
+ * With multisig options a co-signed vault address is derived next to it.
+ */
+export async function createEscrowAccount(
+  projectId: string,
+  options: { multisig?: MultisigOptions; asset?: SettlementAsset } = {}
+) {
+  const asset = options.asset || SETTLEMENT_ASSETS.SIZCOIN;
+
   try {
     // Generate new Algorand keypair
     const account = algosdk.generateAccount();
@@ -65,7 +240,11 @@ export async function createEscrowAccount(projectId: string) {
     const privateKey = algosdk.secretKeyToMnemonic(account.sk);
     
     // Encrypt the private key
-    const encryptedPrivateKey = encryptPrivateKey(privateKey);
+    const encryptedPrivateKey = await encryptPrivateKey(privateKey);
+
+    const metadata = options.multisig
+      ? getMultisigMetadata(publicAddress, options.multisig.signers, options.multisig.threshold)
+      : null;
     
     // Store in database
     const escrow = await prisma.projectEscrow.create({
@@ -73,9 +252,17 @@ export async function createEscrowAccount(projectId: string) {
         projectId,
         escrowAddress: publicAddress,
         encryptedPrivateKey,
+        keyId: getEncryptionKeyId(encryptedPrivateKey),
         initialDeposit: 0,
         currentBalance: 0,
         status: 'ACTIVE',
+        assetId: asset.assetId,
+        ...(metadata && {
+          multisigAddress: algosdk.multisigAddress(metadata),
+          multisigThreshold: metadata.threshold,
+          multisigSigners: metadata.addrs,
+          coSignAmount: options.multisig!.coSignAmount,
+        }),
       },
     });
     
@@ -87,38 +274,43 @@ export async function createEscrowAccount(projectId: string) {
     
     return {
       escrowAddress: publicAddress,
+      multisigAddress: escrow.multisigAddress,
       escrow,
-      assetId: SIZCOIN_ASSET_ID,
-      note: 'IMPORTANT: This escrow account must be funded with ALGO (for fees) and then opt-in to SIZCOIN (Asset ID: 2905622564) before it can receive SIZCOIN tokens.',
+      assetId: asset.assetId,
+      asset: asset.code,
+      note: asset.assetId === ALGO_ASSET_ID
+        ? 'IMPORTANT: This escrow account settles in native ALGO and needs no opt-in. Keep enough ALGO above the minimum balance for payouts and fees.'
+        : `IMPORTANT: This escrow account must be funded with ALGO (for fees) and then opt-in to ${asset.code} (Asset ID: ${asset.assetId}) before it can receive ${asset.code} tokens.`,
     };
-  } catch (error) {
+  } catch (error: any) {
     console.error('Error creating escrow account:', error);
+    if (error.message?.startsWith('Multisig')) {
+      throw error;
+    }
     throw new Error('Failed to create escrow account');
   }
 }
 
 /**
- * Opts an escrow account into SIZCOIN asset
+ * Opts an escrow account into its settlement asset
  * Must be called after funding the escrow with ALGO for transaction fees
  */
-export async function optInToSIZCOIN(escrowAddress: string, encryptedPrivateKey: string) {
+export async function optInToAsset(escrowAddress: string, encryptedPrivateKey: string, assetId: number | bigint = SIZCOIN_ASSET_ID) {
+  const asset = getSettlementAsset(assetId);
+  if (asset.assetId === ALGO_ASSET_ID) {
+    throw new Error('Native ALGO does not require an opt-in');
+  }
+
   try {
     // Decrypt the private key
-    const mnemonic = decryptPrivateKey(encryptedPrivateKey);
+    const mnemonic = await decryptPrivateKey(encryptedPrivateKey);
     const account = algosdk.mnemonicToSecretKey(mnemonic);
     
     // Get suggested params
     const suggestedParams = await algodClient.getTransactionParams().do();
     
     // Create asset opt-in transaction (amount = 0, to self)
-    const optInTxn = algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
-      from: escrowAddress,
-      to: escrowAddress,
-      amount: 0,
-      assetIndex: SIZCOIN_ASSET_ID,
-      suggestedParams,
-      note: new TextEncoder().encode('Opt-in to SIZCOIN'),
-    });
+    const optInTxn = makeTransferTxn(escrowAddress, escrowAddress, 0, asset, suggestedParams, `Opt-in to ${asset.code}`);
     
     // Sign and send
     const signedTxn = optInTxn.signTxn(account.sk);
@@ -129,32 +321,43 @@ export async function optInToSIZCOIN(escrowAddress: string, encryptedPrivateKey:
     
     return {
       txHash: txId,
-      assetId: SIZCOIN_ASSET_ID,
-      message: 'Escrow successfully opted-in to SIZCOIN',
+      assetId: asset.assetId,
+      message: `Escrow successfully opted-in to ${asset.code}`,
     };
   } catch (error) {
-    console.error('Error opting in to SIZCOIN:', error);
-    throw new Error('Failed to opt-in to SIZCOIN');
+    console.error(`Error opting in to ${asset.code}:`, error);
+    throw new Error(`Failed to opt-in to ${asset.code}`);
+  }
+}
+
+/**
+ * Spendable balance of an address in a settlement asset. For ALGO the
+ * account's minimum balance is locked and not counted.
+ */
+async function getAssetBalance(address: string, asset: SettlementAsset): Promise<number> {
+  const accountInfo = await algodClient.accountInformation(address).do();
+
+  if (asset.assetId === ALGO_ASSET_ID) {
+    return fromBaseUnits(Math.max(accountInfo.amount - (accountInfo['min-balance'] || 0), 0), asset);
   }
+
+  // Find the asset in account's assets
+  const assets = accountInfo.assets || [];
+  const holding = assets.find((a: any) => a['asset-id'] === asset.assetId);
+
+  if (!holding) {
+    return 0; // Not opted-in or no balance
+  }
+
+  return fromBaseUnits(holding.amount, asset);
 }
 
 /**
- * Gets the SIZCOIN balance of an escrow account from the blockchain
+ * Gets the settlement asset balance of an escrow account from the blockchain
  */
-export async function getEscrowBalance(escrowAddress: string): Promise<number> {
+export async function getEscrowBalance(escrowAddress: string, assetId: number | bigint = SIZCOIN_ASSET_ID): Promise<number> {
   try {
-    const accountInfo = await algodClient.accountInformation(escrowAddress).do();
-    
-    // Find SIZCOIN asset in account's assets
-    const assets = accountInfo.assets || [];
-    const sizcoinAsset = assets.find((asset: any) => asset['asset-id'] === SIZCOIN_ASSET_ID);
-    
-    if (!sizcoinAsset) {
-      return 0; // Not opted-in or no balance
-    }
-    
-    // Convert micro units to SIZ (divide by 100)
-    return sizcoinAsset.amount / MICRO_UNITS_PER_SIZ;
+    return await getAssetBalance(escrowAddress, getSettlementAsset(assetId));
   } catch (error) {
     console.error('Error fetching escrow balance:', error);
     return 0;
@@ -162,22 +365,11 @@ export async function getEscrowBalance(escrowAddress: string): Promise<number> {
 }
 
 /**
- * Gets the SIZCOIN balance of a user's wallet address from the blockchain
+ * Gets the balance of a user's wallet address from the blockchain (SIZCOIN unless an asset is given)
  */
-export async function getUserBalance(walletAddress: string): Promise<number> {
+export async function getUserBalance(walletAddress: string, assetId: number | bigint = SIZCOIN_ASSET_ID): Promise<number> {
   try {
-    const accountInfo = await algodClient.accountInformation(walletAddress).do();
-    
-    // Find SIZCOIN asset in account's assets
-    const assets = accountInfo.assets || [];
-    const sizcoinAsset = assets.find((asset: any) => asset['asset-id'] === SIZCOIN_ASSET_ID);
-    
-    if (!sizcoinAsset) {
-      return 0; // Not opted-in or no balance
-    }
-    
-    // Convert micro units to SIZ (divide by 100)
-    return sizcoinAsset.amount / MICRO_UNITS_PER_SIZ;
+    return await getAssetBalance(walletAddress, getSettlementAsset(assetId));
   } catch (error) {
     console.error('Error fetching user balance:', error);
     return 0;
@@ -185,13 +377,15 @@ export async function getUserBalance(walletAddress: string): Promise<number> {
 }
 
 /**
- * Checks if an address has opted-in to SIZCOIN
+ * Checks if an address can receive an asset. Every account can receive ALGO.
  */
-export async function isOptedInToSIZCOIN(address: string): Promise<boolean> {
+export async function isOptedInToAsset(address: string, assetId: number | bigint = SIZCOIN_ASSET_ID): Promise<boolean> {
+  if (Number(assetId) === ALGO_ASSET_ID) return true;
+
   try {
     const accountInfo = await algodClient.accountInformation(address).do();
     const assets = accountInfo.assets || [];
-    return assets.some((asset: any) => asset['asset-id'] === SIZCOIN_ASSET_ID);
+    return assets.some((asset: any) => asset['asset-id'] === Number(assetId));
   } catch (error) {
     console.error('Error checking opt-in status:', error);
     return false;
@@ -199,40 +393,61 @@ export async function isOptedInToSIZCOIN(address: string): Promise<boolean> {
 }
 
 /**
- * Verifies a SIZCOIN deposit transaction on the blockchain
+ * Verifies a deposit of the escrow's settlement asset on the blockchain
  */
-export async function verifyDepositTransaction(txHash: string, expectedAmount: number, escrowAddress: string) {
+export async function verifyDepositTransaction(
+  txHash: string,
+  expectedAmount: number,
+  escrowAddress: string,
+  assetId: number | bigint = SIZCOIN_ASSET_ID
+) {
+  const asset = getSettlementAsset(assetId);
+
   try {
     const txInfo = await algodClient.pendingTransactionInformation(txHash).do();
     
-    // Check if it's an asset transfer transaction
-    const assetTxn = txInfo['asset-transfer-transaction'];
-    if (!assetTxn) {
-      throw new Error('Transaction is not an asset transfer');
-    }
-    
-    // Verify it's SIZCOIN
-    if (assetTxn['asset-id'] !== SIZCOIN_ASSET_ID) {
-      throw new Error(`Transaction is not for SIZCOIN (Asset ID: ${SIZCOIN_ASSET_ID})`);
+    let receiver: string;
+    let baseAmount: number;
+    if (asset.assetId === ALGO_ASSET_ID) {
+      const payTxn = txInfo.txn.txn;
+      if (payTxn.type !== 'pay') {
+        throw new Error('Transaction is not an ALGO payment');
+      }
+      receiver = algosdk.encodeAddress(payTxn.rcv);
+      baseAmount = payTxn.amt || 0;
+    } else {
+      // Check if it's an asset transfer transaction
+      const assetTxn = txInfo['asset-transfer-transaction'];
+      if (!assetTxn) {
+        throw new Error('Transaction is not an asset transfer');
+      }
+
+      // Verify it's the settlement asset
+      if (assetTxn['asset-id'] !== asset.assetId) {
+        throw new Error(`Transaction is not for ${asset.code} (Asset ID: ${asset.assetId})`);
+      }
+
+      receiver = assetTxn.receiver;
+      baseAmount = assetTxn.amount;
     }
     
     // Verify receiver
-    if (assetTxn.receiver !== escrowAddress) {
+    if (receiver !== escrowAddress) {
       throw new Error('Transaction receiver does not match escrow address');
     }
     
-    // Convert micro units to SIZ and verify amount
-    const amountInSIZ = assetTxn.amount / MICRO_UNITS_PER_SIZ;
-    if (Math.abs(amountInSIZ - expectedAmount) > 0.01) {
-      throw new Error(`Transaction amount (${amountInSIZ} SIZ) does not match expected amount (${expectedAmount} SIZ)`);
+    // Convert base units and verify amount
+    const amount = fromBaseUnits(baseAmount, asset);
+    if (Math.abs(amount - expectedAmount) > 0.01) {
+      throw new Error(`Transaction amount (${amount} ${asset.code}) does not match expected amount (${expectedAmount} ${asset.code})`);
     }
     
     return {
       confirmed: txInfo['confirmed-round'] !== undefined,
-      amount: amountInSIZ,
+      amount,
       fee: (txInfo.txn.txn.fee || 0) / 1_000_000, // Fee is always in ALGO
       blockNumber: txInfo['confirmed-round'],
-      assetId: SIZCOIN_ASSET_ID,
+      assetId: asset.assetId,
     };
   } catch (error) {
     console.error('Error verifying deposit transaction:', error);
@@ -241,44 +456,42 @@ export async function verifyDepositTransaction(txHash: string, expectedAmount: n
 }
 
 /**
- * Creates and signs a SIZCOIN transfer transaction from escrow to employee
+ * Creates and signs a transfer of the settlement asset from escrow to employee
  */
 export async function createPaymentTransaction(
   escrowAddress: string,
   encryptedPrivateKey: string,
   toAddress: string,
   amount: number,
-  note?: string
+  note?: string,
+  assetId: number | bigint = SIZCOIN_ASSET_ID,
+  beforeSend?: BeforeSendHook
 ) {
+  const asset = getSettlementAsset(assetId);
+
   try {
-    // Verify employee wallet has opted-in to SIZCOIN
-    const employeeOptedIn = await isOptedInToSIZCOIN(toAddress);
+    // Verify employee wallet has opted-in to the asset
+    const employeeOptedIn = await isOptedInToAsset(toAddress, asset.assetId);
     if (!employeeOptedIn) {
-      throw new Error(`Employee wallet ${toAddress} has not opted-in to SIZCOIN (Asset ID: ${SIZCOIN_ASSET_ID}). Employee must opt-in before receiving payment.`);
+      throw new Error(`Employee wallet ${toAddress} has not opted-in to ${asset.code} (Asset ID: ${asset.assetId}). Employee must opt-in before receiving payment.`);
     }
     
     // Decrypt the private key
-    const mnemonic = decryptPrivateKey(encryptedPrivateKey);
+    const mnemonic = await decryptPrivateKey(encryptedPrivateKey);
     const account = algosdk.mnemonicToSecretKey(mnemonic);
     
     // Get suggested params from the network
     const suggestedParams = await algodClient.getTransactionParams().do();
     
-    // Convert SIZ to micro units (multiply by 100)
-    const amountInMicroUnits = Math.floor(amount * MICRO_UNITS_PER_SIZ);
-    
-    // Create SIZCOIN asset transfer transaction
-    const txn = algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
-      from: escrowAddress,
-      to: toAddress,
-      amount: amountInMicroUnits,
-      assetIndex: SIZCOIN_ASSET_ID,
-      note: note ? new TextEncoder().encode(note) : undefined,
-      suggestedParams,
-    });
+    // Create the transfer in the asset's base units
+    const txn = makeTransferTxn(escrowAddress, toAddress, amount, asset, suggestedParams, note);
     
     // Sign the transaction
     const signedTxn = txn.signTxn(account.sk);
+
+    if (beforeSend) {
+      await beforeSend({ txHashes: [txn.txID()], lastValidRound: txn.lastRound });
+    }
     
     // Send the transaction
     const { txId } = await algodClient.sendRawTransaction(signedTxn).do();
@@ -287,14 +500,198 @@ export async function createPaymentTransaction(
       txHash: txId,
       amount,
       fee: suggestedParams.fee / 1_000_000, // Fee is always in ALGO
-      assetId: SIZCOIN_ASSET_ID,
+      assetId: asset.assetId,
+      lastValidRound: txn.lastRound,
+    };
+  } catch (error) {
+    console.error(`Error creating ${asset.code} payment transaction:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Runs after signing and before sending, with the ids the transfer will have on-chain.
+ * Callers persist them so that after a crash they can tell whether it may have gone out.
+ */
+export type BeforeSendHook = (signed: { txHashes: string[]; lastValidRound: number }) => Promise<void>;
+
+// Algorand caps atomic transaction groups at 16 transactions
+export const MAX_ATOMIC_GROUP_SIZE = 16;
+
+/**
+ * Creates, signs and sends up to 16 settlement asset transfers from one escrow as a
+ * single atomic group: either every leg is applied or none is
+ */
+export async function createBatchPaymentTransaction(
+  escrowAddress: string,
+  encryptedPrivateKey: string,
+  transfers: Array<{ toAddress: string; amount: number; note?: string }>,
+  assetId: number | bigint = SIZCOIN_ASSET_ID,
+  beforeSend?: BeforeSendHook
+) {
+  const asset = getSettlementAsset(assetId);
+
+  if (transfers.length === 0) {
+    throw new Error('Batch payment requires at least one transfer');
+  }
+
+  if (transfers.length > MAX_ATOMIC_GROUP_SIZE) {
+    throw new Error(`Batch payment supports at most ${MAX_ATOMIC_GROUP_SIZE} transfers, got ${transfers.length}`);
+  }
+
+  try {
+    // One receiver without opt-in would reject the whole group; callers leave such legs out
+    for (const transfer of transfers) {
+      const optedIn = await isOptedInToAsset(transfer.toAddress, asset.assetId);
+      if (!optedIn) {
+        throw new Error(`Wallet ${transfer.toAddress} has not opted-in to ${asset.code} (Asset ID: ${asset.assetId}). Employee must opt-in before receiving payment.`);
+      }
+    }
+
+    const mnemonic = await decryptPrivateKey(encryptedPrivateKey);
+    const account = algosdk.mnemonicToSecretKey(mnemonic);
+
+    const suggestedParams = await algodClient.getTransactionParams().do();
+
+    const txns = transfers.map((transfer) =>
+      makeTransferTxn(escrowAddress, transfer.toAddress, transfer.amount, asset, suggestedParams, transfer.note)
+    );
+
+    const grouped = algosdk.assignGroupID(txns);
+    const signedTxns = grouped.map((txn) => txn.signTxn(account.sk));
+
+    if (beforeSend) {
+      await beforeSend({ txHashes: grouped.map((txn) => txn.txID()), lastValidRound: grouped[0].lastRound });
+    }
+
+    await algodClient.sendRawTransaction(signedTxns).do();
+
+    const fee = suggestedParams.fee / 1_000_000; // Fee is always in ALGO
+
+    return {
+      groupId: Buffer.from(grouped[0].group!).toString('base64'),
+      legs: grouped.map((txn, index) => ({
+        txHash: txn.txID(),
+        toAddress: transfers[index].toAddress,
+        amount: transfers[index].amount,
+        fee,
+      })),
+      assetId: asset.assetId,
+      lastValidRound: grouped[0].lastRound,
     };
   } catch (error) {
-    console.error('Error creating SIZCOIN payment transaction:', error);
+    console.error(`Error creating ${asset.code} batch payment:`, error);
     throw error;
   }
 }
 
+/**
+ * Builds a settlement asset transfer out of a multisig vault and adds the escrow key's
+ * signature. A zero-amount transfer to the vault itself is its asset opt-in.
+ */
+export async function prepareMultisigTransfer(
+  metadata: algosdk.MultisigMetadata,
+  encryptedPrivateKey: string,
+  toAddress: string,
+  amount: number,
+  note?: string,
+  assetId: number | bigint = SIZCOIN_ASSET_ID
+) {
+  const asset = getSettlementAsset(assetId);
+  const vaultAddress = algosdk.multisigAddress(metadata);
+
+  if (toAddress !== vaultAddress) {
+    const optedIn = await isOptedInToAsset(toAddress, asset.assetId);
+    if (!optedIn) {
+      throw new Error(`Wallet ${toAddress} has not opted-in to ${asset.code} (Asset ID: ${asset.assetId}). Employee must opt-in before receiving payment.`);
+    }
+  }
+
+  const mnemonic = await decryptPrivateKey(encryptedPrivateKey);
+  const account = algosdk.mnemonicToSecretKey(mnemonic);
+
+  const suggestedParams = await algodClient.getTransactionParams().do();
+
+  const txn = makeTransferTxn(vaultAddress, toAddress, amount, asset, suggestedParams, note);
+
+  const { txID, blob } = algosdk.signMultisigTransaction(txn, metadata, account.sk);
+
+  return {
+    txId: txID,
+    unsignedTxn: Buffer.from(algosdk.encodeUnsignedTransaction(txn)).toString('base64'),
+    signedTxn: Buffer.from(blob).toString('base64'),
+    lastValidRound: txn.lastRound,
+    fee: suggestedParams.fee / 1_000_000, // Fee is always in ALGO
+  };
+}
+
+/**
+ * Merges a co-signer's multisig blob into the collected one. Both must sign the same
+ * transaction; returns the merged blob and every signer address present in it.
+ */
+export function mergeMultisigSignatures(collectedTxn: string, incomingTxn: string) {
+  const collected = new Uint8Array(Buffer.from(collectedTxn, 'base64'));
+  const incoming = new Uint8Array(Buffer.from(incomingTxn, 'base64'));
+
+  const collectedId = algosdk.decodeSignedTransaction(collected).txn.txID();
+  if (algosdk.decodeSignedTransaction(incoming).txn.txID() !== collectedId) {
+    throw new Error('Signed transaction does not match the pending payout');
+  }
+
+  const merged = algosdk.mergeMultisigTransactions([collected, incoming]);
+
+  return {
+    signedTxn: Buffer.from(merged).toString('base64'),
+    signedBy: getMultisigSignedBy(merged),
+  };
+}
+
+/**
+ * Signer addresses whose signature in a multisig blob does not verify against the
+ * transaction's bytes-to-sign. Invalid signatures would get the whole group rejected.
+ */
+export function getInvalidMultisigSigners(signedTxn: string): string[] {
+  const { txn, msig } = algosdk.decodeSignedTransaction(new Uint8Array(Buffer.from(signedTxn, 'base64')));
+  const bytesToSign = txn.bytesToSign();
+
+  return (msig?.subsig || [])
+    .filter((subsig) => subsig.s && !nacl.sign.detached.verify(bytesToSign, subsig.s, subsig.pk))
+    .map((subsig) => algosdk.encodeAddress(subsig.pk));
+}
+
+/**
+ * Signer addresses that have a signature in a multisig blob
+ */
+export function getMultisigSignedBy(blob: Uint8Array): string[] {
+  const { msig } = algosdk.decodeSignedTransaction(blob);
+  return (msig?.subsig || [])
+    .filter((subsig) => subsig.s)
+    .map((subsig) => algosdk.encodeAddress(subsig.pk));
+}
+
+/**
+ * Sends a fully signed transaction blob (base64)
+ */
+export async function submitSignedTransaction(signedTxn: string, beforeSend?: BeforeSendHook) {
+  const bytes = new Uint8Array(Buffer.from(signedTxn, 'base64'));
+
+  if (beforeSend) {
+    const { txn } = algosdk.decodeSignedTransaction(bytes);
+    await beforeSend({ txHashes: [txn.txID()], lastValidRound: txn.lastRound });
+  }
+
+  const { txId } = await algodClient.sendRawTransaction(bytes).do();
+  return txId as string;
+}
+
+/**
+ * Current round of the connected node
+ */
+export async function getCurrentRound(): Promise<number> {
+  const status = await algodClient.status().do();
+  return status['last-round'];
+}
+
 /**
  * Waits for a transaction to be confirmed on the blockchain
  */
@@ -366,6 +763,62 @@ export async function getTransactionStatus(txHash: string) {
   }
 }
 
+/**
+ * Looks a confirmed transfer up in the indexer: sender, receiver, asset and amount
+ * (converted from base units for settlement assets, from microAlgos for ALGO)
+ */
+export async function getTransferTransaction(txHash: string) {
+  let tx: any;
+  try {
+    tx = (await indexerClient.lookupTransactionByID(txHash).do()).transaction;
+  } catch {
+    return null;
+  }
+  if (!tx) return null;
+
+  const assetTransfer = tx['asset-transfer-transaction'];
+  const payment = tx['payment-transaction'];
+  if (!assetTransfer && !payment) return null;
+
+  const assetId: number = assetTransfer ? assetTransfer['asset-id'] : ALGO_ASSET_ID;
+  const settlementAsset = Object.values(SETTLEMENT_ASSETS).find((a) => a.assetId === assetId);
+
+  return {
+    txHash: tx.id as string,
+    assetId,
+    amount: settlementAsset ? fromBaseUnits((assetTransfer ?? payment).amount, settlementAsset) : (assetTransfer ?? payment).amount,
+    fee: tx.fee / 1_000_000,
+    fromAddress: tx.sender as string,
+    toAddress: (assetTransfer?.receiver ?? payment.receiver) as string,
+    blockNumber: tx['confirmed-round'] as number | undefined,
+  };
+}
+
+function toAddressTransaction(tx: any) {
+  const assetTransfer = tx['asset-transfer-transaction'];
+  const assetId: number | null = assetTransfer ? assetTransfer['asset-id'] : null;
+
+  // Settlement asset transfers are converted from base units; ALGO payments from microAlgos
+  let amount = tx['payment-transaction']?.amount / 1_000_000 || 0;
+  if (assetTransfer) {
+    const settlementAsset = Object.values(SETTLEMENT_ASSETS).find((a) => a.assetId === assetId);
+    amount = settlementAsset ? fromBaseUnits(assetTransfer.amount, settlementAsset) : assetTransfer.amount;
+  }
+
+  return {
+    txHash: tx.id,
+    type: tx['tx-type'],
+    assetId,
+    amount,
+    fee: tx.fee / 1_000_000,
+    fromAddress: tx.sender,
+    toAddress: assetTransfer?.receiver || tx['payment-transaction']?.receiver || '',
+    blockNumber: tx['confirmed-round'],
+    timestamp: tx['round-time'],
+    note: tx.note ? new TextDecoder().decode(Buffer.from(tx.note, 'base64')) : '',
+  };
+}
+
 /**
  * Gets all transactions for an address
  */
@@ -377,23 +830,50 @@ export async function getAddressTransactions(address: string, limit = 100) {
       .limit(limit)
       .do();
     
-    return response.transactions.map((tx: any) => ({
-      txHash: tx.id,
-      type: tx['tx-type'],
-      amount: tx['payment-transaction']?.amount / 1_000_000 || 0,
-      fee: tx.fee / 1_000_000,
-      fromAddress: tx.sender,
-      toAddress: tx['payment-transaction']?.receiver || '',
-      blockNumber: tx['confirmed-round'],
-      timestamp: tx['round-time'],
-      note: tx.note ? new TextDecoder().decode(Buffer.from(tx.note, 'base64')) : '',
-    }));
+    return response.transactions.map(toAddressTransaction);
   } catch (error) {
     console.error('Error fetching address transactions:', error);
     return [];
   }
 }
 
+/**
+ * Full transaction history of an address, paged through the indexer. Errors are thrown
+ * rather than returned as an empty history, which would read as missing transactions.
+ */
+export async function getFullAddressHistory(address: string, pageSize = 1000) {
+  const transactions: ReturnType<typeof toAddressTransaction>[] = [];
+  let nextToken: string | undefined;
+
+  do {
+    const query = indexerClient.searchForTransactions().address(address).limit(pageSize);
+    const response = await (nextToken ? query.nextToken(nextToken) : query).do();
+
+    transactions.push(...response.transactions.map(toAddressTransaction));
+    nextToken = response.transactions.length > 0 ? response['next-token'] : undefined;
+  } while (nextToken);
+
+  return transactions;
+}
+
+/**
+ * Checks a wallet's signBytes signature (base64) over a plain-text message.
+ * verifyBytes applies the "MX" domain prefix that wallets add when signing arbitrary bytes.
+ */
+export function verifyWalletSignature(message: string, signature: string, address: string): boolean {
+  try {
+    const signatureBytes = new Uint8Array(Buffer.from(signature, 'base64'));
+    if (signatureBytes.length !== 64) {
+      return false;
+    }
+
+    return algosdk.verifyBytes(new TextEncoder().encode(message), signatureBytes, address);
+  } catch (error) {
+    console.error('Error verifying wallet signature:', error);
+    return false;
+  }
+}
+
 /**
  * Validates an Algorand address
  */
@@ -0,0 +1,390 @@
+import { prisma } from '../utils/database.js';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * "30d" style ranges used across the analytics API; anything unparsable is 30 days
+ */
+export function parseDayRange(range: unknown, fallback = 30) {
+  return parseInt(String(range ?? '').replace('d', '')) || fallback;
+}
+
+function rangeStart(days: number) {
+  const startDate = new Date();
+  startDate.setDate(startDate.getDate() - days);
+  return startDate;
+}
+
+/**
+ * Cycle/lead times, throughput, bottlenecks and per-department performance of a project
+ */
+export async function getKanbanMetrics(projectId: string, options: { timeRange?: string; departmentId?: string } = {}) {
+  const days = parseDayRange(options.timeRange);
+  const startDate = rangeStart(days);
+
+  // Build where clause for tasks
+  const taskWhere: any = {
+    department: { projectId },
+    createdAt: { gte: startDate }
+  };
+
+  if (options.departmentId) {
+    taskWhere.departmentId = options.departmentId;
+  }
+
+  // Get all tasks in the time range
+  const tasks = await prisma.task.findMany({
+    where: taskWhere,
+    include: {
+      department: {
+        select: {
+          id: true,
+          name: true
+        }
+      },
+      activities: {
+        where: {
+          type: 'STATUS_CHANGED',
+          createdAt: { gte: startDate }
+        },
+        orderBy: { createdAt: 'asc' }
+      }
+    }
+  });
+
+  // Calculate cycle times and lead times
+  const completedTasks = tasks.filter(task =>
+    task.status === 'COMPLETED' || task.status === 'APPROVED'
+  );
+
+  let totalCycleTime = 0;
+  let totalLeadTime = 0;
+  let tasksWithCycleTime = 0;
+  let tasksWithLeadTime = 0;
+
+  for (const task of completedTasks) {
+    // Lead time: from creation to completion
+    if (task.updatedAt && task.createdAt) {
+      const leadTime = task.updatedAt.getTime() - task.createdAt.getTime();
+      totalLeadTime += leadTime;
+      tasksWithLeadTime++;
+    }
+
+    // Cycle time: from first "IN_PROGRESS" to completion
+    const inProgressActivity = task.activities.find(
+      activity => activity.newValue === 'IN_PROGRESS'
+    );
+
+    if (inProgressActivity && task.updatedAt) {
+      const cycleTime = task.updatedAt.getTime() - inProgressActivity.createdAt.getTime();
+      totalCycleTime += cycleTime;
+      tasksWithCycleTime++;
+    }
+  }
+
+  const averageCycleTime = tasksWithCycleTime > 0
+    ? Math.round(totalCycleTime / tasksWithCycleTime / DAY_MS * 10) / 10 // days
+    : 0;
+
+  const averageLeadTime = tasksWithLeadTime > 0
+    ? Math.round(totalLeadTime / tasksWithLeadTime / DAY_MS * 10) / 10 // days
+    : 0;
+
+  // Calculate throughput (completed tasks per day)
+  const throughput = Math.round(completedTasks.length / days * 10) / 10;
+
+  // Tasks currently in progress
+  const tasksInProgress = tasks.filter(task => task.status === 'IN_PROGRESS').length;
+
+  // Identify bottlenecks (statuses with high task counts and long average times)
+  const statusCounts = {
+    PENDING: tasks.filter(task => task.status === 'PENDING').length,
+    IN_PROGRESS: tasks.filter(task => task.status === 'IN_PROGRESS').length,
+    COMPLETED: tasks.filter(task => task.status === 'COMPLETED').length,
+    APPROVED: tasks.filter(task => task.status === 'APPROVED').length
+  };
+
+  const bottlenecks = Object.entries(statusCounts)
+    .map(([status, taskCount]) => {
+      // Calculate average time in this status
+      const statusTasks = tasks.filter(task => task.status === status);
+      let totalTimeInStatus = 0;
+      let tasksWithTime = 0;
+
+      for (const task of statusTasks) {
+        const statusChangeActivity = task.activities.find(
+          activity => activity.newValue === status
+        );
+
+        if (statusChangeActivity) {
+          const timeInStatus = new Date().getTime() - statusChangeActivity.createdAt.getTime();
+          totalTimeInStatus += timeInStatus;
+          tasksWithTime++;
+        }
+      }
+
+      const averageTimeInStatus = tasksWithTime > 0
+        ? Math.round(totalTimeInStatus / tasksWithTime / DAY_MS * 10) / 10
+        : 0;
+
+      // Consider it a bottleneck if more than 30% of tasks are in this status
+      // or if average time in status is > 7 days
+      const isBottleneck = (taskCount / tasks.length > 0.3) || averageTimeInStatus > 7;
+
+      return {
+        status,
+        taskCount,
+        averageTimeInStatus,
+        isBottleneck
+      };
+    })
+    .filter(item => item.isBottleneck);
+
+  // Department performance
+  const departments = new Map(tasks.map(task => [task.department.id, task.department]));
+  const departmentPerformance = [...departments.values()].map((dept) => {
+    const deptTasks = tasks.filter(task => task.departmentId === dept.id);
+    const deptCompletedTasks = deptTasks.filter(task =>
+      task.status === 'COMPLETED' || task.status === 'APPROVED'
+    ).length;
+
+    let deptTotalCycleTime = 0;
+    let deptTasksWithCycleTime = 0;
+
+    for (const task of deptTasks.filter(t => t.status === 'COMPLETED' || t.status === 'APPROVED')) {
+      const inProgressActivity = task.activities.find(
+        activity => activity.newValue === 'IN_PROGRESS'
+      );
+
+      if (inProgressActivity && task.updatedAt) {
+        const cycleTime = task.updatedAt.getTime() - inProgressActivity.createdAt.getTime();
+        deptTotalCycleTime += cycleTime;
+        deptTasksWithCycleTime++;
+      }
+    }
+
+    const deptAverageCycleTime = deptTasksWithCycleTime > 0
+      ? Math.round(deptTotalCycleTime / deptTasksWithCycleTime / DAY_MS * 10) / 10
+      : 0;
+
+    return {
+      departmentId: dept.id,
+      departmentName: dept.name,
+      completedTasks: deptCompletedTasks,
+      averageCycleTime: deptAverageCycleTime
+    };
+  });
+
+  return {
+    projectId,
+    timeRange: `${days}d`,
+    metrics: {
+      averageCycleTime,
+      averageLeadTime,
+      throughput,
+      tasksInProgress,
+      completedTasks: completedTasks.length,
+      bottlenecks,
+      departmentPerformance
+    }
+  };
+}
+
+/**
+ * Health, completion, timeline and risk metrics of one project
+ */
+export async function getProjectPerformance(projectId: string, options: { dateRange?: string; granularity?: string } = {}) {
+  const { dateRange = '30d', granularity = 'weekly' } = options;
+  const startDate = rangeStart(parseDayRange(dateRange));
+
+  // Total and completed tasks in range
+  const totalTasks = await prisma.task.count({
+    where: { department: { projectId }, createdAt: { gte: startDate } }
+  });
+  const completedTasks = await prisma.task.count({
+    where: {
+      department: { projectId },
+      status: { in: ['COMPLETED', 'APPROVED'] },
+      updatedAt: { gte: startDate }
+    }
+  });
+  const completionRate = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
+
+  // Timeline progress: completed vs tasks with due dates in range
+  const tasksWithDue = await prisma.task.count({
+    where: { department: { projectId }, dueDate: { gte: startDate } }
+  });
+  const completedWithDue = await prisma.task.count({
+    where: {
+      department: { projectId },
+      status: { in: ['COMPLETED', 'APPROVED'] },
+      dueDate: { gte: startDate },
+      updatedAt: { gte: startDate }
+    }
+  });
+  const timelineProgress = tasksWithDue > 0 ? Math.round((completedWithDue / tasksWithDue) * 100) : 0;
+
+  // On-time percentage
+  const completedRecords = await prisma.task.findMany({
+    where: {
+      department: { projectId },
+      status: { in: ['COMPLETED', 'APPROVED'] },
+      updatedAt: { gte: startDate }
+    },
+    select: { updatedAt: true, dueDate: true }
+  });
+  const withDue = completedRecords.filter(t => t.dueDate != null);
+  const onTime = withDue.filter(t => t.updatedAt && t.dueDate && t.updatedAt <= t.dueDate).length;
+  const onTimeRate = withDue.length > 0 ? Math.round((onTime / withDue.length) * 100) : 0;
+
+  // Team efficiency: completed per active member (distinct users with roles)
+  const projectMembers = await prisma.userRole.findMany({
+    where: { projectId },
+    select: { userId: true }
+  });
+  const memberCount = Array.from(new Set(projectMembers.map(m => m.userId))).length || 1;
+  const teamEfficiency = Math.round((completedTasks / memberCount) * 100) / 100;
+
+  // Health score: blend of completion and on-time
+  const healthScore = Math.round((completionRate * 0.6 + onTimeRate * 0.4));
+
+  // Budget vs actual: no budget fields yet -> nulls
+  const budgetVsActual = { budget: null as number | null, actual: null as number | null };
+
+  // Risk assessment: simple heuristics
+  const overdueOpen = await prisma.task.count({
+    where: {
+      department: { projectId },
+      status: { notIn: ['COMPLETED', 'APPROVED'] },
+      dueDate: { lt: new Date() }
+    }
+  });
+  const riskAssessment = [
+    { type: 'OVERDUE_OPEN_TASKS', count: overdueOpen, severity: overdueOpen > 10 ? 'HIGH' : overdueOpen > 3 ? 'MEDIUM' : 'LOW' }
+  ];
+
+  // Milestone completion: placeholder (no Milestone model yet)
+  const milestoneCompletion: any[] = [];
+
+  return {
+    projectId,
+    dateRange,
+    granularity,
+    metrics: {
+      healthScore,
+      completionRate,
+      budgetVsActual,
+      timelineProgress,
+      riskAssessment,
+      teamEfficiency,
+      milestoneCompletion
+    }
+  };
+}
+
+/**
+ * Completed/in-progress/pending counts per assignee of a project
+ */
+export async function getTeamPerformance(
+  projectId: string,
+  options: { departmentId?: string; userId?: string; dateRange?: string } = {}
+) {
+  const { departmentId, userId, dateRange = '30d' } = options;
+  const days = parseDayRange(dateRange);
+  const startDate = rangeStart(days);
+
+  // Scope filters
+  const taskWhere: any = {
+    department: { projectId },
+    OR: [
+      { updatedAt: { gte: startDate } },
+      { createdAt: { gte: startDate } }
+    ]
+  };
+  if (departmentId) taskWhere.departmentId = departmentId;
+  if (userId) taskWhere.assignedRole = { userId } as any; // via relation on UserRole if available
+
+  // Pull tasks with assignedRole for attribution
+  const tasks = await prisma.task.findMany({
+    where: taskWhere,
+    select: {
+      id: true, status: true, createdAt: true, updatedAt: true, dueDate: true,
+      assignedRoleId: true,
+      assignedRole: { select: { id: true, userId: true, role: true } }
+    }
+  });
+
+  // Aggregate by userId
+  const byUser: Record<string, { userId: string, role: string | null, completed: number, inProgress: number, pending: number }>
+    = {};
+  for (const t of tasks) {
+    const uid = t.assignedRole?.userId || 'unassigned';
+    if (!byUser[uid]) byUser[uid] = { userId: uid, role: t.assignedRole?.role || null as any, completed: 0, inProgress: 0, pending: 0 };
+    if (t.status === 'COMPLETED' || t.status === 'APPROVED') byUser[uid].completed++;
+    else if (t.status === 'IN_PROGRESS') byUser[uid].inProgress++;
+    else byUser[uid].pending++;
+  }
+
+  const individuals = Object.values(byUser).map(u => ({
+    userId: u.userId,
+    role: u.role,
+    productivityScore: Math.round(Math.min(100, (u.completed / Math.max(1, days)) * 100)),
+    completed: u.completed,
+    inProgress: u.inProgress,
+    pending: u.pending
+  }));
+
+  const workloadDistribution = individuals.map(u => ({ userId: u.userId, openTasks: u.inProgress + u.pending }));
+  const taskCompletionRates = individuals.map(u => ({ userId: u.userId, completionRate: Math.round((u.completed / Math.max(1, (u.completed + u.inProgress + u.pending))) * 100) }));
+
+  // Placeholders for collaboration and skills
+  const collaboration: any[] = [];
+  const skillUtilization: any[] = [];
+
+  // Trends: completed per day (simple)
+  const trends: any[] = [];
+
+  return {
+    filters: { projectId, departmentId, userId, dateRange },
+    individuals,
+    workloadDistribution,
+    taskCompletionRates,
+    collaboration,
+    skillUtilization,
+    trends
+  };
+}
+
+/**
+ * Financial overview of a project; mostly operational proxies until expense data exists
+ */
+export async function getFinancialOverview(projectId: string, options: { dateRange?: string; currency?: string } = {}) {
+  const { dateRange = '30d', currency = 'USD' } = options;
+  const days = parseDayRange(dateRange);
+  const startDate = rangeStart(days);
+
+  // Without budget/expense schema, compute operational proxies
+  const completedTasks = await prisma.task.count({ where: { department: { projectId }, status: { in: ['COMPLETED','APPROVED'] }, updatedAt: { gte: startDate } } });
+
+  const costPerTask = null as number | null; // pending expense model
+  const budgetUtilization = null as number | null; // pending budget model
+  const roi = null as number | null; // pending revenue/savings model
+  const expenseBreakdown: any[] = []; // pending expense categories
+  const profitMargins = null as number | null; // pending revenue model
+  const payments: any[] = []; // pending payments model
+
+  // Simple projection: linear based on last period throughput
+  const throughputPerDay = days > 0 ? completedTasks / days : 0;
+  const projections = [{ metric: 'throughputPerDay', value: Math.round(throughputPerDay * 100) / 100, currency }];
+
+  return {
+    filters: { projectId, dateRange, currency },
+    budgetUtilization,
+    costPerTask,
+    roi,
+    expenseBreakdown,
+    profitMargins,
+    payments,
+    projections
+  };
+}
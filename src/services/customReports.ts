@@ -0,0 +1,608 @@
+import type { CustomReport, Prisma } from '@prisma/client';
+import { prisma } from '../utils/database.js';
+import { checkProjectAccess } from '../utils/accessControl.js';
+import { parseDayRange } from './analyticsMetrics.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Most values one list filter may carry
+const MAX_FILTER_VALUES = 200;
+
+export const REPORT_ENTITIES = ['tasks', 'payments', 'transactions', 'members'] as const;
+export type ReportEntity = (typeof REPORT_ENTITIES)[number];
+
+export const REPORT_DIMENSIONS = ['department', 'assignee', 'priority', 'role', 'week'] as const;
+export type ReportDimension = (typeof REPORT_DIMENSIONS)[number];
+
+/**
+ * count:            rows in the group
+ * sumPaymentAmount: task paymentAmount, or the amount of payments and transactions
+ * avgCycleTime:     days from first IN_PROGRESS to completion for tasks, from creation
+ *                   to release for payments, from submission to confirmation for transactions
+ */
+export const REPORT_MEASURES = ['count', 'sumPaymentAmount', 'avgCycleTime'] as const;
+export type ReportMeasure = (typeof REPORT_MEASURES)[number];
+
+const PRIORITIES = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+
+/**
+ * Thrown for definitions the builder cannot run and reports the caller may not touch
+ */
+export class CustomReportError extends Error {
+  constructor(message: string, public readonly statusCode = 400) {
+    super(message);
+    this.name = 'CustomReportError';
+  }
+}
+
+export interface ReportFilters {
+  projectId?: string;
+  departmentIds?: string[];
+  assigneeIds?: string[]; // user ids
+  priorities?: string[];
+  statuses?: string[];
+  types?: string[]; // transaction types
+  from?: string;
+  to?: string;
+  dateRange?: string; // "90d" style, used when from is not set
+}
+
+export interface ReportDefinition {
+  entity: ReportEntity;
+  dimensions: ReportDimension[];
+  measures: ReportMeasure[];
+  filters: ReportFilters;
+}
+
+/**
+ * Where a dimension's value comes from: a column of the entity, the start of the week
+ * of a date column, or an attribute of the task or user role a column points to
+ */
+type DimensionSource =
+  | { field: string; week?: boolean }
+  | { field: string; lookup: 'task'; attribute: 'departmentId' | 'priority' }
+  | { field: string; lookup: 'role'; attribute: 'userId' };
+
+type ListFilter = 'departmentIds' | 'assigneeIds' | 'priorities' | 'types';
+
+interface EntitySpec {
+  model: 'task' | 'payment' | 'blockchainTransaction' | 'userRole';
+  scope: (projectIds: string[]) => Record<string, any>;
+  dateField: string;
+  statuses: string[];
+  dimensions: Partial<Record<ReportDimension, DimensionSource>>;
+  filters: Partial<Record<ListFilter, (values: string[]) => Record<string, any>>>;
+  sumField?: string;
+  cycleTime?: {
+    where: Record<string, any>;
+    select: Record<string, any>;
+    days: (row: any) => number | null;
+  };
+}
+
+const ENTITY_SPECS: Record<ReportEntity, EntitySpec> = {
+  tasks: {
+    model: 'task',
+    scope: (projectIds) => ({ department: { projectId: { in: projectIds } }, deletedAt: null }),
+    dateField: 'createdAt',
+    statuses: ['PENDING', 'IN_PROGRESS', 'COMPLETED', 'APPROVED'],
+    dimensions: {
+      department: { field: 'departmentId' },
+      assignee: { field: 'assignedRoleId', lookup: 'role', attribute: 'userId' },
+      priority: { field: 'priority' },
+      week: { field: 'createdAt', week: true },
+    },
+    filters: {
+      departmentIds: (ids) => ({ departmentId: { in: ids } }),
+      assigneeIds: (ids) => ({ assignedRole: { userId: { in: ids } } }),
+      priorities: (priorities) => ({ priority: { in: priorities } }),
+    },
+    sumField: 'paymentAmount',
+    // Same definition as the kanban metrics: first move to IN_PROGRESS until the last update
+    cycleTime: {
+      where: { status: { in: ['COMPLETED', 'APPROVED'] } },
+      select: {
+        updatedAt: true,
+        activities: {
+          where: { type: 'STATUS_CHANGED', newValue: 'IN_PROGRESS' },
+          select: { createdAt: true },
+          orderBy: { createdAt: 'asc' },
+          take: 1,
+        },
+      },
+      days: (row) => (row.activities[0] ? (row.updatedAt.getTime() - row.activities[0].createdAt.getTime()) / DAY_MS : null),
+    },
+  },
+  payments: {
+    model: 'payment',
+    scope: (projectIds) => ({ task: { department: { projectId: { in: projectIds } } } }),
+    dateField: 'createdAt',
+    statuses: ['PENDING', 'ALLOCATED', 'PROCESSING', 'PAID', 'FAILED', 'REFUNDED'],
+    dimensions: {
+      department: { field: 'taskId', lookup: 'task', attribute: 'departmentId' },
+      assignee: { field: 'payeeId' },
+      priority: { field: 'taskId', lookup: 'task', attribute: 'priority' },
+      week: { field: 'createdAt', week: true },
+    },
+    filters: {
+      departmentIds: (ids) => ({ task: { departmentId: { in: ids } } }),
+      assigneeIds: (ids) => ({ payeeId: { in: ids } }),
+      priorities: (priorities) => ({ task: { priority: { in: priorities } } }),
+    },
+    sumField: 'amount',
+    cycleTime: {
+      where: { releasedAt: { not: null } },
+      select: { createdAt: true, releasedAt: true },
+      days: (row) => (row.releasedAt.getTime() - row.createdAt.getTime()) / DAY_MS,
+    },
+  },
+  transactions: {
+    model: 'blockchainTransaction',
+    scope: (projectIds) => ({ projectId: { in: projectIds } }),
+    dateField: 'submittedAt',
+    statuses: ['PENDING', 'CONFIRMING', 'CONFIRMED', 'FAILED'],
+    dimensions: {
+      department: { field: 'taskId', lookup: 'task', attribute: 'departmentId' },
+      priority: { field: 'taskId', lookup: 'task', attribute: 'priority' },
+      week: { field: 'submittedAt', week: true },
+    },
+    filters: {
+      departmentIds: (ids) => ({ task: { departmentId: { in: ids } } }),
+      priorities: (priorities) => ({ task: { priority: { in: priorities } } }),
+      types: (types) => ({ type: { in: types } }),
+    },
+    sumField: 'amount',
+    cycleTime: {
+      where: { confirmedAt: { not: null } },
+      select: { submittedAt: true, confirmedAt: true },
+      days: (row) => (row.confirmedAt.getTime() - row.submittedAt.getTime()) / DAY_MS,
+    },
+  },
+  members: {
+    model: 'userRole',
+    scope: (projectIds) => ({ projectId: { in: projectIds } }),
+    dateField: 'createdAt',
+    statuses: ['PENDING', 'ACTIVE', 'INACTIVE'],
+    dimensions: {
+      assignee: { field: 'userId' },
+      role: { field: 'role' },
+      week: { field: 'createdAt', week: true },
+    },
+    filters: {
+      assigneeIds: (ids) => ({ userId: { in: ids } }),
+    },
+  },
+};
+
+function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return values.includes(value as T);
+}
+
+function stringList(value: unknown, name: string) {
+  if (value === undefined || value === null) return undefined;
+  const list = ([] as unknown[]).concat(value);
+  if (!list.every((item) => typeof item === 'string' && item.length > 0)) {
+    throw new CustomReportError(`filters.${name} must be a list of strings`);
+  }
+  if (list.length > MAX_FILTER_VALUES) {
+    throw new CustomReportError(`filters.${name} takes at most ${MAX_FILTER_VALUES} values`);
+  }
+  return list as string[];
+}
+
+function optionalDate(value: unknown, name: string) {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string' || isNaN(new Date(value).getTime())) {
+    throw new CustomReportError(`filters.${name} must be a date`);
+  }
+  return value;
+}
+
+/**
+ * Checks a definition against what its entity supports. Only listed dimensions,
+ * measures and filters reach a query; everything else is rejected.
+ */
+export function normalizeDefinition(input: any): ReportDefinition {
+  const { entity } = input || {};
+  if (!isOneOf(REPORT_ENTITIES, entity)) {
+    throw new CustomReportError(`entity must be one of: ${REPORT_ENTITIES.join(', ')}`);
+  }
+  const spec = ENTITY_SPECS[entity];
+
+  const dimensions = Array.from(new Set(([] as unknown[]).concat(input.dimensions || [])));
+  for (const dimension of dimensions) {
+    if (!isOneOf(REPORT_DIMENSIONS, dimension) || !spec.dimensions[dimension]) {
+      throw new CustomReportError(`${entity} can be grouped by: ${Object.keys(spec.dimensions).join(', ')}`);
+    }
+  }
+
+  const measures = Array.from(new Set(([] as unknown[]).concat(input.measures?.length ? input.measures : ['count'])));
+  for (const measure of measures) {
+    const supported = isOneOf(REPORT_MEASURES, measure)
+      && (measure === 'count' || (measure === 'sumPaymentAmount' && spec.sumField) || (measure === 'avgCycleTime' && spec.cycleTime));
+    if (!supported) {
+      throw new CustomReportError(`${entity} supports the measures: ${REPORT_MEASURES.filter((m) => m === 'count' || (m === 'sumPaymentAmount' ? spec.sumField : spec.cycleTime)).join(', ')}`);
+    }
+  }
+
+  const raw = input.filters || {};
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new CustomReportError('filters must be an object');
+  }
+
+  const filters: ReportFilters = {
+    projectId: typeof raw.projectId === 'string' && raw.projectId ? raw.projectId : undefined,
+    departmentIds: stringList(raw.departmentIds, 'departmentIds'),
+    assigneeIds: stringList(raw.assigneeIds, 'assigneeIds'),
+    priorities: stringList(raw.priorities, 'priorities')?.map((priority) => priority.toUpperCase()),
+    statuses: stringList(raw.statuses, 'statuses')?.map((status) => status.toUpperCase()),
+    types: stringList(raw.types, 'types')?.map((type) => type.toUpperCase()),
+    from: optionalDate(raw.from, 'from'),
+    to: optionalDate(raw.to, 'to'),
+    dateRange: typeof raw.dateRange === 'string' ? raw.dateRange : undefined,
+  };
+
+  for (const name of ['departmentIds', 'assigneeIds', 'priorities', 'types'] as ListFilter[]) {
+    if (filters[name] && !spec.filters[name]) {
+      throw new CustomReportError(`${entity} cannot be filtered by ${name}`);
+    }
+  }
+  if (filters.priorities && !filters.priorities.every((priority) => PRIORITIES.includes(priority))) {
+    throw new CustomReportError(`filters.priorities must be among: ${PRIORITIES.join(', ')}`);
+  }
+  if (filters.statuses && !filters.statuses.every((status) => spec.statuses.includes(status))) {
+    throw new CustomReportError(`filters.statuses for ${entity} must be among: ${spec.statuses.join(', ')}`);
+  }
+
+  // Leave unset filters out of the stored JSON
+  const compact = Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== undefined)) as ReportFilters;
+
+  return { entity, dimensions: dimensions as ReportDimension[], measures: measures as ReportMeasure[], filters: compact };
+}
+
+/**
+ * Projects a report may read: the given project when the caller has access to it,
+ * otherwise every project checkProjectAccess lets the caller into
+ */
+async function accessibleProjectIds(userId: string, projectId?: string) {
+  if (projectId) {
+    const access = await checkProjectAccess(userId, projectId);
+    if (!access.hasAccess) {
+      throw new CustomReportError('Access denied to this project', 403);
+    }
+    return [projectId];
+  }
+
+  const [owned, roles] = await Promise.all([
+    prisma.project.findMany({ where: { ownerId: userId }, select: { id: true } }),
+    prisma.userRole.findMany({ where: { userId }, select: { projectId: true } }),
+  ]);
+  const candidates = Array.from(new Set([...owned.map((project) => project.id), ...roles.map((role) => role.projectId)]));
+  const access = await Promise.all(candidates.map((id) => checkProjectAccess(userId, id)));
+  return candidates.filter((_, index) => access[index].hasAccess);
+}
+
+function weekStart(date: Date) {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  // Weeks start on Monday
+  return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS);
+}
+
+function round(value: number, digits = 2) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Compiles a definition to groupBy/aggregate queries over the given projects and
+ * folds the groups into one row per dimension combination
+ */
+async function runDefinition(definition: ReportDefinition, projectIds: string[], dateRange?: string) {
+  const spec = ENTITY_SPECS[definition.entity];
+  const { filters } = definition;
+
+  const to = filters.to ? new Date(filters.to) : new Date();
+  const from = filters.from ? new Date(filters.from) : new Date(to.getTime() - parseDayRange(dateRange ?? filters.dateRange) * DAY_MS);
+
+  const where = {
+    AND: [
+      spec.scope(projectIds),
+      { [spec.dateField]: { gte: from, lte: to } },
+      ...(filters.statuses ? [{ status: { in: filters.statuses } }] : []),
+      ...(['departmentIds', 'assigneeIds', 'priorities', 'types'] as ListFilter[])
+        .filter((name) => filters[name])
+        .map((name) => spec.filters[name]!(filters[name]!)),
+    ],
+  };
+
+  const sources = definition.dimensions.map((dimension) => spec.dimensions[dimension]!);
+  const by = Array.from(new Set(sources.map((source) => source.field)));
+  const wantsSum = definition.measures.includes('sumPaymentAmount');
+  const sum = wantsSum && spec.sumField ? { _sum: { [spec.sumField]: true } } : {};
+
+  // Models are picked from ENTITY_SPECS only; the delegates share no common type
+  const delegate = (prisma as any)[spec.model];
+
+  const groups: any[] = by.length
+    ? await delegate.groupBy({ by, where, _count: { _all: true }, ...sum })
+    : [await delegate.aggregate({ where, _count: { _all: true }, ...sum })];
+
+  const cycleRows: any[] = definition.measures.includes('avgCycleTime') && spec.cycleTime
+    ? await delegate.findMany({
+        where: { AND: [where, spec.cycleTime.where] },
+        select: { ...Object.fromEntries(by.map((field) => [field, true])), ...spec.cycleTime.select },
+      })
+    : [];
+
+  // Attributes of the tasks and user roles that task and role dimensions point to
+  const lookupIds = (lookup: 'task' | 'role') => {
+    const fields = sources.filter((source) => 'lookup' in source && source.lookup === lookup).map((source) => source.field);
+    return Array.from(new Set([...groups, ...cycleRows].flatMap((row) => fields.map((field) => row[field])).filter(Boolean)));
+  };
+  const taskIds = lookupIds('task');
+  const roleIds = lookupIds('role');
+  const [tasks, roles] = await Promise.all([
+    taskIds.length ? prisma.task.findMany({ where: { id: { in: taskIds } }, select: { id: true, departmentId: true, priority: true } }) : [],
+    roleIds.length ? prisma.userRole.findMany({ where: { id: { in: roleIds } }, select: { id: true, userId: true } }) : [],
+  ]);
+  const taskById = new Map<string, Record<string, any>>(tasks.map((task) => [task.id, task]));
+  const roleById = new Map<string, Record<string, any>>(roles.map((role) => [role.id, role]));
+
+  const dimensionValues = (row: any) =>
+    sources.map((source) => {
+      const raw = row[source.field];
+      if (raw === null || raw === undefined) return null;
+      if ('lookup' in source) {
+        return (source.lookup === 'task' ? taskById : roleById).get(raw)?.[source.attribute] ?? null;
+      }
+      if (source.week) return weekStart(new Date(raw)).toISOString().slice(0, 10);
+      return String(raw);
+    });
+
+  const rows = new Map<string, { values: (string | null)[]; count: number; sum: number; cycleDays: number; cycleCount: number }>();
+  const rowFor = (values: (string | null)[]) => {
+    const key = JSON.stringify(values);
+    if (!rows.has(key)) rows.set(key, { values, count: 0, sum: 0, cycleDays: 0, cycleCount: 0 });
+    return rows.get(key)!;
+  };
+
+  for (const group of groups) {
+    const row = rowFor(dimensionValues(group));
+    row.count += group._count._all;
+    if (spec.sumField) row.sum += group._sum?.[spec.sumField] || 0;
+  }
+  for (const cycleRow of cycleRows) {
+    const days = spec.cycleTime!.days(cycleRow);
+    if (days === null) continue;
+    const row = rowFor(dimensionValues(cycleRow));
+    row.cycleDays += days;
+    row.cycleCount++;
+  }
+
+  const labels = await dimensionLabels(definition.dimensions, [...rows.values()].map((row) => row.values));
+
+  const measureValues = (row: { count: number; sum: number; cycleDays: number; cycleCount: number }) =>
+    Object.fromEntries(definition.measures.map((measure) => [
+      measure,
+      measure === 'count'
+        ? row.count
+        : measure === 'sumPaymentAmount'
+          ? round(row.sum, 6)
+          : row.cycleCount ? round(row.cycleDays / row.cycleCount, 1) : null,
+    ]));
+
+  const data = [...rows.values()]
+    .filter((row) => row.count > 0)
+    .sort((a, b) => JSON.stringify(a.values).localeCompare(JSON.stringify(b.values)))
+    .map((row) => ({
+      ...Object.fromEntries(definition.dimensions.map((dimension, index) => {
+        const value = row.values[index];
+        return [dimension, { value, label: value === null ? 'None' : labels[dimension]?.get(value) ?? value }];
+      })),
+      ...measureValues(row),
+    }));
+
+  const totals = [...rows.values()].reduce(
+    (total, row) => ({
+      count: total.count + row.count,
+      sum: total.sum + row.sum,
+      cycleDays: total.cycleDays + row.cycleDays,
+      cycleCount: total.cycleCount + row.cycleCount,
+    }),
+    { count: 0, sum: 0, cycleDays: 0, cycleCount: 0 }
+  );
+
+  return {
+    data: { rows: data, totals: measureValues(totals) },
+    meta: {
+      entity: definition.entity,
+      dimensions: definition.dimensions,
+      measures: definition.measures,
+      units: { avgCycleTime: 'days' },
+      projectIds,
+      from,
+      to,
+      rowCount: data.length,
+      generatedAt: new Date(),
+    },
+  };
+}
+
+async function dimensionLabels(dimensions: ReportDimension[], values: (string | null)[][]) {
+  const valuesOf = (dimension: ReportDimension) => {
+    const index = dimensions.indexOf(dimension);
+    return index < 0 ? [] : Array.from(new Set(values.map((row) => row[index]).filter((value): value is string => value !== null)));
+  };
+
+  const labels: Partial<Record<ReportDimension, Map<string, string>>> = {};
+
+  const departmentIds = valuesOf('department');
+  if (departmentIds.length) {
+    const departments = await prisma.department.findMany({ where: { id: { in: departmentIds } }, select: { id: true, name: true } });
+    labels.department = new Map(departments.map((department) => [department.id, department.name]));
+  }
+
+  const userIds = valuesOf('assignee');
+  if (userIds.length) {
+    const users = await prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, email: true, firstName: true, lastName: true },
+    });
+    labels.assignee = new Map(users.map((user) => [
+      user.id,
+      [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email,
+    ]));
+  }
+
+  return labels;
+}
+
+function definitionOf(report: CustomReport): ReportDefinition {
+  return {
+    entity: report.entity as ReportEntity,
+    dimensions: report.dimensions as ReportDimension[],
+    measures: report.measures as ReportMeasure[],
+    filters: (report.filters || {}) as ReportFilters,
+  };
+}
+
+/**
+ * Personal reports are only visible to whoever saved them; project reports to
+ * everyone with access to the project
+ */
+async function loadReport(reportId: string, userId: string) {
+  const report = await prisma.customReport.findUnique({ where: { id: reportId } });
+  if (!report) {
+    throw new CustomReportError('Report not found', 404);
+  }
+
+  if (report.projectId) {
+    const access = await checkProjectAccess(userId, report.projectId);
+    if (!access.hasAccess) throw new CustomReportError('Report not found', 404);
+    return { report, access };
+  }
+
+  if (report.ownerId !== userId) {
+    throw new CustomReportError('Report not found', 404);
+  }
+  return { report, access: null };
+}
+
+export async function getCustomReport(reportId: string, userId: string) {
+  return (await loadReport(reportId, userId)).report;
+}
+
+export async function listCustomReports(userId: string, projectId?: string) {
+  const projectIds = await accessibleProjectIds(userId, projectId);
+
+  return prisma.customReport.findMany({
+    where: projectId
+      ? { projectId }
+      : { OR: [{ ownerId: userId, projectId: null }, { projectId: { in: projectIds } }] },
+    include: { project: { select: { id: true, name: true } } },
+    orderBy: { updatedAt: 'desc' },
+  });
+}
+
+/**
+ * Creates or updates a saved report. Project reports are created by the project's
+ * owner or managers, and edited by their author or the project owner.
+ */
+export async function saveCustomReport(
+  userId: string,
+  input: { name?: string; description?: string; projectId?: string | null } & Record<string, any>,
+  reportId?: string
+) {
+  const existing = reportId ? (await loadReport(reportId, userId)).report : null;
+
+  const name = typeof input.name === 'string' ? input.name.trim() : existing?.name;
+  if (!name) {
+    throw new CustomReportError('name is required');
+  }
+
+  const definition = normalizeDefinition({
+    entity: input.entity ?? existing?.entity,
+    dimensions: input.dimensions ?? existing?.dimensions,
+    measures: input.measures ?? existing?.measures,
+    filters: input.filters ?? existing?.filters,
+  });
+
+  const projectId = existing ? existing.projectId : input.projectId || null;
+
+  if (projectId) {
+    const access = await checkProjectAccess(userId, projectId);
+    if (!access.hasAccess) {
+      throw new CustomReportError('Access denied to this project', 403);
+    }
+    const mayEdit = existing
+      ? existing.ownerId === userId || access.isOwner
+      : access.role === 'PROJECT_OWNER' || access.role === 'PROJECT_MANAGER';
+    if (!mayEdit) {
+      throw new CustomReportError('Only the project owner or managers can save project reports', 403);
+    }
+    // A project report always reads its own project
+    delete definition.filters.projectId;
+  } else if (definition.filters.projectId) {
+    await accessibleProjectIds(userId, definition.filters.projectId);
+  }
+
+  const data = {
+    name,
+    description: typeof input.description === 'string' ? input.description : existing?.description ?? null,
+    entity: definition.entity,
+    dimensions: definition.dimensions,
+    measures: definition.measures,
+    filters: definition.filters as Prisma.InputJsonValue,
+  };
+
+  return existing
+    ? prisma.customReport.update({ where: { id: existing.id }, data })
+    : prisma.customReport.create({ data: { ...data, ownerId: userId, projectId } });
+}
+
+export async function deleteCustomReport(reportId: string, userId: string) {
+  const { report, access } = await loadReport(reportId, userId);
+  if (report.ownerId !== userId && !access?.isOwner) {
+    throw new CustomReportError('Only the author or the project owner can delete this report', 403);
+  }
+  await prisma.customReport.delete({ where: { id: report.id } });
+}
+
+/**
+ * Runs a saved report. dateRange overrides the window saved with it.
+ */
+export async function runCustomReport(reportId: string, userId: string, options: { dateRange?: string } = {}) {
+  const { report } = await loadReport(reportId, userId);
+  const definition = definitionOf(report);
+  const projectIds = await accessibleProjectIds(userId, report.projectId || definition.filters.projectId);
+
+  return {
+    reportId: report.id,
+    name: report.name,
+    ...(await runDefinition(definition, projectIds, options.dateRange)),
+  };
+}
+
+/**
+ * Runs an unsaved definition, for building a report before saving it
+ */
+export async function previewCustomReport(userId: string, input: any, options: { dateRange?: string } = {}) {
+  const definition = normalizeDefinition(input);
+  const projectIds = await accessibleProjectIds(userId, definition.filters.projectId);
+  return runDefinition(definition, projectIds, options.dateRange);
+}
+
+/**
+ * Runs a saved report over a fixed set of projects instead of the caller's current
+ * access, for shared dashboards that read with the sharer's scope at share time
+ */
+export async function runCustomReportInScope(report: CustomReport, projectIds: string[], options: { dateRange?: string } = {}) {
+  const definition = definitionOf(report);
+  const own = report.projectId || definition.filters.projectId;
+
+  return {
+    reportId: report.id,
+    name: report.name,
+    ...(await runDefinition(definition, own ? projectIds.filter((id) => id === own) : projectIds, options.dateRange)),
+  };
+}
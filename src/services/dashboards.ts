@@ -0,0 +1,521 @@
+import crypto from 'crypto';
+import type { Dashboard, DashboardShare, Prisma } from '@prisma/client';
+import { prisma } from '../utils/database.js';
+import { checkProjectAccess } from '../utils/accessControl.js';
+import { getKanbanMetrics, getProjectPerformance, getTeamPerformance, getFinancialOverview, parseDayRange } from './analyticsMetrics.js';
+import { forecastProjectDelivery, isPredictionType } from './deliveryForecast.js';
+import { getBudgetReport } from './departmentBudget.js';
+import { getCustomReport, runCustomReportInScope } from './customReports.js';
+import { notifyUser } from './websocket.js';
+
+// Lifetime of a share link when the request sets none, and the longest one allowed
+const DASHBOARD_SHARE_TTL_HOURS = parseInt(process.env.DASHBOARD_SHARE_TTL_HOURS || '168', 10);
+const DASHBOARD_SHARE_MAX_TTL_HOURS = parseInt(process.env.DASHBOARD_SHARE_MAX_TTL_HOURS || '2160', 10);
+
+const MAX_WIDGETS = 50;
+
+export const WIDGET_TYPES = ['kanban', 'project', 'team', 'financial', 'budget', 'forecast', 'customReport'] as const;
+export type WidgetType = (typeof WIDGET_TYPES)[number];
+
+// Widgets showing amounts; recipients need VIEW_FINANCIALS to see them
+const FINANCIAL_WIDGET_TYPES: WidgetType[] = ['financial', 'budget'];
+const FINANCIAL_REPORT_ENTITIES = ['payments', 'transactions'];
+
+/**
+ * VIEW:            the dashboard and its non-financial widgets
+ * VIEW_FINANCIALS: financial and budget widgets, and custom reports over payments or transactions
+ */
+export const SHARE_PERMISSIONS = ['VIEW', 'VIEW_FINANCIALS'] as const;
+export type SharePermission = (typeof SHARE_PERMISSIONS)[number];
+
+// Widget options passed on to the metrics behind the widget; anything else is dropped
+const WIDGET_OPTION_KEYS = [
+  'dateRange',
+  'timeRange',
+  'granularity',
+  'departmentId',
+  'userId',
+  'currency',
+  'predictionType',
+  'horizon',
+  'interval',
+  'reportId',
+] as const;
+
+export interface DashboardWidget {
+  id: string;
+  type: WidgetType;
+  title: string;
+  projectId: string | null;
+  options: Partial<Record<(typeof WIDGET_OPTION_KEYS)[number], string>>;
+}
+
+export interface DashboardLayoutItem {
+  widgetId: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * Projects and roles of the sharer when a link was created. Shared dashboards read
+ * these projects only, whatever the sharer's access is later.
+ */
+interface ShareScope {
+  frozenAt: string;
+  projects: { projectId: string; role: string | null }[];
+}
+
+/**
+ * Thrown for invalid dashboards and share requests, and for dashboards the caller may not touch
+ */
+export class DashboardError extends Error {
+  constructor(message: string, public readonly statusCode = 400) {
+    super(message);
+    this.name = 'DashboardError';
+  }
+}
+
+function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return values.includes(value as T);
+}
+
+function hashToken(token: string) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function shareLink(token: string) {
+  return `/api/analytics/shared/dashboards/${token}`;
+}
+
+async function normalizeWidgets(input: unknown, userId: string): Promise<DashboardWidget[]> {
+  if (!Array.isArray(input)) {
+    throw new DashboardError('widgets must be a list');
+  }
+  if (input.length > MAX_WIDGETS) {
+    throw new DashboardError(`A dashboard holds at most ${MAX_WIDGETS} widgets`);
+  }
+
+  const widgets: DashboardWidget[] = [];
+  for (const raw of input) {
+    if (!raw || typeof raw !== 'object') {
+      throw new DashboardError('Each widget must be an object');
+    }
+    if (!isOneOf(WIDGET_TYPES, raw.type)) {
+      throw new DashboardError(`Widget type must be one of: ${WIDGET_TYPES.join(', ')}`);
+    }
+
+    const options = Object.fromEntries(
+      WIDGET_OPTION_KEYS.filter((key) => raw.options?.[key] !== undefined && raw.options?.[key] !== null).map((key) => [key, String(raw.options[key])])
+    );
+    const widget: DashboardWidget = {
+      id: typeof raw.id === 'string' && raw.id ? raw.id : crypto.randomUUID(),
+      type: raw.type,
+      title: typeof raw.title === 'string' ? raw.title : raw.type,
+      projectId: typeof raw.projectId === 'string' && raw.projectId ? raw.projectId : null,
+      options,
+    };
+
+    if (widget.type === 'customReport') {
+      if (!options.reportId) throw new DashboardError('customReport widgets need options.reportId');
+      // Throws 404 for reports the owner cannot see
+      await getCustomReport(options.reportId, userId).catch(() => {
+        throw new DashboardError(`Report ${options.reportId} not found`, 404);
+      });
+    } else {
+      if (!widget.projectId) throw new DashboardError(`${widget.type} widgets need a projectId`);
+      const access = await checkProjectAccess(userId, widget.projectId);
+      if (!access.hasAccess) throw new DashboardError(`Access denied to project ${widget.projectId}`, 403);
+    }
+    if (widget.type === 'forecast' && options.predictionType && !isPredictionType(options.predictionType)) {
+      throw new DashboardError(`Invalid predictionType on widget ${widget.id}`);
+    }
+
+    widgets.push(widget);
+  }
+
+  if (new Set(widgets.map((widget) => widget.id)).size !== widgets.length) {
+    throw new DashboardError('Widget ids must be unique');
+  }
+  return widgets;
+}
+
+function normalizeLayout(input: unknown, widgets: DashboardWidget[]): DashboardLayoutItem[] {
+  if (!Array.isArray(input)) {
+    throw new DashboardError('layout must be a list');
+  }
+  const widgetIds = new Set(widgets.map((widget) => widget.id));
+
+  return input.map((item: any) => {
+    if (!item || !widgetIds.has(item.widgetId)) {
+      throw new DashboardError('Every layout item needs the widgetId of a widget on the dashboard');
+    }
+    const [x, y, w, h] = [item.x, item.y, item.w, item.h].map((value) => Number(value));
+    if (![x, y, w, h].every((value) => Number.isInteger(value) && value >= 0) || w === 0 || h === 0) {
+      throw new DashboardError('Layout positions and sizes must be whole numbers, sizes above zero');
+    }
+    return { widgetId: item.widgetId, x, y, w, h };
+  });
+}
+
+/**
+ * Owners read and edit their dashboards; a project dashboard is also readable by
+ * everyone with access to the project
+ */
+async function loadDashboard(dashboardId: string, userId: string, options: { write?: boolean } = {}) {
+  const dashboard = await prisma.dashboard.findUnique({ where: { id: dashboardId } });
+  if (!dashboard) {
+    throw new DashboardError('Dashboard not found', 404);
+  }
+  if (dashboard.ownerId === userId) return dashboard;
+
+  if (!options.write && dashboard.projectId) {
+    const access = await checkProjectAccess(userId, dashboard.projectId);
+    if (access.hasAccess) return dashboard;
+  }
+  throw new DashboardError('Dashboard not found', 404);
+}
+
+export async function getDashboard(dashboardId: string, userId: string) {
+  return loadDashboard(dashboardId, userId);
+}
+
+export async function listDashboards(userId: string, projectId?: string) {
+  if (projectId) {
+    const access = await checkProjectAccess(userId, projectId);
+    if (!access.hasAccess) throw new DashboardError('Access denied to this project', 403);
+    return prisma.dashboard.findMany({ where: { projectId }, orderBy: { updatedAt: 'desc' } });
+  }
+  return prisma.dashboard.findMany({ where: { ownerId: userId }, orderBy: { updatedAt: 'desc' } });
+}
+
+/**
+ * Creates or updates a dashboard. Widgets are checked against the owner's access when saved.
+ */
+export async function saveDashboard(userId: string, input: Record<string, any>, dashboardId?: string) {
+  const existing = dashboardId ? await loadDashboard(dashboardId, userId, { write: true }) : null;
+
+  const name = typeof input.name === 'string' ? input.name.trim() : existing?.name;
+  if (!name) {
+    throw new DashboardError('name is required');
+  }
+
+  const projectId = existing ? existing.projectId : input.projectId || null;
+  if (!existing && projectId) {
+    const access = await checkProjectAccess(userId, projectId);
+    if (!access.hasAccess) throw new DashboardError('Access denied to this project', 403);
+  }
+
+  const widgets = input.widgets !== undefined
+    ? await normalizeWidgets(input.widgets, userId)
+    : ((existing?.widgets || []) as unknown as DashboardWidget[]);
+  const layout = input.layout !== undefined
+    ? normalizeLayout(input.layout, widgets)
+    // Widgets removed without a new layout drop out of the old one
+    : ((existing?.layout || []) as unknown as DashboardLayoutItem[]).filter((item) => widgets.some((widget) => widget.id === item.widgetId));
+
+  if (input.settings !== undefined && (typeof input.settings !== 'object' || Array.isArray(input.settings) || input.settings === null)) {
+    throw new DashboardError('settings must be an object');
+  }
+
+  const data = {
+    name,
+    description: typeof input.description === 'string' ? input.description : existing?.description ?? null,
+    widgets: widgets as unknown as Prisma.InputJsonValue,
+    layout: layout as unknown as Prisma.InputJsonValue,
+    settings: (input.settings ?? existing?.settings ?? {}) as Prisma.InputJsonValue,
+  };
+
+  return existing
+    ? prisma.dashboard.update({ where: { id: existing.id }, data })
+    : prisma.dashboard.create({ data: { ...data, ownerId: userId, projectId } });
+}
+
+export async function deleteDashboard(dashboardId: string, userId: string) {
+  const dashboard = await loadDashboard(dashboardId, userId, { write: true });
+  await prisma.dashboard.delete({ where: { id: dashboard.id } });
+}
+
+/**
+ * Projects the dashboard's widgets read, with the sharer's role in each, as of now
+ */
+async function freezeScope(dashboard: Dashboard, userId: string): Promise<ShareScope> {
+  const widgets = dashboard.widgets as unknown as DashboardWidget[];
+  const projectIds = new Set<string>(widgets.map((widget) => widget.projectId).filter((id): id is string => !!id));
+  if (dashboard.projectId) projectIds.add(dashboard.projectId);
+
+  for (const widget of widgets.filter((widget) => widget.type === 'customReport')) {
+    const report = await prisma.customReport.findUnique({ where: { id: widget.options.reportId! } });
+    const reportProjectId = report?.projectId || (report?.filters as Record<string, any> | null)?.projectId;
+    if (reportProjectId) {
+      projectIds.add(reportProjectId);
+      continue;
+    }
+    // A personal report without a project reads every project the sharer can see
+    const [owned, roles] = await Promise.all([
+      prisma.project.findMany({ where: { ownerId: userId }, select: { id: true } }),
+      prisma.userRole.findMany({ where: { userId }, select: { projectId: true } }),
+    ]);
+    [...owned.map((project) => project.id), ...roles.map((role) => role.projectId)].forEach((id) => projectIds.add(id));
+  }
+
+  const projects: ShareScope['projects'] = [];
+  for (const projectId of projectIds) {
+    const access = await checkProjectAccess(userId, projectId);
+    if (access.hasAccess) projects.push({ projectId, role: access.role });
+  }
+  return { frozenAt: new Date().toISOString(), projects };
+}
+
+function normalizePermissions(value: unknown, fallback: SharePermission[]): SharePermission[] {
+  if (value === undefined || value === null) return fallback;
+  const list = ([] as unknown[]).concat(value).map((permission) => String(permission).toUpperCase());
+  if (!list.every((permission) => isOneOf(SHARE_PERMISSIONS, permission))) {
+    throw new DashboardError(`permissions must be among: ${SHARE_PERMISSIONS.join(', ')}`);
+  }
+  // Every link can at least view
+  return Array.from(new Set(['VIEW', ...list])) as SharePermission[];
+}
+
+/**
+ * Creates share links for a dashboard: one open link, or one link per recipient with
+ * that recipient's permissions and widgets. Tokens are returned here only.
+ */
+export async function shareDashboard(
+  userId: string,
+  input: {
+    dashboardId?: string;
+    shareType?: string;
+    recipients?: unknown;
+    permissions?: unknown;
+    expiresInHours?: unknown;
+  }
+) {
+  if (!input.dashboardId) {
+    throw new DashboardError('dashboardId is required');
+  }
+  const dashboard = await loadDashboard(input.dashboardId, userId, { write: true });
+
+  const shareType = input.shareType || 'link';
+  if (shareType !== 'link' && shareType !== 'email') {
+    throw new DashboardError('shareType must be link or email');
+  }
+
+  const ttlHours = input.expiresInHours === undefined ? DASHBOARD_SHARE_TTL_HOURS : Number(input.expiresInHours);
+  if (!(ttlHours > 0) || ttlHours > DASHBOARD_SHARE_MAX_TTL_HOURS) {
+    throw new DashboardError(`expiresInHours must be between 0 and ${DASHBOARD_SHARE_MAX_TTL_HOURS}`);
+  }
+  const expiresAt = new Date(Date.now() + ttlHours * 60 * 60 * 1000);
+
+  const defaultPermissions = normalizePermissions(input.permissions, ['VIEW']);
+  const widgetIds = new Set((dashboard.widgets as unknown as DashboardWidget[]).map((widget) => widget.id));
+
+  const recipients: { email: string | null; permissions: SharePermission[]; widgetIds: string[] }[] = [];
+  if (shareType === 'link') {
+    recipients.push({ email: null, permissions: defaultPermissions, widgetIds: [] });
+  } else {
+    const list = Array.isArray(input.recipients) ? input.recipients : [];
+    if (list.length === 0) {
+      throw new DashboardError('recipients are required for email shares');
+    }
+    for (const raw of list) {
+      const recipient = typeof raw === 'string' ? { email: raw } : raw || {};
+      if (typeof recipient.email !== 'string' || !recipient.email.includes('@')) {
+        throw new DashboardError('Each recipient needs an email');
+      }
+      const recipientWidgets = ([] as unknown[]).concat(recipient.widgetIds || []).map(String);
+      if (!recipientWidgets.every((id) => widgetIds.has(id))) {
+        throw new DashboardError(`widgetIds for ${recipient.email} must be widgets of the dashboard`);
+      }
+      recipients.push({
+        email: recipient.email.trim().toLowerCase(),
+        permissions: normalizePermissions(recipient.permissions, defaultPermissions),
+        widgetIds: recipientWidgets,
+      });
+    }
+  }
+
+  const scope = await freezeScope(dashboard, userId);
+
+  const shares = [];
+  for (const recipient of recipients) {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const share = await prisma.dashboardShare.create({
+      data: {
+        dashboardId: dashboard.id,
+        tokenHash: hashToken(token),
+        createdById: userId,
+        recipientEmail: recipient.email,
+        permissions: recipient.permissions,
+        widgetIds: recipient.widgetIds,
+        scope: scope as unknown as Prisma.InputJsonValue,
+        expiresAt,
+      },
+    });
+    shares.push({ ...publicShare(share), shareLink: shareLink(token) });
+  }
+
+  // No mail transport yet; recipients with an account are told over the websocket
+  const emails = recipients.map((recipient) => recipient.email).filter((email): email is string => !!email);
+  if (emails.length) {
+    const users = await prisma.user.findMany({ where: { email: { in: emails, mode: 'insensitive' } }, select: { id: true, email: true } });
+    for (const user of users) {
+      const share = shares.find((candidate) => candidate.recipientEmail === user.email.toLowerCase());
+      if (share) {
+        notifyUser(user.id, 'DASHBOARD_SHARED', { dashboardId: dashboard.id, name: dashboard.name, shareLink: share.shareLink, expiresAt });
+      }
+    }
+  }
+
+  return { dashboardId: dashboard.id, shareType, shares, expiration: expiresAt };
+}
+
+function publicShare(share: DashboardShare) {
+  const { tokenHash: _hash, ...rest } = share;
+  return rest;
+}
+
+/**
+ * Share links of a dashboard with their usage, for its owner
+ */
+export async function listDashboardShares(dashboardId: string, userId: string) {
+  const dashboard = await loadDashboard(dashboardId, userId, { write: true });
+
+  const shares = await prisma.dashboardShare.findMany({
+    where: { dashboardId: dashboard.id },
+    include: { accesses: { orderBy: { accessedAt: 'desc' }, take: 20 } },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  const now = new Date();
+  return shares.map((share) => ({
+    ...publicShare(share),
+    status: share.revokedAt ? 'REVOKED' : share.expiresAt < now ? 'EXPIRED' : 'ACTIVE',
+  }));
+}
+
+export async function revokeDashboardShare(shareId: string, userId: string) {
+  const share = await prisma.dashboardShare.findUnique({ where: { id: shareId }, include: { dashboard: { select: { ownerId: true } } } });
+  if (!share || share.dashboard.ownerId !== userId) {
+    throw new DashboardError('Share not found', 404);
+  }
+  if (share.revokedAt) {
+    throw new DashboardError('Share is already revoked', 409);
+  }
+
+  const revoked = await prisma.dashboardShare.update({
+    where: { id: share.id },
+    data: { revokedAt: new Date(), revokedBy: userId },
+  });
+  return publicShare(revoked);
+}
+
+function isFinancialWidget(widget: DashboardWidget, reportEntity?: string) {
+  return FINANCIAL_WIDGET_TYPES.includes(widget.type) || (!!reportEntity && FINANCIAL_REPORT_ENTITIES.includes(reportEntity));
+}
+
+/**
+ * Data of one widget, read within the frozen scope only
+ */
+async function widgetData(widget: DashboardWidget, scope: ShareScope) {
+  const { options } = widget;
+
+  if (widget.type === 'customReport') {
+    const report = await prisma.customReport.findUnique({ where: { id: options.reportId! } });
+    if (!report) return { error: 'Report no longer exists' };
+    return { data: await runCustomReportInScope(report, scope.projects.map((project) => project.projectId), { dateRange: options.dateRange }) };
+  }
+
+  const project = scope.projects.find((candidate) => candidate.projectId === widget.projectId);
+  if (!project) return { error: 'Project is outside the shared scope' };
+  const projectId = project.projectId;
+
+  switch (widget.type) {
+    case 'kanban':
+      return { data: await getKanbanMetrics(projectId, options) };
+    case 'project':
+      return { data: await getProjectPerformance(projectId, options) };
+    case 'team':
+      return { data: await getTeamPerformance(projectId, options) };
+    case 'financial':
+      return { data: await getFinancialOverview(projectId, options) };
+    case 'budget':
+      // Same rule as the budget report route
+      if (project.role === 'EMPLOYEE') return { error: 'Budget reports are not available in this share' };
+      return {
+        data: await getBudgetReport(projectId, { interval: options.interval === 'month' ? 'month' : 'week' }),
+      };
+    case 'forecast':
+      return {
+        data: await forecastProjectDelivery(projectId, {
+          predictionType: isPredictionType(options.predictionType) ? options.predictionType : 'completion',
+          horizonDays: parseDayRange(options.horizon, 90),
+        }),
+      };
+  }
+}
+
+/**
+ * Public read of a shared dashboard. Records the access, then renders the widgets the
+ * link may see with the sharer's scope as it was when the link was created.
+ */
+export async function renderSharedDashboard(token: string, request: { ip?: string; userAgent?: string } = {}) {
+  const share = await prisma.dashboardShare.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { dashboard: true },
+  });
+
+  if (!share || share.revokedAt || share.expiresAt < new Date()) {
+    throw new DashboardError('Share link is invalid, revoked or expired', 404);
+  }
+
+  await prisma.$transaction([
+    prisma.dashboardShare.update({
+      where: { id: share.id },
+      data: { accessCount: { increment: 1 }, lastAccessedAt: new Date() },
+    }),
+    prisma.dashboardShareAccess.create({
+      data: { shareId: share.id, ip: request.ip, userAgent: request.userAgent?.slice(0, 500) },
+    }),
+  ]);
+
+  const scope = share.scope as unknown as ShareScope;
+  const permissions = share.permissions as SharePermission[];
+  const dashboard = share.dashboard;
+
+  const reportEntities = new Map(
+    (await prisma.customReport.findMany({
+      where: { id: { in: (dashboard.widgets as unknown as DashboardWidget[]).map((widget) => widget.options.reportId).filter((id): id is string => !!id) } },
+      select: { id: true, entity: true },
+    })).map((report) => [report.id, report.entity])
+  );
+
+  const visible = (dashboard.widgets as unknown as DashboardWidget[]).filter(
+    (widget) =>
+      (share.widgetIds.length === 0 || share.widgetIds.includes(widget.id)) &&
+      (permissions.includes('VIEW_FINANCIALS') || !isFinancialWidget(widget, reportEntities.get(widget.options.reportId || '')))
+  );
+
+  const widgets = [];
+  for (const widget of visible) {
+    try {
+      widgets.push({ ...widget, ...(await widgetData(widget, scope)) });
+    } catch (error: any) {
+      console.error('shared dashboard widget error', { widgetId: widget.id, error: error.message });
+      widgets.push({ ...widget, error: 'Failed to load widget' });
+    }
+  }
+
+  return {
+    dashboard: {
+      id: dashboard.id,
+      name: dashboard.name,
+      description: dashboard.description,
+      settings: dashboard.settings,
+      layout: (dashboard.layout as unknown as DashboardLayoutItem[]).filter((item) => visible.some((widget) => widget.id === item.widgetId)),
+    },
+    widgets,
+    share: { permissions, expiresAt: share.expiresAt, scopeFrozenAt: scope.frozenAt },
+  };
+}
@@ -0,0 +1,311 @@
+import { prisma, dbUtils } from '../utils/database.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days of completion history each simulated day is sampled from
+const FORECAST_LOOKBACK_DAYS = parseInt(process.env.FORECAST_LOOKBACK_DAYS || '90', 10);
+
+// Forecasts run inside the request (shared dashboards included), so runs and days stay bounded
+const MAX_SIMULATIONS = 1000;
+
+// Monte Carlo runs per forecast
+const FORECAST_SIMULATIONS = Math.min(parseInt(process.env.FORECAST_SIMULATIONS || '500', 10), MAX_SIMULATIONS);
+
+// Runs never simulate further out than this, whatever the horizon or end date
+const MAX_SIMULATION_DAYS = 365;
+
+// How long a forecast is served from cache; the throughput window only moves once a day
+const FORECAST_CACHE_TTL_MS = parseInt(process.env.FORECAST_CACHE_TTL_MINUTES || '15', 10) * 60 * 1000;
+
+const DONE_STATUSES = ['COMPLETED', 'APPROVED'];
+
+/**
+ * completion: the remaining task count, sampled from tasks finished per day
+ * effort:     remaining estimatedHours, sampled from estimated hours finished per day
+ * deadlines:  per open task with a dueDate, the chance it is done in time when the
+ *             backlog is worked in due date order
+ */
+export const PREDICTION_TYPES = ['completion', 'effort', 'deadlines'] as const;
+export type PredictionType = (typeof PREDICTION_TYPES)[number];
+
+export function isPredictionType(value: unknown): value is PredictionType {
+  return PREDICTION_TYPES.includes(value as PredictionType);
+}
+
+type ForecastTask = {
+  id: string;
+  title: string;
+  status: string;
+  departmentId: string;
+  estimatedHours: number | null;
+  dueDate: Date | null;
+  updatedAt: Date;
+  activities: { newValue: string | null; createdAt: Date }[];
+};
+
+/**
+ * When a task was finished: its first move to COMPLETED/APPROVED, or updatedAt for
+ * tasks finished through routes that do not log status changes
+ */
+function completedAt(task: ForecastTask) {
+  if (!DONE_STATUSES.includes(task.status)) return null;
+  const transition = task.activities.find((activity) => activity.newValue && DONE_STATUSES.includes(activity.newValue));
+  return transition ? transition.createdAt : task.updatedAt;
+}
+
+function median(values: number[]) {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Work finished per day over the lookback window, zeros included
+ */
+function dailySamples(tasks: ForecastTask[], from: Date, days: number, weight: (task: ForecastTask) => number) {
+  const samples = new Array(days).fill(0);
+  for (const task of tasks) {
+    const doneAt = completedAt(task);
+    if (!doneAt || doneAt < from) continue;
+    const day = Math.floor((doneAt.getTime() - from.getTime()) / DAY_MS);
+    if (day >= 0 && day < days) samples[day] += weight(task);
+  }
+  return samples;
+}
+
+/**
+ * Days each run needed to burn the backlog down; Infinity when it did not within maxDays
+ */
+function simulate(samples: number[], backlog: number, maxDays: number, runs: number) {
+  const results: number[] = [];
+  for (let run = 0; run < runs; run++) {
+    let remaining = backlog;
+    let day = 0;
+    while (remaining > 0 && day < maxDays) {
+      remaining -= samples[Math.floor(Math.random() * samples.length)];
+      day++;
+    }
+    results.push(remaining > 0 ? Infinity : day);
+  }
+  return results.sort((a, b) => a - b);
+}
+
+function percentileDays(sortedRuns: number[], percentile: number) {
+  const index = Math.min(Math.ceil((percentile / 100) * sortedRuns.length) - 1, sortedRuns.length - 1);
+  return sortedRuns[Math.max(index, 0)];
+}
+
+function probabilityWithin(sortedRuns: number[], days: number) {
+  if (sortedRuns.length === 0) return null;
+  const within = sortedRuns.filter((runDays) => runDays <= days).length;
+  return Math.round((within / sortedRuns.length) * 1000) / 1000;
+}
+
+interface BacklogForecastInput {
+  samples: number[];
+  backlog: number;
+  now: Date;
+  horizonDays: number;
+  endDate: Date;
+  runs: number;
+}
+
+/**
+ * P50/P85/P95 completion dates of a backlog. A percentile that falls past the horizon
+ * is reported as null with beyondHorizon set, since the history says little that far out.
+ */
+function forecastBacklog({ samples, backlog, now, horizonDays, endDate, runs }: BacklogForecastInput) {
+  const daysToEnd = Math.ceil((endDate.getTime() - now.getTime()) / DAY_MS);
+  const throughputPerDay = samples.reduce((sum, value) => sum + value, 0) / Math.max(samples.length, 1);
+
+  if (backlog <= 0) {
+    return { status: 'DONE', backlog, throughputPerDay, percentiles: null, probabilityByEndDate: 1, probabilityWithinHorizon: 1 };
+  }
+  if (throughputPerDay === 0) {
+    return { status: 'NO_THROUGHPUT_HISTORY', backlog, throughputPerDay, percentiles: null, probabilityByEndDate: null, probabilityWithinHorizon: null };
+  }
+
+  const simulatedDays = Math.min(Math.max(horizonDays, daysToEnd), MAX_SIMULATION_DAYS);
+  const results = simulate(samples, backlog, simulatedDays, runs);
+
+  const percentile = (p: number) => {
+    const days = percentileDays(results, p);
+    const beyondHorizon = days > horizonDays;
+    return {
+      days: beyondHorizon ? null : days,
+      date: beyondHorizon ? null : new Date(now.getTime() + days * DAY_MS),
+      beyondHorizon,
+    };
+  };
+
+  return {
+    status: 'FORECAST',
+    backlog: Math.round(backlog * 100) / 100,
+    throughputPerDay: Math.round(throughputPerDay * 1000) / 1000,
+    percentiles: { p50: percentile(50), p85: percentile(85), p95: percentile(95) },
+    probabilityByEndDate: daysToEnd < 0 ? 0 : probabilityWithin(results, daysToEnd),
+    probabilityWithinHorizon: probabilityWithin(results, horizonDays),
+  };
+}
+
+/**
+ * Per open task with a due date: share of runs in which it was finished by then,
+ * working tasks in due date order (tasks without one are left out)
+ */
+function forecastDeadlines(samples: number[], openTasks: ForecastTask[], now: Date, horizonDays: number, runs: number) {
+  const dated = openTasks
+    .filter((task) => task.dueDate)
+    .sort((a, b) => a.dueDate!.getTime() - b.dueDate!.getTime());
+  const dueDays = dated.map((task) => Math.ceil((task.dueDate!.getTime() - now.getTime()) / DAY_MS));
+  const onTime = new Array(dated.length).fill(0);
+  const throughputPerDay = samples.reduce((sum, value) => sum + value, 0) / Math.max(samples.length, 1);
+
+  if (throughputPerDay > 0) {
+    for (let run = 0; run < runs; run++) {
+      let finished = 0;
+      let capacity = 0;
+      for (let day = 1; day <= horizonDays && finished < dated.length; day++) {
+        capacity += samples[Math.floor(Math.random() * samples.length)];
+        while (capacity >= 1 && finished < dated.length) {
+          if (day <= dueDays[finished]) onTime[finished]++;
+          capacity -= 1;
+          finished++;
+        }
+      }
+    }
+  }
+
+  return dated.map((task, index) => ({
+    taskId: task.id,
+    title: task.title,
+    departmentId: task.departmentId,
+    dueDate: task.dueDate,
+    overdue: dueDays[index] < 0,
+    // Due after the horizon: not simulated
+    probabilityOnTime: dueDays[index] < 0 ? 0 : dueDays[index] > horizonDays ? null : Math.round((onTime[index] / runs) * 1000) / 1000,
+  }));
+}
+
+type ForecastOptions = { predictionType?: PredictionType; horizonDays?: number; now?: Date; runs?: number };
+
+async function buildProjectForecast(projectId: string, options: ForecastOptions) {
+  const predictionType = options.predictionType || 'completion';
+  const horizonDays = Math.min(Math.max(options.horizonDays ?? 90, 1), MAX_SIMULATION_DAYS);
+  const now = options.now || new Date();
+  const runs = Math.min(options.runs || FORECAST_SIMULATIONS, MAX_SIMULATIONS);
+
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { id: true, name: true, startDate: true, endDate: true, departments: { select: { id: true, name: true } } },
+  });
+
+  if (!project) {
+    throw new Error(`Project ${projectId} not found`);
+  }
+
+  // A project younger than the lookback window is sampled over its own age
+  const lookbackDays = Math.max(
+    Math.min(FORECAST_LOOKBACK_DAYS, Math.ceil((now.getTime() - project.startDate.getTime()) / DAY_MS)),
+    7
+  );
+  const historyStart = new Date(now.getTime() - lookbackDays * DAY_MS);
+
+  const tasks: ForecastTask[] = await prisma.task.findMany({
+    where: {
+      department: { projectId },
+      deletedAt: null,
+      OR: [{ status: { notIn: ['COMPLETED', 'APPROVED'] } }, { updatedAt: { gte: historyStart } }],
+    },
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      departmentId: true,
+      estimatedHours: true,
+      dueDate: true,
+      updatedAt: true,
+      activities: {
+        where: { type: 'STATUS_CHANGED' },
+        select: { newValue: true, createdAt: true },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+
+  // Unestimated tasks count as the median estimate in effort forecasts
+  const defaultEstimate = median(tasks.map((task) => task.estimatedHours).filter((hours): hours is number => hours !== null && hours > 0)) ?? 1;
+  const weight = predictionType === 'effort' ? (task: ForecastTask) => task.estimatedHours || defaultEstimate : () => 1;
+
+  const forecastScope = (scopeTasks: ForecastTask[]) => {
+    const samples = dailySamples(scopeTasks, historyStart, lookbackDays, weight);
+    const open = scopeTasks.filter((task) => !DONE_STATUSES.includes(task.status));
+
+    if (predictionType === 'deadlines') {
+      const deadlines = forecastDeadlines(samples, open, now, horizonDays, runs);
+      const simulated = deadlines.filter((task) => task.probabilityOnTime !== null);
+      return {
+        openTasks: open.length,
+        throughputPerDay: Math.round((samples.reduce((sum, value) => sum + value, 0) / samples.length) * 1000) / 1000,
+        expectedOnTime: Math.round(simulated.reduce((sum, task) => sum + (task.probabilityOnTime || 0), 0) * 10) / 10,
+        atRisk: deadlines.filter((task) => task.probabilityOnTime !== null && task.probabilityOnTime < 0.5).length,
+        tasks: deadlines,
+      };
+    }
+
+    return {
+      openTasks: open.length,
+      ...forecastBacklog({
+        samples,
+        backlog: open.reduce((sum, task) => sum + weight(task), 0),
+        now,
+        horizonDays,
+        endDate: project.endDate,
+        runs,
+      }),
+    };
+  };
+
+  return {
+    projectId,
+    predictionType,
+    horizon: `${horizonDays}d`,
+    unit: predictionType === 'effort' ? 'hours' : 'tasks',
+    asOf: now,
+    endDate: project.endDate,
+    history: { from: historyStart, days: lookbackDays },
+    simulations: runs,
+    predictions: [
+      { scope: 'PROJECT', projectId, name: project.name, ...forecastScope(tasks) },
+      ...project.departments.map((department) => ({
+        scope: 'DEPARTMENT',
+        departmentId: department.id,
+        name: department.name,
+        ...forecastScope(tasks.filter((task) => task.departmentId === department.id)),
+      })),
+    ],
+  };
+}
+
+/**
+ * Monte Carlo delivery forecast of a project and each of its departments. Forecasts as of
+ * now are cached per project, prediction and horizon for each day's throughput window.
+ */
+export async function forecastProjectDelivery(projectId: string, options: ForecastOptions = {}) {
+  if (options.now) {
+    return buildProjectForecast(projectId, options);
+  }
+
+  const predictionType = options.predictionType || 'completion';
+  const horizonDays = Math.min(Math.max(options.horizonDays ?? 90, 1), MAX_SIMULATION_DAYS);
+  const runs = Math.min(options.runs || FORECAST_SIMULATIONS, MAX_SIMULATIONS);
+  const windowDay = new Date().toISOString().slice(0, 10);
+  const cacheKey = `forecast_${projectId}_${predictionType}_${horizonDays}_${runs}_${windowDay}`;
+
+  const cached = dbUtils.getCached<Awaited<ReturnType<typeof buildProjectForecast>>>(cacheKey);
+  if (cached) return cached;
+
+  const forecast = await buildProjectForecast(projectId, options);
+  dbUtils.setCached(cacheKey, forecast, FORECAST_CACHE_TTL_MS);
+  return forecast;
+}
@@ -0,0 +1,314 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../utils/database.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fractions of a department's budgetAmount, used when the department sets none
+const DEFAULT_SOFT_CAP = parseFloat(process.env.DEPARTMENT_BUDGET_SOFT_CAP || '0.9');
+const DEFAULT_HARD_CAP = parseFloat(process.env.DEPARTMENT_BUDGET_HARD_CAP || '1');
+
+/**
+ * Thrown when an allocation would take a department past its hard cap
+ */
+export class BudgetCapError extends Error {
+  constructor(message: string, public readonly budget: DepartmentBudgetUsage, public readonly statusCode = 409) {
+    super(message);
+    this.name = 'BudgetCapError';
+  }
+}
+
+export interface DepartmentBudgetUsage {
+  departmentId: string;
+  budgetAmount: number | null;
+  softCapAmount: number | null;
+  hardCapAmount: number | null;
+  allocated: number;
+  released: number;
+  remaining: number | null;
+}
+
+type BudgetedDepartment = {
+  id: string;
+  budgetAmount: number | null;
+  budgetSoftCap: number | null;
+  budgetHardCap: number | null;
+};
+
+function roundAmount(amount: number) {
+  return Math.round(amount * 1e6) / 1e6;
+}
+
+function capAmounts(department: BudgetedDepartment) {
+  if (department.budgetAmount === null) {
+    return { softCapAmount: null, hardCapAmount: null };
+  }
+  return {
+    softCapAmount: roundAmount(department.budgetAmount * (department.budgetSoftCap ?? DEFAULT_SOFT_CAP)),
+    hardCapAmount: roundAmount(department.budgetAmount * (department.budgetHardCap ?? DEFAULT_HARD_CAP)),
+  };
+}
+
+// Amounts a department has committed: every live task with a payment amount that was not refunded
+const committedTaskWhere = {
+  deletedAt: null,
+  paymentAmount: { not: null },
+  paymentStatus: { not: 'REFUNDED' as const },
+};
+
+type BudgetClient = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * Locks a department's row for the rest of the transaction. Take it before checking
+ * the caps so the check and the task write it allows cannot interleave with another
+ * allocation to the same department.
+ */
+export async function lockDepartmentBudget(tx: Prisma.TransactionClient, departmentId: string) {
+  await tx.$queryRaw`SELECT "id" FROM "public"."Department" WHERE "id" = ${departmentId} FOR UPDATE`;
+}
+
+/**
+ * Allocated and released amounts of a department against its budget. excludeTaskId
+ * leaves one task out, for checking the new amount of a task being edited.
+ */
+export async function getDepartmentBudgetUsage(
+  departmentId: string,
+  excludeTaskId?: string,
+  db: BudgetClient = prisma
+): Promise<DepartmentBudgetUsage> {
+  const department = await db.department.findUnique({
+    where: { id: departmentId },
+    select: { id: true, budgetAmount: true, budgetSoftCap: true, budgetHardCap: true },
+  });
+
+  if (!department) {
+    throw new Error(`Department ${departmentId} not found`);
+  }
+
+  const [allocated, released] = await Promise.all([
+    db.task.aggregate({
+      where: { departmentId, ...committedTaskWhere, ...(excludeTaskId ? { id: { not: excludeTaskId } } : {}) },
+      _sum: { paymentAmount: true },
+    }),
+    db.task.aggregate({
+      where: { departmentId, ...committedTaskWhere, paymentStatus: 'PAID' },
+      _sum: { paymentAmount: true },
+    }),
+  ]);
+
+  const allocatedAmount = allocated._sum.paymentAmount || 0;
+
+  return {
+    departmentId,
+    budgetAmount: department.budgetAmount,
+    ...capAmounts(department),
+    allocated: roundAmount(allocatedAmount),
+    released: roundAmount(released._sum.paymentAmount || 0),
+    remaining: department.budgetAmount === null ? null : roundAmount(department.budgetAmount - allocatedAmount),
+  };
+}
+
+/**
+ * Checks a task payment amount against its department's caps before it is saved.
+ * Past the hard cap it throws BudgetCapError; past the soft cap it returns a warning
+ * for the response. Departments without a budget are never capped.
+ * Call it with the transaction that holds lockDepartmentBudget and saves the task.
+ */
+export async function checkBudgetCaps(
+  departmentId: string,
+  amount: number,
+  excludeTaskId?: string,
+  db: BudgetClient = prisma
+) {
+  const usage = await getDepartmentBudgetUsage(departmentId, excludeTaskId, db);
+  if (usage.budgetAmount === null || !(amount > 0)) {
+    return { usage, warning: null as string | null };
+  }
+
+  const afterAllocation = roundAmount(usage.allocated + amount);
+
+  if (usage.hardCapAmount !== null && afterAllocation > usage.hardCapAmount) {
+    throw new BudgetCapError(
+      `Allocating ${amount} would take the department to ${afterAllocation} of its ${usage.budgetAmount} budget, past the hard cap of ${usage.hardCapAmount}`,
+      usage
+    );
+  }
+
+  const warning =
+    usage.softCapAmount !== null && afterAllocation > usage.softCapAmount
+      ? `Department has allocated ${afterAllocation} of its ${usage.budgetAmount} budget, past the soft cap of ${usage.softCapAmount}`
+      : null;
+
+  return { usage: { ...usage, allocated: afterAllocation, remaining: roundAmount(usage.budgetAmount - afterAllocation) }, warning };
+}
+
+/**
+ * Department budgets may not add up to more than the project budget
+ */
+export async function validateDepartmentBudget(departmentId: string, projectId: string, budgetAmount: number | null) {
+  if (budgetAmount === null) return null;
+
+  const [project, others] = await Promise.all([
+    prisma.project.findUnique({ where: { id: projectId }, select: { budgetAmount: true } }),
+    prisma.department.aggregate({
+      where: { projectId, id: { not: departmentId } },
+      _sum: { budgetAmount: true },
+    }),
+  ]);
+
+  const total = roundAmount((others._sum.budgetAmount || 0) + budgetAmount);
+  if (project?.budgetAmount != null && total > project.budgetAmount) {
+    return `Department budgets would total ${total}, more than the project budget of ${project.budgetAmount}`;
+  }
+  return null;
+}
+
+type BurnInterval = 'week' | 'month';
+
+function bucketStart(date: Date, interval: BurnInterval) {
+  if (interval === 'month') {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  }
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  // Weeks start on Monday
+  return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS);
+}
+
+function nextBucket(date: Date, interval: BurnInterval) {
+  return interval === 'month'
+    ? new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1))
+    : new Date(date.getTime() + 7 * DAY_MS);
+}
+
+/**
+ * Budget vs. actual for every department of a project: allocated, released and
+ * remaining amounts, plus allocations and releases per week or month
+ */
+export async function getBudgetReport(
+  projectId: string,
+  options: { from?: Date; to?: Date; interval?: BurnInterval } = {}
+) {
+  const interval = options.interval || 'week';
+
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: {
+      id: true,
+      name: true,
+      budgetAmount: true,
+      startDate: true,
+      departments: {
+        select: { id: true, name: true, budgetAmount: true, budgetSoftCap: true, budgetHardCap: true },
+        orderBy: { order: 'asc' },
+      },
+    },
+  });
+
+  if (!project) {
+    throw new Error(`Project ${projectId} not found`);
+  }
+
+  const tasks = await prisma.task.findMany({
+    where: { department: { projectId }, ...committedTaskWhere },
+    select: { departmentId: true, paymentAmount: true, paymentStatus: true, createdAt: true, paidAt: true },
+  });
+
+  const to = options.to || new Date();
+  const from = options.from || project.startDate;
+  const buckets: Date[] = [];
+  for (let start = bucketStart(from, interval); start <= to; start = nextBucket(start, interval)) {
+    buckets.push(start);
+  }
+
+  const bucketIndex = (date: Date) => {
+    const start = bucketStart(date, interval).getTime();
+    return buckets.findIndex((bucket) => bucket.getTime() === start);
+  };
+
+  const departments = project.departments.map((department) => {
+    const departmentTasks = tasks.filter((task) => task.departmentId === department.id);
+    const allocated = departmentTasks.reduce((sum, task) => sum + (task.paymentAmount || 0), 0);
+    const paid = departmentTasks.filter((task) => task.paymentStatus === 'PAID');
+    const released = paid.reduce((sum, task) => sum + (task.paymentAmount || 0), 0);
+    const caps = capAmounts(department);
+
+    const allocatedPerBucket = buckets.map(() => 0);
+    const releasedPerBucket = buckets.map(() => 0);
+    // Allocations before the window still count towards the running totals
+    let allocatedBefore = 0;
+    let releasedBefore = 0;
+
+    for (const task of departmentTasks) {
+      if (task.createdAt < buckets[0]) allocatedBefore += task.paymentAmount || 0;
+      else {
+        const index = bucketIndex(task.createdAt);
+        if (index >= 0) allocatedPerBucket[index] += task.paymentAmount || 0;
+      }
+
+      if (task.paymentStatus === 'PAID' && task.paidAt) {
+        if (task.paidAt < buckets[0]) releasedBefore += task.paymentAmount || 0;
+        else {
+          const index = bucketIndex(task.paidAt);
+          if (index >= 0) releasedPerBucket[index] += task.paymentAmount || 0;
+        }
+      }
+    }
+
+    let cumulativeAllocated = allocatedBefore;
+    let cumulativeReleased = releasedBefore;
+    const burn = buckets.map((start, index) => {
+      cumulativeAllocated += allocatedPerBucket[index];
+      cumulativeReleased += releasedPerBucket[index];
+      return {
+        periodStart: start,
+        allocated: roundAmount(allocatedPerBucket[index]),
+        released: roundAmount(releasedPerBucket[index]),
+        cumulativeAllocated: roundAmount(cumulativeAllocated),
+        cumulativeReleased: roundAmount(cumulativeReleased),
+        remaining: department.budgetAmount === null ? null : roundAmount(department.budgetAmount - cumulativeReleased),
+      };
+    });
+
+    const status =
+      department.budgetAmount === null
+        ? 'NO_BUDGET'
+        : caps.hardCapAmount !== null && allocated > caps.hardCapAmount
+          ? 'OVER_HARD_CAP'
+          : caps.softCapAmount !== null && allocated > caps.softCapAmount
+            ? 'OVER_SOFT_CAP'
+            : 'WITHIN_BUDGET';
+
+    return {
+      departmentId: department.id,
+      name: department.name,
+      budgetAmount: department.budgetAmount,
+      ...caps,
+      allocated: roundAmount(allocated),
+      released: roundAmount(released),
+      unreleased: roundAmount(allocated - released),
+      remaining: department.budgetAmount === null ? null : roundAmount(department.budgetAmount - allocated),
+      utilization: department.budgetAmount ? roundAmount(allocated / department.budgetAmount) : null,
+      status,
+      taskCount: departmentTasks.length,
+      paidTaskCount: paid.length,
+      burn,
+    };
+  });
+
+  const budgeted = departments.reduce((sum, department) => sum + (department.budgetAmount || 0), 0);
+
+  return {
+    projectId: project.id,
+    name: project.name,
+    projectBudget: project.budgetAmount,
+    interval,
+    from: buckets[0] || from,
+    to,
+    totals: {
+      budgeted: roundAmount(budgeted),
+      unbudgeted: project.budgetAmount === null ? null : roundAmount(project.budgetAmount - budgeted),
+      allocated: roundAmount(departments.reduce((sum, department) => sum + department.allocated, 0)),
+      released: roundAmount(departments.reduce((sum, department) => sum + department.released, 0)),
+    },
+    departments,
+  };
+}
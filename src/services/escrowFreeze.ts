@@ -0,0 +1,85 @@
+import { prisma } from '../utils/database.js';
+import { releaseFrozenPayments } from './paymentQueue.js';
+
+export class EscrowFreezeError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = 'EscrowFreezeError';
+  }
+}
+
+async function getProjectEscrow(projectId: string) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: { escrow: true },
+  });
+
+  if (!project) {
+    throw new EscrowFreezeError('Project not found', 404);
+  }
+
+  if (!project.escrow) {
+    throw new EscrowFreezeError('Escrow account not created for this project');
+  }
+
+  return { project, escrow: project.escrow };
+}
+
+/**
+ * Halts all spending from a project's escrow.
+ * frozenBy is the owner's or admin's user id; a null id marks an admin without a user account.
+ */
+export async function freezeEscrow(
+  projectId: string,
+  actor: { userId: string | null; isAdmin: boolean },
+  reason?: string
+) {
+  const { project, escrow } = await getProjectEscrow(projectId);
+
+  if (!actor.isAdmin && project.ownerId !== actor.userId) {
+    throw new EscrowFreezeError('Only project owner or an admin can freeze the escrow', 403);
+  }
+
+  if (escrow.status !== 'ACTIVE') {
+    throw new EscrowFreezeError(`Escrow is ${escrow.status.toLowerCase()}`);
+  }
+
+  return prisma.projectEscrow.update({
+    where: { id: escrow.id },
+    data: {
+      status: 'FROZEN',
+      frozenAt: new Date(),
+      frozenBy: actor.userId,
+      freezeReason: reason || null,
+    },
+  });
+}
+
+/**
+ * Lifts a freeze and releases payouts held while frozen.
+ * A freeze placed by an admin can only be lifted by an admin.
+ */
+export async function unfreezeEscrow(projectId: string, actor: { userId: string | null; isAdmin: boolean }) {
+  const { project, escrow } = await getProjectEscrow(projectId);
+
+  if (escrow.status !== 'FROZEN') {
+    throw new EscrowFreezeError('Escrow is not frozen');
+  }
+
+  const frozenByOwner = escrow.frozenBy === project.ownerId;
+  if (!actor.isAdmin && !(project.ownerId === actor.userId && frozenByOwner)) {
+    throw new EscrowFreezeError('Not allowed to unfreeze this escrow', 403);
+  }
+
+  await prisma.projectEscrow.update({
+    where: { id: escrow.id },
+    data: {
+      status: 'ACTIVE',
+      frozenAt: null,
+      frozenBy: null,
+      freezeReason: null,
+    },
+  });
+
+  return releaseFrozenPayments(projectId);
+}
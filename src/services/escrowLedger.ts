@@ -0,0 +1,445 @@
+import { randomUUID } from 'crypto';
+import { prisma } from '../utils/database.js';
+import {
+  getEscrowBalance,
+  getFullAddressHistory,
+  getSettlementAsset,
+  ALGO_ASSET_ID,
+  type SettlementAssetCode,
+} from './algorand.js';
+import winston from 'winston';
+
+const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  transports: [
+    new winston.transports.Console(),
+    new winston.transports.File({ filename: 'escrow-ledger.log' }),
+  ],
+});
+
+// Balances within half a micro unit are treated as equal
+const BALANCE_TOLERANCE = 0.005;
+
+/**
+ * Ledger accounts. ESCROW_AVAILABLE + ESCROW_ALLOCATED is the settlement asset held on-chain;
+ * OWNER_FUNDING and PAYOUTS are the other side of money entering and leaving it.
+ */
+export const LEDGER_ACCOUNTS = {
+  ESCROW_AVAILABLE: 'ESCROW_AVAILABLE',
+  ESCROW_ALLOCATED: 'ESCROW_ALLOCATED',
+  OWNER_FUNDING: 'OWNER_FUNDING',
+  PAYOUTS: 'PAYOUTS',
+  NETWORK_FEES: 'NETWORK_FEES',
+  ESCROW_ALGO: 'ESCROW_ALGO',
+} as const;
+
+type LedgerAccount = (typeof LEDGER_ACCOUNTS)[keyof typeof LEDGER_ACCOUNTS];
+
+export type LedgerEntryType =
+  | 'DEPOSIT'
+  | 'ALLOCATION'
+  | 'ALLOCATION_REVERSAL'
+  | 'RELEASE'
+  | 'FEE'
+  | 'REFUND'
+  | 'WITHDRAWAL'
+  | 'OPENING_BALANCE'; // Posted once by migration for escrows that predate the ledger
+
+interface LedgerPosting {
+  projectId: string;
+  entryType: LedgerEntryType;
+  amount: number;
+  debitAccount: LedgerAccount;
+  creditAccount: LedgerAccount;
+  asset?: SettlementAssetCode;
+  txHash?: string | null;
+  taskId?: string | null;
+  reference?: string | null;
+  memo?: string | null;
+}
+
+interface PostingContext {
+  txHash?: string | null;
+  taskId?: string | null;
+  reference?: string | null;
+  memo?: string | null;
+}
+
+/**
+ * Code of the asset a project's escrow settles in (SIZCOIN when no escrow exists yet)
+ */
+export async function getProjectSettlementAsset(projectId: string): Promise<SettlementAssetCode> {
+  const escrow = await prisma.projectEscrow.findUnique({
+    where: { projectId },
+    select: { assetId: true },
+  });
+
+  return getSettlementAsset(escrow?.assetId).code;
+}
+
+/**
+ * Writes the debit and credit legs of one posting. Ledger writes run after the
+ * on-chain transfer already happened, so a failure here is logged instead of
+ * thrown - the reconciliation job reports the gap.
+ */
+export async function postLedgerEntry(posting: LedgerPosting) {
+  if (!(posting.amount > 0)) return null;
+
+  const entryGroup = randomUUID();
+  const shared = {
+    projectId: posting.projectId,
+    entryGroup,
+    entryType: posting.entryType,
+    asset: posting.asset || (await getProjectSettlementAsset(posting.projectId)),
+    txHash: posting.txHash || null,
+    taskId: posting.taskId || null,
+    reference: posting.reference || null,
+    memo: posting.memo || null,
+  };
+
+  try {
+    await prisma.escrowLedgerEntry.createMany({
+      data: [
+        { ...shared, account: posting.debitAccount, debit: posting.amount },
+        { ...shared, account: posting.creditAccount, credit: posting.amount },
+      ],
+    });
+    return entryGroup;
+  } catch (error: any) {
+    logger.error('Failed to post ledger entry', { ...shared, amount: posting.amount, error: error.message });
+    return null;
+  }
+}
+
+/**
+ * Owner deposit into the escrow
+ */
+export function recordDeposit(projectId: string, amount: number, context: PostingContext = {}) {
+  return postLedgerEntry({
+    projectId,
+    entryType: 'DEPOSIT',
+    amount,
+    debitAccount: LEDGER_ACCOUNTS.ESCROW_AVAILABLE,
+    creditAccount: LEDGER_ACCOUNTS.OWNER_FUNDING,
+    ...context,
+  });
+}
+
+/**
+ * Earmarks escrow funds for an approved payout that has not been sent yet
+ */
+export function recordAllocation(projectId: string, amount: number, context: PostingContext = {}) {
+  return postLedgerEntry({
+    projectId,
+    entryType: 'ALLOCATION',
+    amount,
+    debitAccount: LEDGER_ACCOUNTS.ESCROW_ALLOCATED,
+    creditAccount: LEDGER_ACCOUNTS.ESCROW_AVAILABLE,
+    ...context,
+  });
+}
+
+/**
+ * Returns an allocation to the available pool after its payout was abandoned
+ */
+export function reverseAllocation(projectId: string, amount: number, context: PostingContext = {}) {
+  return postLedgerEntry({
+    projectId,
+    entryType: 'ALLOCATION_REVERSAL',
+    amount,
+    debitAccount: LEDGER_ACCOUNTS.ESCROW_AVAILABLE,
+    creditAccount: LEDGER_ACCOUNTS.ESCROW_ALLOCATED,
+    ...context,
+  });
+}
+
+/**
+ * Records a payout leaving the escrow plus its ALGO network fee.
+ * Allocated payouts (task and oversight jobs) draw from ESCROW_ALLOCATED,
+ * scheduled ones (salaries, milestones) straight from ESCROW_AVAILABLE.
+ */
+export async function recordRelease(
+  projectId: string,
+  amount: number,
+  options: PostingContext & { fee?: number; fromAllocated?: boolean } = {}
+) {
+  const { fee, fromAllocated, ...context } = options;
+
+  await postLedgerEntry({
+    projectId,
+    entryType: 'RELEASE',
+    amount,
+    debitAccount: LEDGER_ACCOUNTS.PAYOUTS,
+    creditAccount: fromAllocated ? LEDGER_ACCOUNTS.ESCROW_ALLOCATED : LEDGER_ACCOUNTS.ESCROW_AVAILABLE,
+    ...context,
+  });
+
+  if (fee) {
+    await recordFee(projectId, fee, context);
+  }
+}
+
+/**
+ * Network fee paid in ALGO by the escrow account
+ */
+export function recordFee(projectId: string, fee: number, context: PostingContext = {}) {
+  return postLedgerEntry({
+    projectId,
+    entryType: 'FEE',
+    amount: fee,
+    asset: 'ALGO',
+    debitAccount: LEDGER_ACCOUNTS.NETWORK_FEES,
+    creditAccount: LEDGER_ACCOUNTS.ESCROW_ALGO,
+    ...context,
+  });
+}
+
+/**
+ * Funds sent back to the project owner (close-out refund or partial withdrawal)
+ */
+export async function recordOwnerRefund(
+  projectId: string,
+  amount: number,
+  entryType: 'REFUND' | 'WITHDRAWAL',
+  options: PostingContext & { fee?: number } = {}
+) {
+  const { fee, ...context } = options;
+
+  await postLedgerEntry({
+    projectId,
+    entryType,
+    amount,
+    debitAccount: LEDGER_ACCOUNTS.OWNER_FUNDING,
+    creditAccount: LEDGER_ACCOUNTS.ESCROW_AVAILABLE,
+    ...context,
+  });
+
+  if (fee) {
+    await recordFee(projectId, fee, context);
+  }
+}
+
+/**
+ * Net balance (debits - credits) of every account of a project in its settlement asset
+ */
+export async function getLedgerBalances(projectId: string, asset?: SettlementAssetCode) {
+  const settlementAsset = asset || (await getProjectSettlementAsset(projectId));
+  const rows = await prisma.escrowLedgerEntry.groupBy({
+    by: ['account'],
+    where: { projectId, asset: settlementAsset },
+    _sum: { debit: true, credit: true },
+  });
+
+  const balances: Record<string, number> = {};
+  for (const row of rows) {
+    balances[row.account] = (row._sum.debit || 0) - (row._sum.credit || 0);
+  }
+
+  const available = balances[LEDGER_ACCOUNTS.ESCROW_AVAILABLE] || 0;
+  const allocated = balances[LEDGER_ACCOUNTS.ESCROW_ALLOCATED] || 0;
+  // ALGO-settled escrows pay their network fees out of the same balance
+  const fees = settlementAsset === 'ALGO' ? balances[LEDGER_ACCOUNTS.ESCROW_ALGO] || 0 : 0;
+
+  return {
+    asset: settlementAsset,
+    available,
+    allocated,
+    escrow: available + allocated + fees,
+    // Credit-side accounts are reported as positive amounts
+    ownerFunding: -(balances[LEDGER_ACCOUNTS.OWNER_FUNDING] || 0),
+    payouts: balances[LEDGER_ACCOUNTS.PAYOUTS] || 0,
+  };
+}
+
+type Mismatch = {
+  kind:
+    | 'BALANCE_DRIFT'
+    | 'RECORDED_BALANCE_DRIFT'
+    | 'RELEASED_FUNDS_DRIFT'
+    | 'MISSING_ON_CHAIN'
+    | 'MISSING_IN_LEDGER'
+    | 'AMOUNT_MISMATCH';
+  txHash?: string;
+  expected?: number;
+  actual?: number;
+  message: string;
+};
+
+function differs(a: number, b: number) {
+  return Math.abs(a - b) > BALANCE_TOLERANCE;
+}
+
+/**
+ * Compares a project's ledger with the escrow's on-chain settlement asset history and
+ * stores the result as an EscrowReconciliation report
+ */
+export async function reconcileProjectEscrow(projectId: string) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: { escrow: true },
+  });
+
+  if (!project || !project.escrow) {
+    throw new Error('Escrow account not created for this project');
+  }
+
+  // A multisig vault holds part of the project's escrow funds
+  const escrowAddresses = [project.escrow.escrowAddress, project.escrow.multisigAddress].filter(
+    (address): address is string => Boolean(address)
+  );
+
+  const asset = getSettlementAsset(project.escrow.assetId);
+
+  const [balances, ledger, histories, ledgerRows] = await Promise.all([
+    Promise.all(escrowAddresses.map((address) => getEscrowBalance(address, asset.assetId))),
+    getLedgerBalances(projectId, asset.code),
+    Promise.all(escrowAddresses.map((address) => getFullAddressHistory(address))),
+    prisma.escrowLedgerEntry.findMany({
+      where: {
+        projectId,
+        asset: asset.code,
+        txHash: { not: null },
+        account: { in: [LEDGER_ACCOUNTS.ESCROW_AVAILABLE, LEDGER_ACCOUNTS.ESCROW_ALLOCATED] },
+      },
+      select: { txHash: true, debit: true, credit: true },
+    }),
+  ]);
+
+  const onChainBalance = balances.reduce((sum, balance) => sum + balance, 0);
+  const mismatches: Mismatch[] = [];
+
+  if (differs(ledger.escrow, onChainBalance)) {
+    mismatches.push({
+      kind: 'BALANCE_DRIFT',
+      expected: ledger.escrow,
+      actual: onChainBalance,
+      message: 'Ledger escrow balance does not match on-chain balance',
+    });
+  }
+
+  if (differs(project.escrow.currentBalance, onChainBalance)) {
+    mismatches.push({
+      kind: 'RECORDED_BALANCE_DRIFT',
+      expected: onChainBalance,
+      actual: project.escrow.currentBalance,
+      message: 'ProjectEscrow.currentBalance does not match on-chain balance',
+    });
+  }
+
+  if (differs(project.releasedFunds || 0, ledger.payouts)) {
+    mismatches.push({
+      kind: 'RELEASED_FUNDS_DRIFT',
+      expected: ledger.payouts,
+      actual: project.releasedFunds || 0,
+      message: 'Project.releasedFunds does not match ledger payouts',
+    });
+  }
+
+  // Net escrow movement per transaction as the ledger sees it
+  const ledgerByTx = new Map<string, number>();
+  for (const row of ledgerRows) {
+    const net = (ledgerByTx.get(row.txHash!) || 0) + row.debit - row.credit;
+    ledgerByTx.set(row.txHash!, net);
+  }
+
+  // Net escrow movement per transaction as the indexer sees it (settlement asset only)
+  // Transfers between the escrow and its vault show up in both histories and net to zero
+  const chainByTx = new Map<string, number>();
+  const seen = new Set<string>();
+  for (const tx of histories.flat()) {
+    if ((tx.assetId ?? ALGO_ASSET_ID) !== asset.assetId || tx.amount === 0 || seen.has(tx.txHash)) continue;
+    seen.add(tx.txHash);
+    const incoming = escrowAddresses.includes(tx.toAddress) ? tx.amount : 0;
+    const outgoing = escrowAddresses.includes(tx.fromAddress) ? tx.amount : 0;
+    if (incoming - outgoing === 0) continue;
+    chainByTx.set(tx.txHash, incoming - outgoing);
+  }
+
+  for (const [txHash, ledgerNet] of ledgerByTx) {
+    // Legs that cancel out inside the escrow never moved funds on-chain
+    if (ledgerNet === 0) continue;
+    const chainNet = chainByTx.get(txHash);
+
+    if (chainNet === undefined) {
+      mismatches.push({
+        kind: 'MISSING_ON_CHAIN',
+        txHash,
+        expected: ledgerNet,
+        message: 'Ledger transaction not found in indexer history',
+      });
+    } else if (differs(chainNet, ledgerNet)) {
+      mismatches.push({
+        kind: 'AMOUNT_MISMATCH',
+        txHash,
+        expected: ledgerNet,
+        actual: chainNet,
+        message: 'Ledger amount differs from on-chain amount',
+      });
+    }
+  }
+
+  for (const [txHash, chainNet] of chainByTx) {
+    if (!ledgerByTx.has(txHash)) {
+      mismatches.push({
+        kind: 'MISSING_IN_LEDGER',
+        txHash,
+        actual: chainNet,
+        message: 'On-chain transfer has no ledger entry',
+      });
+    }
+  }
+
+  const report = await prisma.escrowReconciliation.create({
+    data: {
+      projectId,
+      status: mismatches.length === 0 ? 'MATCHED' : 'MISMATCHED',
+      ledgerBalance: ledger.escrow,
+      onChainBalance,
+      recordedBalance: project.escrow.currentBalance,
+      mismatchCount: mismatches.length,
+      mismatches,
+    },
+  });
+
+  if (mismatches.length > 0) {
+    logger.warn(`Escrow reconciliation for project ${projectId} found ${mismatches.length} mismatches`);
+  }
+
+  return { ...report, ledger };
+}
+
+/**
+ * Reconciles every project escrow that is not closed.
+ * This should be run daily via cron job
+ */
+export async function reconcileAllEscrows() {
+  logger.info('Starting escrow reconciliation...');
+
+  const escrows = await prisma.projectEscrow.findMany({
+    where: { status: { not: 'CLOSED' } },
+    select: { projectId: true },
+  });
+
+  let matched = 0;
+  let mismatched = 0;
+  let failed = 0;
+
+  for (const { projectId } of escrows) {
+    try {
+      const report = await reconcileProjectEscrow(projectId);
+      if (report.status === 'MATCHED') matched++;
+      else mismatched++;
+    } catch (error: any) {
+      logger.error(`Failed to reconcile escrow for project ${projectId}:`, error);
+      failed++;
+    }
+  }
+
+  logger.info(`Escrow reconciliation complete: ${matched} matched, ${mismatched} mismatched, ${failed} failed`);
+
+  return { matched, mismatched, failed, total: escrows.length };
+}
@@ -0,0 +1,193 @@
+import { prisma } from '../utils/database.js';
+import { getEscrowBalance, getSettlementAsset } from './algorand.js';
+import { schedulePeriods } from './paymentSchedule.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Window the ad-hoc (task, milestone, oversight) release rate is averaged over
+const RELEASE_RATE_LOOKBACK_DAYS = parseInt(process.env.ESCROW_RUNWAY_LOOKBACK_DAYS || '90', 10);
+
+// Projections never run further out than this, whatever the project's end date
+const MAX_HORIZON_DAYS = 5 * 365;
+
+// Projects that already ended still get a short look ahead
+const MIN_HORIZON_DAYS = 30;
+
+export interface RecurringOutflow {
+  recurringPaymentId: string;
+  date: Date;
+  amount: number;
+}
+
+export interface RunwayPoint {
+  date: Date;
+  balance: number;
+}
+
+/**
+ * Projects the escrow balance forward. Three things draw on it:
+ * - scheduled payments of ACTIVE recurring payments,
+ * - tasks already PENDING or ALLOCATED, plus transfers still in flight, paid right away,
+ * - further task/milestone/oversight releases at the historical daily rate. Allocated
+ *   tasks count towards that rate, so they are not paid twice.
+ */
+export async function calculateRunway(projectId: string, options: { horizonDays?: number; now?: Date } = {}) {
+  const now = options.now || new Date();
+
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: {
+      escrow: true,
+      recurringPayments: { where: { status: 'ACTIVE' } },
+    },
+  });
+
+  if (!project) {
+    throw new Error(`Project ${projectId} not found`);
+  }
+
+  const assetId = project.escrow?.assetId;
+  const currentBalance = project.escrow ? await getEscrowBalance(project.escrow.escrowAddress, project.escrow.assetId) : 0;
+
+  const horizonDays = Math.min(
+    options.horizonDays ??
+      Math.max(Math.ceil((project.endDate.getTime() - now.getTime()) / DAY_MS), MIN_HORIZON_DAYS),
+    MAX_HORIZON_DAYS
+  );
+  const horizon = new Date(now.getTime() + horizonDays * DAY_MS);
+
+  const lookbackStart = new Date(now.getTime() - RELEASE_RATE_LOOKBACK_DAYS * DAY_MS);
+
+  const [allocatedTasks, processingTransfers, released] = await Promise.all([
+    prisma.task.aggregate({
+      where: {
+        department: { projectId },
+        paymentAmount: { not: null },
+        paymentStatus: { in: ['PENDING', 'ALLOCATED'] },
+        ...(assetId !== undefined ? { assetId } : {}),
+      },
+      _sum: { paymentAmount: true },
+    }),
+    prisma.blockchainTransaction.aggregate({
+      where: {
+        projectId,
+        status: { in: ['PENDING', 'CONFIRMING'] },
+        type: { in: ['TASK_PAYMENT', 'SALARY_PAYMENT', 'MILESTONE_PAYMENT', 'OVERSIGHT_PAYMENT'] },
+        ...(assetId !== undefined ? { assetId } : {}),
+      },
+      _sum: { amount: true },
+    }),
+    prisma.blockchainTransaction.aggregate({
+      where: {
+        projectId,
+        status: 'CONFIRMED',
+        type: { in: ['TASK_PAYMENT', 'MILESTONE_PAYMENT', 'OVERSIGHT_PAYMENT'] },
+        confirmedAt: { gte: lookbackStart },
+        ...(assetId !== undefined ? { assetId } : {}),
+      },
+      _sum: { amount: true },
+    }),
+  ]);
+
+  const allocated = allocatedTasks._sum.paymentAmount || 0;
+  const processing = processingTransfers._sum.amount || 0;
+
+  // A project younger than the lookback window is averaged over its own age
+  const observedDays = Math.max(
+    Math.min(RELEASE_RATE_LOOKBACK_DAYS, (now.getTime() - project.startDate.getTime()) / DAY_MS),
+    1
+  );
+  const releasedTotal = released._sum.amount || 0;
+  const dailyReleaseRate = releasedTotal / observedDays;
+
+  // Payments in another asset than the escrow's do not draw on this balance
+  const recurringOutflows: RecurringOutflow[] = [];
+  for (const payment of project.recurringPayments) {
+    if (assetId !== undefined && payment.assetId !== assetId) continue;
+
+    for (const period of schedulePeriods(payment)) {
+      if (period.paymentDate < payment.nextPaymentDate) continue;
+      if (period.paymentDate > horizon) break;
+      recurringOutflows.push({ recurringPaymentId: payment.id, date: period.paymentDate, amount: period.amount });
+    }
+  }
+  recurringOutflows.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  // Everything paid out by a given day; balance only ever goes down from here
+  let nextOutflow = 0;
+  let recurringPaid = 0;
+  const outflowUntil = (date: Date) => {
+    while (nextOutflow < recurringOutflows.length && recurringOutflows[nextOutflow].date <= date) {
+      recurringPaid += recurringOutflows[nextOutflow].amount;
+      nextOutflow++;
+    }
+    const elapsedDays = (date.getTime() - now.getTime()) / DAY_MS;
+    return processing + Math.max(allocated, dailyReleaseRate * elapsedDays) + recurringPaid;
+  };
+
+  const minimumBalance = project.minimumBalance || 0;
+  const projection: RunwayPoint[] = [];
+  let depletionDate: Date | null = null;
+  let belowMinimumDate: Date | null = null;
+  let totalOutflow = 0;
+
+  for (let day = 0; day <= horizonDays; day++) {
+    const date = new Date(now.getTime() + day * DAY_MS);
+    totalOutflow = outflowUntil(date);
+    const balance = currentBalance - totalOutflow;
+
+    if (!belowMinimumDate && balance < minimumBalance) belowMinimumDate = date;
+    if (!depletionDate && balance < 0) depletionDate = date;
+
+    if (day % 7 === 0 || day === horizonDays) {
+      projection.push({ date, balance: roundAmount(balance) });
+    }
+  }
+
+  return {
+    projectId,
+    asset: assetId !== undefined ? getSettlementAsset(assetId).code : null,
+    asOf: now,
+    currentBalance,
+    minimumBalance,
+    endDate: project.endDate,
+    horizon,
+    obligations: {
+      allocatedTasks: allocated,
+      processingTransfers: processing,
+      recurring: roundAmount(recurringOutflows.reduce((sum, outflow) => sum + outflow.amount, 0)),
+    },
+    releaseRate: {
+      daily: roundAmount(dailyReleaseRate),
+      released: releasedTotal,
+      observedDays: Math.round(observedDays),
+    },
+    depletionDate,
+    belowMinimumDate,
+    runwayDays: depletionDate ? Math.floor((depletionDate.getTime() - now.getTime()) / DAY_MS) : null,
+    projectedOutflow: roundAmount(totalOutflow),
+    projectedBalance: roundAmount(currentBalance - totalOutflow),
+    // Keeps the balance at or above the minimum until the horizon (the end date by default)
+    topUpNeeded: roundAmount(Math.max(totalOutflow + minimumBalance - currentBalance, 0)),
+    recurringOutflows,
+    projection,
+  };
+}
+
+export type EscrowRunway = Awaited<ReturnType<typeof calculateRunway>>;
+
+/**
+ * Recurring payments scheduled between the runway's start and the given number of days out
+ */
+export function recurringDueWithin(runway: EscrowRunway, days: number) {
+  const until = runway.asOf.getTime() + days * DAY_MS;
+  return roundAmount(
+    runway.recurringOutflows
+      .filter((outflow) => outflow.date.getTime() <= until)
+      .reduce((sum, outflow) => sum + outflow.amount, 0)
+  );
+}
+
+function roundAmount(amount: number) {
+  return Math.round(amount * 1e6) / 1e6;
+}
@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Holds the master keys that wrap per-escrow data keys. The local file
+ * implementation can be swapped for an HSM or KMS backed one.
+ */
+export interface KeyProvider {
+  readonly name: string;
+  /** Key id new envelopes are wrapped under */
+  activeKeyId(): Promise<string>;
+  /** Encrypts a data key under the given (or active) master key */
+  wrapKey(dataKey: Buffer, keyId?: string): Promise<{ keyId: string; wrappedKey: string }>;
+  /** Decrypts a data key wrapped under keyId */
+  unwrapKey(wrappedKey: string, keyId: string): Promise<Buffer>;
+}
+
+type Keyring = {
+  activeKeyId: string;
+  keys: Record<string, string>; // keyId -> base64 32-byte master key
+};
+
+const WRAP_ALGORITHM = 'aes-256-gcm';
+
+/**
+ * Master keys stored in a JSON keyring file:
+ * { "activeKeyId": "...", "keys": { "<keyId>": "<base64 key>" } }
+ * Old keys stay in the file after a rotation so existing envelopes keep decrypting.
+ */
+export class LocalFileKeyProvider implements KeyProvider {
+  readonly name = 'local-file';
+  private keyring: Keyring | null = null;
+
+  constructor(private readonly keyringPath: string) {}
+
+  private load(force = false): Keyring {
+    if (!this.keyring || force) {
+      const raw = fs.readFileSync(this.keyringPath, 'utf8');
+      const parsed = JSON.parse(raw) as Keyring;
+      if (!parsed.activeKeyId || !parsed.keys?.[parsed.activeKeyId]) {
+        throw new Error(`Keyring ${this.keyringPath} has no active key`);
+      }
+      this.keyring = parsed;
+    }
+    return this.keyring;
+  }
+
+  private masterKey(keyId: string): Buffer {
+    let keyring = this.load();
+    // Another process may have rotated the keyring since it was loaded
+    if (!keyring.keys[keyId]) {
+      keyring = this.load(true);
+    }
+
+    const encoded = keyring.keys[keyId];
+    if (!encoded) {
+      throw new Error(`Master key ${keyId} not found in keyring`);
+    }
+    return Buffer.from(encoded, 'base64');
+  }
+
+  async activeKeyId() {
+    return this.load(true).activeKeyId;
+  }
+
+  async wrapKey(dataKey: Buffer, keyId?: string) {
+    const id = keyId || (await this.activeKeyId());
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(WRAP_ALGORITHM, this.masterKey(id), iv);
+    const encrypted = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+
+    return {
+      keyId: id,
+      wrappedKey: Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64'),
+    };
+  }
+
+  async unwrapKey(wrappedKey: string, keyId: string) {
+    const raw = Buffer.from(wrappedKey, 'base64');
+    const decipher = crypto.createDecipheriv(WRAP_ALGORITHM, this.masterKey(keyId), raw.subarray(0, 12));
+    decipher.setAuthTag(raw.subarray(12, 28));
+    return Buffer.concat([decipher.update(raw.subarray(28)), decipher.final()]);
+  }
+
+  /**
+   * Adds a freshly generated master key and makes it the active one.
+   * Creates the keyring file when it does not exist yet.
+   */
+  rotate(): string {
+    const keyring: Keyring = fs.existsSync(this.keyringPath)
+      ? this.load(true)
+      : { activeKeyId: '', keys: {} };
+
+    const keyId = `mk-${new Date().toISOString().slice(0, 10).replace(/-/g, '')}-${crypto.randomBytes(4).toString('hex')}`;
+    keyring.keys[keyId] = crypto.randomBytes(32).toString('base64');
+    keyring.activeKeyId = keyId;
+
+    fs.mkdirSync(path.dirname(this.keyringPath), { recursive: true });
+    // Write-then-rename so readers never see a half-written keyring
+    const tmpPath = `${this.keyringPath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(keyring, null, 2), { mode: 0o600 });
+    fs.renameSync(tmpPath, this.keyringPath);
+
+    this.keyring = keyring;
+    return keyId;
+  }
+}
+
+let provider: KeyProvider | null | undefined;
+
+/**
+ * Returns the configured key provider, or null when no keyring is set up
+ * (escrow keys then keep using the legacy ENCRYPTION_SECRET scheme)
+ */
+export function getKeyProvider(): KeyProvider | null {
+  if (provider === undefined) {
+    const keyringPath = process.env.ESCROW_KEYRING_PATH;
+    provider = keyringPath && fs.existsSync(keyringPath) ? new LocalFileKeyProvider(keyringPath) : null;
+  }
+  return provider;
+}
+
+/**
+ * Plugs in a different provider (HSM, KMS) at startup
+ */
+export function setKeyProvider(next: KeyProvider | null) {
+  provider = next;
+}
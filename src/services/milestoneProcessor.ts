@@ -0,0 +1,319 @@
+import type { BlockchainTransaction } from '@prisma/client';
+import { prisma } from '../utils/database.js';
+import { createPaymentTransaction, getEscrowBalance, waitForConfirmation } from './algorand.js';
+import { recordRelease } from './escrowLedger.js';
+import { finalizeTaskPayout, waitForDepth, PAYMENT_CONFIRMATION_DEPTH } from './paymentQueue.js';
+import winston from 'winston';
+
+const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  transports: [
+    new winston.transports.Console(),
+    new winston.transports.File({ filename: 'milestone-payments.log' }),
+  ],
+});
+
+/**
+ * Returns the tasks that have to be finished before a milestone can be accepted:
+ * tasks linked to the milestone directly plus every task in its departments
+ */
+export async function getMilestoneTasks(milestoneId: string) {
+  const milestone = await prisma.milestone.findUnique({
+    where: { id: milestoneId },
+    include: { departments: { select: { id: true } } },
+  });
+
+  if (!milestone) return [];
+
+  const departmentIds = milestone.departments.map((d) => d.id);
+
+  return prisma.task.findMany({
+    where: {
+      deletedAt: null,
+      OR: [
+        { milestoneId },
+        ...(departmentIds.length > 0 ? [{ departmentId: { in: departmentIds } }] : []),
+      ],
+    },
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      departmentId: true,
+    },
+  });
+}
+
+/**
+ * Roles paid per milestone: either bound to this milestone or to every milestone
+ */
+async function getPayableRoles(projectId: string, milestoneId: string) {
+  return prisma.userRole.findMany({
+    where: {
+      projectId,
+      status: 'ACTIVE',
+      paymentConfig: {
+        is: {
+          paymentType: 'MILESTONE',
+          active: true,
+          milestoneAmount: { gt: 0 },
+          OR: [{ milestoneId }, { milestoneId: null }],
+        },
+      },
+    },
+    include: {
+      paymentConfig: true,
+      user: {
+        select: {
+          id: true,
+          email: true,
+          walletAddress: true,
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Pays every MILESTONE-configured role of the project for an accepted milestone.
+ * Roles that already have a live MILESTONE_PAYMENT for this milestone are skipped,
+ * so the processor can be re-run to retry failed legs.
+ */
+export async function processMilestonePayouts(milestoneId: string) {
+  logger.info(`Processing payouts for milestone ${milestoneId}`);
+
+  const milestone = await prisma.milestone.findUnique({
+    where: { id: milestoneId },
+    include: {
+      project: {
+        include: {
+          escrow: true,
+        },
+      },
+    },
+  });
+
+  if (!milestone) {
+    throw new Error('Milestone not found');
+  }
+
+  if (milestone.status !== 'ACCEPTED') {
+    throw new Error(`Milestone must be ACCEPTED before payout (current status: ${milestone.status})`);
+  }
+
+  const escrow = milestone.project.escrow;
+  if (!escrow) {
+    throw new Error('Escrow account not created for this project');
+  }
+
+  if (escrow.status !== 'ACTIVE') {
+    throw new Error(`Escrow is ${escrow.status.toLowerCase()}, milestone payouts are blocked`);
+  }
+
+  const roles = await getPayableRoles(milestone.projectId, milestoneId);
+
+  // Keyed on the role, not its wallet: a payee who changes wallet is still paid once
+  const existingPayouts = await prisma.blockchainTransaction.findMany({
+    where: {
+      milestoneId,
+      type: 'MILESTONE_PAYMENT',
+      status: { in: ['PENDING', 'CONFIRMING', 'CONFIRMED'] },
+    },
+    select: { userRoleId: true },
+  });
+  const paidRoles = new Set(existingPayouts.map((tx) => tx.userRoleId));
+
+  let processed = 0;
+  let skipped = 0;
+  let failed = 0;
+  const payouts: Array<{ userId: string; amount: number; txHash?: string; error?: string }> = [];
+
+  for (const role of roles) {
+    const amount = role.paymentConfig!.milestoneAmount!;
+    const walletAddress = role.user.walletAddress;
+
+    if (!walletAddress) {
+      logger.warn(`User ${role.userId} has no wallet address, skipping milestone payout`);
+      payouts.push({ userId: role.userId, amount, error: 'No wallet address' });
+      skipped++;
+      continue;
+    }
+
+    if (paidRoles.has(role.id)) {
+      skipped++;
+      continue;
+    }
+
+    let recordedTxHash: string | undefined;
+    try {
+      const currentBalance = await getEscrowBalance(escrow.escrowAddress, escrow.assetId);
+      if (currentBalance < amount) {
+        throw new Error(`Insufficient balance. Need ${amount}, have ${currentBalance}`);
+      }
+
+      // The PENDING row is written before sending; a concurrent run paying the same
+      // role hits the unique milestone + role index and sends nothing
+      const note = `Milestone payment: ${milestone.name}`;
+      let txResult;
+      try {
+        txResult = await createPaymentTransaction(
+          escrow.escrowAddress,
+          escrow.encryptedPrivateKey,
+          walletAddress,
+          amount,
+          note,
+          escrow.assetId,
+          async ({ txHashes, lastValidRound }) => {
+            await prisma.blockchainTransaction.create({
+              data: {
+                txHash: txHashes[0],
+                type: 'MILESTONE_PAYMENT',
+                amount,
+                assetId: escrow.assetId,
+                fromAddress: escrow.escrowAddress,
+                toAddress: walletAddress,
+                projectId: milestone.projectId,
+                milestoneId,
+                userRoleId: role.id,
+                status: 'PENDING',
+                note,
+                submittedAt: new Date(),
+                lastValidRound,
+              },
+            });
+            recordedTxHash = txHashes[0];
+          }
+        );
+      } catch (error: any) {
+        // Recorded but rejected by the node: fail the row so it stops holding the role's slot
+        if (recordedTxHash) {
+          await prisma.blockchainTransaction.updateMany({
+            where: { txHash: recordedTxHash, status: 'PENDING' },
+            data: { status: 'FAILED', errorMessage: error.message },
+          });
+        }
+        throw error;
+      }
+
+      await prisma.blockchainTransaction.update({
+        where: { txHash: txResult.txHash },
+        data: { fee: txResult.fee },
+      });
+
+      paidRoles.add(role.id);
+      payouts.push({ userId: role.userId, amount, txHash: txResult.txHash });
+      logger.info(`Milestone ${milestoneId} sent ${amount} to ${role.user.email}`);
+      processed++;
+
+      // Booked by finalizeTaskPayout once deep enough; monitorPendingTransactions takes over otherwise
+      try {
+        const confirmation = await waitForConfirmation(txResult.txHash);
+        const depth = await waitForDepth(confirmation.blockNumber);
+
+        if (depth >= PAYMENT_CONFIRMATION_DEPTH) {
+          await finalizeTaskPayout(txResult.txHash, { blockNumber: confirmation.blockNumber, confirmations: depth });
+        } else {
+          await prisma.blockchainTransaction.update({
+            where: { txHash: txResult.txHash },
+            data: { status: 'CONFIRMING', blockNumber: BigInt(confirmation.blockNumber), confirmations: depth },
+          });
+        }
+      } catch (error: any) {
+        logger.warn(`Milestone ${milestoneId} payout ${txResult.txHash} not confirmed yet: ${error.message}`);
+      }
+    } catch (error: any) {
+      if (error?.code === 'P2002') {
+        logger.info(`Milestone ${milestoneId} payout for role ${role.id} is already in flight`);
+        skipped++;
+        continue;
+      }
+
+      logger.error(`Failed milestone payout for role ${role.id}:`, error);
+      payouts.push({ userId: role.userId, amount, error: error.message });
+      failed++;
+    }
+  }
+
+  const paid = await closeMilestoneIfPaid(milestoneId);
+
+  logger.info(`Milestone ${milestoneId} payouts: ${processed} processed, ${skipped} skipped, ${failed} failed`);
+
+  return {
+    status: paid ? 'PAID' : 'ACCEPTED',
+    processed,
+    skipped,
+    failed,
+    total: roles.length,
+    payouts,
+  };
+}
+
+/**
+ * Marks an accepted milestone PAID once every payable role has a confirmed leg
+ */
+export async function closeMilestoneIfPaid(milestoneId: string) {
+  const milestone = await prisma.milestone.findUnique({ where: { id: milestoneId } });
+  if (!milestone) return false;
+  if (milestone.status === 'PAID') return true;
+
+  const roles = await getPayableRoles(milestone.projectId, milestoneId);
+  const confirmed = await prisma.blockchainTransaction.findMany({
+    where: { milestoneId, type: 'MILESTONE_PAYMENT', status: 'CONFIRMED' },
+    select: { userRoleId: true },
+  });
+  const confirmedRoles = new Set(confirmed.map((tx) => tx.userRoleId));
+
+  if (milestone.status !== 'ACCEPTED' || !roles.every((role) => confirmedRoles.has(role.id))) {
+    return false;
+  }
+
+  await prisma.milestone.updateMany({
+    where: { id: milestoneId, status: 'ACCEPTED' },
+    data: {
+      status: 'PAID',
+      paidAt: new Date(),
+    },
+  });
+  return true;
+}
+
+/**
+ * Books a milestone leg once its transaction is confirmed. Called from finalizeTaskPayout,
+ * which lets only the caller that confirmed the transaction through.
+ */
+export async function settleMilestonePayout(tx: BlockchainTransaction) {
+  await prisma.project.update({
+    where: { id: tx.projectId },
+    data: {
+      releasedFunds: {
+        increment: tx.amount,
+      },
+    },
+  });
+
+  await prisma.projectEscrow.update({
+    where: { projectId: tx.projectId },
+    data: {
+      currentBalance: {
+        decrement: tx.amount,
+      },
+    },
+  });
+
+  await recordRelease(tx.projectId, tx.amount, {
+    txHash: tx.txHash,
+    fee: tx.fee ?? undefined,
+    reference: tx.milestoneId ?? undefined,
+    memo: tx.note,
+  });
+
+  logger.info(`Milestone ${tx.milestoneId} payout ${tx.txHash} settled`);
+
+  if (tx.milestoneId) {
+    await closeMilestoneIfPaid(tx.milestoneId);
+  }
+}
@@ -0,0 +1,359 @@
+import { prisma } from '../utils/database.js';
+import {
+  prepareMultisigTransfer,
+  mergeMultisigSignatures,
+  getInvalidMultisigSigners,
+  submitSignedTransaction,
+  waitForConfirmation,
+  getCurrentRound,
+} from './algorand.js';
+import { reverseAllocation } from './escrowLedger.js';
+import { finalizeTaskPayout, waitForDepth, PAYMENT_CONFIRMATION_DEPTH } from './paymentQueue.js';
+import winston from 'winston';
+
+const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  transports: [
+    new winston.transports.Console(),
+    new winston.transports.File({ filename: 'multisig-payouts.log' }),
+  ],
+});
+
+/**
+ * Thrown when a co-signer's signed transaction cannot be merged; routes answer 400
+ */
+export class MultisigSignatureError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+    this.name = 'MultisigSignatureError';
+  }
+}
+
+type VaultEscrow = {
+  escrowAddress: string;
+  encryptedPrivateKey: string;
+  multisigAddress: string | null;
+  multisigThreshold: number | null;
+  multisigSigners: string[];
+  coSignAmount: number | null;
+  assetId: bigint;
+};
+
+/**
+ * Whether a payout of this size has to be co-signed from the project's multisig vault
+ */
+export function requiresCoSigning(escrow: Partial<VaultEscrow> | null, amount: number) {
+  return Boolean(escrow?.multisigAddress && escrow.coSignAmount != null && amount > escrow.coSignAmount);
+}
+
+function vaultMetadata(escrow: VaultEscrow) {
+  if (!escrow.multisigAddress || !escrow.multisigThreshold) {
+    throw new Error('Project escrow has no multisig vault');
+  }
+
+  return { version: 1, threshold: escrow.multisigThreshold, addrs: escrow.multisigSigners };
+}
+
+/**
+ * Prepares a vault transfer signed by the escrow key and parks it until enough
+ * co-signers have added their signatures. Re-running for the same payment returns
+ * the payout already waiting, so a retried job does not create a second one.
+ */
+export async function requestMultisigPayout(params: {
+  projectId: string;
+  type: 'TASK_PAYMENT' | 'OPT_IN';
+  toAddress?: string;
+  amount: number;
+  taskId?: string;
+  paymentId?: string;
+  note?: string;
+  requestedBy?: string;
+}) {
+  const { projectId, type, amount, taskId, paymentId, note, requestedBy } = params;
+
+  const escrow = await prisma.projectEscrow.findUnique({ where: { projectId } });
+  if (!escrow) {
+    throw new Error(`Escrow for project ${projectId} not found`);
+  }
+
+  const existing = await prisma.multisigPayout.findFirst({
+    where: {
+      projectId,
+      type,
+      status: { in: ['PENDING_SIGNATURES', 'SUBMITTED'] },
+      ...(type === 'TASK_PAYMENT' ? { taskId } : {}),
+    },
+  });
+  if (existing) {
+    return existing;
+  }
+
+  const metadata = vaultMetadata(escrow);
+  const toAddress = type === 'OPT_IN' ? escrow.multisigAddress! : params.toAddress!;
+  const prepared = await prepareMultisigTransfer(metadata, escrow.encryptedPrivateKey, toAddress, amount, note, escrow.assetId);
+
+  const payout = await prisma.multisigPayout.create({
+    data: {
+      projectId,
+      type,
+      taskId,
+      paymentId,
+      fromAddress: escrow.multisigAddress!,
+      toAddress,
+      amount,
+      note,
+      txId: prepared.txId,
+      unsignedTxn: prepared.unsignedTxn,
+      signedTxn: prepared.signedTxn,
+      signedBy: [escrow.escrowAddress],
+      lastValidRound: prepared.lastValidRound,
+      requestedBy,
+    },
+  });
+
+  if (taskId) {
+    await prisma.task.update({ where: { id: taskId }, data: { paymentStatus: 'PROCESSING' } });
+  }
+  if (paymentId) {
+    await prisma.payment.update({ where: { id: paymentId }, data: { status: 'PROCESSING' } });
+  }
+
+  logger.info('Multisig payout waiting for co-signers', {
+    payoutId: payout.id,
+    projectId,
+    type,
+    taskId,
+    amount,
+    threshold: metadata.threshold,
+  });
+
+  return payout;
+}
+
+/**
+ * Rebuilds a payout whose validity window ran out. Collected co-signatures are
+ * dropped because they were made over the old transaction.
+ */
+export async function refreshMultisigPayout(payoutId: string) {
+  const payout = await prisma.multisigPayout.findUnique({ where: { id: payoutId } });
+  if (!payout) {
+    throw new Error('Multisig payout not found');
+  }
+
+  if (!['PENDING_SIGNATURES', 'EXPIRED'].includes(payout.status)) {
+    throw new Error(`Multisig payout is ${payout.status}`);
+  }
+
+  const escrow = await prisma.projectEscrow.findUnique({ where: { projectId: payout.projectId } });
+  if (!escrow) {
+    throw new Error(`Escrow for project ${payout.projectId} not found`);
+  }
+
+  const prepared = await prepareMultisigTransfer(
+    vaultMetadata(escrow),
+    escrow.encryptedPrivateKey,
+    payout.toAddress,
+    payout.amount,
+    payout.note || undefined,
+    escrow.assetId
+  );
+
+  return prisma.multisigPayout.update({
+    where: { id: payout.id },
+    data: {
+      txId: prepared.txId,
+      unsignedTxn: prepared.unsignedTxn,
+      signedTxn: prepared.signedTxn,
+      signedBy: [escrow.escrowAddress],
+      lastValidRound: prepared.lastValidRound,
+      status: 'PENDING_SIGNATURES',
+      errorMessage: null,
+    },
+  });
+}
+
+/**
+ * Adds a co-signer's signature. Once the vault threshold is met the transaction is
+ * submitted and the payout settled.
+ */
+export async function addCoSignature(payoutId: string, signerAddress: string, signedTxn: string) {
+  const payout = await prisma.multisigPayout.findUnique({ where: { id: payoutId } });
+  if (!payout) {
+    throw new Error('Multisig payout not found');
+  }
+
+  if (payout.status !== 'PENDING_SIGNATURES') {
+    throw new Error(`Multisig payout is ${payout.status}`);
+  }
+
+  const escrow = await prisma.projectEscrow.findUnique({ where: { projectId: payout.projectId } });
+  if (!escrow || !escrow.multisigThreshold) {
+    throw new Error('Project escrow has no multisig vault');
+  }
+
+  // Frozen or closed escrows pay nothing out, vault included
+  if (escrow.status !== 'ACTIVE') {
+    throw new Error(`Escrow is ${escrow.status.toLowerCase()}, multisig payouts are blocked`);
+  }
+
+  if (!escrow.multisigSigners.includes(signerAddress) || signerAddress === escrow.escrowAddress) {
+    throw new Error('Wallet is not a co-signer of this vault');
+  }
+
+  if (payout.signedBy.includes(signerAddress)) {
+    throw new Error('Wallet has already signed this payout');
+  }
+
+  const currentRound = await getCurrentRound();
+  if (currentRound > payout.lastValidRound) {
+    await prisma.multisigPayout.update({ where: { id: payout.id }, data: { status: 'EXPIRED' } });
+    throw new Error('Multisig payout expired, refresh it and sign again');
+  }
+
+  // A signature that does not verify would get the transaction rejected once the threshold is met
+  let merged;
+  try {
+    const invalid = getInvalidMultisigSigners(signedTxn);
+    if (invalid.length > 0) {
+      throw new Error(`Signature of ${invalid.join(', ')} does not verify`);
+    }
+    merged = mergeMultisigSignatures(payout.signedTxn, signedTxn);
+  } catch (error: any) {
+    throw new MultisigSignatureError(error.message);
+  }
+
+  if (!merged.signedBy.includes(signerAddress)) {
+    throw new MultisigSignatureError('Signed transaction does not carry this wallet\'s signature');
+  }
+
+  // Only update if nobody else merged in the meantime, so no signature is lost
+  const { count } = await prisma.multisigPayout.updateMany({
+    where: { id: payout.id, signedTxn: payout.signedTxn },
+    data: { signedTxn: merged.signedTxn, signedBy: merged.signedBy },
+  });
+  if (count === 0) {
+    throw new Error('Payout was signed concurrently, retry');
+  }
+
+  logger.info('Co-signature added', {
+    payoutId: payout.id,
+    signer: signerAddress,
+    signatures: merged.signedBy.length,
+    threshold: escrow.multisigThreshold,
+  });
+
+  if (merged.signedBy.length < escrow.multisigThreshold) {
+    return {
+      ...payout,
+      signedTxn: merged.signedTxn,
+      signedBy: merged.signedBy,
+    };
+  }
+
+  return submitMultisigPayout(payout.id, escrow);
+}
+
+/**
+ * Sends a fully co-signed payout and applies the same bookkeeping as a regular task payout.
+ * Only the signer whose request moves the payout to SUBMITTED sends it.
+ */
+async function submitMultisigPayout(payoutId: string, escrow: VaultEscrow) {
+  const submittedAt = new Date();
+  const { count } = await prisma.multisigPayout.updateMany({
+    where: { id: payoutId, status: 'PENDING_SIGNATURES' },
+    data: { status: 'SUBMITTED', submittedAt },
+  });
+  if (count === 0) {
+    logger.info('Multisig payout already submitted by another signer', { payoutId });
+    return prisma.multisigPayout.findUniqueOrThrow({ where: { id: payoutId } });
+  }
+
+  const payout = await prisma.multisigPayout.findUniqueOrThrow({ where: { id: payoutId } });
+  const isTaskPayment = payout.type === 'TASK_PAYMENT' && payout.taskId;
+
+  // Task payouts are recorded before they leave, so the monitor can follow them after a crash
+  let recorded = false;
+  try {
+    await submitSignedTransaction(payout.signedTxn, async ({ txHashes, lastValidRound }) => {
+      if (!isTaskPayment) return;
+      await prisma.blockchainTransaction.create({
+        data: {
+          txHash: txHashes[0],
+          type: 'TASK_PAYMENT',
+          amount: payout.amount,
+          assetId: escrow.assetId,
+          fromAddress: payout.fromAddress,
+          toAddress: payout.toAddress,
+          projectId: payout.projectId,
+          taskId: payout.taskId,
+          status: 'PENDING',
+          note: payout.note,
+          submittedAt,
+          lastValidRound,
+        },
+      });
+      recorded = true;
+    });
+  } catch (error: any) {
+    logger.error('Multisig payout rejected', { payoutId, error: error.message });
+
+    await prisma.multisigPayout.update({
+      where: { id: payoutId },
+      data: { status: 'FAILED', errorMessage: error.message },
+    });
+
+    if (isTaskPayment) {
+      // Detached from the task so the payout can be sent again under a new transaction
+      if (recorded) {
+        await prisma.blockchainTransaction.updateMany({
+          where: { txHash: payout.txId, status: 'PENDING' },
+          data: { status: 'FAILED', errorMessage: error.message, taskId: null },
+        });
+      }
+      await prisma.task.update({ where: { id: payout.taskId! }, data: { paymentStatus: 'FAILED' } });
+      if (payout.paymentId) {
+        await prisma.payment.update({ where: { id: payout.paymentId }, data: { status: 'FAILED' } });
+      }
+      await reverseAllocation(payout.projectId, payout.amount, { taskId: payout.taskId!, reference: payout.paymentId });
+    }
+
+    throw error;
+  }
+
+  let confirmation;
+  try {
+    confirmation = await waitForConfirmation(payout.txId);
+  } catch (error: any) {
+    // monitorPendingTransactions settles the task once it lands
+    logger.error('Multisig payout not confirmed yet', { payoutId, txHash: payout.txId, error: error.message });
+    return prisma.multisigPayout.findUniqueOrThrow({ where: { id: payoutId } });
+  }
+
+  if (!isTaskPayment) {
+    const confirmed = await prisma.multisigPayout.update({
+      where: { id: payoutId },
+      data: { status: 'CONFIRMED', confirmedAt: new Date() },
+    });
+    logger.info('Multisig payout confirmed', { payoutId, txHash: payout.txId, blockNumber: confirmation.blockNumber });
+    return confirmed;
+  }
+
+  // Task payouts settle like queued ones, once deep enough; the monitor finishes shallower ones
+  const depth = await waitForDepth(confirmation.blockNumber);
+  if (depth < PAYMENT_CONFIRMATION_DEPTH) {
+    await prisma.blockchainTransaction.update({
+      where: { txHash: payout.txId },
+      data: { status: 'CONFIRMING', blockNumber: BigInt(confirmation.blockNumber), confirmations: depth },
+    });
+    return prisma.multisigPayout.findUniqueOrThrow({ where: { id: payoutId } });
+  }
+
+  await finalizeTaskPayout(payout.txId, { blockNumber: confirmation.blockNumber, confirmations: depth });
+
+  logger.info('Multisig payout confirmed', { payoutId, txHash: payout.txId, blockNumber: confirmation.blockNumber });
+  return prisma.multisigPayout.findUniqueOrThrow({ where: { id: payoutId } });
+}
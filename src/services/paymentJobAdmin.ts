@@ -0,0 +1,531 @@
+import { Job } from 'bullmq';
+import { prisma } from '../utils/database.js';
+import {
+  paymentQueue,
+  queuePayoutBatch,
+  queueOversightPayments,
+  type PaymentJobData,
+  type OversightJobData,
+  type PayoutBatchJobData,
+} from './paymentQueue.js';
+import { getTransactionStatus, getTransferTransaction, getSettlementAsset } from './algorand.js';
+import { recordAllocation, recordRelease, reverseAllocation } from './escrowLedger.js';
+import winston from 'winston';
+
+const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  transports: [
+    new winston.transports.Console(),
+    new winston.transports.File({ filename: 'payment-job-admin.log' }),
+  ],
+});
+
+export const PAYMENT_JOB_STATES = ['waiting', 'delayed', 'active', 'failed', 'completed'] as const;
+
+export type PaymentJobState = (typeof PAYMENT_JOB_STATES)[number];
+
+type AnyPaymentJob = Job<PaymentJobData | OversightJobData | PayoutBatchJobData>;
+
+export interface PaymentJobActor {
+  id?: string;
+  email?: string;
+}
+
+/**
+ * Thrown when an admin action does not apply to the job as it is; routes answer 4xx
+ */
+export class PaymentJobActionError extends Error {
+  constructor(message: string, public statusCode = 409) {
+    super(message);
+    this.name = 'PaymentJobActionError';
+  }
+}
+
+export function isPaymentJobState(state: string): state is PaymentJobState {
+  return (PAYMENT_JOB_STATES as readonly string[]).includes(state);
+}
+
+// Job data carries the escrow's encrypted key - it never leaves the server
+function publicJobData(data: Record<string, any>) {
+  const { encryptedPrivateKey: _key, ...rest } = data;
+  return rest;
+}
+
+async function describeJob(job: AnyPaymentJob, state?: string) {
+  const data = job.data as Partial<PaymentJobData & OversightJobData>;
+
+  const [task, project, oversight] = await Promise.all([
+    data.taskId
+      ? prisma.task.findUnique({
+          where: { id: data.taskId },
+          select: { id: true, title: true, paymentStatus: true, paymentAmount: true, paymentTxHash: true },
+        })
+      : null,
+    prisma.project.findUnique({
+      where: { id: job.data.projectId },
+      select: { id: true, name: true, ownerId: true },
+    }),
+    data.oversightPaymentId
+      ? prisma.oversightPayment.findUnique({
+          where: { id: data.oversightPaymentId },
+          select: { id: true, status: true, amount: true, userRoleId: true, txHash: true },
+        })
+      : null,
+  ]);
+
+  return {
+    id: job.id,
+    name: job.name,
+    state: state ?? (await job.getState()),
+    data: publicJobData(job.data),
+    attemptsMade: job.attemptsMade,
+    attempts: job.opts.attempts ?? 1,
+    failedReason: job.failedReason || null,
+    returnvalue: job.returnvalue ?? null,
+    createdAt: new Date(job.timestamp),
+    processedAt: job.processedOn ? new Date(job.processedOn) : null,
+    finishedAt: job.finishedOn ? new Date(job.finishedOn) : null,
+    runAt: job.delay ? new Date(job.timestamp + job.delay) : null,
+    task,
+    project,
+    oversight,
+  };
+}
+
+/**
+ * Jobs of the task-payments queue in one state, newest first, with their task and project
+ */
+export async function listPaymentJobs(state: PaymentJobState, page: number, limit: number) {
+  const start = (page - 1) * limit;
+  const [jobs, counts] = await Promise.all([
+    paymentQueue.getJobs([state], start, start + limit - 1, false) as Promise<AnyPaymentJob[]>,
+    paymentQueue.getJobCounts(...PAYMENT_JOB_STATES),
+  ]);
+
+  return {
+    jobs: await Promise.all(jobs.filter(Boolean).map((job) => describeJob(job, state))),
+    counts,
+    total: counts[state] || 0,
+  };
+}
+
+export async function getPaymentJob(jobId: string) {
+  const job = (await paymentQueue.getJob(jobId)) as AnyPaymentJob | undefined;
+
+  const audit = await prisma.paymentJobAudit.findMany({
+    where: { OR: [{ jobId }, { newJobId: jobId }] },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return { job: job ? await describeJob(job) : null, audit };
+}
+
+async function loadJob(jobId: string, allowedStates: string[]) {
+  const job = (await paymentQueue.getJob(jobId)) as AnyPaymentJob | undefined;
+  if (!job) {
+    throw new PaymentJobActionError('Payment job not found', 404);
+  }
+
+  const state = await job.getState();
+  if (!allowedStates.includes(state)) {
+    throw new PaymentJobActionError(`Job is ${state}; expected ${allowedStates.join(' or ')}`);
+  }
+
+  return { job, state };
+}
+
+function audit(
+  job: AnyPaymentJob,
+  entry: {
+    action: 'RETRY' | 'CANCEL' | 'MANUAL_SETTLE';
+    previousState: string;
+    actor: PaymentJobActor;
+    reason?: string;
+    newJobId?: string;
+    txHash?: string;
+    details?: Record<string, any>;
+  }
+) {
+  const data = job.data as Partial<PaymentJobData>;
+
+  return prisma.paymentJobAudit.create({
+    data: {
+      jobId: job.id!,
+      jobName: job.name,
+      action: entry.action,
+      previousState: entry.previousState,
+      newJobId: entry.newJobId,
+      txHash: entry.txHash,
+      reason: entry.reason,
+      actorId: entry.actor.id,
+      actorEmail: entry.actor.email,
+      projectId: job.data.projectId,
+      taskId: data.taskId,
+      details: entry.details,
+    },
+  });
+}
+
+/**
+ * Whether the payout's reservation is still held. Workers set the task (or oversight
+ * cut) to FAILED on every failed attempt but only hand the reservation back on the
+ * last one, which is the attempt that leaves the job in the failed state.
+ */
+async function reservationHeld(job: AnyPaymentJob, state: string) {
+  if (job.name === 'process-payment') {
+    const task = await prisma.task.findUnique({
+      where: { id: (job.data as PaymentJobData).taskId },
+      select: { paymentStatus: true },
+    });
+    return !(state === 'failed' && task?.paymentStatus === 'FAILED');
+  }
+
+  const oversight = await prisma.oversightPayment.findUnique({
+    where: { id: (job.data as OversightJobData).oversightPaymentId },
+    select: { status: true },
+  });
+  return !(state === 'failed' && oversight?.status === 'FAILED');
+}
+
+async function assertNotPaid(job: AnyPaymentJob) {
+  if (job.name === 'process-payment') {
+    const task = await prisma.task.findUnique({
+      where: { id: (job.data as PaymentJobData).taskId },
+      select: { paymentStatus: true },
+    });
+    if (!task) throw new PaymentJobActionError('Task no longer exists', 410);
+    if (task.paymentStatus === 'PAID') throw new PaymentJobActionError('Task is already paid');
+  }
+
+  if (job.name === 'process-oversight-payment') {
+    const oversight = await prisma.oversightPayment.findUnique({
+      where: { id: (job.data as OversightJobData).oversightPaymentId },
+      select: { status: true },
+    });
+    if (!oversight) throw new PaymentJobActionError('Oversight payment no longer exists', 410);
+    if (oversight.status === 'PAID') throw new PaymentJobActionError('Oversight payment is already paid');
+  }
+}
+
+/**
+ * A payout whose transaction is pending, confirming or confirmed may still pay out
+ * (or already has); it is left to the confirmation monitor, not sent again.
+ */
+async function assertNoLiveTransaction(job: AnyPaymentJob) {
+  let recorded;
+  if (job.name === 'process-payment') {
+    recorded = await prisma.blockchainTransaction.findUnique({
+      where: { taskId: (job.data as PaymentJobData).taskId },
+    });
+  } else {
+    const oversight = await prisma.oversightPayment.findUnique({
+      where: { id: (job.data as OversightJobData).oversightPaymentId },
+      select: { txHash: true },
+    });
+    recorded = oversight?.txHash
+      ? await prisma.blockchainTransaction.findUnique({ where: { txHash: oversight.txHash } })
+      : null;
+  }
+
+  if (recorded && recorded.status !== 'FAILED') {
+    throw new PaymentJobActionError(`Payout already has transaction ${recorded.txHash} (${recorded.status})`);
+  }
+}
+
+/**
+ * Queues a failed job again with a full set of attempts. The escrow key is read
+ * afresh and a reservation the last attempt handed back is taken again.
+ */
+export async function retryPaymentJob(jobId: string, actor: PaymentJobActor, reason?: string) {
+  const { job, state } = await loadJob(jobId, ['failed']);
+  const { projectId } = job.data;
+
+  if (job.name === 'process-payout-batch') {
+    await job.remove();
+    const newJobId = await queuePayoutBatch(projectId);
+    await audit(job, { action: 'RETRY', previousState: state, actor, reason, newJobId });
+    logger.info('Payout batch retried', { jobId, newJobId, actor });
+    return { newJobId };
+  }
+
+  await assertNotPaid(job);
+  await assertNoLiveTransaction(job);
+
+  const escrow = await prisma.projectEscrow.findUnique({ where: { projectId } });
+  if (!escrow) throw new PaymentJobActionError('Project escrow not found', 410);
+  if (escrow.status === 'CLOSED') throw new PaymentJobActionError('Project escrow is closed');
+
+  const reallocate = !(await reservationHeld(job, state));
+  const data = { ...job.data, escrowAddress: escrow.escrowAddress, encryptedPrivateKey: escrow.encryptedPrivateKey };
+
+  // Oversight jobs are keyed by their cut, so the failed job goes before the id is reused
+  await job.remove();
+  const retried = await paymentQueue.add(job.name, data, {
+    jobId: job.name === 'process-oversight-payment' ? job.id : undefined,
+    attempts: job.opts.attempts ?? 3,
+    backoff: job.opts.backoff ?? { type: 'exponential', delay: 5000 },
+    removeOnComplete: false,
+    removeOnFail: false,
+  });
+
+  if (job.name === 'process-payment') {
+    const { taskId, paymentId, amount } = job.data as PaymentJobData;
+    await prisma.task.update({ where: { id: taskId }, data: { paymentStatus: 'ALLOCATED' } });
+    if (paymentId) {
+      await prisma.payment.update({ where: { id: paymentId }, data: { status: 'ALLOCATED', jobId: retried.id } });
+    }
+    if (reallocate) {
+      await recordAllocation(projectId, amount, { taskId, reference: paymentId, memo: 'Task payment retry' });
+    }
+  } else {
+    const { oversightPaymentId, taskId, amount } = job.data as OversightJobData;
+    await prisma.oversightPayment.update({
+      where: { id: oversightPaymentId },
+      data: { status: 'ALLOCATED', errorMessage: null, jobId: retried.id },
+    });
+    if (reallocate) {
+      await prisma.project.update({ where: { id: projectId }, data: { allocatedFunds: { increment: amount } } });
+      await recordAllocation(projectId, amount, { taskId, reference: oversightPaymentId, memo: 'Oversight cut retry' });
+    }
+  }
+
+  await audit(job, {
+    action: 'RETRY',
+    previousState: state,
+    actor,
+    reason,
+    newJobId: retried.id,
+    details: { failedReason: job.failedReason, attemptsMade: job.attemptsMade, reallocated: reallocate },
+  });
+
+  logger.info('Payment job retried', { jobId, newJobId: retried.id, actor });
+  return { newJobId: retried.id };
+}
+
+/**
+ * Removes a job that is not running and hands its reservation back to the escrow.
+ * Cancelling a batch run only drops the run; its payouts stay ALLOCATED.
+ */
+export async function cancelPaymentJob(jobId: string, actor: PaymentJobActor, reason?: string) {
+  const { job, state } = await loadJob(jobId, ['waiting', 'delayed', 'failed']);
+  const { projectId } = job.data;
+
+  if (job.name !== 'process-payout-batch') {
+    await assertNotPaid(job);
+    await assertNoLiveTransaction(job);
+  }
+
+  const released = job.name !== 'process-payout-batch' && (await reservationHeld(job, state));
+  await job.remove();
+
+  if (job.name === 'process-payment') {
+    const { taskId, paymentId, amount } = job.data as PaymentJobData;
+    await prisma.task.update({ where: { id: taskId }, data: { paymentStatus: 'FAILED' } });
+    if (paymentId) {
+      await prisma.payment.update({ where: { id: paymentId }, data: { status: 'FAILED' } });
+    }
+    if (released) {
+      await reverseAllocation(projectId, amount, { taskId, reference: paymentId });
+    }
+  }
+
+  if (job.name === 'process-oversight-payment') {
+    const { oversightPaymentId, taskId, amount } = job.data as OversightJobData;
+    await prisma.oversightPayment.update({
+      where: { id: oversightPaymentId },
+      data: { status: 'FAILED', errorMessage: 'Cancelled by admin' },
+    });
+    if (released) {
+      await prisma.project.update({ where: { id: projectId }, data: { allocatedFunds: { decrement: amount } } });
+      await reverseAllocation(projectId, amount, { taskId, reference: oversightPaymentId });
+    }
+  }
+
+  await audit(job, { action: 'CANCEL', previousState: state, actor, reason, details: { reservationReleased: released } });
+
+  logger.info('Payment job cancelled by admin', { jobId, actor });
+  return { cancelled: true, reservationReleased: released };
+}
+
+/**
+ * Records a payout that was made outside the queue. The transaction has to be
+ * confirmed on-chain and move the payout's amount and asset from the project escrow
+ * (or its multisig vault) to the payee; it is booked as a release from the escrow.
+ */
+export async function settlePaymentJobManually(jobId: string, txHash: string, actor: PaymentJobActor, reason?: string) {
+  const { job, state } = await loadJob(jobId, ['waiting', 'delayed', 'failed']);
+  const { projectId } = job.data;
+
+  if (job.name === 'process-payout-batch') {
+    throw new PaymentJobActionError('Batch runs cover several payouts; settle their payment jobs instead', 400);
+  }
+
+  await assertNotPaid(job);
+
+  const isTaskPayment = job.name === 'process-payment';
+  const data = job.data as PaymentJobData & OversightJobData;
+
+  // A recorded transaction may only be settled against the payout it was sent for
+  const existing = await prisma.blockchainTransaction.findUnique({ where: { txHash } });
+  if (existing) {
+    const oversight = isTaskPayment
+      ? null
+      : await prisma.oversightPayment.findUnique({ where: { id: data.oversightPaymentId }, select: { txHash: true } });
+    const samePayout = isTaskPayment
+      ? existing.type === 'TASK_PAYMENT' && existing.taskId === data.taskId
+      : existing.type === 'OVERSIGHT_PAYMENT' && oversight?.txHash === txHash;
+    if (!samePayout) {
+      throw new PaymentJobActionError('Transaction is already recorded for another payout');
+    }
+  }
+
+  if (isTaskPayment && !existing) {
+    const recorded = await prisma.blockchainTransaction.findUnique({ where: { taskId: data.taskId } });
+    if (recorded && recorded.status !== 'FAILED') {
+      throw new PaymentJobActionError(`Task already has transaction ${recorded.txHash} (${recorded.status})`);
+    }
+  }
+
+  const status = await getTransactionStatus(txHash);
+  if (!status.confirmed) {
+    throw new PaymentJobActionError('Transaction is not confirmed on-chain', 400);
+  }
+
+  const escrow = await prisma.projectEscrow.findUnique({ where: { projectId } });
+  if (!escrow) throw new PaymentJobActionError('Project escrow not found', 410);
+
+  // The transfer has to be this payout: from the escrow or its vault, to the payee, in full
+  const transfer = await getTransferTransaction(txHash);
+  if (!transfer) {
+    throw new PaymentJobActionError('Transaction is not an asset transfer known to the indexer', 400);
+  }
+
+  const asset = getSettlementAsset(escrow.assetId);
+  const receiver = isTaskPayment ? data.employeeWalletAddress : data.managerWalletAddress;
+  if (transfer.fromAddress !== escrow.escrowAddress && transfer.fromAddress !== escrow.multisigAddress) {
+    throw new PaymentJobActionError('Transaction was not sent from the project escrow', 400);
+  }
+  if (transfer.toAddress !== receiver) {
+    throw new PaymentJobActionError(`Transaction receiver does not match the payee wallet ${receiver}`, 400);
+  }
+  if (transfer.assetId !== asset.assetId) {
+    throw new PaymentJobActionError(`Transaction is not a ${asset.code} transfer`, 400);
+  }
+  if (Math.abs(transfer.amount - data.amount) >= 0.5 / Math.pow(10, asset.decimals)) {
+    throw new PaymentJobActionError(`Transaction amount ${transfer.amount} ${asset.code} does not match the payout of ${data.amount}`, 400);
+  }
+
+  const fromAllocated = await reservationHeld(job, state);
+  await job.remove();
+
+  const paidAt = new Date();
+  const note = isTaskPayment ? `Task payment: ${data.taskId}` : `Oversight payment: ${data.taskId}`;
+
+  await prisma.blockchainTransaction.upsert({
+    where: { txHash },
+    create: {
+      txHash,
+      type: isTaskPayment ? 'TASK_PAYMENT' : 'OVERSIGHT_PAYMENT',
+      amount: data.amount,
+      assetId: escrow.assetId,
+      fee: transfer.fee,
+      fromAddress: transfer.fromAddress,
+      toAddress: receiver,
+      projectId,
+      taskId: isTaskPayment ? data.taskId : undefined,
+      status: 'CONFIRMED',
+      blockNumber: status.blockNumber,
+      confirmations: status.confirmations,
+      note: `${note} (settled manually)`,
+      submittedAt: paidAt,
+      confirmedAt: paidAt,
+    },
+    update: {
+      status: 'CONFIRMED',
+      blockNumber: status.blockNumber,
+      confirmations: status.confirmations,
+      confirmedAt: paidAt,
+      errorMessage: null,
+    },
+  });
+
+  if (isTaskPayment) {
+    await prisma.task.update({
+      where: { id: data.taskId },
+      data: { paymentStatus: 'PAID', paymentTxHash: txHash, paidAt },
+    });
+    if (data.paymentId) {
+      await prisma.payment.update({ where: { id: data.paymentId }, data: { status: 'PAID', releasedAt: paidAt } });
+    }
+    await prisma.project.update({ where: { id: projectId }, data: { releasedFunds: { increment: data.amount } } });
+  } else {
+    await prisma.oversightPayment.update({
+      where: { id: data.oversightPaymentId },
+      data: { status: 'PAID', txHash, paidAt, errorMessage: null },
+    });
+    await prisma.project.update({
+      where: { id: projectId },
+      data: {
+        ...(fromAllocated ? { allocatedFunds: { decrement: data.amount } } : {}),
+        releasedFunds: { increment: data.amount },
+      },
+    });
+  }
+
+  await recordRelease(projectId, data.amount, {
+    txHash,
+    fee: transfer.fee,
+    taskId: data.taskId,
+    reference: isTaskPayment ? data.paymentId : data.oversightPaymentId,
+    fromAllocated,
+    memo: `${note} (settled manually)`,
+  });
+
+  await audit(job, {
+    action: 'MANUAL_SETTLE',
+    previousState: state,
+    actor,
+    reason,
+    txHash,
+    details: { amount: data.amount, blockNumber: status.blockNumber?.toString(), fromAllocated },
+  });
+
+  logger.info('Payment job settled manually', { jobId, txHash, actor });
+
+  // Same as a queued payout: managers get their cut once the task is paid
+  if (isTaskPayment) {
+    try {
+      await queueOversightPayments(data.taskId, projectId, data.amount, escrow.escrowAddress, escrow.encryptedPrivateKey);
+    } catch (error: any) {
+      logger.error('Error queueing oversight payments', { taskId: data.taskId, error: error.message });
+    }
+  }
+
+  return { settled: true, txHash, blockNumber: status.blockNumber?.toString() };
+}
+
+/**
+ * Audit records, newest first
+ */
+export async function listPaymentJobAudit(filters: { jobId?: string; projectId?: string; action?: string }, page: number, limit: number) {
+  const where: any = {};
+  if (filters.jobId) where.OR = [{ jobId: filters.jobId }, { newJobId: filters.jobId }];
+  if (filters.projectId) where.projectId = filters.projectId;
+  if (filters.action) where.action = filters.action;
+
+  const [records, total] = await Promise.all([
+    prisma.paymentJobAudit.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.paymentJobAudit.count({ where }),
+  ]);
+
+  return { records, total };
+}
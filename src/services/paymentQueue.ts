@@ -1,7 +1,21 @@
-import { Queue, Worker, Job } from 'bullmq';
+import { Queue, Worker, Job, DelayedError, UnrecoverableError } from 'bullmq';
+import type { BlockchainTransaction, OversightPayment } from '@prisma/client';
 import { createClient } from 'redis';
 import { prisma } from '../utils/database.js';
-import { createPaymentTransaction, waitForConfirmation, getTransactionStatus } from './algorand.js';
+import {
+  createPaymentTransaction,
+  createBatchPaymentTransaction,
+  waitForConfirmation,
+  getTransactionStatus,
+  getCurrentRound,
+  getEscrowBalance,
+  getSettlementAsset,
+  isOptedInToAsset,
+  MAX_ATOMIC_GROUP_SIZE,
+} from './algorand.js';
+import { recordAllocation, recordRelease, recordOwnerRefund, reverseAllocation } from './escrowLedger.js';
+import { requiresCoSigning, requestMultisigPayout } from './multisigEscrow.js';
+import { settleMilestonePayout } from './milestoneProcessor.js';
 import winston from 'winston';
 
 // Setup logger
@@ -25,22 +39,40 @@ const connection = createClient({ url: redisUrl });
 // Create payment processing queue
 export const paymentQueue = new Queue('task-payments', { connection: connection as any });
 
+// How long a job waits before re-checking a frozen escrow
+const FROZEN_ESCROW_RECHECK_MS = parseInt(process.env.FROZEN_ESCROW_RECHECK_MS || '900000', 10);
+
+// Batch mode collects approved payouts per escrow and sends them as atomic groups
+export const PAYOUT_BATCH_MODE = process.env.PAYOUT_BATCH_MODE === 'true';
+const PAYOUT_BATCH_WINDOW_MS = parseInt(process.env.PAYOUT_BATCH_WINDOW_MS || '60000', 10);
+
+// Rounds a payout has to be buried under (its own included) before the task counts as PAID
+export const PAYMENT_CONFIRMATION_DEPTH = Math.max(parseInt(process.env.PAYMENT_CONFIRMATION_DEPTH || '3', 10), 1);
+
+// Times a lost task payout is queued again before it fails for good
+const PAYOUT_MAX_RESUBMISSIONS = parseInt(process.env.PAYOUT_MAX_RESUBMISSIONS || '2', 10);
+
+// Rows from before lastValidRound was recorded are flagged for manual handling once this old and nowhere on-chain
+const UNTRACKED_TX_TIMEOUT_MS = 60 * 60 * 1000;
+
 // Job data interface
-interface PaymentJobData {
+export interface PaymentJobData {
   taskId: string;
   projectId: string;
   employeeWalletAddress: string;
   amount: number;
   escrowAddress: string;
   encryptedPrivateKey: string;
+  paymentId?: string;
 }
 
 /**
- * Adds a payment job to the queue
+ * Adds a payment job to the queue. A delay holds the payout for the dispute window.
  */
-export async function queuePayment(data: PaymentJobData) {
+export async function queuePayment(data: PaymentJobData, options: { delay?: number } = {}) {
   try {
     const job = await paymentQueue.add('process-payment', data, {
+      delay: options.delay,
       attempts: 3,
       backoff: {
         type: 'exponential',
@@ -58,31 +90,773 @@ export async function queuePayment(data: PaymentJobData) {
   }
 }
 
+/**
+ * Oversight job data - a manager's cut of a settled task payout
+ */
+export interface OversightJobData {
+  oversightPaymentId: string;
+  taskId: string;
+  projectId: string;
+  managerWalletAddress: string;
+  amount: number;
+  escrowAddress: string;
+  encryptedPrivateKey: string;
+}
+
+/**
+ * Queues the oversight cut for every manager of the task's department whose
+ * payment config is OVERSIGHT or HYBRID. Each cut is reserved against
+ * Project.allocatedFunds until its own job settles.
+ */
+export async function queueOversightPayments(
+  taskId: string,
+  projectId: string,
+  taskAmount: number,
+  escrowAddress: string,
+  encryptedPrivateKey: string
+) {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    select: {
+      employeeId: true,
+      department: {
+        select: {
+          managers: {
+            where: { status: 'ACTIVE' },
+            include: {
+              paymentConfig: true,
+              user: {
+                select: {
+                  id: true,
+                  walletAddress: true,
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!task) return [];
+
+  const queued: Array<{ oversightPaymentId: string; userRoleId: string; amount: number; jobId: string }> = [];
+
+  for (const manager of task.department.managers) {
+    const config = manager.paymentConfig;
+    if (!config || !config.active || !config.oversightRate) continue;
+    if (config.paymentType !== 'OVERSIGHT' && config.paymentType !== 'HYBRID') continue;
+
+    // Managers don't earn oversight on their own task
+    if (manager.userId === task.employeeId) continue;
+
+    if (!manager.user.walletAddress) {
+      logger.warn('Manager has no wallet address, skipping oversight payment', { taskId, userRoleId: manager.id });
+      continue;
+    }
+
+    // SIZCOIN has 2 decimals - round down so the cut never exceeds the rate
+    const rate = config.oversightRate;
+    const amount = Math.floor(taskAmount * rate * 100) / 100;
+    if (amount <= 0) continue;
+
+    let oversight;
+    try {
+      // The cut and its reservation land together, so an existing cut is always reserved
+      oversight = await prisma.$transaction(async (tx) => {
+        const created = await tx.oversightPayment.create({
+          data: {
+            taskId,
+            userRoleId: manager.id,
+            projectId,
+            rate,
+            baseAmount: taskAmount,
+            amount,
+          },
+        });
+
+        await tx.project.update({
+          where: { id: projectId },
+          data: {
+            allocatedFunds: {
+              increment: amount,
+            },
+          },
+        });
+
+        return created;
+      });
+
+      await recordAllocation(projectId, amount, { taskId, reference: oversight.id, memo: 'Oversight cut' });
+    } catch (error: any) {
+      if (error?.code !== 'P2002') throw error;
+
+      // Reserved by an earlier attempt of this task job, which may have stopped before
+      // queueing it; the job id is stable, so a cut already queued is not added twice
+      oversight = await prisma.oversightPayment.findUnique({
+        where: { taskId_userRoleId: { taskId, userRoleId: manager.id } },
+      });
+      if (!oversight || oversight.status !== 'ALLOCATED') continue;
+    }
+
+    const jobId = `oversight-${oversight.id}`;
+    await paymentQueue.add('process-oversight-payment', {
+      oversightPaymentId: oversight.id,
+      taskId,
+      projectId,
+      managerWalletAddress: manager.user.walletAddress,
+      amount: oversight.amount,
+      escrowAddress,
+      encryptedPrivateKey,
+    } satisfies OversightJobData, {
+      jobId,
+      attempts: 3,
+      backoff: {
+        type: 'exponential',
+        delay: 5000,
+      },
+      removeOnComplete: false,
+      removeOnFail: false,
+    });
+
+    await prisma.oversightPayment.update({
+      where: { id: oversight.id },
+      data: { jobId },
+    });
+
+    logger.info('Oversight payment queued', { jobId, taskId, userRoleId: manager.id, amount: oversight.amount });
+    queued.push({ oversightPaymentId: oversight.id, userRoleId: manager.id, amount: oversight.amount, jobId });
+  }
+
+  return queued;
+}
+
+/**
+ * Batch payout job data - every due task payout of one project escrow
+ */
+export interface PayoutBatchJobData {
+  projectId: string;
+}
+
+/**
+ * Schedules a batch payout run for a project's escrow. Runs are bucketed by
+ * PAYOUT_BATCH_WINDOW_MS, so approvals made close together share a single run.
+ */
+export async function queuePayoutBatch(projectId: string, notBefore: Date = new Date()) {
+  const runAt = Math.ceil((notBefore.getTime() + 1) / PAYOUT_BATCH_WINDOW_MS) * PAYOUT_BATCH_WINDOW_MS;
+  const jobId = `payout-batch-${projectId}-${runAt}`;
+
+  await paymentQueue.add('process-payout-batch', { projectId } satisfies PayoutBatchJobData, {
+    jobId,
+    delay: Math.max(runAt - Date.now(), 0),
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 5000,
+    },
+    removeOnComplete: false,
+    removeOnFail: false,
+  });
+
+  logger.info('Payout batch queued', { jobId, projectId, runAt: new Date(runAt).toISOString() });
+  return jobId;
+}
+
+type BatchPayment = {
+  id: string;
+  taskId: string;
+  amount: number;
+  walletAddress: string;
+};
+
+/**
+ * Claims one group of task payouts for a batch run, sends them as an atomic group and
+ * records a BlockchainTransaction per leg before the group leaves
+ */
+async function settlePaymentGroup(
+  projectId: string,
+  escrow: { escrowAddress: string; encryptedPrivateKey: string; assetId: bigint },
+  candidates: BatchPayment[],
+  batchId: string,
+  finalAttempt: boolean
+) {
+  // Only payouts still ALLOCATED are taken; one another run or job got to first is left to it
+  await prisma.payment.updateMany({
+    where: { id: { in: candidates.map((p) => p.id) }, status: 'ALLOCATED' },
+    data: { status: 'PROCESSING', jobId: batchId },
+  });
+  const claimed = await prisma.payment.findMany({
+    where: { id: { in: candidates.map((p) => p.id) }, status: 'PROCESSING', jobId: batchId },
+    select: { id: true },
+  });
+  const claimedIds = new Set(claimed.map((p) => p.id));
+  const group = candidates.filter((p) => claimedIds.has(p.id));
+
+  const taskIds = group.map((p) => p.taskId);
+  const paymentIds = group.map((p) => p.id);
+  const total = group.reduce((sum, p) => sum + p.amount, 0);
+
+  if (group.length < candidates.length) {
+    logger.warn('Payouts taken by another run, leaving them out of the group', { projectId, batchId, skipped: candidates.length - group.length });
+  }
+  if (group.length === 0) {
+    return { taskIds };
+  }
+
+  await prisma.task.updateMany({ where: { id: { in: taskIds } }, data: { paymentStatus: 'PROCESSING' } });
+
+  let recorded = false;
+  let batch: Awaited<ReturnType<typeof createBatchPaymentTransaction>>;
+  try {
+    const balance = await getEscrowBalance(escrow.escrowAddress, escrow.assetId);
+    if (balance < total) {
+      throw new Error(`Insufficient balance. Need ${total}, have ${balance}`);
+    }
+
+    batch = await createBatchPaymentTransaction(
+      escrow.escrowAddress,
+      escrow.encryptedPrivateKey,
+      group.map((p) => ({ toAddress: p.walletAddress, amount: p.amount, note: `Task payment: ${p.taskId}` })),
+      escrow.assetId,
+      async ({ txHashes, lastValidRound }) => {
+        const submittedAt = new Date();
+        await prisma.blockchainTransaction.createMany({
+          data: group.map((p, index) => ({
+            txHash: txHashes[index],
+            type: 'TASK_PAYMENT',
+            amount: p.amount,
+            assetId: escrow.assetId,
+            fromAddress: escrow.escrowAddress,
+            toAddress: p.walletAddress,
+            projectId,
+            taskId: p.taskId,
+            status: 'PENDING',
+            note: `Task payment: ${p.taskId}`,
+            submittedAt,
+            lastValidRound,
+          })),
+        });
+        recorded = true;
+      }
+    );
+  } catch (error: any) {
+    // Recorded legs may have gone out - monitorPendingTransactions settles or recovers them
+    if (recorded) {
+      logger.error('Payout group bookkeeping failed after it was recorded', { projectId, taskIds, error: error.message });
+      return { taskIds, error: error.message, submitted: true };
+    }
+
+    // Nothing reached the chain - hand the payouts back for the retry, or fail them for good
+    logger.error('Payout group failed before submission', { projectId, taskIds, error: error.message });
+
+    const status = finalAttempt ? 'FAILED' : 'ALLOCATED';
+    await prisma.task.updateMany({ where: { id: { in: taskIds } }, data: { paymentStatus: status } });
+    await prisma.payment.updateMany({ where: { id: { in: paymentIds } }, data: { status } });
+
+    if (finalAttempt) {
+      for (const p of group) {
+        await reverseAllocation(projectId, p.amount, { taskId: p.taskId, reference: p.id });
+      }
+    }
+
+    return { taskIds, error: error.message };
+  }
+
+  await prisma.blockchainTransaction.updateMany({
+    where: { txHash: { in: batch.legs.map((leg) => leg.txHash) } },
+    data: { groupId: batch.groupId, fee: batch.legs[0].fee },
+  });
+
+  logger.info('Payout group submitted', { projectId, groupId: batch.groupId, legs: batch.legs.length, total });
+
+  let confirmation;
+  try {
+    // Legs of a group confirm in the same round, one wait covers all of them
+    confirmation = await waitForConfirmation(batch.legs[0].txHash);
+  } catch (error: any) {
+    // The group may still land; monitorPendingTransactions settles the PENDING legs
+    logger.error('Payout group not confirmed yet', { projectId, groupId: batch.groupId, error: error.message });
+    return { taskIds, groupId: batch.groupId, error: error.message };
+  }
+
+  const depth = await waitForDepth(confirmation.blockNumber);
+  if (depth < PAYMENT_CONFIRMATION_DEPTH) {
+    await prisma.blockchainTransaction.updateMany({
+      where: { groupId: batch.groupId },
+      data: { status: 'CONFIRMING', blockNumber: BigInt(confirmation.blockNumber), confirmations: depth },
+    });
+    return { taskIds, groupId: batch.groupId, confirming: true };
+  }
+
+  for (const leg of batch.legs) {
+    await finalizeTaskPayout(leg.txHash, { blockNumber: confirmation.blockNumber, confirmations: depth });
+  }
+
+  return { taskIds, groupId: batch.groupId };
+}
+
+/**
+ * Process batch payout jobs: every due, undisputed payout of the escrow in groups of 16
+ */
+async function processPayoutBatch(job: Job<PayoutBatchJobData>) {
+  const { projectId } = job.data;
+
+  const escrow = await prisma.projectEscrow.findUnique({ where: { projectId } });
+  if (!escrow) {
+    throw new UnrecoverableError(`Escrow for project ${projectId} not found`);
+  }
+
+  // Claims of an earlier attempt of this run that stopped before recording its group go back
+  const batchId = job.id!;
+  const stale = await prisma.payment.findMany({
+    where: { status: 'PROCESSING', jobId: batchId, task: { blockchainPayment: null } },
+    select: { id: true, taskId: true },
+  });
+  if (stale.length > 0) {
+    await prisma.task.updateMany({ where: { id: { in: stale.map((p) => p.taskId) } }, data: { paymentStatus: 'ALLOCATED' } });
+    await prisma.payment.updateMany({ where: { id: { in: stale.map((p) => p.id) } }, data: { status: 'ALLOCATED' } });
+  }
+
+  const payments = await prisma.payment.findMany({
+    where: {
+      status: 'ALLOCATED',
+      holdUntil: { lte: new Date() },
+      task: { department: { projectId } },
+      disputes: { none: { status: { in: ['OPEN', 'UNDER_REVIEW'] } } },
+    },
+    include: {
+      payee: { select: { walletAddress: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const payable: BatchPayment[] = [];
+  const deferred: string[] = [];
+  for (const payment of payments) {
+    if (!payment.payee.walletAddress) {
+      logger.warn('Payee has no wallet address, leaving payout allocated', { paymentId: payment.id });
+      continue;
+    }
+
+    // Large payouts leave the batch and wait for co-signers on the multisig vault
+    if (requiresCoSigning(escrow, payment.amount)) {
+      try {
+        await requestMultisigPayout({
+          projectId,
+          type: 'TASK_PAYMENT',
+          toAddress: payment.payee.walletAddress,
+          amount: payment.amount,
+          taskId: payment.taskId,
+          paymentId: payment.id,
+          note: `Task payment: ${payment.taskId}`,
+        });
+      } catch (error: any) {
+        logger.error('Error requesting multisig payout', { paymentId: payment.id, error: error.message });
+      }
+      continue;
+    }
+
+    // One payee without opt-in would reject the whole group; their payout waits for a later run
+    if (!(await isOptedInToAsset(payment.payee.walletAddress, escrow.assetId))) {
+      logger.warn('Payee has not opted in to the settlement asset, leaving payout allocated', { paymentId: payment.id });
+      deferred.push(payment.id);
+      continue;
+    }
+
+    payable.push({
+      id: payment.id,
+      taskId: payment.taskId,
+      amount: payment.amount,
+      walletAddress: payment.payee.walletAddress,
+    });
+  }
+
+  logger.info('Processing payout batch', { projectId, payouts: payable.length });
+
+  const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+  const groups = [];
+  for (let i = 0; i < payable.length; i += MAX_ATOMIC_GROUP_SIZE) {
+    groups.push(await settlePaymentGroup(projectId, escrow, payable.slice(i, i + MAX_ATOMIC_GROUP_SIZE), batchId, finalAttempt));
+  }
+
+  // Groups that never reached the chain are back to ALLOCATED - let BullMQ retry them
+  const unsent = groups.filter((g) => g.error && !g.groupId && !g.submitted);
+  if (unsent.length > 0 && !finalAttempt) {
+    throw new Error(`${unsent.length} payout group(s) failed: ${unsent.map((g) => g.error).join('; ')}`);
+  }
+
+  return {
+    success: groups.every((g) => !g.error),
+    groups,
+    deferred,
+  };
+}
+
+/**
+ * Process oversight payment jobs. A cut that already has a transaction is never sent
+ * again: it is settled once confirmed, and monitorPendingTransactions follows it otherwise.
+ */
+async function processOversightPayment(job: Job<OversightJobData>, assetId?: bigint) {
+  const { oversightPaymentId, taskId, projectId, managerWalletAddress, amount, escrowAddress, encryptedPrivateKey } = job.data;
+
+  const oversight = await prisma.oversightPayment.findUnique({
+    where: { id: oversightPaymentId },
+  });
+
+  if (!oversight) {
+    throw new Error(`Oversight payment ${oversightPaymentId} not found`);
+  }
+
+  if (oversight.status === 'PAID') {
+    return { success: true, txHash: oversight.txHash };
+  }
+
+  if (oversight.txHash) {
+    const recorded = await prisma.blockchainTransaction.findUnique({ where: { txHash: oversight.txHash } });
+
+    // Lost on-chain: recoverLostTransaction already failed the cut and released its reservation
+    if (recorded?.status === 'FAILED') {
+      logger.warn('Oversight transaction was lost, not sending again', { oversightPaymentId, txHash: oversight.txHash });
+      return { success: false, txHash: oversight.txHash };
+    }
+
+    logger.warn('Oversight payment already submitted, not sending again', { oversightPaymentId, txHash: oversight.txHash });
+    if (!recorded || recorded.status === 'CONFIRMED') {
+      return { success: true, pending: !recorded, txHash: oversight.txHash };
+    }
+    const tracked = await trackTransaction(recorded, await getCurrentRound());
+    return { success: true, pending: tracked.status !== 'CONFIRMED', txHash: oversight.txHash, status: tracked.status };
+  }
+
+  logger.info('Processing oversight payment', { oversightPaymentId, taskId, amount, to: managerWalletAddress });
+
+  let submittedTxHash: string | undefined;
+  try {
+    await prisma.oversightPayment.update({
+      where: { id: oversightPaymentId },
+      data: { status: 'PROCESSING' },
+    });
+
+    // Record the transaction before it leaves so a retry can tell it may be on-chain
+    const note = `Oversight payment: ${taskId}`;
+    const txResult = await createPaymentTransaction(
+      escrowAddress,
+      encryptedPrivateKey,
+      managerWalletAddress,
+      amount,
+      note,
+      assetId,
+      async ({ txHashes, lastValidRound }) => {
+        await prisma.blockchainTransaction.create({
+          data: {
+            txHash: txHashes[0],
+            type: 'OVERSIGHT_PAYMENT',
+            amount,
+            assetId: getSettlementAsset(assetId).assetId,
+            fromAddress: escrowAddress,
+            toAddress: managerWalletAddress,
+            projectId,
+            status: 'PENDING',
+            note,
+            submittedAt: new Date(),
+            lastValidRound,
+          },
+        });
+        await prisma.oversightPayment.update({
+          where: { id: oversightPaymentId },
+          data: { txHash: txHashes[0] },
+        });
+        submittedTxHash = txHashes[0];
+      }
+    );
+
+    await prisma.blockchainTransaction.update({
+      where: { txHash: txResult.txHash },
+      data: { fee: txResult.fee },
+    });
+
+    let confirmation;
+    try {
+      confirmation = await waitForConfirmation(txResult.txHash);
+    } catch (error: any) {
+      // Sent but not seen yet - monitorPendingTransactions settles it, or fails it once it can no longer land
+      logger.warn('Oversight payment not confirmed yet', { oversightPaymentId, txHash: txResult.txHash, error: error.message });
+      return { success: true, pending: true, txHash: txResult.txHash };
+    }
+
+    // Settled like task payouts, once deep enough; the monitor finishes shallower ones
+    const depth = await waitForDepth(confirmation.blockNumber);
+    if (depth < PAYMENT_CONFIRMATION_DEPTH) {
+      await prisma.blockchainTransaction.update({
+        where: { txHash: txResult.txHash },
+        data: { status: 'CONFIRMING', blockNumber: BigInt(confirmation.blockNumber), confirmations: depth },
+      });
+      return { success: true, confirming: true, txHash: txResult.txHash, blockNumber: confirmation.blockNumber };
+    }
+
+    await finalizeTaskPayout(txResult.txHash, { blockNumber: confirmation.blockNumber, confirmations: depth });
+
+    logger.info('Oversight payment completed successfully', { oversightPaymentId, txHash: txResult.txHash });
+
+    return {
+      success: true,
+      txHash: txResult.txHash,
+      blockNumber: confirmation.blockNumber,
+    };
+  } catch (error: any) {
+    // Once the transfer is recorded it may be out, retrying would pay twice - leave it to the monitor
+    if (submittedTxHash) {
+      logger.error('Oversight bookkeeping failed after submission', { oversightPaymentId, txHash: submittedTxHash, error: error.message });
+      throw new UnrecoverableError(`Oversight payment ${submittedTxHash} was submitted but not recorded: ${error.message}`);
+    }
+
+    logger.error('Oversight payment processing failed', { oversightPaymentId, error: error.message });
+
+    await prisma.oversightPayment.update({
+      where: { id: oversightPaymentId },
+      data: {
+        status: 'FAILED',
+        errorMessage: error.message,
+      },
+    });
+
+    // Release the reservation once BullMQ gives up on the job
+    const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+    if (finalAttempt) {
+      await prisma.project.update({
+        where: { id: projectId },
+        data: {
+          allocatedFunds: {
+            decrement: amount,
+          },
+        },
+      });
+
+      await reverseAllocation(projectId, amount, { taskId, reference: oversightPaymentId });
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Marks an oversight cut PAID once finalizeTaskPayout has confirmed its transaction at
+ * PAYMENT_CONFIRMATION_DEPTH, and moves its reservation from allocated to released.
+ * Only the caller that flips the cut to PAID does the bookkeeping.
+ */
+async function settleOversightPayment(
+  oversight: Pick<OversightPayment, 'id' | 'taskId' | 'projectId' | 'amount'>,
+  txHash: string,
+  fee?: number
+) {
+  const { id: oversightPaymentId, taskId, projectId, amount } = oversight;
+
+  const { count } = await prisma.oversightPayment.updateMany({
+    where: { id: oversightPaymentId, status: { not: 'PAID' } },
+    data: {
+      status: 'PAID',
+      paidAt: new Date(),
+      errorMessage: null,
+    },
+  });
+  if (count === 0) return;
+
+  // Move the reservation from allocated to released
+  await prisma.project.update({
+    where: { id: projectId },
+    data: {
+      allocatedFunds: {
+        decrement: amount,
+      },
+      releasedFunds: {
+        increment: amount,
+      },
+    },
+  });
+
+  await recordRelease(projectId, amount, {
+    txHash,
+    fee,
+    taskId,
+    reference: oversightPaymentId,
+    fromAllocated: true,
+    memo: `Oversight payment: ${taskId}`,
+  });
+}
+
+/**
+ * Removes a payment job that has not started yet (still held or waiting)
+ */
+export async function cancelQueuedPayment(jobId: string) {
+  const job = await paymentQueue.getJob(jobId);
+  // Batch runs are shared by many payouts and skip disputed ones themselves
+  if (!job || job.name !== 'process-payment') return false;
+
+  const state = await job.getState();
+  if (state !== 'delayed' && state !== 'waiting') return false;
+
+  await job.remove();
+  logger.info('Payment job cancelled', { jobId, taskId: job.data?.taskId });
+  return true;
+}
+
+// Set on jobs the worker parked for a frozen escrow, so unfreezing promotes only those
+type QueuedJobData = (PaymentJobData | OversightJobData | PayoutBatchJobData) & { parkedByFreeze?: boolean };
+
+/**
+ * Promotes payment jobs that were parked while a project's escrow was frozen.
+ * Jobs delayed for their dispute window stay where they are.
+ */
+export async function releaseFrozenPayments(projectId: string) {
+  const delayed: Job<QueuedJobData>[] = await paymentQueue.getDelayed();
+  let released = 0;
+
+  for (const job of delayed) {
+    if (job.data?.projectId !== projectId || !job.data.parkedByFreeze) continue;
+    await job.promote();
+    released++;
+  }
+
+  logger.info('Released frozen payment jobs', { projectId, released });
+  return released;
+}
+
 /**
  * Process payment jobs
  */
-const paymentWorker = new Worker<PaymentJobData>(
+const paymentWorker = new Worker<QueuedJobData>(
   'task-payments',
-  async (job: Job<PaymentJobData>) => {
-    const { taskId, projectId, employeeWalletAddress, amount, escrowAddress, encryptedPrivateKey } = job.data;
+  async (job: Job<QueuedJobData>, token?: string) => {
+    // Frozen escrows park the job untouched; closed escrows can never pay out
+    const escrow = await prisma.projectEscrow.findUnique({
+      where: { projectId: job.data.projectId },
+      select: { status: true, multisigAddress: true, coSignAmount: true, assetId: true },
+    });
+
+    if (escrow?.status === 'FROZEN') {
+      logger.warn('Escrow frozen, delaying payment job', { jobId: job.id, projectId: job.data.projectId });
+      await job.updateData({ ...job.data, parkedByFreeze: true });
+      await job.moveToDelayed(Date.now() + FROZEN_ESCROW_RECHECK_MS, token);
+      throw new DelayedError();
+    }
+
+    if (escrow?.status === 'CLOSED') {
+      throw new UnrecoverableError(`Escrow for project ${job.data.projectId} is closed`);
+    }
+
+    if (job.data.parkedByFreeze) {
+      const { parkedByFreeze, ...data } = job.data;
+      await job.updateData(data);
+    }
+
+    if (job.name === 'process-payout-batch') {
+      return processPayoutBatch(job as Job<PayoutBatchJobData>);
+    }
+
+    if (job.name === 'process-oversight-payment') {
+      return processOversightPayment(job as Job<OversightJobData>, escrow?.assetId);
+    }
+
+    const { taskId, projectId, employeeWalletAddress, amount, escrowAddress, encryptedPrivateKey, paymentId } = job.data as PaymentJobData;
+
+    // Disputed or refunded payouts stay put; resolving the dispute queues a new job
+    if (paymentId) {
+      const payment = await prisma.payment.findUnique({
+        where: { id: paymentId },
+        include: {
+          disputes: {
+            where: { status: { in: ['OPEN', 'UNDER_REVIEW'] } },
+            select: { id: true },
+          },
+        },
+      });
+
+      if (!payment || payment.status === 'REFUNDED' || payment.disputes.length > 0) {
+        logger.warn('Payment on hold, skipping job', { taskId, paymentId });
+        return { success: false, held: true };
+      }
+
+      // Started before its dispute window closed (promoted by hand, say): wait it out
+      if (payment.holdUntil && payment.holdUntil.getTime() > Date.now()) {
+        logger.warn('Payment still in its dispute window, delaying job', { taskId, paymentId, holdUntil: payment.holdUntil });
+        await job.moveToDelayed(payment.holdUntil.getTime(), token);
+        throw new DelayedError();
+      }
+    }
+
+    // Large payouts come out of the multisig vault once enough co-signers have signed
+    if (requiresCoSigning(escrow, amount)) {
+      const payout = await requestMultisigPayout({
+        projectId,
+        type: 'TASK_PAYMENT',
+        toAddress: employeeWalletAddress,
+        amount,
+        taskId,
+        paymentId,
+        note: `Task payment: ${taskId}`,
+      });
+
+      return { success: true, pendingSignatures: true, multisigPayoutId: payout.id };
+    }
     
+    // A row for the task means an earlier attempt signed a transfer that may be on-chain;
+    // follow that one instead of building another (the monitor queues it again if it is lost)
+    const recorded = await prisma.blockchainTransaction.findUnique({ where: { taskId } });
+    if (recorded && recorded.status !== 'FAILED') {
+      logger.warn('Payment already submitted, not sending again', { taskId, txHash: recorded.txHash, status: recorded.status });
+      if (recorded.status === 'CONFIRMED') {
+        return { success: true, txHash: recorded.txHash, blockNumber: recorded.blockNumber?.toString() };
+      }
+      const tracked = await trackTransaction(recorded, await getCurrentRound());
+      return { success: true, pending: tracked.status !== 'CONFIRMED', txHash: recorded.txHash, status: tracked.status };
+    }
+
     logger.info('Processing payment', { taskId, amount, to: employeeWalletAddress });
     
+    let submittedTxHash: string | undefined;
     try {
       // Update task status to PROCESSING
       await prisma.task.update({
         where: { id: taskId },
         data: { paymentStatus: 'PROCESSING' },
       });
+
+      if (paymentId) {
+        await prisma.payment.update({
+          where: { id: paymentId },
+          data: { status: 'PROCESSING' },
+        });
+      }
       
-      // Create and send blockchain transaction
+      // Create and send blockchain transaction, recording it before it leaves
       const note = `Task payment: ${taskId}`;
+      let blockchainTx!: BlockchainTransaction;
       const txResult = await createPaymentTransaction(
         escrowAddress,
         encryptedPrivateKey,
         employeeWalletAddress,
         amount,
-        note
+        note,
+        escrow?.assetId,
+        async ({ txHashes, lastValidRound }) => {
+          blockchainTx = await prisma.blockchainTransaction.create({
+            data: {
+              txHash: txHashes[0],
+              type: 'TASK_PAYMENT',
+              amount,
+              assetId: getSettlementAsset(escrow?.assetId).assetId,
+              fromAddress: escrowAddress,
+              toAddress: employeeWalletAddress,
+              projectId,
+              taskId,
+              status: 'PENDING',
+              note,
+              submittedAt: new Date(),
+              lastValidRound,
+            },
+          });
+          submittedTxHash = txHashes[0];
+        }
       );
       
       logger.info('Transaction submitted', { 
@@ -91,26 +865,21 @@ const paymentWorker = new Worker<PaymentJobData>(
         amount: txResult.amount,
         fee: txResult.fee 
       });
-      
-      // Record transaction in database
-      const blockchainTx = await prisma.blockchainTransaction.create({
-        data: {
-          txHash: txResult.txHash,
-          type: 'TASK_PAYMENT',
-          amount: txResult.amount,
-          fee: txResult.fee,
-          fromAddress: escrowAddress,
-          toAddress: employeeWalletAddress,
-          projectId,
-          taskId,
-          status: 'PENDING',
-          note,
-          submittedAt: new Date(),
-        },
+
+      blockchainTx = await prisma.blockchainTransaction.update({
+        where: { id: blockchainTx.id },
+        data: { fee: txResult.fee },
       });
       
       // Wait for confirmation
-      const confirmation = await waitForConfirmation(txResult.txHash);
+      let confirmation;
+      try {
+        confirmation = await waitForConfirmation(txResult.txHash);
+      } catch (error: any) {
+        // Sent but not seen yet - monitorPendingTransactions settles it, or queues it again once it can no longer land
+        logger.warn('Payment not confirmed yet', { taskId, txHash: txResult.txHash, error: error.message });
+        return { success: true, pending: true, txHash: txResult.txHash };
+      }
       
       logger.info('Transaction confirmed', {
         taskId,
@@ -118,36 +887,20 @@ const paymentWorker = new Worker<PaymentJobData>(
         blockNumber: confirmation.blockNumber,
       });
       
-      // Update transaction status
-      await prisma.blockchainTransaction.update({
-        where: { id: blockchainTx.id },
-        data: {
-          status: 'CONFIRMED',
-          blockNumber: BigInt(confirmation.blockNumber),
-          confirmations: 1,
-          confirmedAt: new Date(),
-        },
-      });
-      
-      // Update task payment status
-      await prisma.task.update({
-        where: { id: taskId },
-        data: {
-          paymentStatus: 'PAID',
-          paymentTxHash: txResult.txHash,
-          paidAt: new Date(),
-        },
-      });
-      
-      // Update project released funds
-      await prisma.project.update({
-        where: { id: projectId },
-        data: {
-          releasedFunds: {
-            increment: amount,
+      const depth = await waitForDepth(confirmation.blockNumber);
+      if (depth < PAYMENT_CONFIRMATION_DEPTH) {
+        await prisma.blockchainTransaction.update({
+          where: { id: blockchainTx.id },
+          data: {
+            status: 'CONFIRMING',
+            blockNumber: BigInt(confirmation.blockNumber),
+            confirmations: depth,
           },
-        },
-      });
+        });
+        return { success: true, confirming: true, txHash: txResult.txHash, blockNumber: confirmation.blockNumber };
+      }
+      
+      await finalizeTaskPayout(txResult.txHash, { blockNumber: confirmation.blockNumber, confirmations: depth });
       
       logger.info('Payment completed successfully', { taskId, txHash: txResult.txHash });
       
@@ -157,6 +910,12 @@ const paymentWorker = new Worker<PaymentJobData>(
         blockNumber: confirmation.blockNumber,
       };
     } catch (error: any) {
+      // Once the transfer is recorded it may be out, retrying would pay twice - leave it to the monitor and admins
+      if (submittedTxHash) {
+        logger.error('Payment bookkeeping failed after submission', { taskId, txHash: submittedTxHash, error: error.message });
+        throw new UnrecoverableError(`Payment ${submittedTxHash} was submitted but not recorded: ${error.message}`);
+      }
+
       logger.error('Payment processing failed', { taskId, error: error.message });
       
       // Update task status to FAILED
@@ -164,21 +923,18 @@ const paymentWorker = new Worker<PaymentJobData>(
         where: { id: taskId },
         data: { paymentStatus: 'FAILED' },
       });
-      
-      // If transaction was created, update its status
-      const existingTx = await prisma.blockchainTransaction.findFirst({
-        where: { taskId },
-      });
-      
-      if (existingTx) {
-        await prisma.blockchainTransaction.update({
-          where: { id: existingTx.id },
-          data: {
-            status: 'FAILED',
-            errorMessage: error.message,
-          },
+
+      if (paymentId) {
+        await prisma.payment.update({
+          where: { id: paymentId },
+          data: { status: 'FAILED' },
         });
       }
+
+      // Hand the allocation back once BullMQ gives up on the job
+      if (job.attemptsMade + 1 >= (job.opts.attempts ?? 1)) {
+        await reverseAllocation(projectId, amount, { taskId });
+      }
       
       throw error;
     }
@@ -194,69 +950,313 @@ paymentWorker.on('failed', (job, err) => {
   logger.error('Payment job failed', { jobId: job?.id, error: err.message });
 });
 
+function confirmationDepth(confirmedRound: number | bigint, currentRound: number) {
+  return currentRound - Number(confirmedRound) + 1;
+}
+
+/**
+ * Gives a fresh confirmation a few rounds to reach PAYMENT_CONFIRMATION_DEPTH and
+ * returns the depth reached. Whatever is still short is left to the monitor.
+ */
+export async function waitForDepth(confirmedRound: number) {
+  let depth = 1;
+  const deadline = Date.now() + PAYMENT_CONFIRMATION_DEPTH * 10_000;
+
+  try {
+    depth = confirmationDepth(confirmedRound, await getCurrentRound());
+    while (depth < PAYMENT_CONFIRMATION_DEPTH && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+      depth = confirmationDepth(confirmedRound, await getCurrentRound());
+    }
+  } catch (error: any) {
+    logger.warn('Could not follow confirmation depth', { confirmedRound, error: error.message });
+  }
+
+  return depth;
+}
+
+/**
+ * Settles a payout whose transaction reached PAYMENT_CONFIRMATION_DEPTH. Task payouts
+ * mark the task and payment PAID, release the allocation and queue oversight cuts;
+ * oversight payouts mark their cut PAID; milestone legs are booked as released and
+ * owner refunds and withdrawals are posted to the ledger. Only the caller that moves the transaction to CONFIRMED does the bookkeeping.
+ */
+export async function finalizeTaskPayout(txHash: string, confirmation: { blockNumber: number | bigint; confirmations: number }) {
+  const confirmedAt = new Date();
+  const { count } = await prisma.blockchainTransaction.updateMany({
+    where: { txHash, status: { in: ['PENDING', 'CONFIRMING'] } },
+    data: {
+      status: 'CONFIRMED',
+      blockNumber: BigInt(confirmation.blockNumber),
+      confirmations: confirmation.confirmations,
+      confirmedAt,
+      lastCheckedAt: confirmedAt,
+    },
+  });
+  if (count === 0) return false;
+
+  const tx = await prisma.blockchainTransaction.findUniqueOrThrow({ where: { txHash } });
+
+  if (tx.type === 'OVERSIGHT_PAYMENT') {
+    const oversight = await prisma.oversightPayment.findFirst({ where: { txHash } });
+    if (oversight) await settleOversightPayment(oversight, txHash, tx.fee ?? undefined);
+    return true;
+  }
+
+  if (tx.type === 'REFUND' || tx.type === 'WITHDRAWAL') {
+    await recordOwnerRefund(tx.projectId, tx.amount, tx.type, { txHash, fee: tx.fee ?? undefined, memo: tx.note });
+    return true;
+  }
+
+  // Milestone legs sent before lastValidRound was recorded were booked when submitted
+  if (tx.type === 'MILESTONE_PAYMENT') {
+    if (tx.lastValidRound != null) await settleMilestonePayout(tx);
+    return true;
+  }
+
+  if (tx.type !== 'TASK_PAYMENT' || !tx.taskId) return true;
+
+  const payment = await prisma.payment.findFirst({
+    where: { taskId: tx.taskId, status: { in: ['PROCESSING', 'ALLOCATED'] } },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  await prisma.task.update({
+    where: { id: tx.taskId },
+    data: {
+      paymentStatus: 'PAID',
+      paymentTxHash: txHash,
+      paidAt: confirmedAt,
+    },
+  });
+
+  if (payment) {
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: { status: 'PAID', releasedAt: confirmedAt },
+    });
+  }
+
+  // Co-signed payouts out of the multisig vault
+  await prisma.multisigPayout.updateMany({
+    where: { txId: txHash, status: 'SUBMITTED' },
+    data: { status: 'CONFIRMED', confirmedAt },
+  });
+
+  await prisma.project.update({
+    where: { id: tx.projectId },
+    data: {
+      releasedFunds: {
+        increment: tx.amount,
+      },
+    },
+  });
+
+  await recordRelease(tx.projectId, tx.amount, {
+    txHash,
+    fee: tx.fee ?? undefined,
+    taskId: tx.taskId,
+    reference: payment?.id,
+    fromAllocated: true,
+    memo: tx.note,
+  });
+
+  logger.info('Task payout settled', { taskId: tx.taskId, txHash, confirmations: confirmation.confirmations });
+
+  // The employee is paid at this point - an oversight failure must not undo the settlement
+  try {
+    const escrow = await prisma.projectEscrow.findUnique({ where: { projectId: tx.projectId } });
+    if (escrow) {
+      await queueOversightPayments(tx.taskId, tx.projectId, tx.amount, escrow.escrowAddress, escrow.encryptedPrivateKey);
+    }
+  } catch (error: any) {
+    logger.error('Error queueing oversight payments', { taskId: tx.taskId, error: error.message });
+  }
+
+  return true;
+}
+
+/**
+ * Handles a submitted transaction that was never seen in a block and is past its last
+ * valid round, so it can no longer land. Task payouts are queued again while
+ * resubmissions are left; otherwise the payout fails and its allocation goes back to
+ * the escrow. Legacy rows without a lastValidRound never get here, since there is no
+ * telling whether they might still land.
+ */
+async function recoverLostTransaction(tx: BlockchainTransaction, reason: string) {
+  // Detached from the task so the payout can be sent again under a new transaction
+  const { count } = await prisma.blockchainTransaction.updateMany({
+    where: { id: tx.id, status: 'PENDING', blockNumber: null, lastValidRound: { not: null } },
+    data: { status: 'FAILED', errorMessage: reason, taskId: null, lastCheckedAt: new Date() },
+  });
+  if (count === 0) return;
+
+  logger.error('Transaction lost', { txHash: tx.txHash, type: tx.type, taskId: tx.taskId, reason });
+
+  if (tx.type === 'OVERSIGHT_PAYMENT') {
+    const oversight = await prisma.oversightPayment.findFirst({ where: { txHash: tx.txHash } });
+    if (!oversight) return;
+
+    if (oversight.status === 'PAID') {
+      // Settled before settlement waited for depth; reconciliation will show the gap
+      logger.error('Oversight payment was settled but its transaction is gone', { oversightPaymentId: oversight.id, txHash: tx.txHash });
+      return;
+    }
+
+    await prisma.oversightPayment.update({
+      where: { id: oversight.id },
+      data: { status: 'FAILED', errorMessage: reason },
+    });
+    await prisma.project.update({
+      where: { id: tx.projectId },
+      data: { allocatedFunds: { decrement: oversight.amount } },
+    });
+    await reverseAllocation(tx.projectId, oversight.amount, { taskId: oversight.taskId, reference: oversight.id });
+    return;
+  }
+
+  if (tx.type !== 'TASK_PAYMENT' || !tx.taskId) return;
+
+  await prisma.multisigPayout.updateMany({
+    where: { txId: tx.txHash, status: 'SUBMITTED' },
+    data: { status: 'FAILED', errorMessage: reason },
+  });
+
+  const task = await prisma.task.findUnique({
+    where: { id: tx.taskId },
+    include: { assignedTo: { select: { walletAddress: true } } },
+  });
+  if (!task || task.paymentStatus === 'PAID') return;
+
+  const payment = await prisma.payment.findFirst({
+    where: { taskId: task.id, status: { in: ['PROCESSING', 'ALLOCATED'] } },
+    orderBy: { createdAt: 'desc' },
+  });
+  const escrow = await prisma.projectEscrow.findUnique({ where: { projectId: tx.projectId } });
+
+  const canResend =
+    tx.lastValidRound != null &&
+    task.payoutResubmissions < PAYOUT_MAX_RESUBMISSIONS &&
+    escrow &&
+    escrow.status !== 'CLOSED' &&
+    task.assignedTo?.walletAddress;
+
+  if (canResend) {
+    await prisma.task.update({
+      where: { id: task.id },
+      data: { paymentStatus: 'ALLOCATED', payoutResubmissions: { increment: 1 } },
+    });
+
+    const jobId = PAYOUT_BATCH_MODE && payment
+      ? await queuePayoutBatch(tx.projectId)
+      : await queuePayment({
+          taskId: task.id,
+          projectId: tx.projectId,
+          employeeWalletAddress: task.assignedTo!.walletAddress!,
+          amount: tx.amount,
+          escrowAddress: escrow!.escrowAddress,
+          encryptedPrivateKey: escrow!.encryptedPrivateKey,
+          paymentId: payment?.id,
+        });
+
+    if (payment) {
+      await prisma.payment.update({
+        where: { id: payment.id },
+        data: { status: 'ALLOCATED', jobId },
+      });
+    }
+
+    logger.warn('Lost task payout queued again', { taskId: task.id, txHash: tx.txHash, jobId, resubmission: task.payoutResubmissions + 1 });
+    return;
+  }
+
+  await prisma.task.update({
+    where: { id: task.id },
+    data: { paymentStatus: 'FAILED' },
+  });
+
+  if (payment) {
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: { status: 'FAILED' },
+    });
+  }
+
+  await reverseAllocation(tx.projectId, tx.amount, { taskId: task.id, reference: payment?.id });
+  logger.error('Lost task payout failed, allocation released', { taskId: task.id, txHash: tx.txHash });
+}
+
+/**
+ * Looks a PENDING or CONFIRMING transaction up on-chain and moves it along: deeper
+ * confirmations, settlement at PAYMENT_CONFIRMATION_DEPTH, or recovery once it is
+ * nowhere on-chain, was never seen in a block and is past its last valid round.
+ */
+export async function trackTransaction(tx: BlockchainTransaction, currentRound: number) {
+  const status = await getTransactionStatus(tx.txHash);
+
+  if (status.confirmed && status.blockNumber) {
+    const depth = confirmationDepth(status.blockNumber, currentRound);
+
+    if (depth >= PAYMENT_CONFIRMATION_DEPTH) {
+      await finalizeTaskPayout(tx.txHash, { blockNumber: status.blockNumber, confirmations: depth });
+      return { status: 'CONFIRMED', blockNumber: status.blockNumber, confirmations: depth };
+    }
+
+    await prisma.blockchainTransaction.update({
+      where: { id: tx.id },
+      data: { status: 'CONFIRMING', blockNumber: status.blockNumber, confirmations: depth, lastCheckedAt: new Date() },
+    });
+    return { status: 'CONFIRMING', blockNumber: status.blockNumber, confirmations: depth };
+  }
+
+  // Algorand finality is instant: a transaction once seen in a block is never lost, even
+  // when algod has dropped it from the pending pool and the indexer has not caught up yet
+  const seenConfirmed = tx.status === 'CONFIRMING' || tx.blockNumber != null;
+  const expired = tx.lastValidRound != null && currentRound > tx.lastValidRound;
+
+  if (status.status === 'FAILED' && !seenConfirmed && expired) {
+    await recoverLostTransaction(tx, 'Transaction expired without confirmation');
+    return { status: 'FAILED', blockNumber: null, confirmations: 0 };
+  }
+
+  if (status.status === 'FAILED' && tx.lastValidRound == null && Date.now() - tx.submittedAt.getTime() > UNTRACKED_TX_TIMEOUT_MS) {
+    logger.warn('Untracked transaction not found on-chain; settle or fail it manually', { txHash: tx.txHash, taskId: tx.taskId });
+  }
+
+  await prisma.blockchainTransaction.update({
+    where: { id: tx.id },
+    data: { lastCheckedAt: new Date() },
+  });
+  return { status: tx.status, blockNumber: tx.blockNumber, confirmations: tx.confirmations };
+}
+
 /**
  * Monitor transaction confirmations in the background
  */
 export async function monitorPendingTransactions() {
   try {
     const pendingTxs = await prisma.blockchainTransaction.findMany({
-      where: {
-        status: 'PENDING',
-        submittedAt: {
-          gte: new Date(Date.now() - 24 * 60 * 60 * 1000), // Last 24 hours
-        },
-      },
+      where: { status: { in: ['PENDING', 'CONFIRMING'] } },
+      orderBy: { submittedAt: 'asc' },
+      take: 500,
     });
     
     logger.info(`Monitoring ${pendingTxs.length} pending transactions`);
+    if (pendingTxs.length === 0) return;
+
+    const currentRound = await getCurrentRound();
     
     for (const tx of pendingTxs) {
       try {
-        const status = await getTransactionStatus(tx.txHash);
-        
-        if (status.confirmed && status.blockNumber) {
-          await prisma.blockchainTransaction.update({
-            where: { id: tx.id },
-            data: {
-              status: 'CONFIRMED',
-              blockNumber: status.blockNumber,
-              confirmations: status.confirmations,
-              confirmedAt: new Date(),
-            },
-          });
-          
-          // If it's a task payment, update task status
-          if (tx.taskId) {
-            await prisma.task.update({
-              where: { id: tx.taskId },
-              data: {
-                paymentStatus: 'PAID',
-                paidAt: new Date(),
-              },
-            });
-          }
-          
-          logger.info('Transaction confirmed during monitoring', {
+        const tracked = await trackTransaction(tx, currentRound);
+
+        if (tracked.status !== tx.status) {
+          logger.info('Transaction status changed during monitoring', {
             txHash: tx.txHash,
-            confirmations: status.confirmations,
-          });
-        } else if (status.status === 'FAILED') {
-          await prisma.blockchainTransaction.update({
-            where: { id: tx.id },
-            data: {
-              status: 'FAILED',
-              errorMessage: 'Transaction failed on blockchain',
-            },
+            from: tx.status,
+            to: tracked.status,
+            confirmations: tracked.confirmations,
           });
-          
-          if (tx.taskId) {
-            await prisma.task.update({
-              where: { id: tx.taskId },
-              data: { paymentStatus: 'FAILED' },
-            });
-          }
-          
-          logger.error('Transaction failed during monitoring', { txHash: tx.txHash });
         }
       } catch (error: any) {
         logger.error('Error monitoring transaction', {
@@ -0,0 +1,288 @@
+import cronParser from 'cron-parser';
+import { getSettlementAsset } from './algorand.js';
+
+export const PAYMENT_FREQUENCIES = [
+  'DAILY',
+  'WEEKLY',
+  'BIWEEKLY',
+  'SEMIMONTHLY',
+  'MONTHLY',
+  'QUARTERLY',
+  'CRON',
+] as const;
+
+export type PaymentFrequency = (typeof PAYMENT_FREQUENCIES)[number];
+
+export interface PaymentSchedule {
+  frequency: string;
+  cronExpression?: string | null;
+  startDate: Date;
+  endDate?: Date | null;
+  amount: number;
+  assetId?: bigint | number; // Prorated amounts are rounded to this asset's decimals (SIZCOIN by default)
+}
+
+export interface SchedulePeriod {
+  periodStart: Date;
+  periodEnd: Date;
+  paymentDate: Date;
+  amount: number;
+  prorated: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Weeks start on Mondays; BIWEEKLY fortnights are counted from this one
+const WEEK_ORIGIN = Date.UTC(1970, 0, 5);
+
+// Walking a schedule stops here; a daily schedule covers about 27 years
+const MAX_PERIODS = 10000;
+
+export function isPaymentFrequency(frequency: string): frequency is PaymentFrequency {
+  return (PAYMENT_FREQUENCIES as readonly string[]).includes(frequency);
+}
+
+/**
+ * MONTHLY pays on the last day of each month, QUARTERLY on the last day of March,
+ * June, September and December
+ */
+function monthEndBoundary(date: Date, direction: 1 | -1, months: 1 | 3) {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const candidates: number[] = [];
+  for (let offset = -months - 1; offset <= months; offset++) {
+    const calendarMonth = (((month + offset) % 12) + 12) % 12;
+    if ((calendarMonth + 1) % months === 0) {
+      candidates.push(Date.UTC(year, month + offset + 1, 0));
+    }
+  }
+
+  const found = direction === 1
+    ? candidates.find((time) => time > date.getTime())!
+    : candidates.reverse().find((time) => time <= date.getTime())!;
+  return new Date(found);
+}
+
+/**
+ * DAILY, WEEKLY and BIWEEKLY periods start at UTC midnight, on Mondays, and on every
+ * other Monday
+ */
+function fixedBoundary(date: Date, direction: 1 | -1, days: number, origin: number) {
+  const step = days * DAY_MS;
+  const start = origin + Math.floor((date.getTime() - origin) / step) * step;
+  return new Date(direction === 1 ? start + step : start);
+}
+
+/**
+ * SEMIMONTHLY pays on the 15th and on the last day of each month
+ */
+function semimonthlyBoundary(date: Date, direction: 1 | -1) {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const candidates = [-1, 0, 1].flatMap((offset) => [
+    Date.UTC(year, month + offset, 15),
+    Date.UTC(year, month + offset + 1, 0),
+  ]);
+
+  const found = direction === 1
+    ? candidates.find((time) => time > date.getTime())!
+    : candidates.reverse().find((time) => time <= date.getTime())!;
+  return new Date(found);
+}
+
+function cronBoundary(expression: string, date: Date, direction: 1 | -1) {
+  const interval = cronParser.parseExpression(expression, { currentDate: date, tz: 'UTC' });
+  return direction === 1 ? interval.next().toDate() : interval.prev().toDate();
+}
+
+/**
+ * Nearest period boundary after date (direction 1) or at or before it (-1). Every
+ * frequency follows the calendar, so a schedule that starts or ends mid-period
+ * pays a prorated first or last period.
+ */
+function periodBoundary(date: Date, schedule: Pick<PaymentSchedule, 'frequency' | 'cronExpression'>, direction: 1 | -1) {
+  switch (schedule.frequency) {
+    case 'DAILY':
+      return fixedBoundary(date, direction, 1, 0);
+    case 'WEEKLY':
+      return fixedBoundary(date, direction, 7, WEEK_ORIGIN);
+    case 'BIWEEKLY':
+      return fixedBoundary(date, direction, 14, WEEK_ORIGIN);
+    case 'SEMIMONTHLY':
+      return semimonthlyBoundary(date, direction);
+    case 'MONTHLY':
+      return monthEndBoundary(date, direction, 1);
+    case 'QUARTERLY':
+      return monthEndBoundary(date, direction, 3);
+    case 'CRON': {
+      if (direction === 1) return cronBoundary(schedule.cronExpression!, date, 1);
+      const next = cronBoundary(schedule.cronExpression!, new Date(date.getTime() - 1), 1);
+      return next.getTime() === date.getTime() ? next : cronBoundary(schedule.cronExpression!, date, -1);
+    }
+    default:
+      throw new Error(`Unsupported payment frequency ${schedule.frequency}`);
+  }
+}
+
+function nextBoundary(date: Date, schedule: PaymentSchedule) {
+  return periodBoundary(date, schedule, 1);
+}
+
+/**
+ * Boundary the first period starts on; the first payment is prorated unless the
+ * schedule starts right on it
+ */
+function firstBoundary(schedule: PaymentSchedule) {
+  return periodBoundary(schedule.startDate, schedule, -1);
+}
+
+function roundToAsset(amount: number, assetId: bigint | number | undefined) {
+  const factor = Math.pow(10, getSettlementAsset(assetId).decimals);
+  return Math.round(amount * factor) / factor;
+}
+
+/**
+ * Throws when the frequency (or cron expression) cannot be used for payouts
+ */
+export function validateSchedule(schedule: Pick<PaymentSchedule, 'frequency' | 'cronExpression'>) {
+  if (!isPaymentFrequency(schedule.frequency)) {
+    throw new Error(`Unsupported payment frequency ${schedule.frequency}. Use one of: ${PAYMENT_FREQUENCIES.join(', ')}`);
+  }
+
+  if (schedule.frequency !== 'CRON') return;
+
+  if (!schedule.cronExpression) {
+    throw new Error('cronExpression is required for CRON schedules');
+  }
+
+  let interval;
+  try {
+    interval = cronParser.parseExpression(schedule.cronExpression, { tz: 'UTC' });
+  } catch (error: any) {
+    throw new Error(`Invalid cron expression: ${error.message}`);
+  }
+
+  // Payouts more often than daily would flood the escrow with transfers
+  let previous = interval.next().toDate().getTime();
+  for (let i = 0; i < 5; i++) {
+    const next = interval.next().toDate().getTime();
+    if (next - previous < DAY_MS) {
+      throw new Error('Cron schedules may pay out at most once a day');
+    }
+    previous = next;
+  }
+}
+
+/**
+ * Walks the schedule period by period. Each payment falls on the period's end and pays
+ * the share of the period between startDate and endDate, rounded to the asset's
+ * decimals; the last one falls on endDate.
+ */
+export function* schedulePeriods(schedule: PaymentSchedule): Generator<SchedulePeriod> {
+  let begin = firstBoundary(schedule);
+
+  for (let i = 0; i < MAX_PERIODS; i++) {
+    const end = nextBoundary(begin, schedule);
+    const from = Math.max(begin.getTime(), schedule.startDate.getTime());
+    const to = schedule.endDate ? Math.min(end.getTime(), schedule.endDate.getTime()) : end.getTime();
+
+    if (to <= from) {
+      if (schedule.endDate && end.getTime() >= schedule.endDate.getTime()) return;
+      begin = end;
+      continue;
+    }
+
+    const fraction = (to - from) / (end.getTime() - begin.getTime());
+    yield {
+      periodStart: begin,
+      periodEnd: end,
+      paymentDate: new Date(to),
+      amount: fraction < 1 ? roundToAsset(schedule.amount * fraction, schedule.assetId) : schedule.amount,
+      prorated: fraction < 1,
+    };
+
+    begin = end;
+  }
+}
+
+/**
+ * The next `count` payments after a date (inclusive)
+ */
+export function upcomingPayments(schedule: PaymentSchedule, from: Date, count: number) {
+  const payments: SchedulePeriod[] = [];
+  for (const period of schedulePeriods(schedule)) {
+    if (period.paymentDate < from) continue;
+    payments.push(period);
+    if (payments.length >= count) break;
+  }
+  return payments;
+}
+
+/**
+ * Date of the first payment of a new schedule
+ */
+export function firstPaymentDate(schedule: Omit<PaymentSchedule, 'amount'>) {
+  const first = schedulePeriods({ ...schedule, amount: 0 }).next();
+  return first.done ? schedule.startDate : first.value.paymentDate;
+}
+
+/**
+ * Payment due on paymentDate and the date of the one after it (null once the schedule
+ * ends). Dates that are not on the schedule - rows created before schedules were
+ * computed here - pay the full amount and step one period forward.
+ */
+export function resolvePayment(schedule: PaymentSchedule, paymentDate: Date) {
+  let current: SchedulePeriod | null = null;
+
+  for (const period of schedulePeriods(schedule)) {
+    if (current) {
+      return { amount: current.amount, prorated: current.prorated, nextPaymentDate: period.paymentDate };
+    }
+    if (period.paymentDate.getTime() === paymentDate.getTime()) {
+      current = period;
+    } else if (period.paymentDate > paymentDate) {
+      break;
+    }
+  }
+
+  if (current) {
+    return { amount: current.amount, prorated: current.prorated, nextPaymentDate: null };
+  }
+
+  const next = nextBoundary(paymentDate, schedule);
+  return {
+    amount: schedule.amount,
+    prorated: false,
+    nextPaymentDate: schedule.endDate && next > schedule.endDate ? null : next,
+  };
+}
+
+/**
+ * Rough number of payments per month, for estimates
+ */
+export function paymentsPerMonth(schedule: Pick<PaymentSchedule, 'frequency' | 'cronExpression'>) {
+  switch (schedule.frequency) {
+    case 'DAILY':
+      return 30;
+    case 'WEEKLY':
+      return 4;
+    case 'BIWEEKLY':
+    case 'SEMIMONTHLY':
+      return 2;
+    case 'MONTHLY':
+      return 1;
+    case 'QUARTERLY':
+      return 1 / 3;
+    case 'CRON': {
+      if (!schedule.cronExpression) return 0;
+      const now = new Date();
+      const horizon = now.getTime() + 30 * DAY_MS;
+      const interval = cronParser.parseExpression(schedule.cronExpression, { currentDate: now, tz: 'UTC' });
+      let count = 0;
+      while (count < 31 && interval.next().toDate().getTime() <= horizon) count++;
+      return count;
+    }
+    default:
+      return 0;
+  }
+}
@@ -0,0 +1,118 @@
+import type { SettlementAssetCode } from './algorand.js';
+import winston from 'winston';
+
+const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  transports: [
+    new winston.transports.Console(),
+    new winston.transports.File({ filename: 'price-source.log' }),
+  ],
+});
+
+/**
+ * Fiat price of one unit of a settlement asset on a given day. Returns null when the
+ * source has no price, so statements can show the value as unknown instead of zero.
+ */
+export interface PriceSource {
+  name: string;
+  getPrice(asset: SettlementAssetCode, currency: string, at: Date): Promise<number | null>;
+}
+
+export const DEFAULT_FIAT_CURRENCY = (process.env.STATEMENT_CURRENCY || 'USD').toUpperCase();
+
+/**
+ * Fixed prices from STATEMENT_PRICES ("SIZCOIN:0.05,USDC:1,ALGO:0.18"), quoted in
+ * STATEMENT_CURRENCY. USDC is 1:1 with USD unless configured otherwise.
+ */
+function parseStaticPrices() {
+  const prices: Partial<Record<SettlementAssetCode, number>> = {};
+  if (DEFAULT_FIAT_CURRENCY === 'USD') prices.USDC = 1;
+
+  for (const pair of (process.env.STATEMENT_PRICES || '').split(',')) {
+    const [code, value] = pair.split(':').map((part) => part.trim());
+    const price = parseFloat(value);
+    if (code && !isNaN(price)) {
+      prices[code.toUpperCase() as SettlementAssetCode] = price;
+    }
+  }
+
+  return prices;
+}
+
+const staticPrices = parseStaticPrices();
+
+export const staticPriceSource: PriceSource = {
+  name: 'static',
+  async getPrice(asset, currency) {
+    if (currency.toUpperCase() !== DEFAULT_FIAT_CURRENCY) return null;
+    return staticPrices[asset] ?? null;
+  },
+};
+
+// CoinGecko lists ALGO and USDC; SIZCOIN falls back to the static price
+const COINGECKO_IDS: Partial<Record<SettlementAssetCode, string>> = {
+  ALGO: 'algorand',
+  USDC: 'usd-coin',
+};
+
+const COINGECKO_URL = process.env.COINGECKO_API_URL || 'https://api.coingecko.com/api/v3';
+
+// Daily prices never change once the day is over
+const dailyPriceCache = new Map<string, number | null>();
+
+export const coinGeckoPriceSource: PriceSource = {
+  name: 'coingecko',
+  async getPrice(asset, currency, at) {
+    const coinId = COINGECKO_IDS[asset];
+    if (!coinId) return staticPriceSource.getPrice(asset, currency, at);
+
+    const day = `${String(at.getUTCDate()).padStart(2, '0')}-${String(at.getUTCMonth() + 1).padStart(2, '0')}-${at.getUTCFullYear()}`;
+    const cacheKey = `${coinId}:${currency}:${day}`;
+    if (dailyPriceCache.has(cacheKey)) return dailyPriceCache.get(cacheKey)!;
+
+    try {
+      const res = await fetch(`${COINGECKO_URL}/coins/${coinId}/history?date=${day}&localization=false`, {
+        headers: process.env.COINGECKO_API_KEY ? { 'x-cg-demo-api-key': process.env.COINGECKO_API_KEY } : {},
+      });
+      if (!res.ok) {
+        throw new Error(`CoinGecko responded ${res.status}`);
+      }
+
+      const body: any = await res.json();
+      const price = body?.market_data?.current_price?.[currency.toLowerCase()];
+      const value = typeof price === 'number' ? price : null;
+
+      if (at.getTime() < Date.now() - 24 * 60 * 60 * 1000) {
+        dailyPriceCache.set(cacheKey, value);
+      }
+      return value;
+    } catch (error: any) {
+      logger.warn('Price lookup failed, using static price', { asset, currency, day, error: error.message });
+      return staticPriceSource.getPrice(asset, currency, at);
+    }
+  },
+};
+
+const priceSources = new Map<string, PriceSource>([
+  [staticPriceSource.name, staticPriceSource],
+  [coinGeckoPriceSource.name, coinGeckoPriceSource],
+]);
+
+/**
+ * Makes another price source selectable through PRICE_SOURCE
+ */
+export function registerPriceSource(source: PriceSource) {
+  priceSources.set(source.name, source);
+}
+
+export function getPriceSource(name = process.env.PRICE_SOURCE || 'static'): PriceSource {
+  const source = priceSources.get(name);
+  if (!source) {
+    throw new Error(`Unknown price source ${name}. Use one of: ${[...priceSources.keys()].join(', ')}`);
+  }
+  return source;
+}
@@ -1,5 +1,19 @@
 import { prisma } from '../utils/database.js';
-import { createPaymentTransaction, getEscrowBalance } from './algorand.js';
+import {
+  createPaymentTransaction,
+  createBatchPaymentTransaction,
+  getEscrowBalance,
+  waitForConfirmation,
+  getTransactionStatus,
+  getCurrentRound,
+  isOptedInToAsset,
+  MAX_ATOMIC_GROUP_SIZE,
+} from './algorand.js';
+import { recordRelease } from './escrowLedger.js';
+import { PAYOUT_BATCH_MODE } from './paymentQueue.js';
+import { resolvePayment } from './paymentSchedule.js';
+import { notifyUser } from './websocket.js';
+import { raiseAlert, lowEscrowBalanceAlert } from './alerts.js';
 import winston from 'winston';
 
 const logger = winston.createLogger({
@@ -14,8 +28,6 @@ const logger = winston.createLogger({
   ],
 });
 
-const SIZCOIN_ASSET_ID = 2905622564;
-
 /**
  * Process all due recurring payments
  * This should be run daily via cron job
@@ -60,24 +72,41 @@ export async function processRecurringPayments() {
     let processed = 0;
     let failed = 0;
     let paused = 0;
+    let held = 0;
+
+    // Batch mode: periods ready to go, grouped per escrow
+    const batches = new Map<string, DuePeriod[]>();
+    // Escrow balance at the start of the run and what this run already committed from it
+    const balances = new Map<string, number>();
+    const committed = new Map<string, number>();
 
     for (const payment of duePayments) {
       try {
         // Check if escrow exists and has sufficient balance
         if (!payment.project.escrow) {
           logger.error(`Project ${payment.projectId} has no escrow account`);
-          await pausePayment(payment.id, 'No escrow account');
+          await pausePayment(payment.id, 'NO_ESCROW', 'No escrow account');
           paused++;
           continue;
         }
 
-        // Get current blockchain balance
-        const currentBalance = await getEscrowBalance(payment.project.escrow.escrowAddress);
-        
-        if (currentBalance < payment.amount) {
-          logger.warn(`Insufficient balance for payment ${payment.id}. Need ${payment.amount}, have ${currentBalance}`);
-          await pausePayment(payment.id, 'Insufficient balance');
-          await sendLowBalanceAlert(payment.projectId);
+        // Frozen escrows keep the schedule untouched so the payment runs once unfrozen
+        if (payment.project.escrow.status === 'FROZEN') {
+          logger.warn(`Escrow for project ${payment.projectId} is frozen, holding payment ${payment.id}`);
+          held++;
+          continue;
+        }
+
+        if (payment.project.escrow.status === 'CLOSED') {
+          await pausePayment(payment.id, 'ESCROW_CLOSED', 'Escrow closed');
+          paused++;
+          continue;
+        }
+
+        // A salary agreed in one asset is never paid out in another
+        if (payment.assetId !== payment.project.escrow.assetId) {
+          logger.error(`Payment ${payment.id} is in asset ${payment.assetId}, escrow settles in ${payment.project.escrow.assetId}`);
+          await pausePayment(payment.id, 'ASSET_MISMATCH', 'Settlement asset mismatch');
           paused++;
           continue;
         }
@@ -85,89 +114,142 @@ export async function processRecurringPayments() {
         // Check if employee has wallet
         if (!payment.userRole.user.walletAddress) {
           logger.error(`User ${payment.userRole.userId} has no wallet address`);
-          await pausePayment(payment.id, 'No wallet address');
+          await pausePayment(payment.id, 'NO_WALLET', 'No wallet address');
           paused++;
           continue;
         }
 
-        // Create SIZCOIN payment
-        const txResult = await createPaymentTransaction(
-          payment.project.escrow.escrowAddress,
-          payment.project.escrow.encryptedPrivateKey,
-          payment.userRole.user.walletAddress,
-          payment.amount,
-          `Salary payment - ${payment.frequency}`
-        );
-
-        // Record transaction
-        await prisma.blockchainTransaction.create({
-          data: {
-            txHash: txResult.txHash,
-            type: 'SALARY_PAYMENT',
-            amount: payment.amount,
-            fee: txResult.fee,
-            fromAddress: payment.project.escrow.escrowAddress,
-            toAddress: payment.userRole.user.walletAddress,
-            projectId: payment.projectId,
-            status: 'CONFIRMED',
-            note: `Recurring ${payment.frequency} salary payment`,
-            submittedAt: new Date(),
-          },
-        });
-
-        // Calculate next payment date
-        const nextDate = calculateNextPaymentDate(payment.nextPaymentDate, payment.frequency);
-
-        // Update recurring payment
-        await prisma.recurringPayment.update({
-          where: { id: payment.id },
-          data: {
-            lastPaidDate: now,
-            nextPaymentDate: nextDate,
-            totalPaid: {
-              increment: payment.amount,
-            },
-            paymentCount: {
-              increment: 1,
-            },
-          },
-        });
-
-        // Update project released funds
-        await prisma.project.update({
-          where: { id: payment.projectId },
-          data: {
-            releasedFunds: {
-              increment: payment.amount,
-            },
-          },
-        });
-
-        // Update escrow balance
-        await prisma.projectEscrow.update({
-          where: { id: payment.project.escrow.id },
-          data: {
-            currentBalance: {
-              decrement: payment.amount,
-            },
-          },
-        });
+        // Get current blockchain balance
+        if (!balances.has(payment.projectId)) {
+          balances.set(payment.projectId, await getEscrowBalance(payment.project.escrow.escrowAddress, payment.assetId));
+        }
+        const currentBalance = balances.get(payment.projectId)!;
 
-        logger.info(`Successfully processed payment ${payment.id} - ${payment.amount} SIZ to ${payment.userRole.user.email}`);
-        processed++;
+        // Catch-up: every period missed since the last payout, up to the project's limit per run
+        const periods = getDuePeriods(payment, now, payment.project.maxCatchUpPeriods);
+        if (periods.length === 0) {
+          await completeIfEnded(payment);
+          continue;
+        }
+
+        for (const period of periods) {
+          const payout = await claimPeriod(payment, period);
+
+          if (payout.status === 'PAID') {
+            // Paid by an earlier run; only the schedule may still point at this period
+            await advanceSchedule(payment, period);
+            continue;
+          }
+
+          if (payout.status === 'SUBMITTED') {
+            const outcome = await resolveSubmittedPayout(payout);
+
+            if (outcome === 'CONFIRMED') {
+              await settlePeriod(payment, payout, period, { txHash: payout.txHash!, now });
+              processed++;
+              continue;
+            }
+
+            if (outcome === 'IN_FLIGHT') {
+              // Still valid on-chain - sending again could pay the period twice
+              logger.warn(`Payout ${payout.id} for payment ${payment.id} still in flight, waiting`);
+              held++;
+              break;
+            }
+
+            await failPayout(payout.id, 'Transaction expired without confirming');
+          }
+
+          const alreadyCommitted = committed.get(payment.projectId) || 0;
+          if (currentBalance - alreadyCommitted < period.amount) {
+            logger.warn(`Insufficient balance for payment ${payment.id}. Need ${period.amount}, have ${currentBalance - alreadyCommitted}`);
+            await pausePayment(payment.id, 'INSUFFICIENT_BALANCE', 'Insufficient balance');
+            await sendLowBalanceAlert(payment.projectId, currentBalance - alreadyCommitted, period.amount, 'the next salary payment');
+            paused++;
+            break;
+          }
+
+          committed.set(payment.projectId, alreadyCommitted + period.amount);
+
+          if (PAYOUT_BATCH_MODE) {
+            // One payee without opt-in would reject the whole group - fail only their payout
+            if (!(await isOptedInToAsset(payment.userRole.user.walletAddress!, payment.assetId))) {
+              committed.set(payment.projectId, alreadyCommitted);
+              const message = `Wallet ${payment.userRole.user.walletAddress} has not opted-in to the settlement asset`;
+              await failPayout(payout.id, message, 'PENDING');
+              throw new Error(message);
+            }
+
+            batches.set(payment.projectId, [...(batches.get(payment.projectId) || []), { payment, payout, period }]);
+            continue;
+          }
+
+          let txResult;
+          try {
+            // Create payment in the escrow's settlement asset
+            txResult = await createPaymentTransaction(
+              payment.project.escrow.escrowAddress,
+              payment.project.escrow.encryptedPrivateKey,
+              payment.userRole.user.walletAddress,
+              period.amount,
+              `Salary payment - ${payment.frequency}`,
+              payment.assetId,
+              async ({ txHashes, lastValidRound }) => {
+                await prisma.recurringPayout.update({
+                  where: { id: payout.id },
+                  data: { status: 'SUBMITTED', txHash: txHashes[0], lastValidRound, errorMessage: null },
+                });
+              }
+            );
+          } catch (error: any) {
+            // Only a payout that never reached the network may be retried from scratch
+            await failPayout(payout.id, error.message, 'PENDING');
+            throw error;
+          }
+
+          try {
+            await waitForConfirmation(txResult.txHash);
+          } catch (error: any) {
+            // Left SUBMITTED: the next run settles it once confirmed, or pays again once it expired
+            logger.warn(`Payout ${payout.id} for payment ${payment.id} not confirmed yet: ${error.message}`);
+            held++;
+            break;
+          }
+
+          await settlePeriod(payment, payout, period, { txHash: txResult.txHash, fee: txResult.fee, now });
+          processed++;
+        }
 
       } catch (error: any) {
         logger.error(`Failed to process payment ${payment.id}:`, error);
-        await pausePayment(payment.id, error.message);
+        await pausePayment(payment.id, 'PAYOUT_FAILED', error.message);
         failed++;
       }
     }
 
-    logger.info(`Payment processing complete: ${processed} processed, ${paused} paused, ${failed} failed`);
+    for (const projectPeriods of batches.values()) {
+      for (let i = 0; i < projectPeriods.length; i += MAX_ATOMIC_GROUP_SIZE) {
+        const group = projectPeriods.slice(i, i + MAX_ATOMIC_GROUP_SIZE);
+        try {
+          await settleRecurringGroup(group, now);
+          processed += group.length;
+        } catch (error: any) {
+          logger.error(`Failed to process salary group for project ${group[0].payment.projectId}:`, error);
+          for (const { payment, payout } of group) {
+            await failPayout(payout.id, error.message, 'PENDING');
+            await pausePayment(payment.id, 'PAYOUT_FAILED', error.message);
+          }
+          failed += group.length;
+        }
+      }
+    }
+
+    logger.info(`Payment processing complete: ${processed} processed, ${paused} paused, ${held} held, ${failed} failed`);
 
     return {
       processed,
       paused,
+      held,
       failed,
       total: duePayments.length,
     };
@@ -203,54 +285,432 @@ export async function checkLowBalanceAlerts() {
       },
     });
 
+    let checked = 0;
+    let alerted = 0;
+    let failed = 0;
+
     for (const project of projects) {
       if (!project.escrow || !project.minimumBalance) continue;
 
-      const currentBalance = await getEscrowBalance(project.escrow.escrowAddress);
+      try {
+        const currentBalance = await getEscrowBalance(project.escrow.escrowAddress, project.escrow.assetId);
+        checked++;
 
-      if (currentBalance < project.minimumBalance) {
-        logger.warn(`Project ${project.id} balance (${currentBalance}) below minimum (${project.minimumBalance})`);
-        await sendLowBalanceAlert(project.id);
+        if (currentBalance < project.minimumBalance) {
+          logger.warn(`Project ${project.id} balance (${currentBalance}) below minimum (${project.minimumBalance})`);
+          await sendLowBalanceAlert(project.id, currentBalance, project.minimumBalance, 'the minimum balance');
+          alerted++;
+        }
+      } catch (error) {
+        logger.error(`Error checking balance for project ${project.id}:`, error);
+        failed++;
       }
     }
 
+    logger.info(`Low balance check complete: ${checked} checked, ${alerted} alerted, ${failed} failed`);
+
+    return { checked, alerted, failed, total: projects.length };
+
   } catch (error) {
     logger.error('Error checking low balance alerts:', error);
+    throw error;
   }
 }
 
 // Helper functions
 
-async function pausePayment(paymentId: string, reason: string) {
+interface DueRecurringPayment {
+  id: string;
+  projectId: string;
+  amount: number;
+  assetId: bigint;
+  frequency: string;
+  cronExpression: string | null;
+  startDate: Date;
+  nextPaymentDate: Date;
+  endDate: Date | null;
+  project: {
+    escrow: { id: string; escrowAddress: string; encryptedPrivateKey: string; assetId: bigint } | null;
+  };
+  userRole: {
+    user: { walletAddress: string | null };
+  };
+}
+
+type RecurringPayoutRecord = {
+  id: string;
+  periodStart: Date;
+  status: string;
+  txHash: string | null;
+  lastValidRound: number | null;
+};
+
+interface PaymentPeriod {
+  paymentDate: Date;
+  amount: number; // Prorated for a first or last partial period
+  nextPaymentDate: Date | null;
+}
+
+interface DuePeriod {
+  payment: DueRecurringPayment;
+  payout: RecurringPayoutRecord;
+  period: PaymentPeriod;
+}
+
+/**
+ * Payments that are due, oldest first, capped at maxPeriods
+ */
+function getDuePeriods(payment: DueRecurringPayment, now: Date, maxPeriods: number) {
+  const periods: PaymentPeriod[] = [];
+  let paymentDate: Date | null = payment.nextPaymentDate;
+
+  while (
+    paymentDate &&
+    paymentDate <= now &&
+    (!payment.endDate || paymentDate <= payment.endDate) &&
+    periods.length < Math.max(maxPeriods, 1)
+  ) {
+    const resolved = resolvePayment(payment, paymentDate);
+    periods.push({ paymentDate, amount: resolved.amount, nextPaymentDate: resolved.nextPaymentDate });
+    paymentDate = resolved.nextPaymentDate;
+  }
+
+  return periods;
+}
+
+/**
+ * Schedule update once a period is paid; the last period completes the payment
+ */
+function scheduleUpdate(period: PaymentPeriod) {
+  return period.nextPaymentDate ? { nextPaymentDate: period.nextPaymentDate } : { status: 'COMPLETED' };
+}
+
+/**
+ * The payout record of one period, created on first sight. A re-run finds the
+ * existing record and its status decides whether anything is sent.
+ */
+function claimPeriod(payment: DueRecurringPayment, period: PaymentPeriod): Promise<RecurringPayoutRecord> {
+  const periodStart = period.paymentDate;
+  return prisma.recurringPayout.upsert({
+    where: {
+      recurringPaymentId_periodStart: { recurringPaymentId: payment.id, periodStart },
+    },
+    create: {
+      recurringPaymentId: payment.id,
+      projectId: payment.projectId,
+      periodStart,
+      amount: period.amount,
+      assetId: payment.assetId,
+    },
+    update: {},
+  });
+}
+
+/**
+ * Whether a transfer recorded before sending made it on-chain. Once its last valid
+ * round has passed without confirming it can never land, so it is safe to resend.
+ */
+async function resolveSubmittedPayout(payout: RecurringPayoutRecord): Promise<'CONFIRMED' | 'IN_FLIGHT' | 'EXPIRED'> {
+  const status = await getTransactionStatus(payout.txHash!);
+  if (status.confirmed) {
+    return 'CONFIRMED';
+  }
+
+  if (payout.lastValidRound && (await getCurrentRound()) > payout.lastValidRound) {
+    return 'EXPIRED';
+  }
+
+  return 'IN_FLIGHT';
+}
+
+async function failPayout(payoutId: string, errorMessage: string, fromStatus?: string) {
+  await prisma.recurringPayout.updateMany({
+    where: { id: payoutId, ...(fromStatus ? { status: fromStatus } : {}) },
+    data: { status: 'FAILED', errorMessage },
+  });
+}
+
+/**
+ * Moves the schedule past a period unless another run already did
+ */
+async function advanceSchedule(payment: DueRecurringPayment, period: PaymentPeriod) {
+  await prisma.recurringPayment.updateMany({
+    where: { id: payment.id, nextPaymentDate: period.paymentDate },
+    data: scheduleUpdate(period),
+  });
+}
+
+async function completeIfEnded(payment: DueRecurringPayment) {
+  if (payment.endDate && payment.nextPaymentDate > payment.endDate) {
+    await prisma.recurringPayment.update({ where: { id: payment.id }, data: { status: 'COMPLETED' } });
+  }
+}
+
+/**
+ * Bookkeeping for one paid period. The payout is marked PAID together with the
+ * schedule update, so a later run never sees a paid period as due.
+ */
+async function settlePeriod(
+  payment: DueRecurringPayment,
+  payout: RecurringPayoutRecord,
+  period: PaymentPeriod,
+  settlement: { txHash: string; fee?: number; groupId?: string; now: Date }
+) {
+  const { txHash, fee, now } = settlement;
+  const { amount } = period;
+  const escrow = payment.project.escrow!;
+
+  await prisma.$transaction([
+    prisma.blockchainTransaction.upsert({
+      where: { txHash },
+      create: {
+        txHash,
+        type: 'SALARY_PAYMENT',
+        amount,
+        assetId: payment.assetId,
+        fee,
+        fromAddress: escrow.escrowAddress,
+        toAddress: payment.userRole.user.walletAddress!,
+        projectId: payment.projectId,
+        groupId: settlement.groupId,
+        status: 'CONFIRMED',
+        note: `Recurring ${payment.frequency} salary payment`,
+        submittedAt: now,
+      },
+      update: {},
+    }),
+    prisma.recurringPayout.update({
+      where: { id: payout.id },
+      data: { status: 'PAID', txHash, paidAt: now, errorMessage: null },
+    }),
+    prisma.recurringPayment.update({
+      where: { id: payment.id },
+      data: {
+        lastPaidDate: now,
+        ...scheduleUpdate(period),
+        totalPaid: {
+          increment: amount,
+        },
+        paymentCount: {
+          increment: 1,
+        },
+      },
+    }),
+    // Update project released funds
+    prisma.project.update({
+      where: { id: payment.projectId },
+      data: {
+        releasedFunds: {
+          increment: amount,
+        },
+      },
+    }),
+    // Update escrow balance
+    prisma.projectEscrow.update({
+      where: { id: escrow.id },
+      data: {
+        currentBalance: {
+          decrement: amount,
+        },
+      },
+    }),
+  ]);
+
+  await recordRelease(payment.projectId, amount, {
+    txHash,
+    fee,
+    reference: payment.id,
+    memo: `Recurring ${payment.frequency} salary payment`,
+  });
+
+  logger.info(`Paid period ${payout.periodStart.toISOString()} of payment ${payment.id} - ${amount} to ${payment.userRole.user.walletAddress}`);
+}
+
+/**
+ * Pays up to 16 salary periods of one escrow as a single atomic group
+ */
+async function settleRecurringGroup(group: DuePeriod[], now: Date) {
+  const escrow = group[0].payment.project.escrow!;
+  const projectId = group[0].payment.projectId;
+
+  const batch = await createBatchPaymentTransaction(
+    escrow.escrowAddress,
+    escrow.encryptedPrivateKey,
+    group.map(({ payment, period }) => ({
+      toAddress: payment.userRole.user.walletAddress!,
+      amount: period.amount,
+      note: `Salary payment - ${payment.frequency}`,
+    })),
+    escrow.assetId,
+    async ({ txHashes, lastValidRound }) => {
+      await prisma.$transaction(
+        group.map(({ payout }, index) =>
+          prisma.recurringPayout.update({
+            where: { id: payout.id },
+            data: { status: 'SUBMITTED', txHash: txHashes[index], lastValidRound, errorMessage: null },
+          })
+        )
+      );
+    }
+  );
+
+  // Legs of a group confirm in the same round, one wait covers all of them
+  await waitForConfirmation(batch.legs[0].txHash);
+
+  for (const [index, { payment, payout, period }] of group.entries()) {
+    await settlePeriod(payment, payout, period, {
+      txHash: batch.legs[index].txHash,
+      fee: batch.legs[index].fee,
+      groupId: batch.groupId,
+      now,
+    });
+  }
+
+  logger.info(`Paid ${group.length} salaries for project ${projectId} in group ${batch.groupId}`);
+}
+
+/**
+ * Why a recurring payment is paused. INSUFFICIENT_BALANCE, NO_ESCROW and NO_WALLET
+ * clear themselves after a deposit or wallet verification.
+ */
+export type PauseReason =
+  | 'INSUFFICIENT_BALANCE'
+  | 'NO_WALLET'
+  | 'NO_ESCROW'
+  | 'ESCROW_CLOSED'
+  | 'ASSET_MISMATCH'
+  | 'PAYOUT_FAILED'
+  | 'MANUAL';
+
+export async function pausePayment(paymentId: string, reason: PauseReason, message?: string) {
   await prisma.recurringPayment.update({
     where: { id: paymentId },
     data: {
       status: 'PAUSED',
+      pauseReason: reason,
+      pauseMessage: message || null,
+      pausedAt: new Date(),
     },
   });
-  logger.warn(`Paused payment ${paymentId}: ${reason}`);
+  logger.warn(`Paused payment ${paymentId}: ${reason}${message ? ` (${message})` : ''}`);
 }
 
-async function sendLowBalanceAlert(projectId: string) {
-  // In production, send email/notification to project owner
-  logger.info(`LOW BALANCE ALERT for project ${projectId}`);
-  // TODO: Integrate with notification system
+/**
+ * Re-checks payments paused for lack of funds (or of an escrow) after the project's
+ * escrow received a deposit. Resumes the oldest due payments the balance covers.
+ */
+export async function resumeAfterDeposit(projectId: string) {
+  const paused = await prisma.recurringPayment.findMany({
+    where: {
+      projectId,
+      status: 'PAUSED',
+      pauseReason: { in: ['INSUFFICIENT_BALANCE', 'NO_ESCROW'] },
+    },
+    include: {
+      project: { include: { escrow: true } },
+      userRole: { include: { user: { select: { walletAddress: true } } } },
+    },
+    orderBy: { nextPaymentDate: 'asc' },
+  });
+
+  const escrow = paused[0]?.project.escrow;
+  if (!escrow || escrow.status !== 'ACTIVE') return [];
+
+  let available = await getEscrowBalance(escrow.escrowAddress, escrow.assetId);
+  const resumable = [];
+
+  for (const payment of paused) {
+    if (payment.assetId !== escrow.assetId || !payment.userRole.user.walletAddress) continue;
+
+    const { amount } = resolvePayment(payment, payment.nextPaymentDate);
+    if (amount > available) break;
+
+    available -= amount;
+    resumable.push({ ...payment, dueAmount: amount });
+  }
+
+  return resumePayments(projectId, 'DEPOSIT', resumable);
+}
+
+/**
+ * Resumes a user's payments that were paused because no wallet was on file
+ */
+export async function resumeAfterWalletVerification(userId: string) {
+  const paused = await prisma.recurringPayment.findMany({
+    where: {
+      status: 'PAUSED',
+      pauseReason: 'NO_WALLET',
+      userRole: { userId },
+    },
+    include: { project: { include: { escrow: true } } },
+  });
+
+  const byProject = new Map<string, typeof paused>();
+  for (const payment of paused) {
+    byProject.set(payment.projectId, [...(byProject.get(payment.projectId) || []), payment]);
+  }
+
+  const resumed = [];
+  for (const [projectId, payments] of byProject) {
+    resumed.push(
+      ...(await resumePayments(
+        projectId,
+        'WALLET_VERIFIED',
+        payments.map((payment) => ({ ...payment, dueAmount: resolvePayment(payment, payment.nextPaymentDate).amount }))
+      ))
+    );
+  }
+
+  return resumed;
 }
 
-function calculateNextPaymentDate(currentDate: Date, frequency: string): Date {
-  const next = new Date(currentDate);
-  switch (frequency) {
-    case 'WEEKLY':
-      next.setDate(next.getDate() + 7);
-      break;
-    case 'BIWEEKLY':
-      next.setDate(next.getDate() + 14);
-      break;
-    case 'MONTHLY':
-      next.setMonth(next.getMonth() + 1);
-      break;
+async function resumePayments(
+  projectId: string,
+  trigger: 'DEPOSIT' | 'WALLET_VERIFIED',
+  payments: Array<{ id: string; pauseReason: string | null; userRoleId: string; nextPaymentDate: Date; dueAmount: number }>
+) {
+  const resumed = [];
+
+  for (const payment of payments) {
+    // Only resume if nothing changed the pause in the meantime
+    const { count } = await prisma.recurringPayment.updateMany({
+      where: { id: payment.id, status: 'PAUSED', pauseReason: payment.pauseReason },
+      data: { status: 'ACTIVE', pauseReason: null, pauseMessage: null, pausedAt: null },
+    });
+
+    if (count > 0) {
+      resumed.push({
+        id: payment.id,
+        userRoleId: payment.userRoleId,
+        previousReason: payment.pauseReason,
+        nextPaymentDate: payment.nextPaymentDate,
+        amount: payment.dueAmount,
+      });
+    }
+  }
+
+  if (resumed.length > 0) {
+    logger.info(`Resumed ${resumed.length} recurring payments for project ${projectId} after ${trigger}`);
+    await notifyProjectOwner(projectId, 'RECURRING_PAYMENTS_RESUMED', { trigger, payments: resumed });
   }
-  return next;
+
+  return resumed;
+}
+
+async function notifyProjectOwner(projectId: string, type: string, payload: Record<string, any>) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { ownerId: true, name: true },
+  });
+  if (!project) return;
+
+  notifyUser(project.ownerId, type, { projectId, projectName: project.name, ...payload });
+}
+
+async function sendLowBalanceAlert(projectId: string, balance: number, required: number, requiredFor: string) {
+  logger.info(`LOW BALANCE ALERT for project ${projectId}`);
+  const { alert } = await raiseAlert(lowEscrowBalanceAlert(projectId, balance, required, requiredFor));
+  await notifyProjectOwner(projectId, 'ESCROW_LOW_BALANCE', { balance, required, alertId: alert.id });
 }
 
 // Export for cron job
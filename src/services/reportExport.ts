@@ -0,0 +1,399 @@
+import crypto from 'crypto';
+import { Queue, Worker, Job } from 'bullmq';
+import { createClient } from 'redis';
+import ExcelJS from 'exceljs';
+import PDFDocument from 'pdfkit';
+import { getSecurityConfig } from '../config/security.js';
+import { getKanbanMetrics, getProjectPerformance, getTeamPerformance, getFinancialOverview } from './analyticsMetrics.js';
+import { getReportStorage } from './reportStorage.js';
+import { notifyUser } from './websocket.js';
+import winston from 'winston';
+
+const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  transports: [
+    new winston.transports.Console(),
+    new winston.transports.File({ filename: 'report-exports.log' }),
+  ],
+});
+
+// Redis connection for BullMQ
+const redisUrl = process.env.REDIS_URL || process.env.RAILWAY_REDIS_URL || 'redis://localhost:6379';
+const connection = createClient({ url: redisUrl });
+
+export const reportExportQueue = new Queue('report-exports', { connection: connection as any });
+
+// Lifetime of a signed download link
+const REPORT_EXPORT_LINK_TTL_SECONDS = parseInt(process.env.REPORT_EXPORT_LINK_TTL_SECONDS || '3600', 10);
+
+// Exports (job and artifact) older than this are removed by the cleanup job
+const REPORT_EXPORT_RETENTION_MS = parseFloat(process.env.REPORT_EXPORT_RETENTION_HOURS || '72') * 60 * 60 * 1000;
+
+export const REPORT_TYPES = ['project', 'team', 'financial', 'kanban'] as const;
+export type ReportType = (typeof REPORT_TYPES)[number];
+
+export const REPORT_FORMATS = ['CSV', 'XLSX', 'PDF'] as const;
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export interface ReportFilters {
+  projectId: string;
+  dateRange?: string;
+  timeRange?: string;
+  granularity?: string;
+  departmentId?: string;
+  userId?: string;
+  currency?: string;
+}
+
+export interface ReportExportJobData {
+  userId: string;
+  reportType: ReportType;
+  format: ReportFormat;
+  filters: ReportFilters;
+  email?: string;
+}
+
+interface ReportExportResult {
+  storageKey: string;
+  storage: string;
+  filename: string;
+  contentType: string;
+  size: number;
+}
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  CSV: 'text/csv; charset=utf-8',
+  XLSX: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  PDF: 'application/pdf',
+};
+
+export function isReportType(value: unknown): value is ReportType {
+  return REPORT_TYPES.includes(value as ReportType);
+}
+
+export function isReportFormat(value: unknown): value is ReportFormat {
+  return REPORT_FORMATS.includes(value as ReportFormat);
+}
+
+/**
+ * Same metrics the analytics routes return for the report type
+ */
+async function loadReportData(reportType: ReportType, filters: ReportFilters) {
+  switch (reportType) {
+    case 'project':
+      return getProjectPerformance(filters.projectId, filters);
+    case 'team':
+      return getTeamPerformance(filters.projectId, filters);
+    case 'financial':
+      return getFinancialOverview(filters.projectId, filters);
+    case 'kanban':
+      return getKanbanMetrics(filters.projectId, filters);
+  }
+}
+
+interface ReportSection {
+  title: string;
+  columns: string[];
+  rows: unknown[][];
+}
+
+function cellValue(value: unknown) {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value;
+}
+
+/**
+ * Flattens a metrics payload into tables: scalars go into a Summary table keyed by
+ * their path, each array of records becomes a table of its own
+ */
+function toSections(data: Record<string, unknown>): ReportSection[] {
+  const summary: unknown[][] = [];
+  const tables: ReportSection[] = [];
+
+  const walk = (value: Record<string, unknown>, prefix: string) => {
+    for (const [key, child] of Object.entries(value)) {
+      const label = prefix ? `${prefix}.${key}` : key;
+
+      if (Array.isArray(child)) {
+        if (child.length > 0 && child.every((item) => item && typeof item === 'object' && !Array.isArray(item))) {
+          const columns = [...new Set(child.flatMap((item) => Object.keys(item)))];
+          tables.push({ title: label, columns, rows: child.map((item) => columns.map((column) => cellValue(item[column]))) });
+        } else if (child.length > 0) {
+          summary.push([label, child.map(cellValue).join(', ')]);
+        }
+      } else if (child && typeof child === 'object' && !(child instanceof Date)) {
+        walk(child as Record<string, unknown>, label);
+      } else {
+        summary.push([label, cellValue(child)]);
+      }
+    }
+  };
+
+  walk(data, '');
+  return [{ title: 'Summary', columns: ['Metric', 'Value'], rows: summary }, ...tables];
+}
+
+function csvValue(value: unknown) {
+  const text = String(cellValue(value));
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function renderCsv(sections: ReportSection[]) {
+  return Buffer.from(
+    sections
+      .map((section) =>
+        [[section.title], section.columns, ...section.rows].map((row) => row.map(csvValue).join(',')).join('\n')
+      )
+      .join('\n\n') + '\n'
+  );
+}
+
+async function renderXlsx(title: string, sections: ReportSection[]) {
+  const workbook = new ExcelJS.Workbook();
+  workbook.title = title;
+  workbook.created = new Date();
+
+  const usedNames = new Set<string>();
+  for (const section of sections) {
+    // Sheet names are limited to 31 characters and must be unique
+    let name = section.title.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31);
+    for (let suffix = 2; usedNames.has(name); suffix++) {
+      name = `${section.title.slice(0, 28)} ${suffix}`;
+    }
+    usedNames.add(name);
+
+    const sheet = workbook.addWorksheet(name);
+    sheet.addRow(section.columns).font = { bold: true };
+    section.rows.forEach((row) => sheet.addRow(row.map((value) => cellValue(value))));
+    sheet.columns.forEach((column) => {
+      column.width = 20;
+    });
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+function renderPdf(title: string, subtitle: string, sections: ReportSection[]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 40 });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    doc.fontSize(18).text(title);
+    doc.fontSize(9).fillColor('#555555').text(subtitle).fillColor('black');
+
+    const pageWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+    for (const section of sections) {
+      doc.moveDown();
+      doc.font('Helvetica-Bold').fontSize(12).text(section.title);
+      doc.moveDown(0.3);
+
+      if (section.rows.length === 0) {
+        doc.font('Helvetica').fontSize(9).text('No data.');
+        continue;
+      }
+
+      const columnWidth = pageWidth / section.columns.length;
+      const drawRow = (cells: unknown[], bold = false) => {
+        if (doc.y > doc.page.height - 80) doc.addPage();
+        const y = doc.y;
+        let rowBottom = y;
+        doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8);
+        cells.forEach((cell, index) => {
+          doc.text(String(cellValue(cell)), doc.page.margins.left + index * columnWidth, y, { width: columnWidth - 4 });
+          rowBottom = Math.max(rowBottom, doc.y);
+        });
+        doc.x = doc.page.margins.left;
+        doc.y = rowBottom + 2;
+      };
+
+      drawRow(section.columns, true);
+      section.rows.forEach((row) => drawRow(row));
+    }
+
+    doc.end();
+  });
+}
+
+/**
+ * Queues an export. Access to filters.projectId is checked by the caller.
+ */
+export async function queueReportExport(data: ReportExportJobData) {
+  const job = await reportExportQueue.add('render-report', data, {
+    attempts: 2,
+    backoff: { type: 'exponential', delay: 5000 },
+    removeOnComplete: false,
+    removeOnFail: false,
+  });
+
+  logger.info('Report export queued', { jobId: job.id, userId: data.userId, reportType: data.reportType, format: data.format });
+  return job;
+}
+
+async function processReportExport(job: Job<ReportExportJobData, ReportExportResult>): Promise<ReportExportResult> {
+  const { reportType, format, filters, userId } = job.data;
+
+  const data = await loadReportData(reportType, filters);
+  await job.updateProgress(30);
+
+  const sections = toSections(data as Record<string, unknown>);
+  const title = `${reportType[0].toUpperCase()}${reportType.slice(1)} report`;
+  const subtitle = `Project ${filters.projectId}, ${filters.dateRange || filters.timeRange || '30d'}, generated ${new Date().toISOString()}`;
+
+  const body =
+    format === 'CSV'
+      ? renderCsv(sections)
+      : format === 'XLSX'
+        ? await renderXlsx(title, sections)
+        : await renderPdf(title, subtitle, sections);
+  await job.updateProgress(70);
+
+  const storage = getReportStorage();
+  const extension = format.toLowerCase();
+  const storageKey = `${userId}/${job.id}.${extension}`;
+  await storage.put(storageKey, body, CONTENT_TYPES[format]);
+  await job.updateProgress(100);
+
+  notifyUser(userId, 'REPORT_EXPORT_READY', { jobId: job.id, reportType, format });
+
+  return {
+    storageKey,
+    storage: storage.name,
+    filename: `${reportType}-report-${new Date().toISOString().slice(0, 10)}.${extension}`,
+    contentType: CONTENT_TYPES[format],
+    size: body.length,
+  };
+}
+
+function signingKey() {
+  return process.env.REPORT_EXPORT_SIGNING_SECRET || getSecurityConfig().jwtSecret;
+}
+
+function signDownload(jobId: string, expires: number) {
+  return crypto.createHmac('sha256', signingKey()).update(`${jobId}.${expires}`).digest('hex');
+}
+
+/**
+ * Download path for a finished export, valid for REPORT_EXPORT_LINK_TTL_SECONDS
+ */
+export function createDownloadLink(jobId: string) {
+  const expires = Math.floor(Date.now() / 1000) + REPORT_EXPORT_LINK_TTL_SECONDS;
+  return {
+    downloadLink: `/api/analytics/reports/export/${jobId}/download?expires=${expires}&signature=${signDownload(jobId, expires)}`,
+    expiresAt: new Date(expires * 1000),
+  };
+}
+
+export function verifyDownloadSignature(jobId: string, expires: string | undefined, signature: string | undefined) {
+  const expiresAt = parseInt(expires || '', 10);
+  if (!signature || isNaN(expiresAt) || expiresAt * 1000 < Date.now()) return false;
+
+  const expected = Buffer.from(signDownload(jobId, expiresAt));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
+
+/**
+ * State of an export as its requester sees it, with a fresh signed link once finished
+ */
+export async function getReportExport(jobId: string, userId: string) {
+  const job = await reportExportQueue.getJob(jobId);
+  if (!job || job.data.userId !== userId) return null;
+
+  const state = await job.getState();
+  const result = job.returnvalue as ReportExportResult | null;
+
+  return {
+    jobId: job.id,
+    status: state,
+    progress: typeof job.progress === 'number' ? job.progress : 0,
+    reportType: job.data.reportType,
+    format: job.data.format,
+    filters: job.data.filters,
+    email: job.data.email || null,
+    createdAt: new Date(job.timestamp),
+    finishedAt: job.finishedOn ? new Date(job.finishedOn) : null,
+    error: state === 'failed' ? job.failedReason : null,
+    ...(state === 'completed' && result
+      ? { filename: result.filename, size: result.size, ...createDownloadLink(job.id!) }
+      : { downloadLink: null, expiresAt: null }),
+  };
+}
+
+/**
+ * Artifact of a finished export; the caller has verified the signed link
+ */
+export async function readReportExport(jobId: string) {
+  const job = await reportExportQueue.getJob(jobId);
+  const result = job?.returnvalue as ReportExportResult | null | undefined;
+  if (!job || !result) return null;
+
+  const body = await getReportStorage(result.storage).get(result.storageKey);
+  return body ? { body, filename: result.filename, contentType: result.contentType } : null;
+}
+
+/**
+ * Removes exports past the retention period together with their artifacts
+ */
+export async function cleanupReportExports() {
+  const cutoff = Date.now() - REPORT_EXPORT_RETENTION_MS;
+  const jobs = await reportExportQueue.getJobs(['completed', 'failed']);
+  let removed = 0;
+  let failed = 0;
+
+  for (const job of jobs) {
+    if ((job.finishedOn || job.timestamp) > cutoff) continue;
+
+    try {
+      const result = job.returnvalue as ReportExportResult | null;
+      if (result?.storageKey) {
+        await getReportStorage(result.storage).delete(result.storageKey);
+      }
+      await job.remove();
+      removed++;
+    } catch (error: any) {
+      failed++;
+      logger.error('Failed to remove report export', { jobId: job.id, error: error.message });
+    }
+  }
+
+  return { checked: jobs.length, removed, failed };
+}
+
+let worker: Worker<ReportExportJobData, ReportExportResult> | null = null;
+
+export function startReportExportWorker() {
+  if (worker) return;
+
+  worker = new Worker<ReportExportJobData, ReportExportResult>('report-exports', processReportExport, {
+    connection: connection as any,
+    concurrency: 2,
+  });
+
+  worker.on('completed', (job) => {
+    logger.info('Report export completed', { jobId: job.id, size: job.returnvalue?.size });
+  });
+
+  worker.on('failed', (job, err) => {
+    logger.error('Report export failed', { jobId: job?.id, error: err.message });
+    if (job && job.attemptsMade >= (job.opts.attempts || 1)) {
+      notifyUser(job.data.userId, 'REPORT_EXPORT_FAILED', { jobId: job.id, error: err.message });
+    }
+  });
+}
+
+export async function stopReportExportWorker() {
+  if (worker) {
+    await worker.close();
+    worker = null;
+  }
+}
@@ -0,0 +1,60 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Where rendered report exports are kept until they are downloaded. Keys are
+ * generated by the export worker and never come from the request.
+ */
+export interface ReportStorage {
+  name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+const REPORT_STORAGE_DIR = path.resolve(process.env.REPORT_STORAGE_DIR || './storage/reports');
+
+function localPath(key: string) {
+  const filePath = path.resolve(REPORT_STORAGE_DIR, key);
+  if (!filePath.startsWith(REPORT_STORAGE_DIR + path.sep)) {
+    throw new Error(`Invalid report storage key ${key}`);
+  }
+  return filePath;
+}
+
+export const localReportStorage: ReportStorage = {
+  name: 'local',
+  async put(key, body) {
+    const filePath = localPath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  },
+  async get(key) {
+    try {
+      return await fs.readFile(localPath(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  },
+  async delete(key) {
+    await fs.rm(localPath(key), { force: true });
+  },
+};
+
+const reportStorages = new Map<string, ReportStorage>([[localReportStorage.name, localReportStorage]]);
+
+/**
+ * Makes another storage backend (S3, GCS, ...) selectable through REPORT_STORAGE
+ */
+export function registerReportStorage(storage: ReportStorage) {
+  reportStorages.set(storage.name, storage);
+}
+
+export function getReportStorage(name = process.env.REPORT_STORAGE || 'local'): ReportStorage {
+  const storage = reportStorages.get(name);
+  if (!storage) {
+    throw new Error(`Unknown report storage ${name}. Use one of: ${[...reportStorages.keys()].join(', ')}`);
+  }
+  return storage;
+}
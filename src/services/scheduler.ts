@@ -0,0 +1,296 @@
+import crypto from 'crypto';
+import { Queue, Worker, Job } from 'bullmq';
+import { createClient } from 'redis';
+import { prisma } from '../utils/database.js';
+import { getRedisClient } from './redis.js';
+import { processRecurringPayments, checkLowBalanceAlerts } from './recurringPaymentProcessor.js';
+import { reconcileAllEscrows } from './escrowLedger.js';
+import { cleanupReportExports } from './reportExport.js';
+import { evaluateAlerts } from './alerts.js';
+import winston from 'winston';
+
+const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  transports: [
+    new winston.transports.Console(),
+    new winston.transports.File({ filename: 'scheduler.log' }),
+  ],
+});
+
+// Redis connection for BullMQ
+const redisUrl = process.env.REDIS_URL || process.env.RAILWAY_REDIS_URL || 'redis://localhost:6379';
+const connection = createClient({ url: redisUrl });
+
+export const schedulerQueue = new Queue('scheduled-jobs', { connection: connection as any });
+
+// Lease on a run's lock; renewed while the run is in progress, so it only runs out
+// when the runner is gone and another runner can take over
+const SCHEDULER_LOCK_TTL_MS = parseInt(process.env.SCHEDULER_LOCK_TTL_MS || '300000', 10);
+
+type RunCounts = { processed: number; failed: number; paused: number };
+
+interface ScheduledJobDefinition {
+  description: string;
+  pattern: string; // cron, UTC
+  run: () => Promise<Record<string, number>>;
+  counts: (result: any) => RunCounts;
+}
+
+export const SCHEDULED_JOBS = {
+  'recurring-payments': {
+    description: 'Pay due salaries and other recurring payments',
+    pattern: '0 0 * * *',
+    run: processRecurringPayments,
+    counts: (result) => ({ processed: result.processed, failed: result.failed, paused: result.paused }),
+  },
+  'escrow-reconciliation': {
+    description: 'Reconcile escrow ledgers with on-chain balances',
+    pattern: '0 2 * * *',
+    run: reconcileAllEscrows,
+    counts: (result) => ({ processed: result.matched + result.mismatched, failed: result.failed, paused: 0 }),
+  },
+  'low-balance-alerts': {
+    description: 'Alert owners whose escrow is below its minimum balance',
+    pattern: '0 8 * * *',
+    run: checkLowBalanceAlerts,
+    counts: (result) => ({ processed: result.checked, failed: result.failed, paused: 0 }),
+  },
+  'report-export-cleanup': {
+    description: 'Remove analytics report exports past their retention period',
+    pattern: '0 3 * * *',
+    run: cleanupReportExports,
+    counts: (result) => ({ processed: result.removed, failed: result.failed, paused: 0 }),
+  },
+  'alert-evaluation': {
+    description: 'Raise and clear project alerts from the alert rules',
+    pattern: '*/15 * * * *',
+    run: () => evaluateAlerts(),
+    counts: (result) => ({ processed: result.raised + result.refreshed + result.resolved, failed: result.failed, paused: 0 }),
+  },
+} satisfies Record<string, ScheduledJobDefinition>;
+
+export type ScheduledJobName = keyof typeof SCHEDULED_JOBS;
+
+interface ScheduledJobData {
+  trigger: 'SCHEDULE' | 'MANUAL';
+  triggeredBy?: string;
+}
+
+export function isScheduledJobName(name: string): name is ScheduledJobName {
+  return Object.prototype.hasOwnProperty.call(SCHEDULED_JOBS, name);
+}
+
+const lockKey = (jobName: string) => `scheduler-lock:${jobName}`;
+
+// Deletes the lock only if this runner still owns it
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
+async function acquireLock(jobName: string) {
+  const client = getRedisClient();
+  if (!client || !client.isOpen) {
+    throw new Error('Scheduler lock unavailable: Redis not connected');
+  }
+
+  const token = crypto.randomBytes(16).toString('hex');
+  const acquired = await client.set(lockKey(jobName), token, {
+    condition: 'NX',
+    expiration: { type: 'PX', value: SCHEDULER_LOCK_TTL_MS },
+  });
+
+  return acquired ? token : null;
+}
+
+// Extends the lock only if this runner still owns it
+const RENEW_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`;
+
+/**
+ * Renews the lock every third of its lease until the returned stop function is called
+ */
+function keepLockAlive(jobName: string, token: string) {
+  const timer = setInterval(async () => {
+    const client = getRedisClient();
+    if (!client || !client.isOpen) return;
+
+    try {
+      const renewed = await client.eval(RENEW_LOCK_SCRIPT, {
+        keys: [lockKey(jobName)],
+        arguments: [token, String(SCHEDULER_LOCK_TTL_MS)],
+      });
+      if (!renewed) {
+        logger.error('Scheduler lock lost while the run is in progress', { jobName });
+      }
+    } catch (error: any) {
+      logger.error('Failed to renew scheduler lock', { jobName, error: error.message });
+    }
+  }, Math.max(Math.floor(SCHEDULER_LOCK_TTL_MS / 3), 1000));
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
+
+async function releaseLock(jobName: string, token: string) {
+  const client = getRedisClient();
+  if (!client || !client.isOpen) return;
+
+  try {
+    await client.eval(RELEASE_LOCK_SCRIPT, { keys: [lockKey(jobName)], arguments: [token] });
+  } catch (error: any) {
+    logger.error('Failed to release scheduler lock', { jobName, error: error.message });
+  }
+}
+
+/**
+ * Runs one scheduled job under its Redis lock and records the run. A run that
+ * finds the lock taken is recorded as SKIPPED instead of running twice.
+ */
+export async function runScheduledJob(jobName: ScheduledJobName, data: ScheduledJobData, queueJobId?: string) {
+  const definition: ScheduledJobDefinition = SCHEDULED_JOBS[jobName];
+  const token = await acquireLock(jobName);
+
+  if (!token) {
+    logger.warn('Scheduled job already running elsewhere, skipping', { jobName, trigger: data.trigger });
+    return prisma.scheduledJobRun.create({
+      data: {
+        jobName,
+        trigger: data.trigger,
+        triggeredBy: data.triggeredBy,
+        queueJobId,
+        status: 'SKIPPED',
+        errorMessage: 'Another run holds the lock',
+        finishedAt: new Date(),
+      },
+    });
+  }
+
+  const run = await prisma.scheduledJobRun.create({
+    data: {
+      jobName,
+      trigger: data.trigger,
+      triggeredBy: data.triggeredBy,
+      queueJobId,
+    },
+  });
+
+  logger.info('Scheduled job started', { jobName, runId: run.id, trigger: data.trigger });
+
+  const stopRenewing = keepLockAlive(jobName, token);
+  try {
+    const result = await definition.run();
+
+    const finished = await prisma.scheduledJobRun.update({
+      where: { id: run.id },
+      data: {
+        status: 'COMPLETED',
+        ...definition.counts(result),
+        result,
+        finishedAt: new Date(),
+      },
+    });
+
+    logger.info('Scheduled job completed', { jobName, runId: run.id, result });
+    return finished;
+  } catch (error: any) {
+    logger.error('Scheduled job failed', { jobName, runId: run.id, error: error.message });
+
+    await prisma.scheduledJobRun.update({
+      where: { id: run.id },
+      data: { status: 'FAILED', errorMessage: error.message, finishedAt: new Date() },
+    });
+
+    throw error;
+  } finally {
+    stopRenewing();
+    await releaseLock(jobName, token);
+  }
+}
+
+/**
+ * Queues a run outside the schedule (admin "run now")
+ */
+export async function triggerScheduledJob(jobName: ScheduledJobName, triggeredBy?: string) {
+  const job = await schedulerQueue.add(
+    jobName,
+    { trigger: 'MANUAL', triggeredBy },
+    { removeOnComplete: 100, removeOnFail: 100 }
+  );
+
+  logger.info('Scheduled job triggered manually', { jobName, jobId: job.id, triggeredBy });
+  return job.id;
+}
+
+/**
+ * Next run time per scheduled job, as BullMQ has it
+ */
+export async function getScheduledJobs() {
+  const schedulers = await schedulerQueue.getJobSchedulers();
+
+  return Object.entries(SCHEDULED_JOBS).map(([name, definition]) => {
+    const scheduler = schedulers.find((s) => s.key === name);
+    return {
+      name,
+      description: definition.description,
+      pattern: definition.pattern,
+      nextRunAt: scheduler?.next ? new Date(scheduler.next) : null,
+    };
+  });
+}
+
+let worker: Worker<ScheduledJobData> | null = null;
+
+/**
+ * Registers the repeatable jobs and starts the worker. Upserting the schedulers is
+ * idempotent, so every replica can call this on boot without duplicating runs.
+ */
+export async function startScheduler() {
+  for (const [name, definition] of Object.entries(SCHEDULED_JOBS)) {
+    await schedulerQueue.upsertJobScheduler(
+      name,
+      { pattern: definition.pattern, tz: 'UTC' },
+      {
+        name,
+        data: { trigger: 'SCHEDULE' },
+        opts: { removeOnComplete: 100, removeOnFail: 100 },
+      }
+    );
+  }
+
+  if (!worker) {
+    worker = new Worker<ScheduledJobData>(
+      'scheduled-jobs',
+      async (job: Job<ScheduledJobData>) => {
+        if (!isScheduledJobName(job.name)) {
+          throw new Error(`Unknown scheduled job ${job.name}`);
+        }
+
+        const run = await runScheduledJob(job.name, job.data, job.id);
+        return { runId: run.id, status: run.status };
+      },
+      { connection: connection as any, concurrency: 1 }
+    );
+
+    worker.on('failed', (job, err) => {
+      logger.error('Scheduled job failed', { jobId: job?.id, jobName: job?.name, error: err.message });
+    });
+  }
+
+  logger.info('Scheduler started', { jobs: Object.keys(SCHEDULED_JOBS) });
+}
+
+export async function stopScheduler() {
+  if (worker) {
+    await worker.close();
+    worker = null;
+  }
+}
@@ -0,0 +1,365 @@
+import PDFDocument from 'pdfkit';
+import { prisma } from '../utils/database.js';
+import { getSettlementAsset, type SettlementAssetCode } from './algorand.js';
+import { getPriceSource, DEFAULT_FIAT_CURRENCY, type PriceSource } from './priceSource.js';
+
+export type StatementLineType = 'TASK_PAYMENT' | 'SALARY_PAYMENT' | 'OVERSIGHT_PAYMENT';
+
+export interface StatementLine {
+  date: Date;
+  type: StatementLineType;
+  projectId: string;
+  projectName: string;
+  description: string;
+  amount: number;
+  asset: SettlementAssetCode;
+  fee: number | null; // ALGO network fee paid by the project escrow
+  txHash: string | null;
+  price: number | null;
+  fiatValue: number | null;
+}
+
+const MONTH_PATTERN = /^(\d{4})-(0[1-9]|1[0-2])$/;
+
+/**
+ * First instant of the month and of the month after, UTC, for "YYYY-MM"
+ */
+export function parseStatementMonth(month: string) {
+  const match = MONTH_PATTERN.exec(month);
+  if (!match) return null;
+
+  const year = parseInt(match[1], 10);
+  const monthIndex = parseInt(match[2], 10) - 1;
+  return { start: new Date(Date.UTC(year, monthIndex, 1)), end: new Date(Date.UTC(year, monthIndex + 1, 1)) };
+}
+
+function monthKey(date: Date) {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+function roundFiat(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Months (and projects) a user received payouts in, newest first
+ */
+export async function listStatementPeriods(userId: string, projectIds?: string[]) {
+  const projectFilter = projectIds ? { in: projectIds } : undefined;
+
+  const [tasks, salaries, oversight] = await Promise.all([
+    prisma.blockchainTransaction.findMany({
+      where: { type: 'TASK_PAYMENT', status: 'CONFIRMED', task: { employeeId: userId }, projectId: projectFilter },
+      select: { confirmedAt: true, submittedAt: true, projectId: true, project: { select: { name: true } } },
+    }),
+    prisma.recurringPayout.findMany({
+      where: { status: 'PAID', recurringPayment: { userRole: { userId } }, projectId: projectFilter },
+      select: { paidAt: true, projectId: true, recurringPayment: { select: { project: { select: { name: true } } } } },
+    }),
+    prisma.oversightPayment.findMany({
+      where: { status: 'PAID', userRole: { userId }, projectId: projectFilter },
+      select: { paidAt: true, projectId: true, project: { select: { name: true } } },
+    }),
+  ]);
+
+  const periods = new Map<string, { month: string; projects: Map<string, string>; payouts: number }>();
+  const add = (date: Date | null, projectId: string, projectName: string) => {
+    if (!date) return;
+    const key = monthKey(date);
+    const period = periods.get(key) || { month: key, projects: new Map(), payouts: 0 };
+    period.projects.set(projectId, projectName);
+    period.payouts++;
+    periods.set(key, period);
+  };
+
+  tasks.forEach((tx) => add(tx.confirmedAt || tx.submittedAt, tx.projectId, tx.project.name));
+  salaries.forEach((payout) => add(payout.paidAt, payout.projectId, payout.recurringPayment.project.name));
+  oversight.forEach((cut) => add(cut.paidAt, cut.projectId, cut.project.name));
+
+  return [...periods.values()]
+    .sort((a, b) => b.month.localeCompare(a.month))
+    .map((period) => ({
+      month: period.month,
+      payouts: period.payouts,
+      projects: [...period.projects].map(([id, name]) => ({ id, name })),
+    }));
+}
+
+/**
+ * Everything paid to a user in one month: task payouts, salary payments and oversight
+ * cuts, each with its transaction, network fee and value in the fiat currency
+ */
+export async function buildStatement(
+  userId: string,
+  month: string,
+  options: { projectIds?: string[]; currency?: string; priceSource?: PriceSource } = {}
+) {
+  const range = parseStatementMonth(month);
+  if (!range) {
+    throw new Error('month must be formatted YYYY-MM');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, firstName: true, lastName: true, walletAddress: true },
+  });
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const currency = (options.currency || DEFAULT_FIAT_CURRENCY).toUpperCase();
+  const priceSource = options.priceSource || getPriceSource();
+  const projectFilter = options.projectIds ? { in: options.projectIds } : undefined;
+  const paidInMonth = { gte: range.start, lt: range.end };
+
+  const [taskTxs, salaryPayouts, oversightCuts] = await Promise.all([
+    prisma.blockchainTransaction.findMany({
+      where: {
+        type: 'TASK_PAYMENT',
+        status: 'CONFIRMED',
+        confirmedAt: paidInMonth,
+        task: { employeeId: userId },
+        projectId: projectFilter,
+      },
+      include: {
+        project: { select: { name: true } },
+        task: { select: { title: true } },
+      },
+    }),
+    prisma.recurringPayout.findMany({
+      where: {
+        status: 'PAID',
+        paidAt: paidInMonth,
+        recurringPayment: { userRole: { userId } },
+        projectId: projectFilter,
+      },
+      include: {
+        recurringPayment: { select: { frequency: true, project: { select: { name: true } } } },
+      },
+    }),
+    prisma.oversightPayment.findMany({
+      where: {
+        status: 'PAID',
+        paidAt: paidInMonth,
+        userRole: { userId },
+        projectId: projectFilter,
+      },
+      include: {
+        project: { select: { name: true } },
+        task: { select: { title: true } },
+      },
+    }),
+  ]);
+
+  // Salary and oversight rows point at their transaction by hash; fees live there
+  const otherHashes = [...salaryPayouts, ...oversightCuts].map((row) => row.txHash).filter((hash): hash is string => !!hash);
+  const otherTxs = otherHashes.length
+    ? await prisma.blockchainTransaction.findMany({
+        where: { txHash: { in: otherHashes } },
+        select: { txHash: true, fee: true, assetId: true },
+      })
+    : [];
+  const txByHash = new Map(otherTxs.map((tx) => [tx.txHash, tx]));
+  const txFor = (hash: string | null) => (hash ? txByHash.get(hash) : undefined);
+
+  const lines: Omit<StatementLine, 'price' | 'fiatValue'>[] = [
+    ...taskTxs.map((tx) => ({
+      date: tx.confirmedAt!,
+      type: 'TASK_PAYMENT' as const,
+      projectId: tx.projectId,
+      projectName: tx.project.name,
+      description: tx.task?.title || tx.note || 'Task payment',
+      amount: tx.amount,
+      asset: getSettlementAsset(tx.assetId).code,
+      fee: tx.fee,
+      txHash: tx.txHash,
+    })),
+    ...salaryPayouts.map((payout) => ({
+      date: payout.paidAt!,
+      type: 'SALARY_PAYMENT' as const,
+      projectId: payout.projectId,
+      projectName: payout.recurringPayment.project.name,
+      description: `Salary (${payout.recurringPayment.frequency.toLowerCase()}) for period from ${payout.periodStart.toISOString().slice(0, 10)}`,
+      amount: payout.amount,
+      asset: getSettlementAsset(payout.assetId).code,
+      fee: txFor(payout.txHash)?.fee ?? null,
+      txHash: payout.txHash,
+    })),
+    ...oversightCuts.map((cut) => ({
+      date: cut.paidAt!,
+      type: 'OVERSIGHT_PAYMENT' as const,
+      projectId: cut.projectId,
+      projectName: cut.project.name,
+      description: `Oversight ${Math.round(cut.rate * 10000) / 100}% of "${cut.task.title}"`,
+      amount: cut.amount,
+      asset: getSettlementAsset(txFor(cut.txHash)?.assetId).code,
+      fee: txFor(cut.txHash)?.fee ?? null,
+      txHash: cut.txHash,
+    })),
+  ];
+  lines.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const priced: StatementLine[] = [];
+  for (const line of lines) {
+    const price = await priceSource.getPrice(line.asset, currency, line.date);
+    priced.push({ ...line, price, fiatValue: price === null ? null : roundFiat(line.amount * price) });
+  }
+
+  const byAsset: Record<string, { amount: number; fees: number; fiatValue: number | null }> = {};
+  for (const line of priced) {
+    const totals = (byAsset[line.asset] ||= { amount: 0, fees: 0, fiatValue: 0 });
+    totals.amount += line.amount;
+    totals.fees += line.fee || 0;
+    totals.fiatValue = totals.fiatValue === null || line.fiatValue === null ? null : roundFiat(totals.fiatValue + line.fiatValue);
+  }
+
+  const byType: Record<StatementLineType, number> = { TASK_PAYMENT: 0, SALARY_PAYMENT: 0, OVERSIGHT_PAYMENT: 0 };
+  priced.forEach((line) => (byType[line.type] += line.fiatValue ?? 0));
+
+  const unpriced = priced.filter((line) => line.fiatValue === null).length;
+
+  return {
+    user: {
+      id: user.id,
+      name: [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email,
+      email: user.email,
+      walletAddress: user.walletAddress,
+    },
+    month,
+    periodStart: range.start,
+    periodEnd: range.end,
+    currency,
+    priceSource: priceSource.name,
+    generatedAt: new Date(),
+    lines: priced,
+    totals: {
+      byAsset,
+      fiatValue: roundFiat(priced.reduce((sum, line) => sum + (line.fiatValue ?? 0), 0)),
+      fiatByType: Object.fromEntries(Object.entries(byType).map(([type, value]) => [type, roundFiat(value)])),
+      networkFees: priced.reduce((sum, line) => sum + (line.fee || 0), 0),
+      // Lines the price source had no price for are left out of the fiat totals
+      unpricedLines: unpriced,
+    },
+  };
+}
+
+export type Statement = Awaited<ReturnType<typeof buildStatement>>;
+
+function csvValue(value: unknown) {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function statementToCsv(statement: Statement) {
+  const rows: unknown[][] = [
+    ['Date', 'Type', 'Project', 'Description', 'Amount', 'Asset', 'Network fee (ALGO)', `Price (${statement.currency})`, `Value (${statement.currency})`, 'Transaction'],
+    ...statement.lines.map((line) => [
+      line.date,
+      line.type,
+      line.projectName,
+      line.description,
+      line.amount,
+      line.asset,
+      line.fee,
+      line.price,
+      line.fiatValue,
+      line.txHash,
+    ]),
+    [],
+    ...Object.entries(statement.totals.byAsset).map(([asset, totals]) => [
+      'Total', '', '', '', totals.amount, asset, totals.fees, '', totals.fiatValue, '',
+    ]),
+    ['Total value', '', '', '', '', '', '', '', statement.totals.fiatValue, ''],
+  ];
+
+  return rows.map((row) => row.map(csvValue).join(',')).join('\n') + '\n';
+}
+
+function formatAmount(value: number | null, digits = 2) {
+  return value === null ? 'n/a' : value.toLocaleString('en-US', { minimumFractionDigits: digits, maximumFractionDigits: 6 });
+}
+
+export function renderStatementPdf(statement: Statement): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 40 });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    doc.fontSize(18).text('Earnings statement');
+    doc.moveDown(0.5);
+    doc.fontSize(10)
+      .text(`${statement.user.name} <${statement.user.email}>`)
+      .text(`Wallet: ${statement.user.walletAddress || 'not set'}`)
+      .text(`Period: ${statement.periodStart.toISOString().slice(0, 10)} to ${new Date(statement.periodEnd.getTime() - 1).toISOString().slice(0, 10)}`)
+      .text(`Values in ${statement.currency} (price source: ${statement.priceSource})`)
+      .text(`Generated ${statement.generatedAt.toISOString()}`);
+    doc.moveDown();
+
+    const columns = [
+      { label: 'Date', width: 60 },
+      { label: 'Type', width: 60 },
+      { label: 'Project / description', width: 175 },
+      { label: 'Amount', width: 85 },
+      { label: 'Fee (ALGO)', width: 55 },
+      { label: `Value (${statement.currency})`, width: 80 },
+    ];
+
+    const drawRow = (cells: string[], options: { bold?: boolean } = {}) => {
+      if (doc.y > doc.page.height - 90) doc.addPage();
+      const y = doc.y;
+      let x = doc.page.margins.left;
+      doc.font(options.bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8);
+      cells.forEach((cell, index) => {
+        doc.text(cell, x, y, { width: columns[index].width - 5 });
+        x += columns[index].width;
+      });
+      doc.x = doc.page.margins.left;
+      doc.moveDown(0.3);
+    };
+
+    drawRow(columns.map((column) => column.label), { bold: true });
+
+    if (statement.lines.length === 0) {
+      doc.font('Helvetica').fontSize(9).text('No payouts in this period.');
+    }
+
+    const typeLabels: Record<StatementLineType, string> = {
+      TASK_PAYMENT: 'Task',
+      SALARY_PAYMENT: 'Salary',
+      OVERSIGHT_PAYMENT: 'Oversight',
+    };
+
+    for (const line of statement.lines) {
+      drawRow([
+        line.date.toISOString().slice(0, 10),
+        typeLabels[line.type],
+        `${line.projectName}: ${line.description}`,
+        `${formatAmount(line.amount)} ${line.asset}`,
+        line.fee === null ? '' : formatAmount(line.fee, 3),
+        formatAmount(line.fiatValue),
+      ]);
+      if (line.txHash) {
+        doc.font('Courier').fontSize(6).fillColor('#555555').text(`tx ${line.txHash}`, doc.page.margins.left + 120);
+        doc.fillColor('black');
+        doc.x = doc.page.margins.left;
+        doc.moveDown(0.3);
+      }
+    }
+
+    doc.moveDown();
+    for (const [asset, totals] of Object.entries(statement.totals.byAsset)) {
+      drawRow(['Total', '', asset, `${formatAmount(totals.amount)} ${asset}`, formatAmount(totals.fees, 3), formatAmount(totals.fiatValue)], { bold: true });
+    }
+    drawRow(['Total value', '', '', '', '', formatAmount(statement.totals.fiatValue)], { bold: true });
+
+    if (statement.totals.unpricedLines > 0) {
+      doc.moveDown().font('Helvetica').fontSize(8)
+        .text(`${statement.totals.unpricedLines} payout(s) had no ${statement.currency} price and are not in the total value.`);
+    }
+
+    doc.end();
+  });
+}
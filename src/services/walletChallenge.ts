@@ -0,0 +1,62 @@
+import crypto from 'crypto';
+import { getRedisClient } from './redis.js';
+
+// Challenges are short-lived and single-use
+const CHALLENGE_TTL_SEC = parseInt(process.env.WALLET_CHALLENGE_TTL_SEC || '300', 10);
+
+const challengeKey = (userId: string, nonce: string) => `wallet-challenge:${userId}:${nonce}`;
+
+export type WalletChallenge = {
+	nonce: string;
+	walletAddress: string;
+	message: string;
+	expiresAt: string;
+};
+
+function getConnectedClient() {
+	const client = getRedisClient();
+	if (!client || !client.isOpen) {
+		throw new Error('Wallet verification is unavailable: Redis not connected');
+	}
+	return client;
+}
+
+/**
+ * Issues a nonce-bearing message the user must sign with the wallet's key
+ */
+export async function issueWalletChallenge(userId: string, walletAddress: string): Promise<WalletChallenge> {
+	const client = getConnectedClient();
+
+	const nonce = crypto.randomBytes(16).toString('hex');
+	const expiresAt = new Date(Date.now() + CHALLENGE_TTL_SEC * 1000).toISOString();
+	const message = [
+		'SIZ wallet ownership verification',
+		`User: ${userId}`,
+		`Wallet: ${walletAddress}`,
+		`Nonce: ${nonce}`,
+		`Expires: ${expiresAt}`,
+	].join('\n');
+
+	const challenge: WalletChallenge = { nonce, walletAddress, message, expiresAt };
+	await client.set(challengeKey(userId, nonce), JSON.stringify(challenge), { EX: CHALLENGE_TTL_SEC });
+
+	return challenge;
+}
+
+/**
+ * Fetches and deletes a challenge in one step so it can only be answered once.
+ * Returns null when the nonce is unknown, already used or expired.
+ */
+export async function consumeWalletChallenge(userId: string, nonce: string): Promise<WalletChallenge | null> {
+	const client = getConnectedClient();
+
+	const raw = await client.getDel(challengeKey(userId, nonce));
+	if (!raw) return null;
+
+	const challenge = JSON.parse(raw) as WalletChallenge;
+	if (new Date(challenge.expiresAt).getTime() < Date.now()) {
+		return null;
+	}
+
+	return challenge;
+}
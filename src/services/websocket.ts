@@ -304,3 +304,10 @@ export const broadcastTaskUpdated = (projectId: string, taskId: string, updates:
     wsManager.broadcastCrossProjectUpdate(message);
   }
 };
+
+// Direct notification to one user's open connection
+export const notifyUser = (userId: string, type: string, payload: any) => {
+  if (wsManager) {
+    wsManager.sendToUser(userId, { type, ...payload });
+  }
+};
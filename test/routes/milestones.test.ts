@@ -0,0 +1,90 @@
+import request from 'supertest';
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { prismaMock, resetPrismaMock } from '../utils/prismaMock.js';
+
+const mockAuthenticate = vi.hoisted(() =>
+  vi.fn((req: any, _res: any, next: any) => {
+    req.user = { id: 'user-1', email: 'owner@siz.land' };
+    next();
+  })
+);
+
+const mockGetMilestoneTasks = vi.hoisted(() => vi.fn());
+const mockProcessMilestonePayouts = vi.hoisted(() => vi.fn());
+let app: any;
+
+vi.mock('../../src/utils/database.js', () => ({
+  default: prismaMock,
+  prisma: prismaMock,
+}));
+
+vi.mock('../../src/middleware/auth.js', () => ({
+  authenticateToken: mockAuthenticate,
+  requireProjectRole: () => (_req: any, _res: any, next: any) => next(),
+  requireProjectOwner: (_req: any, _res: any, next: any) => next(),
+}));
+
+vi.mock('../../src/services/milestoneProcessor.js', () => ({
+  getMilestoneTasks: mockGetMilestoneTasks,
+  processMilestonePayouts: mockProcessMilestonePayouts,
+}));
+
+beforeAll(async () => {
+  app = (await import('../../src/app.js')).default;
+});
+
+describe('POST /api/milestones/:milestoneId/accept', () => {
+  const pendingMilestone = {
+    id: 'milestone-1',
+    status: 'PENDING',
+    project: { id: 'proj-1', ownerId: 'user-1', escrowFunded: true, escrow: { id: 'escrow-1' } },
+  };
+
+  beforeEach(() => {
+    resetPrismaMock();
+    mockAuthenticate.mockClear();
+    mockGetMilestoneTasks.mockReset();
+    mockProcessMilestonePayouts.mockReset();
+
+    prismaMock.milestone.findUnique.mockResolvedValue(pendingMilestone);
+    mockGetMilestoneTasks.mockResolvedValue([{ id: 'task-1', title: 'Survey', status: 'COMPLETED' }]);
+    mockProcessMilestonePayouts.mockResolvedValue({ status: 'PAID', payouts: [{ userRoleId: 'role-1', amount: 500 }] });
+  });
+
+  it('accepts a pending milestone and releases its payouts', async () => {
+    prismaMock.milestone.updateMany.mockResolvedValue({ count: 1 });
+
+    const res = await request(app).post('/api/milestones/milestone-1/accept');
+
+    expect(res.status).toBe(200);
+    expect(res.body.status).toBe('PAID');
+    expect(prismaMock.milestone.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'milestone-1', status: 'PENDING' } })
+    );
+    expect(mockProcessMilestonePayouts).toHaveBeenCalledWith('milestone-1');
+  });
+
+  it('releases payouts once when two accepts race', async () => {
+    // Both requests read the milestone as PENDING; only the first conditional update matches
+    prismaMock.milestone.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+    const [first, second] = await Promise.all([
+      request(app).post('/api/milestones/milestone-1/accept'),
+      request(app).post('/api/milestones/milestone-1/accept'),
+    ]);
+
+    expect([first.status, second.status].sort()).toEqual([200, 409]);
+    expect(mockProcessMilestonePayouts).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a milestone with open tasks without claiming it', async () => {
+    mockGetMilestoneTasks.mockResolvedValue([{ id: 'task-1', title: 'Survey', status: 'IN_PROGRESS' }]);
+
+    const res = await request(app).post('/api/milestones/milestone-1/accept');
+
+    expect(res.status).toBe(400);
+    expect(res.body.openTasks).toEqual([{ id: 'task-1', title: 'Survey', status: 'IN_PROGRESS' }]);
+    expect(prismaMock.milestone.updateMany).not.toHaveBeenCalled();
+    expect(mockProcessMilestonePayouts).not.toHaveBeenCalled();
+  });
+});
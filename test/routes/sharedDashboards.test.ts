@@ -0,0 +1,172 @@
+import crypto from 'crypto';
+import request from 'supertest';
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { prismaMock, resetPrismaMock } from '../utils/prismaMock.js';
+
+const mockAuthenticate = vi.hoisted(() =>
+  vi.fn((req: any, _res: any, next: any) => {
+    req.user = { id: 'user-1', email: 'owner@siz.land' };
+    next();
+  })
+);
+
+const mockGetKanbanMetrics = vi.hoisted(() => vi.fn());
+let app: any;
+
+vi.mock('../../src/utils/database.js', () => ({
+  default: prismaMock,
+  prisma: prismaMock,
+}));
+
+vi.mock('../../src/middleware/auth.js', () => ({
+  authenticateToken: mockAuthenticate,
+  requireProjectRole: () => (_req: any, _res: any, next: any) => next(),
+  requireProjectOwner: (_req: any, _res: any, next: any) => next(),
+}));
+
+vi.mock('../../src/services/analyticsMetrics.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/services/analyticsMetrics.js')>()),
+  getKanbanMetrics: mockGetKanbanMetrics,
+}));
+
+beforeAll(async () => {
+  app = (await import('../../src/app.js')).default;
+});
+
+const TOKEN = 'share-token-1';
+const HOUR_MS = 60 * 60 * 1000;
+
+function buildShare(overrides: Record<string, any> = {}) {
+  return {
+    id: 'share-1',
+    dashboardId: 'dash-1',
+    tokenHash: crypto.createHash('sha256').update(TOKEN).digest('hex'),
+    createdById: 'user-1',
+    recipientEmail: null,
+    permissions: ['VIEW'],
+    widgetIds: [],
+    scope: { frozenAt: '2026-10-01T00:00:00.000Z', projects: [{ projectId: 'proj-1', role: 'PROJECT_OWNER' }] },
+    expiresAt: new Date(Date.now() + HOUR_MS),
+    revokedAt: null,
+    revokedBy: null,
+    accessCount: 0,
+    lastAccessedAt: null,
+    createdAt: new Date(),
+    dashboard: {
+      id: 'dash-1',
+      name: 'Delivery',
+      description: null,
+      ownerId: 'user-1',
+      settings: {},
+      widgets: [
+        { id: 'w-kanban', type: 'kanban', title: 'Board', projectId: 'proj-1', options: {} },
+        { id: 'w-financial', type: 'financial', title: 'Spend', projectId: 'proj-1', options: {} },
+      ],
+      layout: [
+        { widgetId: 'w-kanban', x: 0, y: 0, w: 6, h: 4 },
+        { widgetId: 'w-financial', x: 6, y: 0, w: 6, h: 4 },
+      ],
+    },
+    ...overrides,
+  };
+}
+
+describe('GET /api/analytics/shared/dashboards/:token', () => {
+  beforeEach(() => {
+    resetPrismaMock();
+    mockGetKanbanMetrics.mockReset();
+    mockGetKanbanMetrics.mockResolvedValue({ columns: [] });
+    prismaMock.dashboardShare.update.mockResolvedValue({});
+    prismaMock.dashboardShareAccess.create.mockResolvedValue({});
+    prismaMock.customReport.findMany.mockResolvedValue([]);
+  });
+
+  it('renders an active link by its token hash and records the access', async () => {
+    prismaMock.dashboardShare.findUnique.mockResolvedValue(buildShare());
+
+    const res = await request(app).get(`/api/analytics/shared/dashboards/${TOKEN}`);
+
+    expect(res.status).toBe(200);
+    expect(prismaMock.dashboardShare.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { tokenHash: crypto.createHash('sha256').update(TOKEN).digest('hex') } })
+    );
+    // Financial widgets need VIEW_FINANCIALS
+    expect(res.body.widgets.map((widget: any) => widget.id)).toEqual(['w-kanban']);
+    expect(res.body.widgets[0].data).toEqual({ columns: [] });
+    expect(mockGetKanbanMetrics).toHaveBeenCalledWith('proj-1', {});
+    expect(prismaMock.dashboardShare.update).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'share-1' }, data: expect.objectContaining({ accessCount: { increment: 1 } }) })
+    );
+    expect(prismaMock.dashboardShareAccess.create).toHaveBeenCalled();
+  });
+
+  it('rejects an expired link without recording an access', async () => {
+    prismaMock.dashboardShare.findUnique.mockResolvedValue(buildShare({ expiresAt: new Date(Date.now() - HOUR_MS) }));
+
+    const res = await request(app).get(`/api/analytics/shared/dashboards/${TOKEN}`);
+
+    expect(res.status).toBe(404);
+    expect(prismaMock.dashboardShare.update).not.toHaveBeenCalled();
+    expect(prismaMock.dashboardShareAccess.create).not.toHaveBeenCalled();
+    expect(mockGetKanbanMetrics).not.toHaveBeenCalled();
+  });
+
+  it('rejects a revoked link', async () => {
+    prismaMock.dashboardShare.findUnique.mockResolvedValue(buildShare({ revokedAt: new Date(), revokedBy: 'user-1' }));
+
+    const res = await request(app).get(`/api/analytics/shared/dashboards/${TOKEN}`);
+
+    expect(res.status).toBe(404);
+    expect(mockGetKanbanMetrics).not.toHaveBeenCalled();
+  });
+
+  it('rejects an unknown token', async () => {
+    prismaMock.dashboardShare.findUnique.mockResolvedValue(null);
+
+    const res = await request(app).get('/api/analytics/shared/dashboards/unknown');
+
+    expect(res.status).toBe(404);
+  });
+});
+
+describe('DELETE /api/analytics/dashboards/shares/:shareId', () => {
+  beforeEach(() => {
+    resetPrismaMock();
+    mockAuthenticate.mockClear();
+  });
+
+  it("revokes a share of the caller's dashboard without returning its token hash", async () => {
+    prismaMock.dashboardShare.findUnique.mockResolvedValue(buildShare());
+    prismaMock.dashboardShare.update.mockImplementation(async ({ data }: any) => {
+      const { dashboard: _dashboard, ...share } = buildShare();
+      return { ...share, ...data };
+    });
+
+    const res = await request(app).delete('/api/analytics/dashboards/shares/share-1');
+
+    expect(res.status).toBe(200);
+    expect(prismaMock.dashboardShare.update).toHaveBeenCalledWith({
+      where: { id: 'share-1' },
+      data: { revokedAt: expect.any(Date), revokedBy: 'user-1' },
+    });
+    expect(res.body.share.revokedBy).toBe('user-1');
+    expect(res.body.share.tokenHash).toBeUndefined();
+  });
+
+  it("does not reveal shares of other users' dashboards", async () => {
+    prismaMock.dashboardShare.findUnique.mockResolvedValue(buildShare({ dashboard: { ownerId: 'user-2' } }));
+
+    const res = await request(app).delete('/api/analytics/dashboards/shares/share-1');
+
+    expect(res.status).toBe(404);
+    expect(prismaMock.dashboardShare.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects revoking a share twice', async () => {
+    prismaMock.dashboardShare.findUnique.mockResolvedValue(buildShare({ revokedAt: new Date() }));
+
+    const res = await request(app).delete('/api/analytics/dashboards/shares/share-1');
+
+    expect(res.status).toBe(409);
+  });
+});
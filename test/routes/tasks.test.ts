@@ -11,6 +11,7 @@ const mockAuthenticate = vi.hoisted(() =>
 );
 
 const mockCheckProjectAccess = vi.hoisted(() => vi.fn());
+const mockQueuePayment = vi.hoisted(() => vi.fn());
 let app: any;
 
 vi.mock('../../src/utils/database.js', () => ({
@@ -37,6 +38,17 @@ vi.mock('../../src/services/websocket.js', () => ({
   broadcastTaskUpdated: vi.fn(),
 }));
 
+vi.mock('../../src/services/paymentQueue.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/services/paymentQueue.js')>()),
+  queuePayment: mockQueuePayment,
+  PAYOUT_BATCH_MODE: false,
+}));
+
+vi.mock('../../src/services/escrowLedger.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/services/escrowLedger.js')>()),
+  recordAllocation: vi.fn(),
+}));
+
 beforeAll(async () => {
   app = (await import('../../src/app.js')).default;
 });
@@ -196,3 +208,108 @@ describe('Kanban task endpoints', () => {
     expect(prismaMock.task.update).toHaveBeenCalled();
   });
 });
+
+describe('Department budget caps on task creation', () => {
+  const cookies = buildAuthCookies();
+
+  beforeEach(() => {
+    resetPrismaMock();
+    mockAuthenticate.mockClear();
+
+    prismaMock.department.findUnique.mockImplementation(async (args: any) =>
+      args.select
+        ? { id: 'dept-1', budgetAmount: 1000, budgetSoftCap: 0.8, budgetHardCap: 1 }
+        : { id: 'dept-1', projectId: 'proj-1', project: { id: 'proj-1' } }
+    );
+    prismaMock.userRole.findFirst.mockResolvedValue({ id: 'role-owner', role: 'PROJECT_OWNER', projectId: 'proj-1' });
+    prismaMock.projectEscrow.findUnique.mockResolvedValue({ assetId: BigInt(2905622564) });
+    prismaMock.task.aggregate.mockImplementation(async ({ where }: any) => ({
+      _sum: { paymentAmount: where.paymentStatus === 'PAID' ? 0 : 750 },
+    }));
+    prismaMock.task.create.mockImplementation(async ({ data }: any) => ({
+      id: 'task-new',
+      ...data,
+      department: { id: 'dept-1', projectId: 'proj-1' },
+      assignedRole: null,
+    }));
+  });
+
+  it('creates the task with a warning past the soft cap', async () => {
+    const response = await request(app)
+      .post('/api/tasks')
+      .set('Cookie', cookies)
+      .send({ title: 'Design review', departmentId: 'dept-1', paymentAmount: 100 })
+      .expect(201);
+
+    expect(response.body.budgetWarning).toContain('soft cap');
+    expect(prismaMock.$queryRaw).toHaveBeenCalled();
+    expect(prismaMock.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+      prismaMock.task.aggregate.mock.invocationCallOrder[0]
+    );
+  });
+
+  it('rejects the task past the hard cap without creating it', async () => {
+    const response = await request(app)
+      .post('/api/tasks')
+      .set('Cookie', cookies)
+      .send({ title: 'Design review', departmentId: 'dept-1', paymentAmount: 300 })
+      .expect(409);
+
+    expect(response.body.budget).toMatchObject({ hardCapAmount: 1000, allocated: 750 });
+    expect(prismaMock.task.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/tasks/:id/approve', () => {
+  const cookies = buildAuthCookies();
+
+  beforeEach(() => {
+    resetPrismaMock();
+    mockAuthenticate.mockClear();
+    mockQueuePayment.mockReset();
+
+    prismaMock.task.findUnique.mockResolvedValue({
+      id: 'task-1',
+      status: 'COMPLETED',
+      paymentAmount: 250,
+      paymentStatus: 'PENDING',
+      department: {
+        project: {
+          id: 'proj-1',
+          ownerId: 'user-1',
+          escrowFunded: true,
+          escrow: {
+            status: 'ACTIVE',
+            currentBalance: 1000,
+            assetId: BigInt(2905622564),
+            escrowAddress: 'ESCROW',
+            encryptedPrivateKey: 'key',
+          },
+        },
+      },
+      assignedTo: { id: 'user-2', walletAddress: 'WORKER', email: 'worker@siz.land' },
+    });
+    prismaMock.userRole.count.mockResolvedValue(0);
+    prismaMock.payment.create.mockResolvedValue({ id: 'payment-1' });
+    prismaMock.payment.update.mockResolvedValue({ id: 'payment-1' });
+    prismaMock.task.update.mockResolvedValue({ id: 'task-1' });
+    mockQueuePayment.mockResolvedValue('job-1');
+  });
+
+  it('queues one payout when two approvals race', async () => {
+    // Both requests read the task as COMPLETED; only the first conditional update matches
+    prismaMock.task.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+    const [first, second] = await Promise.all([
+      request(app).post('/api/tasks/task-1/approve').set('Cookie', cookies),
+      request(app).post('/api/tasks/task-1/approve').set('Cookie', cookies),
+    ]);
+
+    expect([first.status, second.status].sort()).toEqual([200, 409]);
+    expect(prismaMock.task.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'task-1', status: 'COMPLETED' } })
+    );
+    expect(prismaMock.payment.create).toHaveBeenCalledTimes(1);
+    expect(mockQueuePayment).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { prismaMock, resetPrismaMock } from '../utils/prismaMock.js';
+
+vi.mock('../../src/utils/database.js', () => ({
+  default: prismaMock,
+  prisma: prismaMock,
+}));
+
+import { checkBudgetCaps, lockDepartmentBudget, BudgetCapError } from '../../src/services/departmentBudget.js';
+
+function mockDepartment(budget: { budgetAmount: number | null; budgetSoftCap?: number | null; budgetHardCap?: number | null }, allocated: number) {
+  prismaMock.department.findUnique.mockResolvedValue({ id: 'dept-1', budgetSoftCap: null, budgetHardCap: null, ...budget });
+  prismaMock.task.aggregate.mockImplementation(async ({ where }: any) => ({
+    _sum: { paymentAmount: where.paymentStatus === 'PAID' ? 0 : allocated },
+  }));
+}
+
+describe('checkBudgetCaps', () => {
+  beforeEach(() => {
+    resetPrismaMock();
+  });
+
+  it('allows an allocation within the soft cap', async () => {
+    mockDepartment({ budgetAmount: 1000 }, 500);
+
+    const { usage, warning } = await checkBudgetCaps('dept-1', 100);
+
+    expect(warning).toBeNull();
+    expect(usage).toMatchObject({ allocated: 600, remaining: 400, softCapAmount: 900, hardCapAmount: 1000 });
+  });
+
+  it('warns past the soft cap', async () => {
+    mockDepartment({ budgetAmount: 1000 }, 850);
+
+    const { warning } = await checkBudgetCaps('dept-1', 100);
+
+    expect(warning).toContain('past the soft cap of 900');
+  });
+
+  it('rejects an allocation past the hard cap', async () => {
+    mockDepartment({ budgetAmount: 1000, budgetHardCap: 1.1 }, 1000);
+
+    await expect(checkBudgetCaps('dept-1', 150)).rejects.toMatchObject({
+      name: 'BudgetCapError',
+      statusCode: 409,
+      budget: expect.objectContaining({ hardCapAmount: 1100, allocated: 1000 }),
+    });
+    await expect(checkBudgetCaps('dept-1', 100)).resolves.toBeDefined();
+  });
+
+  it('leaves the edited task out of the allocated total', async () => {
+    mockDepartment({ budgetAmount: 1000 }, 900);
+
+    await expect(checkBudgetCaps('dept-1', 200, 'task-1')).rejects.toBeInstanceOf(BudgetCapError);
+    expect(prismaMock.task.aggregate).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ departmentId: 'dept-1', id: { not: 'task-1' } }) })
+    );
+  });
+
+  it('never caps departments without a budget', async () => {
+    mockDepartment({ budgetAmount: null }, 1_000_000);
+
+    const { warning, usage } = await checkBudgetCaps('dept-1', 500);
+
+    expect(warning).toBeNull();
+    expect(usage.remaining).toBeNull();
+  });
+
+  it('reads usage through the transaction that holds the department lock', async () => {
+    const tx = {
+      $queryRaw: vi.fn().mockResolvedValue([]),
+      department: { findUnique: vi.fn().mockResolvedValue({ id: 'dept-1', budgetAmount: 1000, budgetSoftCap: null, budgetHardCap: null }) },
+      task: { aggregate: vi.fn().mockResolvedValue({ _sum: { paymentAmount: 0 } }) },
+    };
+
+    await lockDepartmentBudget(tx as any, 'dept-1');
+    await checkBudgetCaps('dept-1', 100, undefined, tx as any);
+
+    const [strings, departmentId] = tx.$queryRaw.mock.calls[0];
+    expect(strings.join('?')).toContain('FOR UPDATE');
+    expect(departmentId).toBe('dept-1');
+    expect(tx.task.aggregate).toHaveBeenCalledTimes(2);
+    expect(prismaMock.task.aggregate).not.toHaveBeenCalled();
+  });
+});
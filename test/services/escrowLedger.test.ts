@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { prismaMock, resetPrismaMock } from '../utils/prismaMock.js';
+
+const mockGetEscrowBalance = vi.hoisted(() => vi.fn());
+const mockGetFullAddressHistory = vi.hoisted(() => vi.fn());
+
+vi.mock('../../src/utils/database.js', () => ({
+  default: prismaMock,
+  prisma: prismaMock,
+}));
+
+vi.mock('../../src/services/algorand.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/services/algorand.js')>()),
+  getEscrowBalance: mockGetEscrowBalance,
+  getFullAddressHistory: mockGetFullAddressHistory,
+}));
+
+import {
+  recordDeposit,
+  recordRelease,
+  getLedgerBalances,
+  reconcileProjectEscrow,
+  LEDGER_ACCOUNTS,
+} from '../../src/services/escrowLedger.js';
+
+const SIZCOIN_ASSET_ID = 2905622564;
+const ESCROW_ADDRESS = 'ESCROW-ADDRESS';
+
+describe('ledger posting', () => {
+  beforeEach(() => {
+    resetPrismaMock();
+    prismaMock.projectEscrow.findUnique.mockResolvedValue({ assetId: BigInt(SIZCOIN_ASSET_ID) });
+    prismaMock.escrowLedgerEntry.createMany.mockResolvedValue({ count: 2 });
+  });
+
+  it('posts a deposit as balanced debit and credit legs of one entry group', async () => {
+    const entryGroup = await recordDeposit('proj-1', 250, { txHash: 'TX-1' });
+
+    const [{ data }] = prismaMock.escrowLedgerEntry.createMany.mock.calls[0];
+    expect(data).toEqual([
+      expect.objectContaining({ account: LEDGER_ACCOUNTS.ESCROW_AVAILABLE, debit: 250, entryType: 'DEPOSIT', asset: 'SIZCOIN', txHash: 'TX-1' }),
+      expect.objectContaining({ account: LEDGER_ACCOUNTS.OWNER_FUNDING, credit: 250, entryType: 'DEPOSIT', asset: 'SIZCOIN', txHash: 'TX-1' }),
+    ]);
+    expect(data[0].entryGroup).toBe(entryGroup);
+    expect(data[1].entryGroup).toBe(entryGroup);
+  });
+
+  it('skips postings without a positive amount', async () => {
+    expect(await recordDeposit('proj-1', 0)).toBeNull();
+    expect(prismaMock.escrowLedgerEntry.createMany).not.toHaveBeenCalled();
+  });
+
+  it('releases allocated payouts from ESCROW_ALLOCATED and books the fee in ALGO', async () => {
+    await recordRelease('proj-1', 100, { fee: 0.001, fromAllocated: true, taskId: 'task-1' });
+
+    const [[release], [fee]] = prismaMock.escrowLedgerEntry.createMany.mock.calls;
+    expect(release.data).toEqual([
+      expect.objectContaining({ account: LEDGER_ACCOUNTS.PAYOUTS, debit: 100, entryType: 'RELEASE', taskId: 'task-1' }),
+      expect.objectContaining({ account: LEDGER_ACCOUNTS.ESCROW_ALLOCATED, credit: 100, entryType: 'RELEASE' }),
+    ]);
+    expect(fee.data).toEqual([
+      expect.objectContaining({ account: LEDGER_ACCOUNTS.NETWORK_FEES, debit: 0.001, entryType: 'FEE', asset: 'ALGO' }),
+      expect.objectContaining({ account: LEDGER_ACCOUNTS.ESCROW_ALGO, credit: 0.001, entryType: 'FEE', asset: 'ALGO' }),
+    ]);
+  });
+
+  it('does not throw when the ledger write fails after the transfer', async () => {
+    prismaMock.escrowLedgerEntry.createMany.mockRejectedValue(new Error('connection lost'));
+
+    await expect(recordDeposit('proj-1', 250)).resolves.toBeNull();
+  });
+
+  it('nets debits and credits per account', async () => {
+    prismaMock.escrowLedgerEntry.groupBy.mockResolvedValue([
+      { account: LEDGER_ACCOUNTS.ESCROW_AVAILABLE, _sum: { debit: 1000, credit: 400 } },
+      { account: LEDGER_ACCOUNTS.ESCROW_ALLOCATED, _sum: { debit: 300, credit: 100 } },
+      { account: LEDGER_ACCOUNTS.OWNER_FUNDING, _sum: { debit: 0, credit: 1000 } },
+      { account: LEDGER_ACCOUNTS.PAYOUTS, _sum: { debit: 100, credit: 0 } },
+    ]);
+
+    expect(await getLedgerBalances('proj-1', 'SIZCOIN')).toEqual({
+      asset: 'SIZCOIN',
+      available: 600,
+      allocated: 200,
+      escrow: 800,
+      ownerFunding: 1000,
+      payouts: 100,
+    });
+  });
+});
+
+describe('reconcileProjectEscrow', () => {
+  beforeEach(() => {
+    resetPrismaMock();
+    prismaMock.project.findUnique.mockResolvedValue({
+      id: 'proj-1',
+      releasedFunds: 100,
+      escrow: { escrowAddress: ESCROW_ADDRESS, multisigAddress: null, assetId: BigInt(SIZCOIN_ASSET_ID), currentBalance: 900 },
+    });
+    prismaMock.escrowLedgerEntry.groupBy.mockResolvedValue([
+      { account: LEDGER_ACCOUNTS.ESCROW_AVAILABLE, _sum: { debit: 1000, credit: 100 } },
+      { account: LEDGER_ACCOUNTS.OWNER_FUNDING, _sum: { debit: 0, credit: 1000 } },
+      { account: LEDGER_ACCOUNTS.PAYOUTS, _sum: { debit: 100, credit: 0 } },
+    ]);
+    prismaMock.escrowLedgerEntry.findMany.mockResolvedValue([
+      { txHash: 'DEPOSIT-TX', debit: 1000, credit: 0 },
+      { txHash: 'PAYOUT-TX', debit: 0, credit: 100 },
+    ]);
+    prismaMock.escrowReconciliation.create.mockImplementation(async ({ data }: any) => ({ id: 'report-1', ...data }));
+    mockGetEscrowBalance.mockResolvedValue(900);
+  });
+
+  it('reports MATCHED when ledger, recorded balance and chain agree', async () => {
+    mockGetFullAddressHistory.mockResolvedValue([
+      { txHash: 'DEPOSIT-TX', assetId: SIZCOIN_ASSET_ID, amount: 1000, fromAddress: 'OWNER', toAddress: ESCROW_ADDRESS },
+      { txHash: 'PAYOUT-TX', assetId: SIZCOIN_ASSET_ID, amount: 100, fromAddress: ESCROW_ADDRESS, toAddress: 'WORKER' },
+    ]);
+
+    const report = await reconcileProjectEscrow('proj-1');
+
+    expect(report.status).toBe('MATCHED');
+    expect(report.mismatches).toEqual([]);
+    expect(report.ledgerBalance).toBe(900);
+    expect(report.onChainBalance).toBe(900);
+  });
+
+  it('reports transfers missing from the ledger and the resulting drift', async () => {
+    mockGetEscrowBalance.mockResolvedValue(850);
+    mockGetFullAddressHistory.mockResolvedValue([
+      { txHash: 'DEPOSIT-TX', assetId: SIZCOIN_ASSET_ID, amount: 1000, fromAddress: 'OWNER', toAddress: ESCROW_ADDRESS },
+      { txHash: 'PAYOUT-TX', assetId: SIZCOIN_ASSET_ID, amount: 100, fromAddress: ESCROW_ADDRESS, toAddress: 'WORKER' },
+      { txHash: 'UNBOOKED-TX', assetId: SIZCOIN_ASSET_ID, amount: 50, fromAddress: ESCROW_ADDRESS, toAddress: 'WORKER' },
+      // Other assets are not part of the settlement balance
+      { txHash: 'ALGO-TX', assetId: 0, amount: 5, fromAddress: 'OWNER', toAddress: ESCROW_ADDRESS },
+    ]);
+
+    const report = await reconcileProjectEscrow('proj-1');
+
+    expect(report.status).toBe('MISMATCHED');
+    expect((report.mismatches as any[]).map((mismatch) => mismatch.kind).sort()).toEqual([
+      'BALANCE_DRIFT',
+      'MISSING_IN_LEDGER',
+      'RECORDED_BALANCE_DRIFT',
+    ]);
+    expect(report.mismatches).toContainEqual(expect.objectContaining({ kind: 'MISSING_IN_LEDGER', txHash: 'UNBOOKED-TX', actual: -50 }));
+  });
+
+  it('reports ledger transactions the indexer does not know', async () => {
+    mockGetFullAddressHistory.mockResolvedValue([
+      { txHash: 'DEPOSIT-TX', assetId: SIZCOIN_ASSET_ID, amount: 1000, fromAddress: 'OWNER', toAddress: ESCROW_ADDRESS },
+    ]);
+
+    const report = await reconcileProjectEscrow('proj-1');
+
+    expect(report.mismatches).toEqual([
+      expect.objectContaining({ kind: 'MISSING_ON_CHAIN', txHash: 'PAYOUT-TX', expected: -100 }),
+    ]);
+  });
+});
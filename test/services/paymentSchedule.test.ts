@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { schedulePeriods, resolvePayment, firstPaymentDate } from '../../src/services/paymentSchedule.js';
+
+const USDC_ASSET_ID = 10458941;
+
+function periods(schedule: Parameters<typeof schedulePeriods>[0]) {
+  return [...schedulePeriods(schedule)].map((period) => ({
+    paymentDate: period.paymentDate.toISOString().slice(0, 10),
+    amount: period.amount,
+    prorated: period.prorated,
+  }));
+}
+
+describe('schedulePeriods', () => {
+  it('prorates the first and last month of a MONTHLY schedule', () => {
+    const result = periods({
+      frequency: 'MONTHLY',
+      startDate: new Date('2026-01-15T00:00:00Z'),
+      endDate: new Date('2026-04-10T00:00:00Z'),
+      amount: 1000,
+    });
+
+    expect(result).toEqual([
+      { paymentDate: '2026-01-31', amount: 516.13, prorated: true },
+      { paymentDate: '2026-02-28', amount: 1000, prorated: false },
+      { paymentDate: '2026-03-31', amount: 1000, prorated: false },
+      { paymentDate: '2026-04-10', amount: 333.33, prorated: true },
+    ]);
+  });
+
+  it('pays a full first period when the schedule starts on a boundary', () => {
+    const [first] = periods({
+      frequency: 'MONTHLY',
+      startDate: new Date('2026-01-31T00:00:00Z'),
+      amount: 1000,
+    });
+
+    expect(first).toEqual({ paymentDate: '2026-02-28', amount: 1000, prorated: false });
+  });
+
+  it('prorates a WEEKLY schedule that starts mid-week', () => {
+    const [first, second] = periods({
+      frequency: 'WEEKLY',
+      startDate: new Date('2026-01-15T00:00:00Z'), // Thursday
+      amount: 700,
+    });
+
+    expect(first).toEqual({ paymentDate: '2026-01-19', amount: 400, prorated: true });
+    expect(second).toEqual({ paymentDate: '2026-01-26', amount: 700, prorated: false });
+  });
+
+  it('ends QUARTERLY periods on the last day of the quarter', () => {
+    const result = periods({
+      frequency: 'QUARTERLY',
+      startDate: new Date('2026-02-15T00:00:00Z'),
+      endDate: new Date('2026-09-30T00:00:00Z'),
+      amount: 3000,
+    });
+
+    expect(result.map((period) => period.paymentDate)).toEqual(['2026-03-31', '2026-06-30', '2026-09-30']);
+    expect(result[0].prorated).toBe(true);
+    expect(result.slice(1).every((period) => !period.prorated)).toBe(true);
+  });
+
+  it('rounds prorated amounts to the asset decimals', () => {
+    const schedule = {
+      frequency: 'WEEKLY',
+      startDate: new Date('2026-01-13T00:00:00Z'), // Tuesday: 6 of 7 days
+      amount: 100,
+    };
+
+    expect(periods(schedule)[0].amount).toBe(85.71);
+    expect(periods({ ...schedule, assetId: USDC_ASSET_ID })[0].amount).toBe(85.714286);
+  });
+});
+
+describe('resolvePayment', () => {
+  it('returns the prorated amount and the next payment date', () => {
+    const schedule = {
+      frequency: 'MONTHLY',
+      startDate: new Date('2026-01-15T00:00:00Z'),
+      amount: 1000,
+    };
+
+    expect(firstPaymentDate(schedule)).toEqual(new Date('2026-01-31T00:00:00Z'));
+    expect(resolvePayment(schedule, new Date('2026-01-31T00:00:00Z'))).toEqual({
+      amount: 516.13,
+      prorated: true,
+      nextPaymentDate: new Date('2026-02-28T00:00:00Z'),
+    });
+  });
+
+  it('pays the full amount on dates off the schedule and steps to the next boundary', () => {
+    const schedule = {
+      frequency: 'MONTHLY',
+      startDate: new Date('2026-01-15T00:00:00Z'),
+      amount: 1000,
+    };
+
+    expect(resolvePayment(schedule, new Date('2026-02-15T00:00:00Z'))).toEqual({
+      amount: 1000,
+      prorated: false,
+      nextPaymentDate: new Date('2026-02-28T00:00:00Z'),
+    });
+  });
+});
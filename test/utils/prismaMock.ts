@@ -4,6 +4,7 @@ type MockFn = Mock<(...args: any[]) => any>;
 
 type PrismaMock = {
   $transaction: MockFn;
+  $queryRaw: MockFn;
   user: {
     findUnique: MockFn;
     create: MockFn;
@@ -12,10 +13,12 @@ type PrismaMock = {
     findMany: MockFn;
     findFirst: MockFn;
     create: MockFn;
+    count: MockFn;
   };
   project: {
     findMany: MockFn;
     findFirst: MockFn;
+    findUnique: MockFn;
     create: MockFn;
   };
   projectTag: {
@@ -28,6 +31,13 @@ type PrismaMock = {
   task: {
     findMany: MockFn;
     findUnique: MockFn;
+    create: MockFn;
+    update: MockFn;
+    updateMany: MockFn;
+    aggregate: MockFn;
+  };
+  payment: {
+    create: MockFn;
     update: MockFn;
   };
   projectInvite: {
@@ -36,12 +46,38 @@ type PrismaMock = {
   taskActivity: {
     create: MockFn;
   };
+  milestone: {
+    findUnique: MockFn;
+    updateMany: MockFn;
+  };
+  projectEscrow: {
+    findUnique: MockFn;
+  };
+  escrowLedgerEntry: {
+    createMany: MockFn;
+    groupBy: MockFn;
+    findMany: MockFn;
+  };
+  escrowReconciliation: {
+    create: MockFn;
+  };
+  dashboardShare: {
+    findUnique: MockFn;
+    update: MockFn;
+  };
+  dashboardShareAccess: {
+    create: MockFn;
+  };
+  customReport: {
+    findMany: MockFn;
+  };
 };
 
 const buildFn = () => vi.fn();
 
 export const prismaMock: PrismaMock = {
   $transaction: vi.fn(),
+  $queryRaw: vi.fn(),
   user: {
     findUnique: buildFn(),
     create: buildFn(),
@@ -50,10 +86,12 @@ export const prismaMock: PrismaMock = {
     findMany: buildFn(),
     findFirst: buildFn(),
     create: buildFn(),
+    count: buildFn(),
   },
   project: {
     findMany: buildFn(),
     findFirst: buildFn(),
+    findUnique: buildFn(),
     create: buildFn(),
   },
   projectTag: {
@@ -66,6 +104,13 @@ export const prismaMock: PrismaMock = {
   task: {
     findMany: buildFn(),
     findUnique: buildFn(),
+    create: buildFn(),
+    update: buildFn(),
+    updateMany: buildFn(),
+    aggregate: buildFn(),
+  },
+  payment: {
+    create: buildFn(),
     update: buildFn(),
   },
   projectInvite: {
@@ -74,28 +119,74 @@ export const prismaMock: PrismaMock = {
   taskActivity: {
     create: buildFn(),
   },
+  milestone: {
+    findUnique: buildFn(),
+    updateMany: buildFn(),
+  },
+  projectEscrow: {
+    findUnique: buildFn(),
+  },
+  escrowLedgerEntry: {
+    createMany: buildFn(),
+    groupBy: buildFn(),
+    findMany: buildFn(),
+  },
+  escrowReconciliation: {
+    create: buildFn(),
+  },
+  dashboardShare: {
+    findUnique: buildFn(),
+    update: buildFn(),
+  },
+  dashboardShareAccess: {
+    create: buildFn(),
+  },
+  customReport: {
+    findMany: buildFn(),
+  },
 };
 
 export function resetPrismaMock() {
-  prismaMock.$transaction.mockImplementation(async (cb: any) => cb(prismaMock));
+  // Interactive transactions get the mock as their client; batches resolve their queries in order
+  prismaMock.$transaction.mockImplementation(async (arg: any) => (Array.isArray(arg) ? Promise.all(arg) : arg(prismaMock)));
   prismaMock.user.findUnique.mockReset();
   prismaMock.user.create.mockReset();
   prismaMock.userRole.findMany.mockReset();
   prismaMock.userRole.findFirst.mockReset();
   prismaMock.userRole.create.mockReset();
+  prismaMock.userRole.count.mockReset();
   prismaMock.project.findMany.mockReset();
   prismaMock.project.findFirst.mockReset();
+  prismaMock.project.findUnique.mockReset();
   prismaMock.project.create.mockReset();
   prismaMock.projectTag.create.mockReset();
   prismaMock.department.create.mockReset();
   prismaMock.department.findUnique.mockReset();
   prismaMock.task.findMany.mockReset();
   prismaMock.task.findUnique.mockReset();
+  prismaMock.task.create.mockReset();
   prismaMock.task.update.mockReset();
+  prismaMock.task.updateMany.mockReset();
+  prismaMock.task.aggregate.mockReset();
+  prismaMock.payment.create.mockReset();
+  prismaMock.payment.update.mockReset();
   prismaMock.projectInvite.create.mockReset();
   prismaMock.taskActivity.create.mockReset();
+  prismaMock.milestone.findUnique.mockReset();
+  prismaMock.milestone.updateMany.mockReset();
+  prismaMock.projectEscrow.findUnique.mockReset();
+  prismaMock.escrowLedgerEntry.createMany.mockReset();
+  prismaMock.escrowLedgerEntry.groupBy.mockReset();
+  prismaMock.escrowLedgerEntry.findMany.mockReset();
+  prismaMock.escrowReconciliation.create.mockReset();
+  prismaMock.dashboardShare.findUnique.mockReset();
+  prismaMock.dashboardShare.update.mockReset();
+  prismaMock.dashboardShareAccess.create.mockReset();
+  prismaMock.customReport.findMany.mockReset();
 
   prismaMock.$transaction.mockClear();
+  prismaMock.$queryRaw.mockReset();
+  prismaMock.$queryRaw.mockResolvedValue([]);
 }
 
 resetPrismaMock();